@@ -1,32 +1,10 @@
 import { NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import path from 'path';
-import os from 'os';
-
-const execAsync = promisify(exec);
-
-// Allowed model values
-const VALID_MODELS = ['opus', 'sonnet', 'haiku'] as const;
-type ModelType = typeof VALID_MODELS[number];
-
-// Security: Validate that the instance path is within allowed directories
-const ALLOWED_BASE_PATHS = [
-  path.join(os.homedir(), 'claude-managers'),
-  path.join(os.homedir(), 'claude-manager-worker'),
-  '/opt/claude-managers',
-];
-
-function isPathAllowed(testPath: string): boolean {
-  const normalizedPath = path.normalize(path.resolve(testPath));
-  return ALLOWED_BASE_PATHS.some((basePath) =>
-    normalizedPath.startsWith(path.normalize(basePath))
-  );
-}
-
-function isValidModel(model: unknown): model is ModelType {
-  return typeof model === 'string' && VALID_MODELS.includes(model as ModelType);
-}
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { describeFailures, parseStartOptions, processSupervisor } from '@/lib/api/process-supervisor';
+import { MODEL_ALIAS_INFO, MODEL_CATALOG } from '@/lib/llm/models';
+import { getLlmSettingsPath, readLlmSettings, resolveFeatureSettings, resolveModel } from '@/lib/llm/provider';
+import { LLM_FEATURES, MODEL_ALIASES } from '@/lib/types/llm';
+import { MAX_ITERATIONS_LIMIT } from '@/lib/types/supervisor';
 
 /**
  * POST /api/control/models
@@ -72,96 +50,66 @@ export async function POST(request: Request) {
       );
     }
 
-    const { instancePath, workerModel, managerModel, maxIterations } = body as Record<string, unknown>;
+    const { instancePath: instanceRef, workerModel, managerModel } = body as Record<string, unknown>;
 
     // Validate required fields
-    if (typeof instancePath !== 'string' || !instancePath) {
+    if (typeof instanceRef !== 'string' || !instanceRef) {
       return NextResponse.json(
         { error: 'instancePath is required and must be a string' },
         { status: 400 }
       );
     }
 
-    if (!isValidModel(workerModel)) {
+    if (workerModel === undefined || managerModel === undefined) {
       return NextResponse.json(
-        { error: `workerModel must be one of: ${VALID_MODELS.join(', ')}` },
+        { error: `workerModel and managerModel are required (one of: ${MODEL_ALIASES.join(', ')})` },
         { status: 400 }
       );
     }
 
-    if (!isValidModel(managerModel)) {
-      return NextResponse.json(
-        { error: `managerModel must be one of: ${VALID_MODELS.join(', ')}` },
-        { status: 400 }
-      );
+    // Models and optional maxIterations (default: essentially infinite)
+    const { options, error } = parseStartOptions({
+      maxIterations: MAX_ITERATIONS_LIMIT,
+      ...(body as Record<string, unknown>),
+      noManager: false,
+    });
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
     }
 
-    // Validate path traversal
-    if (!isPathAllowed(instancePath)) {
+    // Resolve the instance through the registry
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
       );
     }
 
-    // Validate optional maxIterations
-    let iterations = 999999; // Default to essentially infinite
-    if (maxIterations !== undefined) {
-      if (typeof maxIterations !== 'number' || maxIterations < 1 || maxIterations > 999999) {
-        return NextResponse.json(
-          { error: 'maxIterations must be a number between 1 and 999999' },
-          { status: 400 }
-        );
-      }
-      iterations = maxIterations;
-    }
-
-    const scriptPath = path.join(instancePath, 'scripts', 'orchestrator.sh');
+    // Stop the current processes and start again with the new models
+    console.log(`[Model Switch] Restarting ${instancePath} with worker=${workerModel}, manager=${managerModel}`);
+    const result = await processSupervisor.restart(instancePath, options);
 
-    // Stop current instance
-    console.log(`[Model Switch] Stopping instance at ${instancePath}`);
-    try {
-      await execAsync(`cd "${instancePath}" && "${scriptPath}" stop`, {
-        timeout: 30000, // 30 second timeout for stop
-      });
-    } catch (stopError: unknown) {
-      // Log but continue - instance might not be running
-      console.log('[Model Switch] Stop command result:', stopError);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: describeFailures(result), details: result },
+        { status: 500 }
+      );
     }
 
-    // Wait for clean shutdown
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-
-    // Start with new models
-    console.log(`[Model Switch] Starting with worker=${workerModel}, manager=${managerModel}`);
-    const startCommand = `cd "${instancePath}" && "${scriptPath}" start --worker-model ${workerModel} --manager-model ${managerModel} --max-iterations ${iterations}`;
-
-    const { stdout, stderr } = await execAsync(startCommand, {
-      timeout: 60000, // 60 second timeout for start
-    });
-
     return NextResponse.json({
       success: true,
       workerModel,
       managerModel,
-      maxIterations: iterations,
+      maxIterations: options.maxIterations,
       message: 'Models updated successfully',
-      output: stdout,
-      warnings: stderr || undefined,
+      results: result.results,
     });
   } catch (error: unknown) {
     console.error('[Model Switch] Error:', error);
 
-    const errorObj = error as { message?: string; stdout?: string; stderr?: string };
-
     return NextResponse.json(
-      {
-        error: errorObj.message || 'Failed to update models',
-        details: {
-          stdout: errorObj.stdout,
-          stderr: errorObj.stderr,
-        },
-      },
+      { error: error instanceof Error ? error.message : 'Failed to update models' },
       { status: 500 }
     );
   }
@@ -169,25 +117,20 @@ export async function POST(request: Request) {
 
 /**
  * GET /api/control/models
- * Get available models and current selection
+ * Get available models, the model id each resolves to for dashboard calls, the model catalog,
+ * and what each dashboard feature calls with (from llm.json and the defaults)
  */
 export async function GET() {
+  const settings = await readLlmSettings();
   return NextResponse.json({
-    availableModels: VALID_MODELS.map((id) => ({
-      id,
-      name: id.charAt(0).toUpperCase() + id.slice(1),
-      description: getModelDescription(id),
+    availableModels: MODEL_ALIAS_INFO.map(({ alias, name, description }) => ({
+      id: alias,
+      name,
+      description,
+      model: resolveModel(alias, settings),
     })),
+    catalog: MODEL_CATALOG,
+    settingsFile: getLlmSettingsPath(),
+    features: LLM_FEATURES.map(feature => resolveFeatureSettings(feature, settings)),
   });
 }
-
-function getModelDescription(model: ModelType): string {
-  switch (model) {
-    case 'opus':
-      return 'Most powerful and capable model';
-    case 'sonnet':
-      return 'Balanced performance and speed';
-    case 'haiku':
-      return 'Fastest and most efficient';
-  }
-}
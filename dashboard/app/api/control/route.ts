@@ -1,61 +1,108 @@
 import { NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import path from 'path';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { describeFailures, parseStartOptions, processSupervisor } from '@/lib/api/process-supervisor';
+import type { SupervisorAction, SupervisorResult } from '@/lib/types/supervisor';
 
-const execAsync = promisify(exec);
+const ACTIONS: SupervisorAction[] = ['start', 'stop', 'drain', 'restart', 'pause', 'resume'];
 
+// GET: Worker and manager process state (PIDs, last exit codes, worker pause)
+export async function GET(request: Request) {
+  try {
+    const instanceRef = new URL(request.url).searchParams.get('instancePath');
+    if (!instanceRef) {
+      return NextResponse.json(
+        { error: 'instancePath is required' },
+        { status: 400 }
+      );
+    }
+
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      instancePath,
+      processes: await processSupervisor.getProcesses(instancePath),
+    });
+  } catch (error) {
+    console.error('Control status error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Start, stop or restart an instance's worker and manager, or drain/pause/resume the worker
+// Body: { action, instancePath, workerModel?, managerModel?, maxIterations?, noManager? }
+// Drain and pause take effect once the worker's current iteration finishes
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const { action, instancePath, workerModel, managerModel, maxIterations } = body;
+    const { action, instancePath: instanceRef } = body;
 
-    if (!action || !instancePath) {
+    if (!action || !instanceRef) {
       return NextResponse.json(
         { error: 'Action and instancePath are required' },
         { status: 400 }
       );
     }
 
-    const scriptPath = path.join(instancePath, 'scripts', 'orchestrator.sh');
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
 
-    let command = '';
+    const { options, error } = parseStartOptions(body);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
 
-    switch (action) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    let result: SupervisorResult;
+    switch (action as SupervisorAction) {
       case 'start':
-        const models = `--worker-model ${workerModel || 'sonnet'} --manager-model ${managerModel || 'opus'}`;
-        const iterations = maxIterations ? `--max-iterations ${maxIterations}` : '';
-        command = `cd "${instancePath}" && "${scriptPath}" start ${models} ${iterations}`;
+        result = await processSupervisor.start(instancePath, options);
         break;
-
       case 'stop':
-        command = `cd "${instancePath}" && "${scriptPath}" stop`;
+        result = await processSupervisor.stop(instancePath);
+        break;
+      case 'drain':
+        result = await processSupervisor.drain(instancePath);
         break;
-
       case 'restart':
-        command = `cd "${instancePath}" && "${scriptPath}" stop && sleep 2 && "${scriptPath}" start`;
+        result = await processSupervisor.restart(instancePath, options);
+        break;
+      case 'pause':
+        result = await processSupervisor.pause(instancePath);
+        break;
+      case 'resume':
+        result = await processSupervisor.resume(instancePath);
         break;
-
-      default:
-        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
 
-    const { stdout, stderr } = await execAsync(command);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: describeFailures(result), ...result },
+        { status: 500 }
+      );
+    }
 
-    return NextResponse.json({
-      success: true,
-      action,
-      stdout,
-      stderr,
-    });
-  } catch (error: any) {
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
     console.error('Control error:', error);
     return NextResponse.json(
-      {
-        error: error.message || String(error),
-        stdout: error.stdout,
-        stderr: error.stderr,
-      },
+      { error: error instanceof Error ? error.message : String(error) },
       { status: 500 }
     );
   }
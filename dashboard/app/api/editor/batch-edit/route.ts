@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
 import crypto from 'crypto';
 import Anthropic from '@anthropic-ai/sdk';
+import { computeDiff, type DiffLine } from '@/lib/api/diff';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
+import { llmProvider } from '@/lib/llm/provider';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,24 +14,6 @@ const MAX_COMMAND_LENGTH = 1000;
 const MAX_FILES = 10;
 const MAX_VERSIONS = 50;
 
-// Allowed base path for security
-const ALLOWED_BASE = path.join(os.homedir(), 'claude-managers');
-
-// Initialize Anthropic client
-const anthropic = new Anthropic();
-
-function isPathAllowed(testPath: string): boolean {
-  const normalized = path.normalize(path.resolve(testPath));
-  return normalized.startsWith(path.normalize(ALLOWED_BASE));
-}
-
-interface DiffLine {
-  type: 'add' | 'remove' | 'unchanged' | 'modify';
-  lineNumber?: number;
-  content: string;
-  oldContent?: string;
-}
-
 interface Version {
   id: string;
   timestamp: string;
@@ -85,8 +69,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate path
-    const instancePath = decodeURIComponent(instanceId);
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceId);
+    if (!instancePath) {
       return NextResponse.json({ error: 'Invalid instance path' }, { status: 403 });
     }
 
@@ -112,8 +96,14 @@ export async function POST(request: NextRequest) {
           }
 
           // Load file content
-          const prdsDir = path.join(instancePath, 'prds');
-          const prdPath = path.join(prdsDir, sanitizedPrdFile);
+          const prdPath = await resolveWithin(instancePath, 'prds', sanitizedPrdFile);
+          if (!prdPath) {
+            return {
+              prdFile,
+              success: false,
+              error: 'Invalid file path',
+            };
+          }
 
           let currentContent: string;
           try {
@@ -136,7 +126,7 @@ export async function POST(request: NextRequest) {
           }
 
           // Process the command with AI
-          const result = await processCommand(prdFile, currentContent, command);
+          const result = await processCommand(instancePath, prdFile, currentContent, command);
 
           if (!result.success) {
             return {
@@ -211,6 +201,7 @@ export async function POST(request: NextRequest) {
 }
 
 async function processCommand(
+  instancePath: string,
   prdFile: string,
   currentContent: string,
   command: string
@@ -263,12 +254,10 @@ Command to apply: "${command}"
 
 Please apply this command to the PRD and return the updated content in the specified format.`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 8000,
+    const response = await llmProvider.createMessage('editor-batch-edit', {
       system: systemPrompt,
       messages: [{ role: 'user', content: userPrompt }],
-    });
+    }, { instancePath });
 
     const responseContent = response.content[0];
     if (responseContent.type !== 'text') {
@@ -320,7 +309,10 @@ async function saveVersion(
   await fs.mkdir(prdsDir, { recursive: true });
 
   // Load existing versions
-  const versionsFile = path.join(versionsDir, `${prdFile}.versions.json`);
+  const versionsFile = await resolveWithin(instancePath, '.prd-versions', `${prdFile}.versions.json`);
+  if (!versionsFile) {
+    throw new Error('Invalid versions file path');
+  }
   let versionData: VersionFile = { versions: [] };
 
   try {
@@ -354,92 +346,13 @@ async function saveVersion(
   await fs.rename(tempVersionsFile, versionsFile);
 
   // Save the actual PRD file
-  const prdPath = path.join(prdsDir, prdFile);
+  const prdPath = await resolveWithin(instancePath, 'prds', prdFile);
+  if (!prdPath) {
+    throw new Error('Invalid PRD file path');
+  }
   const tempPrdFile = `${prdPath}.${Date.now()}.tmp`;
   await fs.writeFile(tempPrdFile, content);
   await fs.rename(tempPrdFile, prdPath);
 
   return versionId;
 }
-
-function computeDiff(oldContent: string, newContent: string): DiffLine[] {
-  const oldLines = oldContent.split('\n');
-  const newLines = newContent.split('\n');
-  const diff: DiffLine[] = [];
-
-  // Simple LCS-based diff
-  const lcs = longestCommonSubsequence(oldLines, newLines);
-  let oldIndex = 0;
-  let newIndex = 0;
-  let lcsIndex = 0;
-  let lineNumber = 1;
-
-  while (oldIndex < oldLines.length || newIndex < newLines.length) {
-    if (lcsIndex < lcs.length && oldIndex < oldLines.length && oldLines[oldIndex] === lcs[lcsIndex]) {
-      if (newIndex < newLines.length && newLines[newIndex] === lcs[lcsIndex]) {
-        // Unchanged line
-        diff.push({
-          type: 'unchanged',
-          lineNumber: lineNumber++,
-          content: oldLines[oldIndex],
-        });
-        newIndex++;
-      }
-      oldIndex++;
-      lcsIndex++;
-    } else if (newIndex < newLines.length && (lcsIndex >= lcs.length || newLines[newIndex] !== lcs[lcsIndex])) {
-      // Added line
-      diff.push({
-        type: 'add',
-        lineNumber: lineNumber++,
-        content: newLines[newIndex],
-      });
-      newIndex++;
-    } else if (oldIndex < oldLines.length && (lcsIndex >= lcs.length || oldLines[oldIndex] !== lcs[lcsIndex])) {
-      // Removed line
-      diff.push({
-        type: 'remove',
-        lineNumber: lineNumber++,
-        content: oldLines[oldIndex],
-      });
-      oldIndex++;
-    }
-  }
-
-  // Filter to only show changes (not unchanged lines)
-  return diff.filter(line => line.type !== 'unchanged');
-}
-
-function longestCommonSubsequence(a: string[], b: string[]): string[] {
-  const m = a.length;
-  const n = b.length;
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (a[i - 1] === b[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-      }
-    }
-  }
-
-  const lcs: string[] = [];
-  let i = m;
-  let j = n;
-
-  while (i > 0 && j > 0) {
-    if (a[i - 1] === b[j - 1]) {
-      lcs.unshift(a[i - 1]);
-      i--;
-      j--;
-    } else if (dp[i - 1][j] > dp[i][j - 1]) {
-      i--;
-    } else {
-      j--;
-    }
-  }
-
-  return lcs;
-}
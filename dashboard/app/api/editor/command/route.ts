@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
+import { computeDiff, type DiffLine } from '@/lib/api/diff';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { llmProvider } from '@/lib/llm/provider';
 
 export const dynamic = 'force-dynamic';
 
 const MAX_CONTENT_LENGTH = 200000;
 const MAX_COMMAND_LENGTH = 1000;
 
-// Initialize Anthropic client
-const anthropic = new Anthropic();
-
 // Command patterns for quick processing
 const COMMAND_PATTERNS = {
   undo: /^(no|undo|cancel|reject)$/i,
@@ -27,13 +27,6 @@ const COMMAND_PATTERNS = {
   fillPlaceholders: /^(fill\s+in|complete)\s+(placeholder|missing)\s*(content|sections?)?$/i,
 };
 
-interface DiffLine {
-  type: 'add' | 'remove' | 'unchanged' | 'modify';
-  lineNumber?: number;
-  content: string;
-  oldContent?: string;
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -105,14 +98,12 @@ export async function POST(request: NextRequest) {
     );
 
     // Call Claude API
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 8000,
+    const response = await llmProvider.createMessage('editor-command', {
       system: systemPrompt,
       messages: [
         { role: 'user', content: userPrompt },
       ],
-    });
+    }, { instancePath: await resolveInstancePath(instanceId) });
 
     // Extract the response content
     const responseContent = response.content[0];
@@ -277,85 +268,3 @@ function parseAIResponse(response: string, originalContent: string): {
     explanation,
   };
 }
-
-function computeDiff(oldContent: string, newContent: string): DiffLine[] {
-  const oldLines = oldContent.split('\n');
-  const newLines = newContent.split('\n');
-  const diff: DiffLine[] = [];
-
-  // Simple LCS-based diff
-  const lcs = longestCommonSubsequence(oldLines, newLines);
-  let oldIndex = 0;
-  let newIndex = 0;
-  let lcsIndex = 0;
-  let lineNumber = 1;
-
-  while (oldIndex < oldLines.length || newIndex < newLines.length) {
-    if (lcsIndex < lcs.length && oldIndex < oldLines.length && oldLines[oldIndex] === lcs[lcsIndex]) {
-      if (newIndex < newLines.length && newLines[newIndex] === lcs[lcsIndex]) {
-        // Unchanged line
-        diff.push({
-          type: 'unchanged',
-          lineNumber: lineNumber++,
-          content: oldLines[oldIndex],
-        });
-        newIndex++;
-      }
-      oldIndex++;
-      lcsIndex++;
-    } else if (newIndex < newLines.length && (lcsIndex >= lcs.length || newLines[newIndex] !== lcs[lcsIndex])) {
-      // Added line
-      diff.push({
-        type: 'add',
-        lineNumber: lineNumber++,
-        content: newLines[newIndex],
-      });
-      newIndex++;
-    } else if (oldIndex < oldLines.length && (lcsIndex >= lcs.length || oldLines[oldIndex] !== lcs[lcsIndex])) {
-      // Removed line
-      diff.push({
-        type: 'remove',
-        lineNumber: lineNumber++,
-        content: oldLines[oldIndex],
-      });
-      oldIndex++;
-    }
-  }
-
-  // Filter to only show changes (not unchanged lines)
-  return diff.filter(line => line.type !== 'unchanged');
-}
-
-function longestCommonSubsequence(a: string[], b: string[]): string[] {
-  const m = a.length;
-  const n = b.length;
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (a[i - 1] === b[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-      }
-    }
-  }
-
-  const lcs: string[] = [];
-  let i = m;
-  let j = n;
-
-  while (i > 0 && j > 0) {
-    if (a[i - 1] === b[j - 1]) {
-      lcs.unshift(a[i - 1]);
-      i--;
-      j--;
-    } else if (dp[i - 1][j] > dp[i][j - 1]) {
-      i--;
-    } else {
-      j--;
-    }
-  }
-
-  return lcs;
-}
@@ -1,18 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
-import path from 'path';
-import os from 'os';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
 
 export const dynamic = 'force-dynamic';
 
-// Allowed base path for security
-const ALLOWED_BASE = path.join(os.homedir(), 'claude-managers');
-
-function isPathAllowed(testPath: string): boolean {
-  const normalized = path.normalize(path.resolve(testPath));
-  return normalized.startsWith(path.normalize(ALLOWED_BASE));
-}
-
 interface Version {
   id: string;
   timestamp: string;
@@ -41,8 +32,8 @@ export async function GET(
     }
 
     // Decode and validate path
-    const instancePath = decodeURIComponent(instanceId);
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceId);
+    if (!instancePath) {
       return NextResponse.json({ error: 'Invalid instance path' }, { status: 403 });
     }
 
@@ -51,8 +42,11 @@ export async function GET(
     const sanitizedPrdFile = decodedPrdFile.replace(/[^a-zA-Z0-9_\-\.]/g, '_');
 
     // Load versions
-    const versionsDir = path.join(instancePath, '.prd-versions');
-    const versionsFile = path.join(versionsDir, `${sanitizedPrdFile}.versions.json`);
+    const versionsFile = await resolveWithin(instancePath, '.prd-versions', `${sanitizedPrdFile}.versions.json`);
+
+    if (!versionsFile) {
+      return NextResponse.json({ error: 'Invalid file path' }, { status: 403 });
+    }
 
     let versionData: VersionFile = { versions: [] };
 
@@ -1,46 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
 
 export const dynamic = 'force-dynamic';
 
-// Allowed base path for security
-const ALLOWED_BASE = path.join(os.homedir(), 'claude-managers');
-
-function isPathAllowed(testPath: string): boolean {
-  const normalized = path.normalize(path.resolve(testPath));
-  return normalized.startsWith(path.normalize(ALLOWED_BASE));
-}
-
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const filePath = searchParams.get('path');
+    const instanceId = searchParams.get('instanceId');
+    const prdFile = searchParams.get('prdFile');
 
-    if (!filePath || typeof filePath !== 'string') {
-      return NextResponse.json({ error: 'path parameter is required' }, { status: 400 });
+    if (!instanceId || !prdFile) {
+      return NextResponse.json({ error: 'instanceId and prdFile parameters are required' }, { status: 400 });
     }
 
-    // Decode the path
-    const decodedPath = decodeURIComponent(filePath);
-
-    // Validate path
-    if (!isPathAllowed(decodedPath)) {
-      return NextResponse.json({ error: 'Invalid file path' }, { status: 403 });
+    // Resolve the instance through the registry
+    const instancePath = await resolveInstancePath(instanceId);
+    if (!instancePath) {
+      return NextResponse.json({ error: 'Invalid instance path' }, { status: 403 });
     }
 
-    // Check file extension
-    if (!decodedPath.endsWith('.md')) {
+    // Only plain markdown filenames inside prds/
+    if (prdFile !== path.basename(prdFile) || !prdFile.endsWith('.md')) {
       return NextResponse.json({ error: 'Only markdown files are allowed' }, { status: 400 });
     }
 
+    const filePath = await resolveWithin(instancePath, 'prds', prdFile);
+
+    if (!filePath) {
+      return NextResponse.json({ error: 'Invalid file path' }, { status: 403 });
+    }
+
     // Read the file
     try {
-      const content = await fs.readFile(decodedPath, 'utf-8');
+      const content = await fs.readFile(filePath, 'utf-8');
       return NextResponse.json({
         content,
-        path: decodedPath,
+        path: filePath,
         size: content.length,
       });
     } catch (err) {
@@ -1,19 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
-import path from 'path';
-import os from 'os';
 import crypto from 'crypto';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
 
 export const dynamic = 'force-dynamic';
 
-// Allowed base path for security
-const ALLOWED_BASE = path.join(os.homedir(), 'claude-managers');
-
-function isPathAllowed(testPath: string): boolean {
-  const normalized = path.normalize(path.resolve(testPath));
-  return normalized.startsWith(path.normalize(ALLOWED_BASE));
-}
-
 interface Version {
   id: string;
   timestamp: string;
@@ -45,8 +36,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate path
-    const instancePath = decodeURIComponent(instanceId);
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceId);
+    if (!instancePath) {
       return NextResponse.json({ error: 'Invalid instance path' }, { status: 403 });
     }
 
@@ -54,8 +45,12 @@ export async function POST(request: NextRequest) {
     const sanitizedPrdFile = prdFile.replace(/[^a-zA-Z0-9_\-\.]/g, '_');
 
     // Load versions
-    const versionsDir = path.join(instancePath, '.prd-versions');
-    const versionsFile = path.join(versionsDir, `${sanitizedPrdFile}.versions.json`);
+    const versionsFile = await resolveWithin(instancePath, '.prd-versions', `${sanitizedPrdFile}.versions.json`);
+    const prdPath = await resolveWithin(instancePath, 'prds', sanitizedPrdFile);
+
+    if (!versionsFile || !prdPath) {
+      return NextResponse.json({ error: 'Invalid file path' }, { status: 403 });
+    }
 
     let versionData: VersionFile;
     try {
@@ -95,8 +90,6 @@ export async function POST(request: NextRequest) {
     await fs.rename(tempVersionsFile, versionsFile);
 
     // Save the reverted content to the actual PRD file
-    const prdsDir = path.join(instancePath, 'prds');
-    const prdPath = path.join(prdsDir, sanitizedPrdFile);
     const tempPrdFile = `${prdPath}.${Date.now()}.tmp`;
     await fs.writeFile(tempPrdFile, targetVersion.content);
     await fs.rename(tempPrdFile, prdPath);
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
 import crypto from 'crypto';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
 
 export const dynamic = 'force-dynamic';
 
@@ -10,14 +10,6 @@ const MAX_CONTENT_LENGTH = 200000;
 const MAX_MESSAGE_LENGTH = 500;
 const MAX_VERSIONS = 50;
 
-// Allowed base path for security
-const ALLOWED_BASE = path.join(os.homedir(), 'claude-managers');
-
-function isPathAllowed(testPath: string): boolean {
-  const normalized = path.normalize(path.resolve(testPath));
-  return normalized.startsWith(path.normalize(ALLOWED_BASE));
-}
-
 interface Version {
   id: string;
   timestamp: string;
@@ -61,8 +53,8 @@ export async function POST(request: NextRequest) {
       : 'Manual save';
 
     // Validate path
-    const instancePath = decodeURIComponent(instanceId);
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceId);
+    if (!instancePath) {
       return NextResponse.json({ error: 'Invalid instance path' }, { status: 403 });
     }
 
@@ -88,7 +80,12 @@ export async function POST(request: NextRequest) {
     await fs.mkdir(prdsDir, { recursive: true });
 
     // Load existing versions
-    const versionsFile = path.join(versionsDir, `${sanitizedPrdFile}.versions.json`);
+    const versionsFile = await resolveWithin(instancePath, '.prd-versions', `${sanitizedPrdFile}.versions.json`);
+    const prdPath = await resolveWithin(instancePath, 'prds', sanitizedPrdFile);
+
+    if (!versionsFile || !prdPath) {
+      return NextResponse.json({ error: 'Invalid file path' }, { status: 403 });
+    }
     let versionData: VersionFile = { versions: [] };
 
     try {
@@ -122,7 +119,6 @@ export async function POST(request: NextRequest) {
     await fs.rename(tempVersionsFile, versionsFile);
 
     // Save the actual PRD file
-    const prdPath = path.join(prdsDir, sanitizedPrdFile);
     const tempPrdFile = `${prdPath}.${Date.now()}.tmp`;
     await fs.writeFile(tempPrdFile, content);
     await fs.rename(tempPrdFile, prdPath);
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getBudgetTaskId,
+  readBudgetStatus,
+  readInstanceConfig,
+  withBudgetLimit,
+  writeInstanceConfig,
+} from '@/lib/api/budget';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { processSupervisor } from '@/lib/api/process-supervisor';
+import { BUDGET_METRICS, BUDGET_SCOPES, type BudgetMetric, type BudgetScope } from '@/lib/types/budget';
+
+type RouteParams = { params: Promise<{ name: string }> };
+
+// GET: Budget limits from config.json, spending against them, and the limit the worker paused on
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const config = await readInstanceConfig(instancePath);
+    const budget = await readBudgetStatus(instancePath, config, await getBudgetTaskId(instancePath));
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error('Error reading budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to read budget' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Set one limit in config.json ({ scope, metric, limit }, 0 removes it).
+// resume: true also resumes the worker, refused while any limit is still used up.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { scope, metric, limit, resume } = body ?? {};
+
+    if (!BUDGET_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: `scope must be one of: ${BUDGET_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!BUDGET_METRICS.includes(metric)) {
+      return NextResponse.json(
+        { error: `metric must be one of: ${BUDGET_METRICS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0) {
+      return NextResponse.json(
+        { error: 'limit must be a number of 0 or more (0 removes the limit)' },
+        { status: 400 }
+      );
+    }
+
+    const config = withBudgetLimit(await readInstanceConfig(instancePath), scope as BudgetScope, metric as BudgetMetric, limit);
+    const budget = await readBudgetStatus(instancePath, config, await getBudgetTaskId(instancePath));
+
+    // The worker would pause again on its next check
+    const usedUp = resume === true ? budget?.lines.find(line => line.remaining <= 0) : undefined;
+    if (usedUp) {
+      const amount = (value: number) => usedUp.metric === 'usd' ? `$${value.toFixed(2)}` : `${value} tokens`;
+      return NextResponse.json(
+        { error: `The ${usedUp.scope} limit of ${amount(usedUp.limit)} is still used up (${amount(usedUp.spent)} spent); raise it to resume`, budget },
+        { status: 409 }
+      );
+    }
+
+    await writeInstanceConfig(instancePath, config);
+    const resumed = resume === true ? await processSupervisor.resume(instancePath) : null;
+
+    return NextResponse.json({ success: true, budget, resumed });
+  } catch (error) {
+    console.error('Error updating budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to update budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  cancelDirective,
+  listDirectives,
+  MAX_DIRECTIVE_LENGTH,
+  writeDirective,
+} from '@/lib/api/directive-store';
+import { resolveInstancePath } from '@/lib/api/path-security';
+
+// GET: The pending directive and past ones, newest first, with delivery and acknowledgement
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ directives: await listDirectives(instancePath) });
+  } catch (error) {
+    console.error('Error listing directives:', error);
+    return NextResponse.json(
+      { error: 'Failed to list directives' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Write a directive for the worker's next iteration, replacing any still pending
+// Body: { content }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const { content } = await request.json();
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { error: 'Content is required' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_DIRECTIVE_LENGTH) {
+      return NextResponse.json(
+        { error: `Content must be at most ${MAX_DIRECTIVE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const directive = await writeDirective(instancePath, content);
+    return NextResponse.json({ success: true, directive });
+  } catch (error) {
+    console.error('Error writing directive:', error);
+    return NextResponse.json(
+      { error: 'Failed to write directive' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Cancel the pending directive before the worker picks it up
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const directive = await cancelDirective(instancePath);
+    if (!directive) {
+      return NextResponse.json(
+        { error: 'No directive is pending' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, directive });
+  } catch (error) {
+    console.error('Error cancelling directive:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel directive' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { readIteration } from '@/lib/api/iteration-reader';
+
+// GET: One iteration with its report and the worker log lines it wrote
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; iteration: string }> }
+) {
+  try {
+    const { name, iteration } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!/^\d+$/.test(iteration)) {
+      return NextResponse.json(
+        { error: 'Iteration must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const detail = await readIteration(instancePath, parseInt(iteration, 10));
+    if (!detail) {
+      return NextResponse.json(
+        { error: `Iteration ${iteration} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ iteration: detail });
+  } catch (error) {
+    console.error('Error reading iteration:', error);
+    return NextResponse.json(
+      { error: 'Failed to read iteration' },
+      { status: 500 }
+    );
+  }
+}
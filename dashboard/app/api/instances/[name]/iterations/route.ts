@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { listIterations } from '@/lib/api/iteration-reader';
+
+// GET: Worker iterations, oldest first, with task, duration, outcome and files changed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const iterations = await listIterations(instancePath);
+    return NextResponse.json({ iterations });
+  } catch (error) {
+    console.error('Error listing iterations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list iterations' },
+      { status: 500 }
+    );
+  }
+}
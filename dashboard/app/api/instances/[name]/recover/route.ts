@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readRecoveryReport } from '@/lib/api/instance-status';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { processSupervisor } from '@/lib/api/process-supervisor';
+
+// GET: The last recovery report (null if recovery never ran)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ report: await readRecoveryReport(instancePath) });
+  } catch (error) {
+    console.error('Error reading recovery report:', error);
+    return NextResponse.json(
+      { error: 'Failed to read recovery report' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Clean up after a crashed worker or manager: stale PID files, orphaned in_progress tasks, leftover .tmp files
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const report = await processSupervisor.recover(instancePath);
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('Error recovering instance:', error);
+    return NextResponse.json(
+      { error: 'Failed to recover instance' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { readReview } from '@/lib/api/review-reader';
+
+// GET: One review with its verdict file and the iteration report it judged
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; review: string }> }
+) {
+  try {
+    const { name, review } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!/^\d+$/.test(review)) {
+      return NextResponse.json(
+        { error: 'Review must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const detail = await readReview(instancePath, parseInt(review, 10));
+    if (!detail) {
+      return NextResponse.json(
+        { error: `Review ${review} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ review: detail });
+  } catch (error) {
+    console.error('Error reading review:', error);
+    return NextResponse.json(
+      { error: 'Failed to read review' },
+      { status: 500 }
+    );
+  }
+}
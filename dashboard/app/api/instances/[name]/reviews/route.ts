@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { listReviews } from '@/lib/api/review-reader';
+import { REVIEW_VERDICTS, type ReviewVerdict } from '@/lib/types/review';
+
+// GET: Manager reviews, oldest first, with score, verdict, issues and the iteration each judged
+// Query: verdict=approved|needs-work|none
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const verdict = request.nextUrl.searchParams.get('verdict');
+    if (verdict && verdict !== 'none' && !REVIEW_VERDICTS.includes(verdict as ReviewVerdict)) {
+      return NextResponse.json(
+        { error: `verdict must be one of: ${[...REVIEW_VERDICTS, 'none'].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let reviews = await listReviews(instancePath);
+    if (verdict) {
+      reviews = reviews.filter(r => (r.verdict ?? 'none') === verdict);
+    }
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error listing reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to list reviews' },
+      { status: 500 }
+    );
+  }
+}
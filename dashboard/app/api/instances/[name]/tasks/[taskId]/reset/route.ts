@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import {
+  clearCompletionMarker,
+  readTasksFile,
+  resetTask,
+  withTasksLock,
+  writeTasksFile,
+} from '@/lib/api/task-store';
+
+// POST: Put a task back to pending so the worker picks it up again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; taskId: string }> }
+) {
+  try {
+    const { name, taskId } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    return await withTasksLock(instancePath, async () => {
+      const data = await readTasksFile(instancePath);
+      const tasks = data.tasks.map(t => ({ ...t }));
+      const task = tasks.find(t => t.id === taskId);
+
+      if (!task) {
+        return NextResponse.json(
+          { error: `Task ${taskId} not found` },
+          { status: 404 }
+        );
+      }
+
+      resetTask(task);
+      await writeTasksFile(instancePath, { ...data, tasks });
+      await clearCompletionMarker(instancePath, taskId);
+
+      return NextResponse.json({ success: true, task });
+    });
+  } catch (error) {
+    console.error('Error resetting task:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset task' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import {
+  clearCompletionMarker,
+  parseTaskFields,
+  readTasksFile,
+  setTaskStatus,
+  validateTaskGraph,
+  withTasksLock,
+  writeTasksFile,
+} from '@/lib/api/task-store';
+
+type RouteParams = { params: Promise<{ name: string; taskId: string }> };
+
+// PATCH: Edit a task's fields, status or dependencies
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { name, taskId } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { fields, error } = parseTaskFields(body);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return await withTasksLock(instancePath, async () => {
+      const data = await readTasksFile(instancePath);
+      const tasks = data.tasks.map(t => ({ ...t }));
+      const task = tasks.find(t => t.id === taskId);
+
+      if (!task) {
+        return NextResponse.json(
+          { error: `Task ${taskId} not found` },
+          { status: 404 }
+        );
+      }
+
+      const { status, ...rest } = fields;
+      Object.assign(task, rest);
+      if (status) {
+        setTaskStatus(task, status);
+      }
+
+      const graphError = validateTaskGraph(tasks);
+      if (graphError) {
+        return NextResponse.json({ error: graphError }, { status: 400 });
+      }
+
+      await writeTasksFile(instancePath, { ...data, tasks });
+      if (task.status !== 'completed') {
+        await clearCompletionMarker(instancePath, task.id);
+      }
+
+      return NextResponse.json({ success: true, task });
+    });
+  } catch (error) {
+    console.error('Error updating task:', error);
+    return NextResponse.json(
+      { error: 'Failed to update task' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove a task. Refused while other tasks depend on it.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { name, taskId } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    return await withTasksLock(instancePath, async () => {
+      const data = await readTasksFile(instancePath);
+
+      if (!data.tasks.some(t => t.id === taskId)) {
+        return NextResponse.json(
+          { error: `Task ${taskId} not found` },
+          { status: 404 }
+        );
+      }
+
+      const dependents = data.tasks.filter(t => t.dependencies.includes(taskId)).map(t => t.id);
+      if (dependents.length > 0) {
+        return NextResponse.json(
+          { error: `Task ${taskId} is a dependency of task(s) ${dependents.join(', ')}`, dependents },
+          { status: 409 }
+        );
+      }
+
+      await writeTasksFile(instancePath, { ...data, tasks: data.tasks.filter(t => t.id !== taskId) });
+      await clearCompletionMarker(instancePath, taskId);
+
+      return NextResponse.json({ success: true, id: taskId });
+    });
+  } catch (error) {
+    console.error('Error deleting task:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete task' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-function isPathAllowed(instancePath: string): boolean {
-  const allowedParent = '/Users/alexander/claude-managers';
-  const normalizedPath = path.normalize(instancePath);
-  return normalizedPath.startsWith(allowedParent);
-}
+import { resolveInstancePath } from '@/lib/api/path-security';
+import {
+  getTasksFilePath,
+  nextTaskId,
+  readTasksFile,
+  withTasksLock,
+  writeTasksFile,
+} from '@/lib/api/task-store';
+import { llmProvider } from '@/lib/llm/provider';
+import type { Task } from '@/lib/types/task';
 
 export async function POST(
   request: NextRequest,
-  { params }: { params: { name: string } }
+  { params }: { params: Promise<{ name: string }> }
 ) {
   try {
-    const instanceName = decodeURIComponent(params.name);
+    const { name } = await params;
     const body = await request.json();
     const { quickInput, type } = body; // type: 'feature' | 'bug' | 'task'
 
@@ -29,18 +28,18 @@ export async function POST(
       );
     }
 
-    // Find instance
-    const managersDir = '/Users/alexander/claude-managers';
-    const instancePath = path.join(managersDir, instanceName);
+    // Find instance (by id or path)
+    const instancePath = await resolveInstancePath(name);
 
-    if (!isPathAllowed(instancePath)) {
+    if (!instancePath) {
       return NextResponse.json(
-        { error: 'Invalid instance path' },
-        { status: 403 }
+        { error: 'Instance not found' },
+        { status: 404 }
       );
     }
 
-    const tasksFile = path.join(instancePath, 'prds', 'tasks.json');
+    const instanceName = path.basename(instancePath);
+    const tasksFile = getTasksFilePath(instancePath);
 
     // Check if tasks.json exists
     try {
@@ -53,12 +52,7 @@ export async function POST(
     }
 
     // Read existing tasks
-    const tasksContent = await fs.readFile(tasksFile, 'utf-8');
-    const tasksData = JSON.parse(tasksContent);
-
-    // Get next task ID
-    const existingIds = tasksData.tasks.map((t: any) => parseInt(t.id)).filter((id: number) => !isNaN(id));
-    const nextId = existingIds.length > 0 ? Math.max(...existingIds) + 1 : 1;
+    const tasksData = await readTasksFile(instancePath);
 
     // Use AI to expand the quick input into a full task
     const typeContext = {
@@ -87,16 +81,14 @@ Respond ONLY with valid JSON in this exact format:
   "estimatedIterations": 2
 }`;
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1000,
+    const response = await llmProvider.createMessage('task-add', {
       messages: [
         {
           role: 'user',
           content: prompt,
         },
       ],
-    });
+    }, { instancePath });
 
     const content = response.content[0];
     if (content.type !== 'text') {
@@ -124,25 +116,26 @@ Respond ONLY with valid JSON in this exact format:
       };
     }
 
-    // Create new task
-    const newTask = {
-      id: nextId.toString(),
-      title: taskData.title,
-      description: taskData.description,
-      acceptanceCriteria: taskData.acceptanceCriteria,
-      status: 'pending',
-      estimatedIterations: taskData.estimatedIterations || 2,
-      dependencies: [],
-      createdAt: new Date().toISOString(),
-      startedAt: null,
-      completedAt: null,
-    };
-
-    // Add task to list
-    tasksData.tasks.push(newTask);
-
-    // Write back to file
-    await fs.writeFile(tasksFile, JSON.stringify(tasksData, null, 2), 'utf-8');
+    // Re-read under the lock: the worker may have updated tasks.json while Claude was responding
+    const newTask = await withTasksLock(instancePath, async () => {
+      const latest = await readTasksFile(instancePath);
+
+      const task: Task = {
+        id: nextTaskId(latest.tasks),
+        title: taskData.title,
+        description: taskData.description,
+        acceptanceCriteria: taskData.acceptanceCriteria,
+        status: 'pending',
+        estimatedIterations: taskData.estimatedIterations || 2,
+        dependencies: [],
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        completedAt: null,
+      };
+
+      await writeTasksFile(instancePath, { ...latest, tasks: [...latest.tasks, task] });
+      return task;
+    });
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { readTasksFile, withTasksLock, writeTasksFile } from '@/lib/api/task-store';
+
+// PUT: Reorder tasks. File order breaks ties between equally ranked runnable tasks.
+// Body: { order: string[] } - every task id exactly once
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const { order } = await request.json();
+
+    if (!Array.isArray(order) || order.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { error: 'order must be an array of task ids' },
+        { status: 400 }
+      );
+    }
+
+    return await withTasksLock(instancePath, async () => {
+      const data = await readTasksFile(instancePath);
+      const byId = new Map(data.tasks.map(t => [t.id, t]));
+
+      if (order.length !== data.tasks.length || new Set(order).size !== order.length || order.some(id => !byId.has(id))) {
+        return NextResponse.json(
+          { error: 'order must list every task id exactly once' },
+          { status: 400 }
+        );
+      }
+
+      const tasks = order.map((id: string) => byId.get(id)!);
+      await writeTasksFile(instancePath, { ...data, tasks });
+
+      return NextResponse.json({ success: true, order });
+    });
+  } catch (error) {
+    console.error('Error reordering tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to reorder tasks' },
+      { status: 500 }
+    );
+  }
+}
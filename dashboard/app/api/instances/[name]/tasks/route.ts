@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import {
+  getTaskStats,
+  nextTaskId,
+  parseTaskFields,
+  readTasksFile,
+  validateTaskGraph,
+  withTasksLock,
+  writeTasksFile,
+} from '@/lib/api/task-store';
+import { scheduleTasks } from '@/lib/scheduler/task-scheduler';
+import type { Task } from '@/lib/types/task';
+
+// GET: List tasks in file order, with the schedule the worker follows
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = await readTasksFile(instancePath);
+
+    return NextResponse.json({
+      projectName: data.projectName || null,
+      tasks: data.tasks,
+      stats: getTaskStats(data.tasks),
+      schedule: scheduleTasks(data.tasks),
+    });
+  } catch (error) {
+    console.error('Error listing tasks:', error);
+    return NextResponse.json(
+      { error: 'Failed to list tasks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a task from explicit fields (see tasks/add for AI-expanded quick input)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const instancePath = await resolveInstancePath(name);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Instance not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { fields, error } = parseTaskFields(body, true);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return await withTasksLock(instancePath, async () => {
+      const data = await readTasksFile(instancePath);
+
+      const task: Task = {
+        id: nextTaskId(data.tasks),
+        title: fields.title!,
+        description: fields.description ?? '',
+        acceptanceCriteria: fields.acceptanceCriteria ?? '',
+        status: 'pending',
+        estimatedIterations: fields.estimatedIterations ?? 1,
+        dependencies: fields.dependencies ?? [],
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        completedAt: null,
+      };
+
+      const tasks = [...data.tasks, task];
+      const graphError = validateTaskGraph(tasks);
+      if (graphError) {
+        return NextResponse.json({ error: graphError }, { status: 400 });
+      }
+
+      await writeTasksFile(instancePath, { ...data, tasks });
+
+      return NextResponse.json({ success: true, task });
+    });
+  } catch (error) {
+    console.error('Error creating task:', error);
+    return NextResponse.json(
+      { error: 'Failed to create task' },
+      { status: 500 }
+    );
+  }
+}
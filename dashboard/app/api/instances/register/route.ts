@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import path from 'path';
+import { registerInstance } from '@/lib/api/instance-registry';
+
+// Register an instance that lives outside the configured root directories
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { path: instancePath } = body;
+
+    if (!instancePath || typeof instancePath !== 'string') {
+      return NextResponse.json({ error: 'path is required' }, { status: 400 });
+    }
+
+    if (!path.isAbsolute(instancePath) && !instancePath.startsWith('~/')) {
+      return NextResponse.json({ error: 'path must be absolute' }, { status: 400 });
+    }
+
+    try {
+      const instance = await registerInstance(instancePath);
+      return NextResponse.json({ success: true, instance });
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : 'Invalid instance' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error registering instance:', error);
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import path from 'path';
+import os from 'os';
+import { getRoots, setRoots } from '@/lib/api/instance-registry';
+import { checkRootDirectory } from '@/lib/api/path-security';
+
+const MAX_ROOTS = 20;
+
+// List the root directories scanned for instances
+export async function GET() {
+  try {
+    return NextResponse.json({
+      roots: await getRoots(),
+      fromEnvironment: Boolean(process.env.CLAUDE_MANAGER_ROOTS),
+    });
+  } catch (error) {
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
+
+// Replace the root directories
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const { roots } = body;
+
+    if (!Array.isArray(roots) || roots.length === 0 || roots.length > MAX_ROOTS) {
+      return NextResponse.json(
+        { error: `roots must be an array of 1-${MAX_ROOTS} directories` },
+        { status: 400 }
+      );
+    }
+
+    for (const root of roots) {
+      if (typeof root !== 'string' || (!path.isAbsolute(root) && !root.startsWith('~/'))) {
+        return NextResponse.json(
+          { error: `Root must be an absolute path: ${String(root)}` },
+          { status: 400 }
+        );
+      }
+
+      const refused = await checkRootDirectory(root.startsWith('~/') ? path.join(os.homedir(), root.slice(2)) : root);
+      if (refused) {
+        return NextResponse.json({ error: refused }, { status: 400 });
+      }
+    }
+
+    if (process.env.CLAUDE_MANAGER_ROOTS) {
+      return NextResponse.json(
+        { error: 'Roots are set by CLAUDE_MANAGER_ROOTS and cannot be changed here' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, roots: await setRoots(roots) });
+  } catch (error) {
+    console.error('Error updating roots:', error);
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { getRoots, listInstances } from '@/lib/api/instance-registry';
 
 const execAsync = promisify(exec);
 
@@ -16,8 +17,16 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Name is required' }, { status: 400 });
     }
 
-    // Create instance directory
-    const instancePath = path.join(process.env.HOME || '', 'claude-managers', name);
+    if (typeof name !== 'string' || !/^[A-Za-z0-9._-]+$/.test(name) || name.startsWith('.')) {
+      return NextResponse.json(
+        { error: 'Name may only contain letters, numbers, dots, dashes and underscores' },
+        { status: 400 }
+      );
+    }
+
+    // Create instance directory in the first root
+    const [root] = await getRoots();
+    const instancePath = path.join(root, name);
 
     // Check if already exists
     try {
@@ -58,8 +67,11 @@ export async function POST(request: Request) {
       JSON.stringify(config, null, 2)
     );
 
+    const instance = (await listInstances()).find(i => i.path === instancePath);
+
     return NextResponse.json({
       success: true,
+      id: instance?.id ?? name,
       path: instancePath,
       config,
     });
@@ -72,38 +84,14 @@ export async function POST(request: Request) {
 // List all instances
 export async function GET() {
   try {
-    const managersDir = path.join(process.env.HOME || '', 'claude-managers');
-
-    try {
-      await fs.access(managersDir);
-    } catch {
-      // Directory doesn't exist yet
-      return NextResponse.json({ instances: [] });
-    }
-
-    const entries = await fs.readdir(managersDir);
-    const instances = [];
-
-    for (const entry of entries) {
-      const instancePath = path.join(managersDir, entry);
-      const stat = await fs.stat(instancePath);
-
-      if (stat.isDirectory()) {
-        try {
-          const configPath = path.join(instancePath, 'config.json');
-          const configData = await fs.readFile(configPath, 'utf-8');
-          const config = JSON.parse(configData);
-
-          instances.push({
-            name: entry,
-            path: instancePath,
-            ...config,
-          });
-        } catch {
-          // No config file, skip
-        }
-      }
-    }
+    const instances = (await listInstances()).map(instance => ({
+      ...instance.config,
+      id: instance.id,
+      name: instance.name,
+      path: instance.path,
+      projectPath: instance.projectPath,
+      source: instance.source,
+    }));
 
     return NextResponse.json({ instances });
   } catch (error) {
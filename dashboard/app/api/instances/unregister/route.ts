@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { unregisterInstance } from '@/lib/api/instance-registry';
+
+// Remove an explicitly registered instance (files on disk are left untouched)
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { instanceId } = body;
+
+    if (!instanceId || typeof instanceId !== 'string') {
+      return NextResponse.json({ error: 'instanceId is required' }, { status: 400 });
+    }
+
+    const removedPath = await unregisterInstance(instanceId);
+
+    if (!removedPath) {
+      return NextResponse.json(
+        { error: 'Instance is not registered (instances under a root directory cannot be unregistered)' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, path: removedPath });
+  } catch (error) {
+    console.error('Error unregistering instance:', error);
+    return NextResponse.json({ error: String(error) }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import { LOG_FILENAME_PATTERN, MAX_PAGE_SIZE, readLogPage } from '@/lib/api/log-reader';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
+import { LOG_LEVELS, type LogLevel } from '@/lib/types/logs';
+
+function parseInteger(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+// GET: Page through a log file
+// Query: level (comma separated), search, offset (omit for the last page), limit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ instanceId: string; logFile: string }> }
+) {
+  try {
+    const { instanceId, logFile } = await params;
+    const instancePath = await resolveInstancePath(instanceId);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    const filename = decodeURIComponent(logFile);
+    const filePath = LOG_FILENAME_PATTERN.test(filename)
+      ? await resolveWithin(instancePath, 'logs', filename)
+      : null;
+
+    if (!filePath) {
+      return NextResponse.json(
+        { error: 'Invalid log file' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      if (!(await fs.stat(filePath)).isFile()) throw new Error('Not a file');
+    } catch {
+      return NextResponse.json(
+        { error: 'Log file not found' },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const levelParam = searchParams.get('level');
+    const levels = levelParam
+      ? levelParam.split(',').map(l => l.trim().toUpperCase()).filter(Boolean)
+      : [];
+    const unknownLevel = levels.find(l => !LOG_LEVELS.includes(l as LogLevel));
+    if (unknownLevel) {
+      return NextResponse.json(
+        { error: `Unknown log level: ${unknownLevel}. Expected one of ${LOG_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const offset = parseInteger(searchParams.get('offset'));
+    const limit = parseInteger(searchParams.get('limit'));
+    if (offset === null || limit === null || limit === 0 || (limit !== undefined && limit > MAX_PAGE_SIZE)) {
+      return NextResponse.json(
+        { error: `offset must be a non-negative integer and limit between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const page = await readLogPage(filePath, {
+      levels: levels as LogLevel[],
+      search: searchParams.get('search') || undefined,
+      offset,
+      limit,
+    });
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error reading log:', error);
+    return NextResponse.json(
+      { error: 'Failed to read log' },
+      { status: 500 }
+    );
+  }
+}
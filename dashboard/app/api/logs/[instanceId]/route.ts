@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listLogFiles } from '@/lib/api/log-reader';
+import { resolveInstancePath } from '@/lib/api/path-security';
+
+// GET: List worker and manager log files for an instance
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ instanceId: string }> }
+) {
+  try {
+    const { instanceId } = await params;
+    const instancePath = await resolveInstancePath(instanceId);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    let files = await listLogFiles(instancePath);
+
+    const source = request.nextUrl.searchParams.get('source');
+    if (source === 'worker' || source === 'manager') {
+      files = files.filter(f => f.source === source);
+    }
+
+    return NextResponse.json({
+      files,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error listing logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list logs' },
+      { status: 500 }
+    );
+  }
+}
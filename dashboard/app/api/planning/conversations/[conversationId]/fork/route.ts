@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { forkConversation } from '@/lib/api/planning-history';
+
+// POST: Fork a saved conversation at a message into a new conversation
+// Body: { instancePath, messageId } - the fork keeps the messages up to and including messageId
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const { conversationId } = await params;
+    const body = await request.json();
+    const { instancePath: instanceRef, messageId } = body;
+
+    if (!instanceRef) {
+      return NextResponse.json(
+        { error: 'Instance path is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof messageId !== 'string' || !messageId) {
+      return NextResponse.json(
+        { error: 'messageId is required' },
+        { status: 400 }
+      );
+    }
+
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    const conversation = await forkConversation(instancePath, conversationId, messageId);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation or message not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error('[Conversations] Error forking conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fork conversation' },
+      { status: 500 }
+    );
+  }
+}
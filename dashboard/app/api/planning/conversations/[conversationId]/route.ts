@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { deleteConversation, getConversation } from '@/lib/api/planning-history';
+
+// GET: A saved planning conversation with its messages, to resume it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const { conversationId } = await params;
+    const instanceRef = new URL(request.url).searchParams.get('instancePath');
+
+    if (!instanceRef) {
+      return NextResponse.json(
+        { error: 'Instance path is required' },
+        { status: 400 }
+      );
+    }
+
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    const conversation = await getConversation(instancePath, conversationId);
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('[Conversations] Error loading conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to load conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Delete a saved planning conversation (forks of it are kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ conversationId: string }> }
+) {
+  try {
+    const { conversationId } = await params;
+    const instanceRef = new URL(request.url).searchParams.get('instancePath');
+
+    if (!instanceRef) {
+      return NextResponse.json(
+        { error: 'Instance path is required' },
+        { status: 400 }
+      );
+    }
+
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    if (!await deleteConversation(instancePath, conversationId)) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, conversationId });
+  } catch (error) {
+    console.error('[Conversations] Error deleting conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { listConversations, searchConversations } from '@/lib/api/planning-history';
+
+// GET: Saved planning conversations of an instance, or the messages matching ?q=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const instanceRef = searchParams.get('instancePath');
+    const query = searchParams.get('q')?.trim();
+
+    if (!instanceRef) {
+      return NextResponse.json(
+        { error: 'Instance path is required' },
+        { status: 400 }
+      );
+    }
+
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
+      return NextResponse.json(
+        { error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    if (query) {
+      return NextResponse.json({ query, matches: await searchConversations(instancePath, query) });
+    }
+    return NextResponse.json({ conversations: await listConversations(instancePath) });
+  } catch (error) {
+    console.error('[Conversations] Error listing conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
-
-const anthropic = new Anthropic();
-
-// Validate that path is within allowed directories
-const ALLOWED_BASES = [
-  path.join(os.homedir(), 'claude-managers'),
-];
-
-function isPathAllowed(testPath: string): boolean {
-  const normalizedPath = path.normalize(path.resolve(testPath));
-  return ALLOWED_BASES.some(basePath =>
-    normalizedPath.startsWith(path.normalize(basePath))
-  );
-}
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { projectContextPrompt } from '@/lib/api/project-context';
+import { llmProvider } from '@/lib/llm/provider';
+import { llmEventStream } from '@/lib/llm/sse';
 
 const PRD_SYSTEM_PROMPT = `You are an expert software architect and technical writer. Your task is to draft a Product Requirements Document (PRD) based on the planning conversation.
 
@@ -62,16 +50,17 @@ interface Message {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { instancePath, messages } = body;
+    const { instancePath: instanceRef, messages } = body;
 
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
       );
     }
 
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -93,52 +82,52 @@ export async function POST(request: NextRequest) {
 
     const userPrompt = `Based on this planning conversation, draft a comprehensive PRD:\n\n${conversationText}`;
 
-    // Call Claude to draft the PRD
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 8000,
-      system: PRD_SYSTEM_PROMPT,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt,
+    // Stream the PRD as Claude writes it, then save it
+    const systemPrompt = PRD_SYSTEM_PROMPT + await projectContextPrompt(instancePath);
+
+    return llmEventStream(
+      () => llmProvider.streamMessage('planning-draft-prd', {
+        system: systemPrompt,
+        messages: [
+          {
+            role: 'user',
+            content: userPrompt,
+          },
+        ],
+      }, { instancePath }),
+      {
+        label: '[Draft PRD]',
+        signal: request.signal,
+        onComplete: async prdContent => {
+          // Extract title from PRD content
+          const titleMatch = prdContent.match(/^#\s*PRD:\s*(.+)$/m);
+          const title = titleMatch ? titleMatch[1].trim() : 'Untitled PRD';
+
+          // Generate safe filename
+          const safeFilename = title
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-|-$/g, '')
+            .slice(0, 50) + '.md';
+
+          // Save the PRD
+          const prdDir = path.join(instancePath, 'prds');
+          await fs.mkdir(prdDir, { recursive: true });
+
+          const filePath = path.join(prdDir, safeFilename);
+          await fs.writeFile(filePath, prdContent, 'utf-8');
+
+          console.log('[Draft PRD] Saved PRD to:', filePath);
+
+          return {
+            success: true,
+            prd: prdContent,
+            filename: safeFilename,
+            path: filePath,
+          };
         },
-      ],
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
-
-    const prdContent = content.text;
-
-    // Extract title from PRD content
-    const titleMatch = prdContent.match(/^#\s*PRD:\s*(.+)$/m);
-    const title = titleMatch ? titleMatch[1].trim() : 'Untitled PRD';
-
-    // Generate safe filename
-    const safeFilename = title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '')
-      .slice(0, 50) + '.md';
-
-    // Save the PRD
-    const prdDir = path.join(instancePath, 'prds');
-    await fs.mkdir(prdDir, { recursive: true });
-
-    const filePath = path.join(prdDir, safeFilename);
-    await fs.writeFile(filePath, prdContent, 'utf-8');
-
-    console.log('[Draft PRD] Saved PRD to:', filePath);
-
-    return NextResponse.json({
-      success: true,
-      prd: prdContent,
-      filename: safeFilename,
-      path: filePath,
-    });
+      }
+    );
   } catch (error) {
     console.error('[Draft PRD] Error:', error);
     return NextResponse.json(
@@ -1,48 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
-
-// Validate that path is within allowed directories
-const ALLOWED_BASES = [
-  path.join(os.homedir(), 'claude-managers'),
-];
-
-function isPathAllowed(testPath: string): boolean {
-  const normalizedPath = path.normalize(path.resolve(testPath));
-  return ALLOWED_BASES.some(basePath =>
-    normalizedPath.startsWith(path.normalize(basePath))
-  );
-}
+import { getPauseState } from '@/lib/api/instance-status';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { describeFailures, parseStartOptions, processSupervisor } from '@/lib/api/process-supervisor';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const {
-      instancePath,
+      instancePath: instanceRef,
       workerModel = 'opus',
       managerModel = 'opus',
       maxIterations = 999999,
     } = body;
 
     console.log('[Execute Plan] Received request:', {
-      instancePath,
+      instanceRef,
       workerModel,
       managerModel,
       maxIterations,
     });
 
     // Validate required fields
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
       );
     }
 
+    const { options, error: optionsError } = parseStartOptions({ workerModel, managerModel, maxIterations });
+    if (optionsError) {
+      return NextResponse.json(
+        { error: optionsError },
+        { status: 400 }
+      );
+    }
+
     // Validate path is allowed
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -87,15 +85,15 @@ export async function POST(request: NextRequest) {
 
     console.log('[Execute Plan] Starting execution with PRD:', firstPrd.filename);
 
-    // Check if orchestrator script exists
-    const scriptPath = path.join(instancePath, 'scripts', 'orchestrator.sh');
-    let useOrchestrator = false;
+    // Check the instance has its worker script
+    const scriptPath = path.join(instancePath, 'scripts', 'worker.sh');
+    let hasScripts = false;
 
     try {
       await fs.access(scriptPath);
-      useOrchestrator = true;
+      hasScripts = true;
     } catch {
-      console.log('[Execute Plan] Orchestrator script not found, will use direct start');
+      console.log('[Execute Plan] Worker script not found, returning plan for manual start');
     }
 
     // Update instance state to mark as starting
@@ -118,54 +116,41 @@ export async function POST(request: NextRequest) {
       'utf-8'
     );
 
-    if (useOrchestrator) {
-      // Start the orchestrator in background
-      const child = spawn('bash', [scriptPath, 'start', '--worker-model', workerModel, '--manager-model', managerModel, '--max-iterations', String(maxIterations)], {
-        cwd: instancePath,
-        detached: true,
-        stdio: ['ignore', 'pipe', 'pipe'],
-      });
-
-      // Capture initial output
-      let stdout = '';
-      let stderr = '';
+    if (hasScripts) {
+      const result = await processSupervisor.start(instancePath, options);
+      const worker = result.results.find(r => r.role === 'worker');
 
-      child.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      child.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      // Don't wait for completion, let it run in background
-      child.unref();
-
-      // Wait a moment to capture initial output
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Update state to running
-      executionState.status = 'running';
+      executionState.status = result.ok ? 'running' : 'failed';
       await fs.writeFile(
         path.join(stateDir, 'execution_state.json'),
         JSON.stringify(executionState, null, 2),
         'utf-8'
       );
 
+      if (!result.ok) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: describeFailures(result),
+            results: result.results,
+          },
+          { status: 500 }
+        );
+      }
+
       return NextResponse.json({
         success: true,
-        message: 'Implementation started via orchestrator',
+        message: 'Implementation started',
         execution: {
-          pid: child.pid,
+          pid: worker?.pid ?? null,
           currentPrd: firstPrd.filename,
           workerModel,
           managerModel,
         },
-        initialOutput: stdout || 'Started...',
-        initialError: stderr || undefined,
+        results: result.results,
       });
     } else {
-      // No orchestrator script - return info for manual start
+      // No worker script - return info for manual start
       return NextResponse.json({
         success: true,
         message: 'Plan ready for implementation',
@@ -175,7 +160,7 @@ export async function POST(request: NextRequest) {
           workerModel,
           managerModel,
         },
-        note: 'No orchestrator script found. Start implementation manually or use the dashboard controls.',
+        note: 'No scripts/worker.sh found. Start implementation manually or use the dashboard controls.',
       });
     }
   } catch (error) {
@@ -194,9 +179,9 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const instancePath = searchParams.get('instancePath');
+    const instanceRef = searchParams.get('instancePath');
 
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -204,7 +189,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate path is allowed
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -216,6 +202,14 @@ export async function GET(request: NextRequest) {
     try {
       const content = await fs.readFile(statePath, 'utf-8');
       const state = JSON.parse(content);
+
+      // A paused worker keeps running, so the pause comes from .state/pause_requested
+      if (state.status === 'running') {
+        state.pause = await getPauseState(instancePath);
+        if (state.pause === 'paused') {
+          state.status = 'paused';
+        }
+      }
       return NextResponse.json({ success: true, state });
     } catch {
       return NextResponse.json({
@@ -1,22 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
-
-const anthropic = new Anthropic();
-
-// Validate that path is within allowed directories
-const ALLOWED_BASES = [
-  path.join(os.homedir(), 'claude-managers'),
-];
-
-function isPathAllowed(testPath: string): boolean {
-  const normalizedPath = path.normalize(path.resolve(testPath));
-  return ALLOWED_BASES.some(basePath =>
-    normalizedPath.startsWith(path.normalize(basePath))
-  );
-}
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { projectContextPrompt } from '@/lib/api/project-context';
+import { llmProvider } from '@/lib/llm/provider';
+import { llmEventStream } from '@/lib/llm/sse';
 
 // System prompt for PRD generation
 const PRD_GENERATION_SYSTEM_PROMPT = `You are an expert software architect and technical writer. Your task is to analyze the conversation and generate detailed PRDs (Product Requirements Documents) for the project.
@@ -129,16 +117,16 @@ interface GeneratedPlan {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { instancePath, conversationId, messages, userRequest } = body;
+    const { instancePath: instanceRef, conversationId, messages, userRequest } = body;
 
     console.log('[Generate PRDs] Received request:', {
-      instancePath,
+      instanceRef,
       conversationId,
       messageCount: messages?.length,
     });
 
     // Validate required fields
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -146,7 +134,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate path is allowed
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -178,98 +167,99 @@ Based on this planning conversation, generate comprehensive PRDs that capture wh
 
     console.log('[Generate PRDs] Calling Anthropic API...');
 
-    // Call Claude to generate PRDs
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 16000,
-      system: PRD_GENERATION_SYSTEM_PROMPT,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt,
+    // Stream the plan as Claude writes it, then parse it and save the PRDs
+    const systemPrompt = PRD_GENERATION_SYSTEM_PROMPT + await projectContextPrompt(instancePath);
+
+    return llmEventStream(
+      () => llmProvider.streamMessage('planning-generate-prds', {
+        system: systemPrompt,
+        messages: [
+          {
+            role: 'user',
+            content: userPrompt,
+          },
+        ],
+      }, { instancePath }),
+      {
+        label: '[Generate PRDs]',
+        signal: request.signal,
+        onComplete: async text => {
+          console.log('[Generate PRDs] Received response, parsing JSON...');
+
+          // Parse JSON from response (Claude might wrap it in markdown code blocks)
+          let jsonText = text;
+          const jsonMatch = jsonText.match(/```json\n([\s\S]*?)\n```/);
+          if (jsonMatch) {
+            jsonText = jsonMatch[1];
+          } else {
+            // Try to find JSON without code blocks
+            const jsonStartIndex = jsonText.indexOf('{');
+            const jsonEndIndex = jsonText.lastIndexOf('}');
+            if (jsonStartIndex !== -1 && jsonEndIndex !== -1) {
+              jsonText = jsonText.slice(jsonStartIndex, jsonEndIndex + 1);
+            }
+          }
+
+          let generatedPlan: { plan: GeneratedPlan };
+          try {
+            generatedPlan = JSON.parse(jsonText);
+          } catch (parseError) {
+            console.error('[Generate PRDs] JSON parse error:', parseError);
+            console.error('[Generate PRDs] Raw response:', text.substring(0, 500));
+            throw new Error('Failed to parse PRD generation response as JSON');
+          }
+
+          if (!generatedPlan.plan || !generatedPlan.plan.prds) {
+            throw new Error('Invalid PRD generation response structure');
+          }
+
+          console.log('[Generate PRDs] Generated', generatedPlan.plan.prds.length, 'PRDs');
+
+          // Save PRDs to files
+          const prdDir = path.join(instancePath, 'prds');
+          await fs.mkdir(prdDir, { recursive: true });
+
+          const savedPrds: Array<GeneratedPRD & { path: string }> = [];
+          for (const prd of generatedPlan.plan.prds) {
+            // Ensure filename is safe
+            const safeFilename = prd.filename.replace(/[^a-zA-Z0-9_-]/g, '_');
+            const filePath = path.join(prdDir, safeFilename);
+
+            // Write PRD content to file
+            await fs.writeFile(filePath, prd.content, 'utf-8');
+
+            savedPrds.push({
+              ...prd,
+              filename: safeFilename,
+              path: filePath,
+            });
+
+            console.log('[Generate PRDs] Saved PRD:', filePath);
+          }
+
+          // Save plan metadata
+          const stateDir = path.join(instancePath, '.state');
+          await fs.mkdir(stateDir, { recursive: true });
+
+          const planMetaPath = path.join(stateDir, 'generated_plan.json');
+          const planMeta = {
+            ...generatedPlan.plan,
+            prds: savedPrds,
+            generatedAt: new Date().toISOString(),
+            conversationId,
+          };
+
+          await fs.writeFile(planMetaPath, JSON.stringify(planMeta, null, 2), 'utf-8');
+
+          console.log('[Generate PRDs] Saved plan metadata:', planMetaPath);
+
+          return {
+            success: true,
+            plan: planMeta,
+          };
         },
-      ],
-    });
-
-    // Extract content from response
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
-
-    console.log('[Generate PRDs] Received response, parsing JSON...');
-
-    // Parse JSON from response (Claude might wrap it in markdown code blocks)
-    let jsonText = content.text;
-    const jsonMatch = jsonText.match(/```json\n([\s\S]*?)\n```/);
-    if (jsonMatch) {
-      jsonText = jsonMatch[1];
-    } else {
-      // Try to find JSON without code blocks
-      const jsonStartIndex = jsonText.indexOf('{');
-      const jsonEndIndex = jsonText.lastIndexOf('}');
-      if (jsonStartIndex !== -1 && jsonEndIndex !== -1) {
-        jsonText = jsonText.slice(jsonStartIndex, jsonEndIndex + 1);
       }
-    }
-
-    let generatedPlan: { plan: GeneratedPlan };
-    try {
-      generatedPlan = JSON.parse(jsonText);
-    } catch (parseError) {
-      console.error('[Generate PRDs] JSON parse error:', parseError);
-      console.error('[Generate PRDs] Raw response:', content.text.substring(0, 500));
-      throw new Error('Failed to parse PRD generation response as JSON');
-    }
-
-    if (!generatedPlan.plan || !generatedPlan.plan.prds) {
-      throw new Error('Invalid PRD generation response structure');
-    }
-
-    console.log('[Generate PRDs] Generated', generatedPlan.plan.prds.length, 'PRDs');
-
-    // Save PRDs to files
-    const prdDir = path.join(instancePath, 'prds');
-    await fs.mkdir(prdDir, { recursive: true });
-
-    const savedPrds: Array<GeneratedPRD & { path: string }> = [];
-    for (const prd of generatedPlan.plan.prds) {
-      // Ensure filename is safe
-      const safeFilename = prd.filename.replace(/[^a-zA-Z0-9_-]/g, '_');
-      const filePath = path.join(prdDir, safeFilename);
-
-      // Write PRD content to file
-      await fs.writeFile(filePath, prd.content, 'utf-8');
-
-      savedPrds.push({
-        ...prd,
-        filename: safeFilename,
-        path: filePath,
-      });
-
-      console.log('[Generate PRDs] Saved PRD:', filePath);
-    }
-
-    // Save plan metadata
-    const stateDir = path.join(instancePath, '.state');
-    await fs.mkdir(stateDir, { recursive: true });
-
-    const planMetaPath = path.join(stateDir, 'generated_plan.json');
-    const planMeta = {
-      ...generatedPlan.plan,
-      prds: savedPrds,
-      generatedAt: new Date().toISOString(),
-      conversationId,
-    };
-
-    await fs.writeFile(planMetaPath, JSON.stringify(planMeta, null, 2), 'utf-8');
-
-    console.log('[Generate PRDs] Saved plan metadata:', planMetaPath);
-
-    return NextResponse.json({
-      success: true,
-      plan: planMeta,
-    });
+    );
   } catch (error) {
     console.error('[Generate PRDs] Error:', error);
     return NextResponse.json(
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { appendToConversation, generateConversationId } from '@/lib/api/planning-history';
+import { projectContextPrompt } from '@/lib/api/project-context';
+import { llmProvider } from '@/lib/llm/provider';
+import { llmEventStream } from '@/lib/llm/sse';
 
-const anthropic = new Anthropic();
+const MESSAGE_ID_PATTERN = /^msg_[a-z0-9]{1,40}$/;
 
-// Generate a conversation ID
-function generateConversationId(): string {
-  return 'conv_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 11);
+function generateMessageId(): string {
+  return 'msg_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 }
 
 // Build system prompt for planning assistant
@@ -62,7 +65,7 @@ function buildMessages(previousMessages: Array<{ role: string; content: string }
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { instanceId, message, conversationId, context } = body;
+    const { instanceId, message, messageId, conversationId, context } = body;
 
     if (!message) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
@@ -71,12 +74,14 @@ export async function POST(request: NextRequest) {
     // Generate or use existing conversation ID
     const convId = conversationId || generateConversationId();
 
-    // Build system prompt
+    const instancePath = await resolveInstancePath(instanceId);
+
+    // Build system prompt, grounded in the project's codebase
     const systemPrompt = buildSystemPrompt({
       instanceName: context?.instanceName || instanceId || 'Unknown',
       existingPrds: context?.existingPrds || [],
       skills: context?.skills || [],
-    });
+    }) + await projectContextPrompt(instancePath);
 
     // Build messages array
     const messages = buildMessages(
@@ -84,54 +89,36 @@ export async function POST(request: NextRequest) {
       message
     );
 
-    // Create streaming response
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Send conversation ID first
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ conversationId: convId })}\n\n`));
-
-          // Start streaming with Anthropic SDK
-          const anthropicStream = await anthropic.messages.stream({
-            model: 'claude-sonnet-4-20250514',
-            max_tokens: 4096,
-            system: systemPrompt,
-            messages: messages,
-          });
-
-          // Stream content to client
-          for await (const event of anthropicStream) {
-            if (event.type === 'content_block_delta') {
-              const delta = event.delta;
-              if ('text' in delta) {
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content: delta.text })}\n\n`));
-              }
-            }
-          }
-
-          // Signal completion
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-
-        } catch (error) {
-          console.error('[Planning API] Anthropic streaming error:', error);
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: errorMessage })}\n\n`));
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-        }
-      },
-    });
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no',
-      },
-    });
+    const requestedAt = new Date().toISOString();
+    // Saved under the ids the client shows: its own for the message, and the one sent before the reply
+    const userMessageId = typeof messageId === 'string' && MESSAGE_ID_PATTERN.test(messageId) ? messageId : generateMessageId();
+    const assistantMessageId = generateMessageId();
+
+    // Stream the reply; a reply the user stops is saved to the conversation as far as it got
+    return llmEventStream(
+      () => llmProvider.streamMessage('planning-message', {
+        system: systemPrompt,
+        messages: messages,
+      }, { instancePath }),
+      {
+        label: '[Planning API]',
+        signal: request.signal,
+        prelude: { conversationId: convId, assistantMessageId },
+        onAbort: async partialText => {
+          if (!instancePath || !partialText) return;
+          await appendToConversation(instancePath, convId, [
+            { id: userMessageId, role: 'user', content: message, timestamp: requestedAt },
+            {
+              id: assistantMessageId,
+              role: 'assistant',
+              content: partialText,
+              timestamp: new Date().toISOString(),
+              interrupted: true,
+            },
+          ], context?.previousMessages || []);
+        },
+      }
+    );
   } catch (error) {
     console.error('[Planning API] Error in planning message route:', error);
     return NextResponse.json(
@@ -1,27 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
-
-// Validate that path is within allowed directories
-const ALLOWED_BASES = [
-  path.join(os.homedir(), 'claude-managers'),
-];
-
-function isPathAllowed(testPath: string): boolean {
-  const normalizedPath = path.normalize(path.resolve(testPath));
-  return ALLOWED_BASES.some(basePath =>
-    normalizedPath.startsWith(path.normalize(basePath))
-  );
-}
+import { resolveInstancePath } from '@/lib/api/path-security';
 
 // GET - Load generated plan and PRDs
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const instancePath = searchParams.get('instancePath');
+    const instanceRef = searchParams.get('instancePath');
 
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -29,7 +17,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate path is allowed
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -76,9 +65,9 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { instancePath, prdId, content, priority, title } = body;
+    const { instancePath: instanceRef, prdId, content, priority, title } = body;
 
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -93,7 +82,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate path is allowed
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -166,10 +156,10 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const instancePath = searchParams.get('instancePath');
+    const instanceRef = searchParams.get('instancePath');
     const prdId = searchParams.get('prdId');
 
-    if (!instancePath || !prdId) {
+    if (!instanceRef || !prdId) {
       return NextResponse.json(
         { error: 'Instance path and PRD ID are required' },
         { status: 400 }
@@ -177,7 +167,8 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Validate path is allowed
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -1,31 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
-import os from 'os';
-import crypto from 'crypto';
-
-// Type definitions
-interface PRDQueueItem {
-  id: string;
-  filename: string;
-  title: string;
-  priority: number;
-  status: 'pending' | 'in_progress' | 'completed';
-  addedAt: string;
-  estimatedIterations?: number;
-}
-
-interface PRDQueue {
-  queue: PRDQueueItem[];
-  lastUpdated: string;
-}
-
-// Validate instance path is within allowed directory
-function isPathAllowed(instancePath: string): boolean {
-  const normalizedPath = path.normalize(path.resolve(instancePath));
-  const allowedBase = path.join(os.homedir(), 'claude-managers');
-  return normalizedPath.startsWith(path.normalize(allowedBase));
-}
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { createPrdRecord, DEFAULT_PRD_PRIORITY, parsePrdPriority, updatePrdQueue } from '@/lib/api/prd-queue-store';
 
 // Get next PRD number based on existing files
 async function getNextPRDNumber(prdsDir: string): Promise<string> {
@@ -42,30 +19,6 @@ async function getNextPRDNumber(prdsDir: string): Promise<string> {
   }
 }
 
-// Load queue from file
-async function loadQueue(instancePath: string): Promise<PRDQueue> {
-  const queuePath = path.join(instancePath, 'planning', 'prd-queue.json');
-  try {
-    const content = await fs.readFile(queuePath, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return {
-      queue: [],
-      lastUpdated: new Date().toISOString(),
-    };
-  }
-}
-
-// Save queue to file
-async function saveQueue(instancePath: string, queue: PRDQueue): Promise<void> {
-  const planningDir = path.join(instancePath, 'planning');
-  await fs.mkdir(planningDir, { recursive: true });
-
-  const queuePath = path.join(planningDir, 'prd-queue.json');
-  queue.lastUpdated = new Date().toISOString();
-  await fs.writeFile(queuePath, JSON.stringify(queue, null, 2));
-}
-
 // Input validation
 const MAX_PRD_CONTENT_LENGTH = 200000;
 const MAX_TITLE_LENGTH = 200;
@@ -74,7 +27,7 @@ export async function POST(request: NextRequest) {
   try {
     // Parse and validate request body
     const body = await request.json();
-    const { instanceId, instancePath, prdContent, title, priority } = body;
+    const { instanceId, instancePath: instanceRef, prdContent, title, priority } = body;
 
     // Validate required fields
     if (!prdContent || typeof prdContent !== 'string') {
@@ -91,7 +44,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!instancePath || typeof instancePath !== 'string') {
+    if (!instanceRef || typeof instanceRef !== 'string') {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -99,7 +52,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate instance path
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -118,8 +72,8 @@ export async function POST(request: NextRequest) {
 
     // Validate and bound priority
     const validatedPriority = typeof priority === 'number'
-      ? Math.max(1, Math.min(priority, 3)) // 1 = High, 2 = Medium, 3 = Low
-      : 2; // Default to Medium
+      ? parsePrdPriority(Math.max(1, Math.min(Math.round(priority), 3)))! // 1 = High, 2 = Medium, 3 = Low
+      : DEFAULT_PRD_PRIORITY;
 
     // Extract title from PRD if not provided
     let prdTitle = title;
@@ -132,67 +86,39 @@ export async function POST(request: NextRequest) {
       prdTitle = prdTitle.substring(0, MAX_TITLE_LENGTH);
     }
 
-    // Create PRDs directory if it doesn't exist
-    const prdsDir = path.join(instancePath, 'prds');
-    await fs.mkdir(prdsDir, { recursive: true });
-
-    // Generate filename with auto-increment number
-    const nextNumber = await getNextPRDNumber(prdsDir);
-    const sanitizedTitle = prdTitle
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '_')
-      .replace(/^_|_$/g, '')
-      .substring(0, 40);
-    const filename = `${nextNumber}_${sanitizedTitle}.md`;
-
-    // Save PRD file
-    const prdPath = path.join(prdsDir, filename);
-    await fs.writeFile(prdPath, prdContent);
-
-    // Generate unique ID for queue item
-    const id = crypto.randomUUID();
-
-    // Load current queue
-    const queue = await loadQueue(instancePath);
-
-    // Estimate iterations based on complexity keyword in PRD
-    let estimatedIterations = 3; // Default
-    if (prdContent.toLowerCase().includes('simple')) {
-      estimatedIterations = 2;
-    } else if (prdContent.toLowerCase().includes('complex')) {
-      estimatedIterations = 5;
-    }
-
-    // Add to queue
-    const queueItem: PRDQueueItem = {
-      id,
-      filename,
-      title: prdTitle,
-      priority: validatedPriority,
-      status: 'pending',
-      addedAt: new Date().toISOString(),
-      estimatedIterations,
-    };
-
-    queue.queue.push(queueItem);
-
-    // Sort queue by priority (lower number = higher priority)
-    queue.queue.sort((a, b) => {
-      if (a.status === 'in_progress' && b.status !== 'in_progress') return -1;
-      if (b.status === 'in_progress' && a.status !== 'in_progress') return 1;
-      if (a.status === 'completed' && b.status !== 'completed') return 1;
-      if (b.status === 'completed' && a.status !== 'completed') return -1;
-      return a.priority - b.priority;
+    // Numbering, writing the file and queueing happen under the queue lock so
+    // concurrent adds can't take the same number
+    const { filename, queueItem, queueLength } = await updatePrdQueue(instancePath, async queue => {
+      // Create PRDs directory if it doesn't exist
+      const prdsDir = path.join(instancePath, 'prds');
+      await fs.mkdir(prdsDir, { recursive: true });
+
+      // Generate filename with auto-increment number
+      const nextNumber = await getNextPRDNumber(prdsDir);
+      const sanitizedTitle = prdTitle
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_|_$/g, '')
+        .substring(0, 40);
+      const filename = `${nextNumber}_${sanitizedTitle}.md`;
+
+      // Save PRD file
+      await fs.writeFile(path.join(prdsDir, filename), prdContent);
+
+      const queueItem = createPrdRecord(filename, prdContent, {
+        title: prdTitle,
+        priority: validatedPriority,
+      });
+      queue.prds.push(queueItem);
+
+      return { filename, queueItem, queueLength: queue.prds.filter(p => !p.archived).length };
     });
 
-    // Save updated queue
-    await saveQueue(instancePath, queue);
-
     return NextResponse.json({
       success: true,
       filename,
       queueItem,
-      queueLength: queue.queue.length,
+      queueLength,
     });
   } catch (error) {
     console.error('Error adding PRD to queue:', error);
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { getPrdTemplate, PRD_TEMPLATES } from '@/lib/api/prd-templates';
+import { llmProvider } from '@/lib/llm/provider';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PROMPT_LENGTH = 5000;
+const MAX_CONTEXT_ITEMS = 50;
+
+const GENERIC_SCAFFOLD = PRD_TEMPLATES.feature.scaffold;
+
+function buildSystemPrompt(templateId: unknown): string {
+  const template = getPrdTemplate(templateId);
+
+  return `You are an expert software architect and technical writer. Your task is to write a Product Requirements Document (PRD) that Worker Claude can implement autonomously.
+
+${template ? `This is a "${template.name}" PRD. ${template.guidance}\n\n` : ''}Use exactly these sections, replacing every [placeholder]:
+
+${template ? template.scaffold : GENERIC_SCAFFOLD}
+
+RULES:
+1. The first line must be "# PRD: <Title>"
+2. Be specific and technical - include file paths, component names and API endpoints where applicable
+3. Acceptance criteria must be checkboxes that can be verified by reading the code or running it
+4. Keep the scope completable in a handful of worker iterations
+
+RESPONSE FORMAT:
+Return your response in this exact format:
+
+<prd>
+The complete PRD markdown goes here
+</prd>
+
+<suggestions>
+- 3-5 short, concrete ideas the user could ask for to improve this PRD
+</suggestions>`;
+}
+
+function buildUserPrompt(
+  prompt: string,
+  existingPRDs: string[],
+  technologies: string[]
+): string {
+  let userPrompt = `Write a PRD for the following request:\n\n${prompt}\n`;
+
+  if (technologies.length > 0) {
+    userPrompt += `\nProject technologies: ${technologies.join(', ')}\n`;
+  }
+
+  if (existingPRDs.length > 0) {
+    userPrompt += `\nExisting PRDs in this project (avoid duplicating them):\n${existingPRDs.map(p => `- ${p}`).join('\n')}\n`;
+  }
+
+  return userPrompt;
+}
+
+// Keep only short string entries from optional context arrays
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === 'string')
+    .slice(0, MAX_CONTEXT_ITEMS)
+    .map(v => v.slice(0, 200));
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { prompt, template, context } = body;
+
+    if (!prompt || typeof prompt !== 'string' || !prompt.trim()) {
+      return NextResponse.json({ error: 'prompt is required' }, { status: 400 });
+    }
+
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      return NextResponse.json(
+        { error: `Prompt exceeds maximum length of ${MAX_PROMPT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (template !== undefined && template !== null && !getPrdTemplate(template)) {
+      return NextResponse.json(
+        { error: `Invalid template. Must be one of: ${Object.keys(PRD_TEMPLATES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const response = await llmProvider.createMessage('prd-generate', {
+      system: buildSystemPrompt(template),
+      messages: [
+        {
+          role: 'user',
+          content: buildUserPrompt(
+            prompt.trim(),
+            toStringList(context?.existingPRDs),
+            toStringList(context?.technologies)
+          ),
+        },
+      ],
+    });
+
+    const responseContent = response.content[0];
+    if (responseContent.type !== 'text') {
+      throw new Error('Unexpected response type from Claude');
+    }
+
+    const aiResponse = responseContent.text;
+
+    const prdMatch = aiResponse.match(/<prd>([\s\S]*?)<\/prd>/);
+    const prd = (prdMatch ? prdMatch[1] : aiResponse).trim();
+
+    const suggestionsMatch = aiResponse.match(/<suggestions>([\s\S]*?)<\/suggestions>/);
+    const suggestions = suggestionsMatch
+      ? suggestionsMatch[1]
+          .split('\n')
+          .map(line => line.replace(/^\s*[-*\d.]+\s*/, '').trim())
+          .filter(Boolean)
+      : [];
+
+    const titleMatch = prd.match(/^#\s*PRD:\s*(.+)$/m);
+    const title = titleMatch ? titleMatch[1].trim() : 'Untitled PRD';
+
+    return NextResponse.json({
+      prd,
+      title,
+      template: template ?? null,
+      suggestions,
+    });
+  } catch (error) {
+    console.error('PRD generation error:', error);
+
+    if (error instanceof Anthropic.APIError) {
+      if (error.status === 429) {
+        return NextResponse.json(
+          { error: 'Rate limit exceeded. Please try again in a moment.' },
+          { status: 429 }
+        );
+      }
+      return NextResponse.json(
+        { error: `AI service error: ${error.message}` },
+        { status: error.status || 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate PRD' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,54 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
-import path from 'path';
-import os from 'os';
-
-// Type definitions
-interface PRDQueueItem {
-  id: string;
-  filename: string;
-  title: string;
-  priority: number;
-  status: 'pending' | 'in_progress' | 'completed';
-  addedAt: string;
-  estimatedIterations?: number;
-}
-
-interface PRDQueue {
-  queue: PRDQueueItem[];
-  lastUpdated: string;
-}
-
-// Validate instance path is within allowed directory
-function isPathAllowed(instancePath: string): boolean {
-  const normalizedPath = path.normalize(path.resolve(instancePath));
-  const allowedBase = path.join(os.homedir(), 'claude-managers');
-  return normalizedPath.startsWith(path.normalize(allowedBase));
-}
-
-// Load queue from file
-async function loadQueue(instancePath: string): Promise<PRDQueue> {
-  const queuePath = path.join(instancePath, 'planning', 'prd-queue.json');
-  try {
-    const content = await fs.readFile(queuePath, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return {
-      queue: [],
-      lastUpdated: new Date().toISOString(),
-    };
-  }
-}
-
-// Save queue to file
-async function saveQueue(instancePath: string, queue: PRDQueue): Promise<void> {
-  const planningDir = path.join(instancePath, 'planning');
-  await fs.mkdir(planningDir, { recursive: true });
-
-  const queuePath = path.join(planningDir, 'prd-queue.json');
-  queue.lastUpdated = new Date().toISOString();
-  await fs.writeFile(queuePath, JSON.stringify(queue, null, 2));
-}
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
+import {
+  getPrdQueueStats,
+  parsePrdPriority,
+  parsePrdStatus,
+  readPrdQueue,
+  setPrdStatus,
+  updatePrdQueue,
+} from '@/lib/api/prd-queue-store';
+import { PRD_STATUSES } from '@/lib/types/prd';
 
 // GET - List all PRDs in queue
 export async function GET(
@@ -59,9 +20,9 @@ export async function GET(
     const { instanceId } = await params;
 
     // Get instance path from query params
-    const instancePath = request.nextUrl.searchParams.get('instancePath');
+    const instanceRef = request.nextUrl.searchParams.get('instancePath');
 
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -69,7 +30,8 @@ export async function GET(
     }
 
     // Validate instance path
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -86,14 +48,16 @@ export async function GET(
       );
     }
 
-    // Load queue
-    const queue = await loadQueue(instancePath);
+    // Archived PRDs have been removed from the queue but keep their file
+    const { prds, lastUpdated } = await readPrdQueue(instancePath);
+    const queue = prds.filter(item => !item.archived);
 
     // Group by status
     const grouped = {
-      inProgress: queue.queue.filter(item => item.status === 'in_progress'),
-      pending: queue.queue.filter(item => item.status === 'pending'),
-      completed: queue.queue.filter(item => item.status === 'completed'),
+      inProgress: queue.filter(item => item.status === 'in_progress'),
+      blocked: queue.filter(item => item.status === 'blocked'),
+      pending: queue.filter(item => item.status === 'pending'),
+      completed: queue.filter(item => item.status === 'completed'),
     };
 
     // Group pending by priority
@@ -105,16 +69,11 @@ export async function GET(
 
     return NextResponse.json({
       success: true,
-      queue: queue.queue,
+      queue,
       grouped,
       byPriority,
-      stats: {
-        total: queue.queue.length,
-        pending: grouped.pending.length,
-        inProgress: grouped.inProgress.length,
-        completed: grouped.completed.length,
-      },
-      lastUpdated: queue.lastUpdated,
+      stats: getPrdQueueStats(queue),
+      lastUpdated,
     });
   } catch (error) {
     console.error('Error fetching PRD queue:', error);
@@ -125,7 +84,7 @@ export async function GET(
   }
 }
 
-// DELETE - Remove a PRD from queue
+// DELETE - Remove a PRD from queue (archived, or with deleteFile the file and record are deleted)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ instanceId: string }> }
@@ -133,9 +92,9 @@ export async function DELETE(
   try {
     const { instanceId } = await params;
     const body = await request.json();
-    const { instancePath, prdId, deleteFile } = body;
+    const { instancePath: instanceRef, prdId, deleteFile } = body;
 
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -150,7 +109,8 @@ export async function DELETE(
     }
 
     // Validate instance path
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -167,41 +127,42 @@ export async function DELETE(
       );
     }
 
-    // Load queue
-    const queue = await loadQueue(instancePath);
+    const result = await updatePrdQueue(instancePath, async queue => {
+      const itemIndex = queue.prds.findIndex(item => item.id === prdId);
+      if (itemIndex === -1) return null;
+
+      const item = queue.prds[itemIndex];
+
+      if (!deleteFile) {
+        item.archived = true;
+      } else {
+        try {
+          const prdPath = await resolveWithin(instancePath, 'prds', item.filename);
+          if (!prdPath) {
+            throw new Error(`PRD file outside instance: ${item.filename}`);
+          }
+          await fs.unlink(prdPath);
+        } catch (err) {
+          console.warn('Failed to delete PRD file:', err);
+          // Continue - file might not exist
+        }
+        queue.prds.splice(itemIndex, 1);
+      }
 
-    // Find the item to delete
-    const itemIndex = queue.queue.findIndex(item => item.id === prdId);
-    if (itemIndex === -1) {
+      return { item, queueLength: queue.prds.filter(p => !p.archived).length };
+    });
+
+    if (!result) {
       return NextResponse.json(
         { error: 'PRD not found in queue' },
         { status: 404 }
       );
     }
 
-    const item = queue.queue[itemIndex];
-
-    // Optionally delete the file
-    if (deleteFile) {
-      try {
-        const prdPath = path.join(instancePath, 'prds', item.filename);
-        await fs.unlink(prdPath);
-      } catch (err) {
-        console.warn('Failed to delete PRD file:', err);
-        // Continue - file might not exist
-      }
-    }
-
-    // Remove from queue
-    queue.queue.splice(itemIndex, 1);
-
-    // Save updated queue
-    await saveQueue(instancePath, queue);
-
     return NextResponse.json({
       success: true,
-      deleted: item,
-      queueLength: queue.queue.length,
+      deleted: result.item,
+      queueLength: result.queueLength,
     });
   } catch (error) {
     console.error('Error deleting PRD from queue:', error);
@@ -220,9 +181,9 @@ export async function PATCH(
   try {
     const { instanceId } = await params;
     const body = await request.json();
-    const { instancePath, prdId, status, priority } = body;
+    const { instancePath: instanceRef, prdId, status, priority } = body;
 
-    if (!instancePath) {
+    if (!instanceRef) {
       return NextResponse.json(
         { error: 'Instance path is required' },
         { status: 400 }
@@ -237,7 +198,8 @@ export async function PATCH(
     }
 
     // Validate instance path
-    if (!isPathAllowed(instancePath)) {
+    const instancePath = await resolveInstancePath(instanceRef);
+    if (!instancePath) {
       return NextResponse.json(
         { error: 'Invalid instance path' },
         { status: 403 }
@@ -254,51 +216,42 @@ export async function PATCH(
       );
     }
 
-    // Load queue
-    const queue = await loadQueue(instancePath);
-
-    // Find the item to update
-    const itemIndex = queue.queue.findIndex(item => item.id === prdId);
-    if (itemIndex === -1) {
+    const validatedStatus = status ? parsePrdStatus(status) : null;
+    if (status && !validatedStatus) {
       return NextResponse.json(
-        { error: 'PRD not found in queue' },
-        { status: 404 }
+        { error: `Invalid status. Must be one of: ${PRD_STATUSES.join(', ')}` },
+        { status: 400 }
       );
     }
 
-    // Update status if provided
-    if (status) {
-      const validStatuses = ['pending', 'in_progress', 'completed'];
-      if (!validStatuses.includes(status)) {
-        return NextResponse.json(
-          { error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` },
-          { status: 400 }
-        );
-      }
-      queue.queue[itemIndex].status = status;
-    }
+    // Out-of-range numbers are clamped to 1-3
+    const validatedPriority = typeof priority === 'number'
+      ? parsePrdPriority(Math.max(1, Math.min(Math.round(priority), 3)))
+      : null;
 
-    // Update priority if provided
-    if (typeof priority === 'number') {
-      const validatedPriority = Math.max(1, Math.min(priority, 3));
-      queue.queue[itemIndex].priority = validatedPriority;
-    }
+    const updated = await updatePrdQueue(instancePath, queue => {
+      const item = queue.prds.find(p => p.id === prdId);
+      if (!item) return null;
 
-    // Re-sort queue
-    queue.queue.sort((a, b) => {
-      if (a.status === 'in_progress' && b.status !== 'in_progress') return -1;
-      if (b.status === 'in_progress' && a.status !== 'in_progress') return 1;
-      if (a.status === 'completed' && b.status !== 'completed') return 1;
-      if (b.status === 'completed' && a.status !== 'completed') return -1;
-      return a.priority - b.priority;
+      if (validatedStatus) {
+        setPrdStatus(item, validatedStatus);
+      }
+      if (validatedPriority) {
+        item.priority = validatedPriority;
+      }
+      return item;
     });
 
-    // Save updated queue
-    await saveQueue(instancePath, queue);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'PRD not found in queue' },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      updated: queue.queue[itemIndex],
+      updated,
     });
   } catch (error) {
     console.error('Error updating PRD in queue:', error);
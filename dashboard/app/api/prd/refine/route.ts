@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { computeDiff } from '@/lib/api/diff';
+import { llmProvider } from '@/lib/llm/provider';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_CONTENT_LENGTH = 200000;
+const MAX_FEEDBACK_LENGTH = 2000;
+
+const REFINE_SYSTEM_PROMPT = `You are an expert PRD (Product Requirements Document) editor. The user will give you a PRD and feedback about it. Revise the PRD to address the feedback.
+
+RULES:
+1. ALWAYS return the COMPLETE revised PRD - never truncate or abbreviate
+2. Keep the "# PRD: <Title>" first line and the existing section structure unless the feedback asks otherwise
+3. Address every point of the feedback, and change nothing unrelated to it
+4. Keep the same markdown formatting style
+
+RESPONSE FORMAT:
+Return your response in this exact format:
+
+<explanation>
+Brief explanation of what you changed (1-2 sentences)
+</explanation>
+
+<updated_content>
+The complete revised PRD goes here
+</updated_content>`;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { currentPRD, refinementPrompt } = body;
+
+    if (!currentPRD || typeof currentPRD !== 'string') {
+      return NextResponse.json({ error: 'currentPRD is required' }, { status: 400 });
+    }
+
+    if (!refinementPrompt || typeof refinementPrompt !== 'string' || !refinementPrompt.trim()) {
+      return NextResponse.json({ error: 'refinementPrompt is required' }, { status: 400 });
+    }
+
+    if (currentPRD.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json(
+        { error: `PRD exceeds maximum length of ${MAX_CONTENT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (refinementPrompt.length > MAX_FEEDBACK_LENGTH) {
+      return NextResponse.json(
+        { error: `Feedback exceeds maximum length of ${MAX_FEEDBACK_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const userPrompt = `Here is the current PRD:
+
+\`\`\`markdown
+${currentPRD}
+\`\`\`
+
+Feedback: "${refinementPrompt.trim()}"
+
+Please revise the PRD and return it in the specified format.`;
+
+    const response = await llmProvider.createMessage('prd-refine', {
+      system: REFINE_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: userPrompt }],
+    });
+
+    const responseContent = response.content[0];
+    if (responseContent.type !== 'text') {
+      throw new Error('Unexpected response type from Claude');
+    }
+
+    const aiResponse = responseContent.text;
+
+    const explanationMatch = aiResponse.match(/<explanation>([\s\S]*?)<\/explanation>/);
+    const explanation = explanationMatch
+      ? explanationMatch[1].trim()
+      : 'Changes applied as requested.';
+
+    const contentMatch = aiResponse.match(/<updated_content>([\s\S]*?)<\/updated_content>/);
+    const updatedPRD = contentMatch
+      ? contentMatch[1].trim()
+      : aiResponse.trim();
+
+    const titleMatch = updatedPRD.match(/^#\s*PRD:\s*(.+)$/m);
+    const title = titleMatch ? titleMatch[1].trim() : 'Untitled PRD';
+
+    return NextResponse.json({
+      updatedPRD,
+      title,
+      changes: computeDiff(currentPRD, updatedPRD),
+      explanation,
+    });
+  } catch (error) {
+    console.error('PRD refine error:', error);
+
+    if (error instanceof Anthropic.APIError) {
+      if (error.status === 429) {
+        return NextResponse.json(
+          { error: 'Rate limit exceeded. Please try again in a moment.' },
+          { status: 429 }
+        );
+      }
+      return NextResponse.json(
+        { error: `AI service error: ${error.message}` },
+        { status: error.status || 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to refine PRD' },
+      { status: 500 }
+    );
+  }
+}
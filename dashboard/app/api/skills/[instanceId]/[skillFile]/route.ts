@@ -1,86 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
-import path from 'path';
-
-const MAX_CONTENT_LENGTH = 100000; // 100KB
-const SKILL_FILENAME_PATTERN = /^[a-z0-9_-]+\.md$/;
-
-// Resolve instance path from encoded parameter
-async function resolveInstancePath(encodedPath: string): Promise<string | null> {
-  const decodedPath = decodeURIComponent(encodedPath);
-
-  // Validate path is within allowed directories
-  const allowedBase = path.join(process.env.HOME || '', 'claude-managers');
-  const normalizedPath = path.normalize(path.resolve(decodedPath));
-
-  if (!normalizedPath.startsWith(allowedBase) && !normalizedPath.includes('claude-manager')) {
-    return null;
-  }
-
-  try {
-    await fs.access(normalizedPath);
-    return normalizedPath;
-  } catch {
-    return null;
-  }
-}
-
-// Validate skill filename
-function isValidSkillFilename(filename: string): boolean {
-  return SKILL_FILENAME_PATTERN.test(filename);
-}
-
-// Extract title from markdown content
-function extractTitle(content: string): string {
-  const lines = content.split('\n');
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed.startsWith('# ')) {
-      return trimmed.substring(2).trim();
-    }
-  }
-  return 'Untitled Skill';
-}
-
-// Extract category from markdown content
-function extractCategory(content: string, filename: string): string {
-  const parts = filename.replace('.md', '').split('_');
-  if (parts.length > 1) {
-    return parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
-  }
-
-  const lowerContent = content.toLowerCase();
-  if (lowerContent.includes('react') || lowerContent.includes('hook')) return 'React';
-  if (lowerContent.includes('api') || lowerContent.includes('endpoint')) return 'API';
-  if (lowerContent.includes('database') || lowerContent.includes('prisma')) return 'Database';
-  if (lowerContent.includes('security') || lowerContent.includes('xss')) return 'Security';
-  if (lowerContent.includes('testing') || lowerContent.includes('test')) return 'Testing';
-  if (lowerContent.includes('performance')) return 'Performance';
-
-  return 'General';
-}
-
-// Extract tags from content
-function extractTags(content: string): string[] {
-  const tags: Set<string> = new Set();
-
-  const patterns = [
-    /typescript/gi, /javascript/gi, /react/gi, /nextjs/gi,
-    /prisma/gi, /api/gi, /security/gi, /performance/gi,
-    /testing/gi, /database/gi, /validation/gi, /error/gi
-  ];
-
-  for (const pattern of patterns) {
-    if (pattern.test(content)) {
-      const match = content.match(pattern);
-      if (match) {
-        tags.add(match[0].toLowerCase());
-      }
-    }
-  }
-
-  return Array.from(tags).slice(0, 5);
-}
+import {
+  MAX_CONTENT_LENGTH,
+  isValidSkillFilename,
+  extractTitle,
+  extractCategory,
+  extractTags,
+} from '@/lib/api/skill-utils';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
 
 // GET: Get a single skill
 export async function GET(
@@ -107,7 +34,14 @@ export async function GET(
       );
     }
 
-    const filePath = path.join(instancePath, 'skills', filename);
+    const filePath = await resolveWithin(instancePath, 'skills', filename);
+
+    if (!filePath) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid skill path' },
+        { status: 403 }
+      );
+    }
 
     try {
       await fs.access(filePath);
@@ -184,7 +118,14 @@ export async function PUT(
       );
     }
 
-    const filePath = path.join(instancePath, 'skills', filename);
+    const filePath = await resolveWithin(instancePath, 'skills', filename);
+
+    if (!filePath) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid skill path' },
+        { status: 403 }
+      );
+    }
 
     // Check if skill exists
     try {
@@ -247,7 +188,14 @@ export async function DELETE(
       );
     }
 
-    const filePath = path.join(instancePath, 'skills', filename);
+    const filePath = await resolveWithin(instancePath, 'skills', filename);
+
+    if (!filePath) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid skill path' },
+        { status: 403 }
+      );
+    }
 
     // Check if skill exists
     try {
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { promises as fs } from 'fs';
 import path from 'path';
-
-// Validation constants
-const MAX_SKILL_NAME_LENGTH = 100;
-const MAX_CONTENT_LENGTH = 100000; // 100KB
-const SKILL_FILENAME_PATTERN = /^[a-z0-9_-]+\.md$/;
+import {
+  MAX_SKILL_NAME_LENGTH,
+  MAX_CONTENT_LENGTH,
+  SKILL_FILENAME_PATTERN,
+  extractTitle,
+  extractCategory,
+  extractTags,
+  toSkillFilename,
+  withSkillMetadata,
+} from '@/lib/api/skill-utils';
+import { resolveInstancePath, resolveWithin } from '@/lib/api/path-security';
 
 interface Skill {
   filename: string;
@@ -17,81 +23,6 @@ interface Skill {
   content: string;
 }
 
-// Extract title from markdown content
-function extractTitle(content: string): string {
-  const lines = content.split('\n');
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed.startsWith('# ')) {
-      return trimmed.substring(2).trim();
-    }
-  }
-  return 'Untitled Skill';
-}
-
-// Extract category from markdown content (looks for "## When to Apply" section or similar)
-function extractCategory(content: string, filename: string): string {
-  // Try to infer from filename
-  const parts = filename.replace('.md', '').split('_');
-  if (parts.length > 1) {
-    return parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
-  }
-
-  // Check content for common patterns
-  const lowerContent = content.toLowerCase();
-  if (lowerContent.includes('react') || lowerContent.includes('hook')) return 'React';
-  if (lowerContent.includes('api') || lowerContent.includes('endpoint')) return 'API';
-  if (lowerContent.includes('database') || lowerContent.includes('prisma')) return 'Database';
-  if (lowerContent.includes('security') || lowerContent.includes('xss')) return 'Security';
-  if (lowerContent.includes('testing') || lowerContent.includes('test')) return 'Testing';
-  if (lowerContent.includes('performance')) return 'Performance';
-
-  return 'General';
-}
-
-// Extract tags from content
-function extractTags(content: string): string[] {
-  const tags: Set<string> = new Set();
-
-  // Look for common patterns
-  const patterns = [
-    /typescript/gi, /javascript/gi, /react/gi, /nextjs/gi,
-    /prisma/gi, /api/gi, /security/gi, /performance/gi,
-    /testing/gi, /database/gi, /validation/gi, /error/gi
-  ];
-
-  for (const pattern of patterns) {
-    if (pattern.test(content)) {
-      const match = content.match(pattern);
-      if (match) {
-        tags.add(match[0].toLowerCase());
-      }
-    }
-  }
-
-  return Array.from(tags).slice(0, 5);
-}
-
-// Resolve instance path from encoded parameter
-async function resolveInstancePath(encodedPath: string): Promise<string | null> {
-  const decodedPath = decodeURIComponent(encodedPath);
-
-  // Validate path is within allowed directories
-  const allowedBase = path.join(process.env.HOME || '', 'claude-managers');
-  const normalizedPath = path.normalize(path.resolve(decodedPath));
-
-  if (!normalizedPath.startsWith(allowedBase) && !normalizedPath.includes('claude-manager')) {
-    return null;
-  }
-
-  try {
-    await fs.access(normalizedPath);
-    return normalizedPath;
-  } catch {
-    return null;
-  }
-}
-
 // GET: List all skills for an instance
 export async function GET(
   request: NextRequest,
@@ -206,10 +137,7 @@ export async function POST(
     }
 
     // Generate filename from name
-    const filename = name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '_')
-      .replace(/^_|_$/g, '') + '.md';
+    const filename = toSkillFilename(name);
 
     if (!SKILL_FILENAME_PATTERN.test(filename)) {
       return NextResponse.json(
@@ -223,7 +151,14 @@ export async function POST(
     // Ensure skills directory exists
     await fs.mkdir(skillsDir, { recursive: true });
 
-    const filePath = path.join(skillsDir, filename);
+    const filePath = await resolveWithin(skillsDir, filename);
+
+    if (!filePath) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid skill path' },
+        { status: 403 }
+      );
+    }
 
     // Check if skill already exists
     try {
@@ -236,19 +171,23 @@ export async function POST(
       // File doesn't exist, which is good
     }
 
-    // Write the skill file
-    await fs.writeFile(filePath, content, 'utf-8');
+    // Write the skill file, keeping the given category and tags in its frontmatter
+    const fileContent = withSkillMetadata(content, filename, {
+      category: typeof category === 'string' ? category : undefined,
+      tags: Array.isArray(tags) ? tags.map(String) : undefined,
+    });
+    await fs.writeFile(filePath, fileContent, 'utf-8');
 
     const stat = await fs.stat(filePath);
 
     const skill: Skill = {
       filename,
-      title: extractTitle(content),
-      category: category || extractCategory(content, filename),
-      tags: tags || extractTags(content),
+      title: extractTitle(fileContent),
+      category: extractCategory(fileContent, filename),
+      tags: extractTags(fileContent),
       createdAt: stat.birthtime.toISOString(),
       updatedAt: stat.mtime.toISOString(),
-      content,
+      content: fileContent,
     };
 
     return NextResponse.json({
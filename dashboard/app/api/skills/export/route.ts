@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  isValidSkillFilename,
+  extractTitle,
+  extractCategory,
+  extractTags,
+} from '@/lib/api/skill-utils';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import {
+  SKILL_BUNDLE_FORMAT,
+  SKILL_BUNDLE_VERSION,
+  type SkillBundle,
+  type SkillBundleEntry,
+} from '@/lib/types/skill';
+
+const MAX_EXPORT_SKILLS = 500;
+
+// POST: Export selected skills as a versioned JSON bundle
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { instanceId, skillFiles, format = 'json' } = body;
+
+    if (!instanceId || typeof instanceId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'instanceId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'json') {
+      return NextResponse.json(
+        { success: false, error: 'Only json format is supported' },
+        { status: 400 }
+      );
+    }
+
+    if (skillFiles !== undefined && !Array.isArray(skillFiles)) {
+      return NextResponse.json(
+        { success: false, error: 'skillFiles must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const instancePath = await resolveInstancePath(instanceId);
+
+    if (!instancePath) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    const skillsDir = path.join(instancePath, 'skills');
+
+    let available: string[] = [];
+    try {
+      available = (await fs.readdir(skillsDir)).filter(f => f.endsWith('.md'));
+    } catch {
+      // No skills directory yet - export an empty bundle
+    }
+
+    // Export everything when no explicit selection was sent
+    const requested: string[] = skillFiles ?? available;
+
+    if (requested.length > MAX_EXPORT_SKILLS) {
+      return NextResponse.json(
+        { success: false, error: `Maximum ${MAX_EXPORT_SKILLS} skills per export` },
+        { status: 400 }
+      );
+    }
+
+    for (const filename of requested) {
+      if (typeof filename !== 'string' || !isValidSkillFilename(filename)) {
+        return NextResponse.json(
+          { success: false, error: `Invalid skill filename: ${String(filename)}` },
+          { status: 400 }
+        );
+      }
+      if (!available.includes(filename)) {
+        return NextResponse.json(
+          { success: false, error: `Skill not found: ${filename}` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const skills: SkillBundleEntry[] = [];
+
+    for (const filename of requested) {
+      const content = await fs.readFile(path.join(skillsDir, filename), 'utf-8');
+      skills.push({
+        filename,
+        title: extractTitle(content),
+        category: extractCategory(content, filename),
+        tags: extractTags(content),
+        content,
+      });
+    }
+
+    const bundle: SkillBundle = {
+      format: SKILL_BUNDLE_FORMAT,
+      version: SKILL_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: {
+        instance: path.basename(instancePath),
+      },
+      skillCount: skills.length,
+      skills,
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: bundle,
+    });
+  } catch (error) {
+    console.error('Error exporting skills:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export skills' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  MAX_CONTENT_LENGTH,
+  isValidSkillFilename,
+  extractTitle,
+  extractCategory,
+  extractTags,
+  toSkillFilename,
+} from '@/lib/api/skill-utils';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { llmProvider } from '@/lib/llm/provider';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_EXCERPT_LENGTH = 20000;
+const MAX_CATEGORY_LENGTH = 50;
+
+const SKILL_SYSTEM_PROMPT = `You are Manager Claude, writing a skill file that teaches Worker Claude how to avoid a recurring problem.
+
+Skill files are markdown documents with this exact structure:
+
+# Skill: [Short Title]
+
+## When to Apply
+[1-3 sentences describing the situations where this skill is relevant]
+
+## Guidelines
+
+### 1. [Guideline Name]
+[Short explanation]
+
+\`\`\`typescript
+// BAD - why this is wrong
+...
+
+// GOOD - why this is right
+...
+\`\`\`
+
+### 2. [Guideline Name]
+...
+
+## Common Mistakes to Avoid
+- [Mistake 1]
+- [Mistake 2]
+
+RULES:
+1. Be concrete - every guideline needs a BAD/GOOD code example
+2. Keep it focused on the described problem - 2-5 guidelines is typical
+3. Prefer TypeScript for examples unless the problem is clearly about another language
+4. If a worker log or manager review is provided, ground the skill in the specific mistakes it shows
+
+RESPONSE FORMAT:
+Return your response in this exact format:
+
+<filename>
+category_topic_in_snake_case
+</filename>
+
+<skill>
+The complete skill markdown goes here
+</skill>
+
+The filename must start with a single lowercase category word followed by an underscore (for example "react_memoization", "api_rate_limiting", "security_token_storage").`;
+
+// Build the filename prefix the skills library will read the category back from
+function categoryPrefix(category: string): string {
+  return category.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)[0] || '';
+}
+
+function buildUserPrompt(
+  description: string,
+  category?: string,
+  workerLog?: string,
+  managerReview?: string
+): string {
+  let prompt = `Problem to address:\n${description}\n\n`;
+
+  if (category) {
+    prompt += `Category: ${category} (start the filename with "${categoryPrefix(category)}_")\n\n`;
+  }
+
+  if (workerLog) {
+    prompt += `Worker log excerpt:\n\`\`\`\n${workerLog}\n\`\`\`\n\n`;
+  }
+
+  if (managerReview) {
+    prompt += `Manager review:\n\`\`\`markdown\n${managerReview}\n\`\`\`\n\n`;
+  }
+
+  prompt += 'Write the skill file in the specified format.';
+
+  return prompt;
+}
+
+// POST: Generate a draft skill from a problem description
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { instanceId, description, category, workerLog, managerReview } = body;
+
+    if (!instanceId || typeof instanceId !== 'string') {
+      return NextResponse.json({ error: 'instanceId is required' }, { status: 400 });
+    }
+
+    if (!description || typeof description !== 'string' || !description.trim()) {
+      return NextResponse.json({ error: 'description is required' }, { status: 400 });
+    }
+
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (category !== undefined && (typeof category !== 'string' || category.length > MAX_CATEGORY_LENGTH)) {
+      return NextResponse.json(
+        { error: `category must be a string of at most ${MAX_CATEGORY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, value] of [['workerLog', workerLog], ['managerReview', managerReview]]) {
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_EXCERPT_LENGTH)) {
+        return NextResponse.json(
+          { error: `${field} must be a string of at most ${MAX_EXCERPT_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const instancePath = await resolveInstancePath(instanceId);
+    if (!instancePath) {
+      return NextResponse.json({ error: 'Invalid instance path' }, { status: 403 });
+    }
+
+    const response = await llmProvider.createMessage('skill-generate', {
+      system: SKILL_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: buildUserPrompt(description.trim(), category || undefined, workerLog, managerReview),
+        },
+      ],
+    }, { instancePath });
+
+    const responseContent = response.content[0];
+    if (responseContent.type !== 'text') {
+      throw new Error('Unexpected response type from Claude');
+    }
+
+    const aiResponse = responseContent.text;
+
+    const skillMatch = aiResponse.match(/<skill>([\s\S]*?)<\/skill>/);
+    const skill = (skillMatch ? skillMatch[1] : aiResponse).trim() + '\n';
+
+    if (skill.length > MAX_CONTENT_LENGTH) {
+      throw new Error('Generated skill exceeds the maximum skill size');
+    }
+
+    const title = extractTitle(skill).replace(/^Skill:\s*/i, '');
+
+    // Prefer the model's filename, but keep the requested category prefix so the
+    // library infers the same category once the skill is saved
+    const filenameMatch = aiResponse.match(/<filename>([\s\S]*?)<\/filename>/);
+    let filename = toSkillFilename(filenameMatch ? filenameMatch[1].trim() : title);
+    const prefix = category ? categoryPrefix(category) : '';
+    if (prefix && !filename.startsWith(`${prefix}_`)) {
+      filename = toSkillFilename(`${prefix}_${filename.replace(/\.md$/, '')}`);
+    }
+    if (!isValidSkillFilename(filename)) {
+      filename = toSkillFilename(`general_${title}`);
+    }
+
+    return NextResponse.json({
+      skill,
+      title,
+      category: extractCategory(skill, filename),
+      tags: extractTags(skill),
+      suggestedFilename: filename.replace(/\.md$/, ''),
+    });
+  } catch (error) {
+    console.error('Skill generation error:', error);
+
+    if (error instanceof Anthropic.APIError) {
+      if (error.status === 429) {
+        return NextResponse.json(
+          { error: 'Rate limit exceeded. Please try again in a moment.' },
+          { status: 429 }
+        );
+      }
+      return NextResponse.json(
+        { error: `AI service error: ${error.message}` },
+        { status: error.status || 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate skill' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,280 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  MAX_CONTENT_LENGTH,
+  isValidSkillFilename,
+  extractTitle,
+  extractCategory,
+  extractTags,
+  withSkillMetadata,
+} from '@/lib/api/skill-utils';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import {
+  SKILL_BUNDLE_FORMAT,
+  SKILL_BUNDLE_VERSION,
+  type SkillBundleEntry,
+  type SkillConflictStrategy,
+  type SkillImportItem,
+  type SkillImportResult,
+} from '@/lib/types/skill';
+
+const MAX_IMPORT_SKILLS = 500;
+const CONFLICT_STRATEGIES: SkillConflictStrategy[] = ['skip', 'overwrite', 'rename'];
+
+// Find the next free "<name>_<n>.md" filename for a renamed import
+function nextAvailableFilename(filename: string, taken: Set<string>): string {
+  const base = filename.replace(/\.md$/, '');
+  let counter = 2;
+  while (taken.has(`${base}_${counter}.md`)) {
+    counter++;
+  }
+  return `${base}_${counter}.md`;
+}
+
+// Load the selected skills from another instance's skills directory
+async function loadSkillsFromInstance(
+  sourcePath: string,
+  filenames: unknown[]
+): Promise<SkillBundleEntry[]> {
+  const skillsDir = path.join(sourcePath, 'skills');
+  const entries: SkillBundleEntry[] = [];
+
+  for (const filename of filenames) {
+    if (typeof filename !== 'string' || !isValidSkillFilename(filename)) {
+      throw new Error(`Invalid skill filename: ${String(filename)}`);
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(skillsDir, filename), 'utf-8');
+    } catch {
+      throw new Error(`Skill not found in source instance: ${filename}`);
+    }
+
+    entries.push({
+      filename,
+      title: extractTitle(content),
+      category: extractCategory(content, filename),
+      tags: extractTags(content),
+      content,
+    });
+  }
+
+  return entries;
+}
+
+// Normalize skills from an uploaded bundle, filling in inferred metadata
+function loadSkillsFromBundle(skills: unknown[]): SkillBundleEntry[] {
+  return skills.map((raw) => {
+    const skill = (raw ?? {}) as Partial<SkillBundleEntry>;
+
+    if (typeof skill.filename !== 'string' || typeof skill.content !== 'string') {
+      throw new Error('Each skill must have a filename and content');
+    }
+
+    // The bundle's category and tags are kept in the skill's frontmatter
+    const content = withSkillMetadata(skill.content, skill.filename, {
+      category: typeof skill.category === 'string' ? skill.category : undefined,
+      tags: Array.isArray(skill.tags) ? skill.tags.map(String) : undefined,
+    });
+
+    return {
+      filename: skill.filename,
+      title: skill.title || extractTitle(content),
+      category: extractCategory(content, skill.filename),
+      tags: extractTags(content),
+      content,
+    };
+  });
+}
+
+// POST: Import skills from another instance or an exported bundle
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      instanceId,
+      source,
+      sourceType,
+      skills,
+      format,
+      version,
+      conflict = 'skip',
+      dryRun = false,
+    } = body;
+
+    if (!instanceId || typeof instanceId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'instanceId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(skills) || skills.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'skills array is required' },
+        { status: 400 }
+      );
+    }
+
+    if (skills.length > MAX_IMPORT_SKILLS) {
+      return NextResponse.json(
+        { success: false, error: `Maximum ${MAX_IMPORT_SKILLS} skills per import` },
+        { status: 400 }
+      );
+    }
+
+    if (!CONFLICT_STRATEGIES.includes(conflict)) {
+      return NextResponse.json(
+        { success: false, error: `conflict must be one of: ${CONFLICT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const targetPath = await resolveInstancePath(instanceId);
+
+    if (!targetPath) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid instance path' },
+        { status: 403 }
+      );
+    }
+
+    let entries: SkillBundleEntry[];
+
+    try {
+      if (sourceType === 'instance') {
+        if (!source || typeof source !== 'string') {
+          return NextResponse.json(
+            { success: false, error: 'source is required for instance imports' },
+            { status: 400 }
+          );
+        }
+
+        const sourcePath = await resolveInstancePath(source);
+        if (!sourcePath) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid source instance path' },
+            { status: 403 }
+          );
+        }
+        if (sourcePath === targetPath) {
+          return NextResponse.json(
+            { success: false, error: 'Source and target instance are the same' },
+            { status: 400 }
+          );
+        }
+
+        entries = await loadSkillsFromInstance(sourcePath, skills);
+      } else if (sourceType === 'json') {
+        // Files exported before bundles were versioned carry no format/version
+        if (format !== undefined && format !== SKILL_BUNDLE_FORMAT) {
+          return NextResponse.json(
+            { success: false, error: `Unsupported bundle format: ${String(format)}` },
+            { status: 400 }
+          );
+        }
+        if (version !== undefined && (typeof version !== 'number' || version > SKILL_BUNDLE_VERSION)) {
+          return NextResponse.json(
+            { success: false, error: `Unsupported bundle version: ${String(version)}` },
+            { status: 400 }
+          );
+        }
+
+        entries = loadSkillsFromBundle(skills);
+      } else {
+        return NextResponse.json(
+          { success: false, error: "sourceType must be 'instance' or 'json'" },
+          { status: 400 }
+        );
+      }
+    } catch (err) {
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : 'Invalid skills' },
+        { status: 400 }
+      );
+    }
+
+    const skillsDir = path.join(targetPath, 'skills');
+
+    let existing: string[] = [];
+    try {
+      existing = (await fs.readdir(skillsDir)).filter(f => f.endsWith('.md'));
+    } catch {
+      // Skills directory doesn't exist yet
+    }
+
+    // Plan every import before writing anything so dry runs match real runs
+    const taken = new Set(existing);
+    const items: SkillImportItem[] = [];
+    const writes: Array<{ targetFilename: string; content: string }> = [];
+
+    for (const entry of entries) {
+      const { filename, content } = entry;
+
+      if (!isValidSkillFilename(filename)) {
+        items.push({ filename, targetFilename: filename, action: 'skip', reason: 'Invalid skill filename' });
+        continue;
+      }
+
+      if (content.length > MAX_CONTENT_LENGTH) {
+        items.push({ filename, targetFilename: filename, action: 'skip', reason: 'Content too large' });
+        continue;
+      }
+
+      if (!taken.has(filename)) {
+        taken.add(filename);
+        items.push({ filename, targetFilename: filename, action: 'create' });
+        writes.push({ targetFilename: filename, content });
+        continue;
+      }
+
+      // Skip identical skills regardless of strategy
+      if (existing.includes(filename)) {
+        const current = await fs.readFile(path.join(skillsDir, filename), 'utf-8');
+        if (current === content) {
+          items.push({ filename, targetFilename: filename, action: 'skip', reason: 'Identical skill already exists' });
+          continue;
+        }
+      }
+
+      if (conflict === 'overwrite') {
+        items.push({ filename, targetFilename: filename, action: 'overwrite' });
+        writes.push({ targetFilename: filename, content });
+      } else if (conflict === 'rename') {
+        const targetFilename = nextAvailableFilename(filename, taken);
+        taken.add(targetFilename);
+        items.push({ filename, targetFilename, action: 'rename' });
+        writes.push({ targetFilename, content });
+      } else {
+        items.push({ filename, targetFilename: filename, action: 'skip', reason: 'A skill with this name already exists' });
+      }
+    }
+
+    if (!dryRun && writes.length > 0) {
+      await fs.mkdir(skillsDir, { recursive: true });
+      for (const { targetFilename, content } of writes) {
+        await fs.writeFile(path.join(skillsDir, targetFilename), content, 'utf-8');
+      }
+    }
+
+    const result: SkillImportResult = {
+      dryRun: Boolean(dryRun),
+      imported: writes.length,
+      skipped: items.filter(i => i.action === 'skip').length,
+      items,
+    };
+
+    return NextResponse.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    console.error('Error importing skills:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import skills' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import { statusStream } from '@/lib/api/status-stream';
+import type { StatusStreamEvent } from '@/lib/types/status';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_MS = 15000;
+
+// GET: Server-Sent Events stream of instance status diffs and new log lines
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+
+      const send = (event: StatusStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          close();
+        }
+      };
+
+      const keepAlive = setInterval(() => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        } catch {
+          close();
+        }
+      }, KEEP_ALIVE_MS);
+
+      let unsubscribe: (() => void) | null = null;
+
+      function close() {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      cleanup = close;
+      request.signal.addEventListener('abort', close);
+
+      try {
+        unsubscribe = await statusStream.subscribe(send);
+        if (closed) {
+          unsubscribe();
+        }
+      } catch (error) {
+        console.error('[Status Stream] Subscribe failed:', error);
+        close();
+      }
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -1,59 +1,44 @@
-import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInstancePath } from '@/lib/api/path-security';
+import { MAX_USAGE_DAYS, readUsage } from '@/lib/api/usage-ledger';
 
-const anthropic = new Anthropic();
+export const dynamic = 'force-dynamic';
 
-export async function GET() {
+// GET: Token usage and estimated cost from the usage ledgers, per source, instance, model and day
+// Query: days=1..365 (default 30), instance=<id or path>
+export async function GET(request: NextRequest) {
   try {
-    // Note: The Anthropic SDK doesn't directly expose usage/billing endpoints
-    // We'll need to make a small test call to check if the API key is valid
-    // and return basic information
+    const searchParams = request.nextUrl.searchParams;
 
-    // Make a minimal API call to test connectivity
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 10,
-      messages: [{ role: 'user', content: 'Hi' }],
-    });
-
-    // Extract usage information from the response
-    const usage = response.usage;
-
-    return NextResponse.json({
-      status: 'active',
-      model: response.model,
-      usage: {
-        inputTokens: usage?.input_tokens || 0,
-        outputTokens: usage?.output_tokens || 0,
-        totalTokens: (usage?.input_tokens || 0) + (usage?.output_tokens || 0),
-      },
-      // Note: Anthropic doesn't provide remaining credits via API
-      // This would need to be fetched from their dashboard manually
-      message: 'API key is valid and working',
-    });
-  } catch (error: any) {
-    // Check for rate limit errors
-    if (error?.status === 429) {
-      return NextResponse.json({
-        status: 'rate_limited',
-        error: 'Rate limit exceeded',
-        message: error.message,
-      }, { status: 429 });
+    const daysParam = searchParams.get('days');
+    const days = daysParam === null ? undefined : Number(daysParam);
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS)) {
+      return NextResponse.json(
+        { error: `days must be an integer from 1 to ${MAX_USAGE_DAYS}` },
+        { status: 400 }
+      );
     }
 
-    // Check for authentication errors
-    if (error?.status === 401) {
-      return NextResponse.json({
-        status: 'unauthorized',
-        error: 'Invalid API key',
-        message: 'Please check your Anthropic API key',
-      }, { status: 401 });
+    let instancePath: string | undefined;
+    const instance = searchParams.get('instance');
+    if (instance) {
+      const resolved = await resolveInstancePath(instance);
+      if (!resolved) {
+        return NextResponse.json(
+          { error: 'Instance not found' },
+          { status: 404 }
+        );
+      }
+      instancePath = resolved;
     }
 
-    // Other errors
-    return NextResponse.json({
-      status: 'error',
-      error: error.message || 'Failed to fetch API usage',
-    }, { status: 500 });
+    const usage = await readUsage({ days, instancePath });
+    return NextResponse.json({ usage });
+  } catch (error) {
+    console.error('Error reading usage ledger:', error);
+    return NextResponse.json(
+      { error: 'Failed to read usage' },
+      { status: 500 }
+    );
   }
 }
@@ -33,7 +33,7 @@ export default function ManagementHub({ params }: { params: Promise<{ instanceId
         const statusRes = await fetch('/api/status');
         const statusData = await statusRes.json();
 
-        const manager = statusData.managers?.find((m: any) => m.path === decodedPath);
+        const manager = statusData.managers?.find((m: any) => m.path === decodedPath || m.id === decodedPath);
 
         setInstanceInfo({
           name: instanceName,
@@ -215,6 +215,98 @@ export default function ManagementHub({ params }: { params: Promise<{ instanceId
             </div>
           </Link>
 
+          {/* Task Board Card */}
+          <Link href={`/manage/${instanceId}/tasks`}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 hover:shadow-xl transition-shadow cursor-pointer group">
+              <div className="flex items-start justify-between mb-4">
+                <div className="p-3 bg-orange-100 dark:bg-orange-900/30 rounded-lg">
+                  <svg className="w-8 h-8 text-orange-600 dark:text-orange-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                  </svg>
+                </div>
+                <svg className="w-5 h-5 text-gray-400 group-hover:text-orange-500 transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                Task Board
+              </h2>
+              <p className="text-gray-500 dark:text-gray-400 mb-4">
+                Edit, reorder and reset the tasks.json work list the worker runs. Drag tasks between status columns.
+              </p>
+            </div>
+          </Link>
+
+          {/* Timeline Card */}
+          <Link href={`/manage/${instanceId}/timeline`}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 hover:shadow-xl transition-shadow cursor-pointer group">
+              <div className="flex items-start justify-between mb-4">
+                <div className="p-3 bg-purple-100 dark:bg-purple-900/30 rounded-lg">
+                  <svg className="w-8 h-8 text-purple-600 dark:text-purple-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                </div>
+                <svg className="w-5 h-5 text-gray-400 group-hover:text-purple-500 transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                Iteration Timeline
+              </h2>
+              <p className="text-gray-500 dark:text-gray-400 mb-4">
+                Every worker iteration with its task, duration and files changed, its report beside the log lines it wrote.
+              </p>
+            </div>
+          </Link>
+
+          {/* Reviews Card */}
+          <Link href={`/manage/${instanceId}/reviews`}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 hover:shadow-xl transition-shadow cursor-pointer group">
+              <div className="flex items-start justify-between mb-4">
+                <div className="p-3 bg-green-100 dark:bg-green-900/30 rounded-lg">
+                  <svg className="w-8 h-8 text-green-600 dark:text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                  </svg>
+                </div>
+                <svg className="w-5 h-5 text-gray-400 group-hover:text-green-500 transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                Manager Reviews
+              </h2>
+              <p className="text-gray-500 dark:text-gray-400 mb-4">
+                Scores over time, verdicts and issues from every manager review, next to the iteration each one judged.
+              </p>
+            </div>
+          </Link>
+
+          {/* Directives Card */}
+          <Link href={`/manage/${instanceId}/directives`}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 hover:shadow-xl transition-shadow cursor-pointer group">
+              <div className="flex items-start justify-between mb-4">
+                <div className="p-3 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+                  <svg className="w-8 h-8 text-blue-600 dark:text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5.882V19.24a1.76 1.76 0 01-3.417.592l-2.147-6.15M18 13a3 3 0 100-6M5.436 13.683A4.001 4.001 0 017 6h1.832c4.1 0 7.625-1.234 9.168-3v14c-1.543-1.766-5.067-3-9.168-3H7a3.988 3.988 0 01-1.564-.317z" />
+                  </svg>
+                </div>
+                <svg className="w-5 h-5 text-gray-400 group-hover:text-blue-500 transition-colors" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                Worker Directives
+              </h2>
+              <p className="text-gray-500 dark:text-gray-400 mb-4">
+                Steer the worker&apos;s next iteration, and see which directives it was given and whether it acknowledged them.
+              </p>
+            </div>
+          </Link>
+
           {/* Quick Actions Card */}
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
@@ -258,6 +350,18 @@ export default function ManagementHub({ params }: { params: Promise<{ instanceId
                 </span>
               </button>
 
+              <Link
+                href={`/manage/${instanceId}/logs`}
+                className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+              >
+                <svg className="w-5 h-5 text-orange-600 dark:text-orange-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h10M4 18h7" />
+                </svg>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  View Logs
+                </span>
+              </Link>
+
               <button
                 onClick={() => router.push('/')}
                 className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
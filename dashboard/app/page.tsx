@@ -11,12 +11,22 @@ import { ModelSwitcher } from '../components/theme/ModelSwitcher';
 import { useSoundEffect } from '../lib/sounds/useSoundEffect';
 import type { ModelType, StatusType } from '../lib/theme/anime-colors';
 import { QuickAddTaskButton } from '../components/QuickAddTask';
+import { BudgetPanel } from '../components/budget/BudgetPanel';
+import { useStatusStream } from '../lib/status/useStatusStream';
+import type { BudgetStatus } from '../lib/types/budget';
+import type { RecoveryReport } from '../lib/types/recovery';
+import { USAGE_SOURCES, type UsageSummary } from '../lib/types/usage';
+import type { WatchdogState } from '../lib/types/watchdog';
 
 interface WorkerStatus {
   status: 'running' | 'stopped';
   pid: string | null;
+  pause: 'requested' | 'paused' | null;
+  stopRequested: boolean;
+  timeout: { limit: 'task' | 'runtime'; minutes: number; reason: string; at: string; taskId: string | null } | null;
   iteration: number;
   currentPrd: string | null;
+  currentTask: { id: string; title: string; status: string } | null;
   model: string;
 }
 
@@ -40,6 +50,7 @@ interface SkillsStatus {
 }
 
 interface ClaudeManager {
+  id: string;
   path: string;
   name: string;
   worker: WorkerStatus;
@@ -48,28 +59,75 @@ interface ClaudeManager {
   skills: SkillsStatus;
   recentLogs: string[];
   config?: any;
+  watchdog?: WatchdogState | null;
+  recovery?: RecoveryReport | null;
+  budget?: BudgetStatus | null;
 }
 
-interface StatusResponse {
-  timestamp: string;
-  managers: ClaudeManager[];
-}
+type BadgeStatus = 'running' | 'pausing' | 'paused' | 'stopping' | 'stopped';
+
+const STATUS_BADGES: Record<BadgeStatus, { className: string; dot: string; label: string }> = {
+  running: {
+    className: 'from-green-400 to-emerald-500 shadow-green-500/30',
+    dot: 'bg-white animate-pulse',
+    label: '⚡ Running',
+  },
+  pausing: {
+    className: 'from-amber-400 to-yellow-500 shadow-yellow-500/30',
+    dot: 'bg-white animate-pulse',
+    label: '⏳ Pausing',
+  },
+  paused: {
+    className: 'from-amber-400 to-yellow-500 shadow-yellow-500/30',
+    dot: 'bg-white',
+    label: '⏸️ Paused',
+  },
+  stopping: {
+    className: 'from-orange-400 to-red-400 shadow-orange-500/30',
+    dot: 'bg-white animate-pulse',
+    label: '🛬 Stopping',
+  },
+  stopped: {
+    className: 'from-red-400 to-rose-500 shadow-red-500/30',
+    dot: 'bg-white/60',
+    label: '💤 Stopped',
+  },
+};
 
-function AnimeStatusBadge({ status }: { status: 'running' | 'stopped' }) {
+function AnimeStatusBadge({ status }: { status: BadgeStatus }) {
+  const badge = STATUS_BADGES[status];
   return (
-    <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${
-      status === 'running'
-        ? 'bg-gradient-to-r from-green-400 to-emerald-500 text-white shadow-lg shadow-green-500/30'
-        : 'bg-gradient-to-r from-red-400 to-rose-500 text-white shadow-lg shadow-red-500/30'
-    }`}>
-      <span className={`w-2 h-2 mr-2 rounded-full ${
-        status === 'running' ? 'bg-white animate-pulse' : 'bg-white/60'
-      }`} />
-      {status === 'running' ? '⚡ Running' : '💤 Stopped'}
+    <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-gradient-to-r text-white shadow-lg ${badge.className}`}>
+      <span className={`w-2 h-2 mr-2 rounded-full ${badge.dot}`} />
+      {badge.label}
     </span>
   );
 }
 
+// One line per kind of fix in a recovery report
+function describeRecovery(report: RecoveryReport): string[] {
+  const lines = report.stalePids.map(p => `Removed stale ${p.role} PID ${p.pid}`);
+  if (report.staleWorkerStatus) {
+    lines.push(`Reset worker status "${report.staleWorkerStatus}" to stopped`);
+  }
+  for (const task of report.tasks) {
+    lines.push(task.outcome === 'completed'
+      ? `Task ${task.id} had finished, marked completed`
+      : `Task ${task.id} was left in progress, back to pending`);
+  }
+  if (report.tempFiles.length > 0) {
+    lines.push(`Removed ${report.tempFiles.length} leftover temp file${report.tempFiles.length === 1 ? '' : 's'}`);
+  }
+  return lines;
+}
+
+// 1234567 -> "1.2M"
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
 function AnimeProgressBar({ completed, total, gradient = 'from-pink-500 to-purple-600' }: { completed: number; total: number; gradient?: string }) {
   const percentage = total > 0 ? (completed / total) * 100 : 0;
   return (
@@ -90,13 +148,17 @@ function ManagerCard({
   onControl,
   onPlan,
   onGeneratePRD,
-  onEditPRD
+  onEditPRD,
+  onViewLogs,
+  onRecover
 }: {
   manager: ClaudeManager;
   onControl: (action: string, path: string, config?: any) => Promise<void>;
+  onRecover: (instanceId: string) => Promise<void>;
   onPlan: (instancePath: string) => void;
   onGeneratePRD: (instancePath: string) => void;
   onEditPRD: (instancePath: string, prdFile: string) => void;
+  onViewLogs: (instanceId: string) => void;
 }) {
   const [showLogs, setShowLogs] = useState(false);
   const [showSkills, setShowSkills] = useState(false);
@@ -118,6 +180,16 @@ function ManagerCard({
     }
   };
 
+  const handleRecover = async () => {
+    setControlling(true);
+    play('start');
+    try {
+      await onRecover(manager.id);
+    } finally {
+      setControlling(false);
+    }
+  };
+
   const handlePlan = () => {
     play('click');
     onPlan(manager.path);
@@ -129,13 +201,25 @@ function ManagerCard({
   };
 
   const isRunning = manager.worker.status === 'running' || manager.manager.status === 'running';
+  const workerRunning = manager.worker.status === 'running';
+  const pause = workerRunning ? manager.worker.pause : null;
+  const stopRequested = workerRunning && manager.worker.stopRequested;
+  const badgeStatus: BadgeStatus = stopRequested
+    ? 'stopping'
+    : pause === 'paused'
+      ? 'paused'
+      : pause === 'requested'
+        ? 'pausing'
+        : manager.worker.status;
+
+  const recoveryLines = manager.recovery ? describeRecovery(manager.recovery) : [];
 
   // Convert model string to ModelType
   const workerModel = (manager.worker.model as ModelType) || 'sonnet';
   const managerModel = (manager.manager.model as ModelType) || 'opus';
 
   // Determine status for avatars
-  const workerStatus: StatusType = manager.worker.status === 'running'
+  const workerStatus: StatusType = workerRunning && pause !== 'paused'
     ? (manager.worker.currentPrd ? 'working' : 'idle')
     : 'idle';
   const managerStatus: StatusType = manager.manager.status === 'running'
@@ -152,7 +236,7 @@ function ManagerCard({
       glow={isRunning}
       badge={
         <div className="flex gap-1">
-          <AnimeStatusBadge status={manager.worker.status} />
+          <AnimeStatusBadge status={badgeStatus} />
         </div>
       }
     >
@@ -209,6 +293,40 @@ function ManagerCard({
             Stop
           </AnimeButton>
         )}
+        {workerRunning && !stopRequested && (
+          <AnimeButton
+            onClick={() => handleControl('drain')}
+            disabled={controlling}
+            variant="ghost"
+            icon="🛬"
+            loading={controlling}
+          >
+            Finish &amp; Stop
+          </AnimeButton>
+        )}
+        {workerRunning && (
+          pause ? (
+            <AnimeButton
+              onClick={() => handleControl('resume')}
+              disabled={controlling}
+              variant="success"
+              icon="▶"
+              loading={controlling}
+            >
+              Resume
+            </AnimeButton>
+          ) : (
+            <AnimeButton
+              onClick={() => handleControl('pause')}
+              disabled={controlling}
+              variant="secondary"
+              icon="⏸"
+              loading={controlling}
+            >
+              Pause
+            </AnimeButton>
+          )
+        )}
         <AnimeButton
           onClick={() => handleControl('restart')}
           disabled={controlling}
@@ -218,6 +336,17 @@ function ManagerCard({
         >
           Restart
         </AnimeButton>
+        {!workerRunning && (
+          <AnimeButton
+            onClick={handleRecover}
+            disabled={controlling}
+            variant="ghost"
+            icon="🩹"
+            loading={controlling}
+          >
+            Recover
+          </AnimeButton>
+        )}
         <div className="flex-1" />
         <AnimeButton
           onClick={handlePlan}
@@ -234,11 +363,62 @@ function ManagerCard({
           Generate PRD
         </AnimeButton>
         <QuickAddTaskButton
-          instanceName={manager.name}
+          instanceName={manager.id}
           onTaskAdded={() => window.location.reload()}
         />
       </div>
 
+      {/* Stuck-worker alerts (config.json "watchdog") */}
+      {manager.watchdog && manager.watchdog.alerts.length > 0 && (
+        <div className="mb-6 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-800 dark:text-red-200 space-y-1">
+          {manager.watchdog.alerts.map(alert => (
+            <div key={alert.condition}>
+              🐕 {alert.message}
+              <span className="ml-2 text-xs text-red-600 dark:text-red-400">
+                {alert.action === 'alert' ? 'alert only' : alert.action}
+                {alert.actionError && ` failed: ${alert.actionError}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Last crash recovery (.state/recovery.json) */}
+      {manager.recovery && (
+        <div className="mb-6 p-3 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-sm text-blue-800 dark:text-blue-200 space-y-1">
+          <div className="font-medium">
+            🩹 {manager.recovery.trigger === 'start' ? 'Recovered before starting' : 'Recovery'}
+            <span className="ml-2 text-xs font-normal text-blue-600 dark:text-blue-400">
+              {new Date(manager.recovery.recoveredAt).toLocaleString()}
+            </span>
+          </div>
+          {recoveryLines.map(line => (
+            <div key={line}>{line}</div>
+          ))}
+          {recoveryLines.length === 0 && manager.recovery.errors.length === 0 && (
+            <div>Nothing to clean up</div>
+          )}
+          {manager.recovery.errors.map(error => (
+            <div key={error} className="text-red-600 dark:text-red-400">{error}</div>
+          ))}
+        </div>
+      )}
+
+      {/* Time limit hit (config.json maxRuntimeMinutes / maxTaskMinutes) */}
+      {manager.worker.timeout && (
+        <div className="mb-6 p-3 rounded-xl bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200">
+          ⏱️ {manager.worker.timeout.reason}
+          <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">
+            {new Date(manager.worker.timeout.at).toLocaleString()}
+          </span>
+        </div>
+      )}
+
+      {/* Remaining budget (config.json "budget"), and the limit the worker paused on */}
+      {manager.budget && (
+        <BudgetPanel instanceId={manager.id} budget={manager.budget} workerRunning={workerRunning} />
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
         <AnimeStatsCard
@@ -278,6 +458,11 @@ function ManagerCard({
             <span className="font-mono text-yellow-700 dark:text-yellow-300 font-bold">
               {manager.worker.currentPrd}
             </span>
+            {manager.worker.currentTask && (
+              <div className="mt-1 text-xs text-yellow-600 dark:text-yellow-400 truncate">
+                Task {manager.worker.currentTask.id}: {manager.worker.currentTask.title}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -396,6 +581,17 @@ function ManagerCard({
         >
           {showLogs ? 'Hide Logs' : 'Show Logs'}
         </AnimeButton>
+        <AnimeButton
+          onClick={() => {
+            play('click');
+            onViewLogs(manager.id);
+          }}
+          variant="ghost"
+          size="sm"
+          icon="🔍"
+        >
+          All Logs
+        </AnimeButton>
         <AnimeButton
           onClick={() => {
             play('click');
@@ -615,12 +811,11 @@ export default function Dashboard() {
   const router = useRouter();
   const toast = useToast();
   const { play } = useSoundEffect();
-  const [data, setData] = useState<StatusResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const { managers, connected, error, lastUpdate } = useStatusStream();
+  const data: { managers: ClaudeManager[] } | null = managers ? { managers } : null;
+  const loading = !managers && !error;
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [apiUsage, setApiUsage] = useState<any>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
 
   const handlePlan = (instancePath: string) => {
     const encodedPath = encodeURIComponent(instancePath);
@@ -632,33 +827,22 @@ export default function Dashboard() {
     router.push(`/prd-generator/${encodedPath}`);
   };
 
+  const handleViewLogs = (instanceId: string) => {
+    router.push(`/manage/${encodeURIComponent(instanceId)}/logs`);
+  };
+
   const handleEditPRD = (instancePath: string, prdFile: string) => {
     const encodedPath = encodeURIComponent(instancePath);
     const encodedFile = encodeURIComponent(prdFile);
     router.push(`/prd-editor/${encodedPath}/${encodedFile}`);
   };
 
-  const fetchStatus = async () => {
-    try {
-      const res = await fetch('/api/status');
-      if (!res.ok) throw new Error('Failed to fetch status');
-      const json = await res.json();
-      setData(json);
-      setLastUpdate(new Date());
-      setError(null);
-    } catch (err) {
-      setError(String(err));
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchApiUsage = async () => {
+  const fetchUsage = async () => {
     try {
       const res = await fetch('/api/usage');
       if (res.ok) {
         const json = await res.json();
-        setApiUsage(json);
+        setUsage(json.usage);
       }
     } catch (err) {
       // Silently fail - usage display is optional
@@ -686,7 +870,6 @@ export default function Dashboard() {
 
       toast.success('Action completed', `Successfully executed ${action} on instance`);
       play('success');
-      setTimeout(fetchStatus, 2000);
     } catch (err) {
       console.error('Control error:', err);
       toast.error('Action failed', err instanceof Error ? err.message : String(err));
@@ -694,6 +877,24 @@ export default function Dashboard() {
     }
   };
 
+  const handleRecover = async (instanceId: string) => {
+    try {
+      const res = await fetch(`/api/instances/${encodeURIComponent(instanceId)}/recover`, { method: 'POST' });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Recovery failed');
+      }
+
+      toast.success('Recovery completed', 'The report is shown on the instance card');
+      play('success');
+    } catch (err) {
+      console.error('Recovery error:', err);
+      toast.error('Recovery failed', err instanceof Error ? err.message : String(err));
+      play('error');
+    }
+  };
+
   const handleCreateInstance = async (name: string, workerModel: string, managerModel: string, maxIterations: number) => {
     try {
       const res = await fetch('/api/instances', {
@@ -707,7 +908,6 @@ export default function Dashboard() {
         throw new Error(errorData.error || 'Failed to create instance');
       }
 
-      await fetchStatus();
       toast.success('Instance created', `Instance "${name}" has been created successfully`);
       play('success');
     } catch (err) {
@@ -718,12 +918,9 @@ export default function Dashboard() {
   };
 
   useEffect(() => {
-    fetchStatus();
-    fetchApiUsage();
-    const interval = setInterval(fetchStatus, 5000);
-    const usageInterval = setInterval(fetchApiUsage, 30000); // Check API usage every 30s
+    fetchUsage();
+    const usageInterval = setInterval(fetchUsage, 30000); // Reread the usage ledger every 30s
     return () => {
-      clearInterval(interval);
       clearInterval(usageInterval);
     };
   }, []);
@@ -744,21 +941,22 @@ export default function Dashboard() {
               </p>
             </div>
             <div className="flex items-center gap-4">
-              {/* API Usage Display */}
-              {apiUsage && (
-                <div className="text-right bg-white/50 dark:bg-gray-700/50 rounded-xl px-4 py-2 border border-green-200 dark:border-green-900/30">
+              {/* Usage ledger: estimated spend of the dashboard, workers and managers */}
+              {usage && (
+                <div
+                  className="text-right bg-white/50 dark:bg-gray-700/50 rounded-xl px-4 py-2 border border-green-200 dark:border-green-900/30"
+                  title={[
+                    `Last ${usage.days} days: ${formatTokens(usage.totals.inputTokens + usage.totals.outputTokens)} tokens in ${usage.totals.calls} calls`,
+                    ...USAGE_SOURCES.map(source => `${source}: $${usage.bySource[source].costUsd.toFixed(2)}`),
+                    ...usage.byModel.slice(0, 3).map(m => `${m.model}: $${m.costUsd.toFixed(2)}`),
+                  ].join('\n')}
+                >
                   <div className="text-sm font-bold text-green-600 dark:text-green-400 flex items-center gap-2">
                     <span>🤖</span>
-                    <span>Claude API</span>
+                    <span>${usage.today.costUsd.toFixed(2)} today</span>
                   </div>
                   <div className="text-xs text-gray-600 dark:text-gray-400">
-                    {apiUsage.status === 'active' ? (
-                      <span className="text-green-500">✓ Connected</span>
-                    ) : apiUsage.status === 'rate_limited' ? (
-                      <span className="text-orange-500">⚠ Rate Limited</span>
-                    ) : (
-                      <span className="text-red-500">✗ Error</span>
-                    )}
+                    ${usage.totals.costUsd.toFixed(2)} in {usage.days} days
                   </div>
                 </div>
               )}
@@ -786,7 +984,8 @@ export default function Dashboard() {
               </AnimeButton>
               <div className="text-right bg-white/50 dark:bg-gray-700/50 rounded-xl px-4 py-2 border border-pink-200 dark:border-pink-900/30">
                 <div className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-1">
-                  <span className="animate-pulse">🔄</span> Auto-refresh: 5s
+                  <span className={connected ? 'animate-pulse' : ''}>{connected ? '🟢' : '🔴'}</span>
+                  {connected ? 'Live' : 'Reconnecting...'}
                 </div>
                 {lastUpdate && (
                   <div className="text-xs text-gray-400 dark:text-gray-500">
@@ -851,6 +1050,8 @@ export default function Dashboard() {
             onPlan={handlePlan}
             onGeneratePRD={handleGeneratePRD}
             onEditPRD={handleEditPRD}
+            onViewLogs={handleViewLogs}
+            onRecover={handleRecover}
           />
         ))}
       </main>
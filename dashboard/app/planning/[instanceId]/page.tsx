@@ -3,7 +3,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { PlanningChat } from '../../../components/planning/PlanningChat';
+import { ConversationSidebar } from '../../../components/planning/ConversationSidebar';
 import { useToast } from '../../../components/ui/Toast';
+import type { PlanningMessage } from '../../../lib/types/planning';
 
 interface InstanceInfo {
   name: string;
@@ -12,6 +14,12 @@ interface InstanceInfo {
   skills: string[];
 }
 
+// The conversation in the chat; null for a new one
+interface OpenConversation {
+  id: string;
+  messages: PlanningMessage[];
+}
+
 export default function PlanningPage() {
   const params = useParams();
   const router = useRouter();
@@ -21,6 +29,11 @@ export default function PlanningPage() {
   const [instanceInfo, setInstanceInfo] = useState<InstanceInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [openConversation, setOpenConversation] = useState<OpenConversation | null>(null);
+  // Remounts the chat whenever another conversation is opened
+  const [chatKey, setChatKey] = useState(0);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [showLibrary, setShowLibrary] = useState(false);
 
   // Fetch instance information
   useEffect(() => {
@@ -37,7 +50,8 @@ export default function PlanningPage() {
 
         const data = await response.json();
         const manager = data.managers.find(
-          (m: { path: string; name: string }) => m.path === instancePath || m.name === instancePath
+          (m: { id: string; path: string; name: string }) =>
+            m.id === instancePath || m.path === instancePath || m.name === instancePath
         );
 
         if (!manager) {
@@ -87,6 +101,39 @@ export default function PlanningPage() {
     }
   }, [instanceInfo, router, toast]);
 
+  const showConversation = useCallback((conversation: OpenConversation | null) => {
+    setOpenConversation(conversation);
+    setChatKey((key) => key + 1);
+    setShowLibrary(false);
+  }, []);
+
+  const handleOpenConversation = useCallback(async (conversationId: string) => {
+    if (!instanceInfo) return;
+
+    try {
+      const response = await fetch(
+        `/api/planning/conversations/${encodeURIComponent(conversationId)}?instancePath=${encodeURIComponent(instanceInfo.path)}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversation');
+      }
+      showConversation(data.conversation);
+    } catch (err) {
+      toast.error('Failed to open conversation', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [instanceInfo, showConversation, toast]);
+
+  const handleConversationDeleted = useCallback((conversationId: string) => {
+    if (openConversation?.id === conversationId) {
+      showConversation(null);
+    }
+  }, [openConversation, showConversation]);
+
+  const refreshLibrary = useCallback(() => {
+    setLibraryVersion((version) => version + 1);
+  }, []);
+
   const handleBack = useCallback(() => {
     router.push('/');
   }, [router]);
@@ -154,6 +201,12 @@ export default function PlanningPage() {
 
             {/* Context info - hidden on very small screens */}
             <div className="hidden xs:flex items-center gap-3 sm:gap-4 flex-shrink-0">
+              <button
+                onClick={() => setShowLibrary((show) => !show)}
+                className="lg:hidden px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Conversations
+              </button>
               {instanceInfo.existingPrds.length > 0 && (
                 <div className="text-right">
                   <div className="text-xs text-gray-500 dark:text-gray-400">PRDs</div>
@@ -175,17 +228,38 @@ export default function PlanningPage() {
         </div>
       </header>
 
-      {/* Chat area - takes remaining height */}
-      <main className="flex-1 w-full max-w-4xl mx-auto flex flex-col overflow-hidden" style={{ height: 'calc(100vh - 80px)' }}>
-        <PlanningChat
-          instanceId={instanceId}
-          instanceName={instanceInfo.name}
-          instancePath={instanceInfo.path}
-          existingPrds={instanceInfo.existingPrds}
-          skills={instanceInfo.skills}
-          onStartWork={handleStartWork}
-        />
-      </main>
+      <div className="flex-1 w-full flex overflow-hidden" style={{ height: 'calc(100vh - 80px)' }}>
+        {/* Conversation library - a toggled overlay below lg */}
+        <aside
+          className={`${showLibrary ? 'flex' : 'hidden'} lg:flex flex-col w-72 flex-shrink-0 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700`}
+        >
+          <ConversationSidebar
+            instancePath={instanceInfo.path}
+            activeConversationId={openConversation?.id}
+            refreshKey={libraryVersion}
+            onOpen={handleOpenConversation}
+            onNew={() => showConversation(null)}
+            onDeleted={handleConversationDeleted}
+          />
+        </aside>
+
+        {/* Chat area - takes remaining height */}
+        <main className="flex-1 min-w-0 max-w-4xl mx-auto flex flex-col overflow-hidden">
+          <PlanningChat
+            key={chatKey}
+            instanceId={instanceId}
+            instanceName={instanceInfo.name}
+            instancePath={instanceInfo.path}
+            existingPrds={instanceInfo.existingPrds}
+            skills={instanceInfo.skills}
+            onStartWork={handleStartWork}
+            initialConversationId={openConversation?.id}
+            initialMessages={openConversation?.messages}
+            onOpenConversation={showConversation}
+            onConversationsChange={refreshLibrary}
+          />
+        </main>
+      </div>
     </div>
   );
 }
@@ -30,8 +30,9 @@ export default function PRDEditorPage() {
 
       try {
         // Try to load from the PRDs directory
-        const prdPath = `${instanceId}/prds/${prdFile}`;
-        const response = await fetch(`/api/editor/load?path=${encodeURIComponent(prdPath)}`);
+        const response = await fetch(
+          `/api/editor/load?instanceId=${encodeURIComponent(instanceId)}&prdFile=${encodeURIComponent(prdFile)}`
+        );
 
         if (!response.ok) {
           // If file doesn't exist, start with a template
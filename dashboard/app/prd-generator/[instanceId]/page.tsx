@@ -7,6 +7,7 @@ import { QueueManager } from '../../../components/prd/QueueManager';
 import { useToast } from '../../../components/ui/Toast';
 
 interface InstanceInfo {
+  id: string;
   name: string;
   path: string;
   status: string;
@@ -39,10 +40,10 @@ export default function PRDGeneratorPage({ params }: { params: Promise<{ instanc
 
       const data = await response.json();
       const found = data.instances.find((inst: InstanceInfo) => {
-        // Match by name or path containing the instanceId
+        // Match by registry id, name or path containing the instanceId
         const pathParts = inst.path.split('/');
         const dirName = pathParts[pathParts.length - 1];
-        return dirName === instanceId || inst.name === instanceId;
+        return inst.id === instanceId || dirName === instanceId || inst.name === instanceId;
       });
 
       if (!found) {
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import type { BudgetLine, BudgetMetric, BudgetScope, BudgetStatus } from '../../lib/types/budget';
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  daily: 'Today',
+  run: 'This run',
+  task: 'Task',
+};
+
+interface BudgetPanelProps {
+  instanceId: string;
+  budget: BudgetStatus;
+  // Resuming only applies to a running worker
+  workerRunning: boolean;
+}
+
+function formatAmount(metric: BudgetMetric, value: number): string {
+  if (metric === 'usd') return `$${value.toFixed(2)}`;
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M tokens`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k tokens`;
+  return `${value} tokens`;
+}
+
+function BudgetBar({ line, taskId }: { line: BudgetLine; taskId: string | null }) {
+  const used = Math.min(line.spent / line.limit, 1);
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-gray-500 dark:text-gray-400">
+          {SCOPE_LABELS[line.scope]}{line.scope === 'task' && taskId && ` ${taskId}`}
+        </span>
+        <span className="text-gray-700 dark:text-gray-300">
+          {formatAmount(line.metric, line.remaining)} left of {formatAmount(line.metric, line.limit)}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${used >= 1 ? 'bg-red-500' : used >= 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`}
+          style={{ width: `${used * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function BudgetPanel({ instanceId, budget, workerRunning }: BudgetPanelProps) {
+  const { exceeded } = budget;
+  const [limit, setLimit] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const raiseLimit = async () => {
+    if (!exceeded) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/instances/${encodeURIComponent(instanceId)}/budget`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scope: exceeded.scope,
+          metric: exceeded.metric,
+          limit: Number(limit),
+          resume: workerRunning,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update budget');
+      setLimit('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-3 rounded-xl bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 text-sm space-y-2">
+      <div className="font-medium text-gray-700 dark:text-gray-300">💸 Budget</div>
+
+      {budget.lines.map(line => (
+        <BudgetBar key={`${line.scope}-${line.metric}`} line={line} taskId={budget.taskId} />
+      ))}
+
+      {exceeded && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 space-y-2">
+          <div>
+            ⏸️ {exceeded.reason}
+            <span className="ml-2 text-xs text-red-600 dark:text-red-400">
+              {new Date(exceeded.at).toLocaleString()}
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              step={exceeded.metric === 'usd' ? 1 : 100000}
+              value={limit}
+              onChange={e => setLimit(e.target.value)}
+              placeholder={`New ${exceeded.metric === 'usd' ? 'USD' : 'token'} limit (now ${exceeded.limit})`}
+              className="flex-1 min-w-[12rem] px-2 py-1 rounded border border-red-300 dark:border-red-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
+            />
+            <button
+              onClick={raiseLimit}
+              disabled={saving || !limit || Number(limit) <= exceeded.spent}
+              className="px-3 py-1 rounded bg-red-600 hover:bg-red-700 text-white text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : workerRunning ? 'Raise limit & resume' : 'Raise limit'}
+            </button>
+          </div>
+          {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
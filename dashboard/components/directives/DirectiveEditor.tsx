@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect, type FormEvent } from 'react';
+import { PRDPreview } from '../prd/PRDPreview';
+import { useStatusStream } from '../../lib/status/useStatusStream';
+import type { Directive, DirectiveStatus } from '../../lib/types/directive';
+
+const STATUS_STYLES: Record<DirectiveStatus, { className: string; label: string }> = {
+  pending: { className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300', label: 'Pending' },
+  delivered: { className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300', label: 'Delivered' },
+  superseded: { className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300', label: 'Superseded' },
+  cancelled: { className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300', label: 'Cancelled' },
+};
+
+interface DirectiveEditorProps {
+  instanceId: string;
+}
+
+function Acknowledgement({ directive }: { directive: Directive }) {
+  if (directive.status !== 'delivered') return null;
+
+  if (directive.acknowledged === null) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Waiting for the iteration to finish...</p>;
+  }
+
+  if (!directive.acknowledged) {
+    return (
+      <p className="text-xs text-yellow-700 dark:text-yellow-300">
+        ⚠️ Not acknowledged in the iteration report
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-xs text-green-700 dark:text-green-300">
+      ✓ Acknowledged{directive.acknowledgement && `: ${directive.acknowledgement}`}
+    </p>
+  );
+}
+
+export function DirectiveEditor({ instanceId }: DirectiveEditorProps) {
+  const decodedId = decodeURIComponent(instanceId);
+
+  const [directives, setDirectives] = useState<Directive[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [content, setContent] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const pending = directives?.find(d => d.status === 'pending') ?? null;
+  const history = directives?.filter(d => d.status !== 'pending') ?? [];
+
+  useEffect(() => {
+    fetch(`/api/instances/${instanceId}/directives`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load directives');
+        setDirectives(data.directives);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load directives'));
+  }, [instanceId, reloadToken]);
+
+  // Delivery and acknowledgement happen as the worker's iteration moves on
+  useStatusStream((event, { managers }) => {
+    if (event.type !== 'status') return;
+    const { worker } = event.changes;
+    if (!worker || (worker.iteration === undefined && worker.status === undefined)) return;
+    const instance = managers?.find(m => m.id === event.id);
+    if (instance && (instance.id === decodedId || instance.path === decodedId)) {
+      setReloadToken(t => t + 1);
+    }
+  });
+
+  const send = async (method: 'POST' | 'DELETE') => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/instances/${instanceId}/directives`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === 'POST' ? JSON.stringify({ content }) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update directive');
+
+      if (method === 'POST') setContent('');
+      setError(null);
+      setReloadToken(t => t + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update directive');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (content.trim()) send('POST');
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {/* Editor */}
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          New directive
+        </label>
+        <textarea
+          value={content}
+          onChange={e => setContent(e.target.value)}
+          rows={6}
+          placeholder="e.g. Stop adding features to the API; fix the failing integration tests first."
+          className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Delivered at the start of the worker&apos;s next iteration
+            {pending && ', replacing the pending directive'}.
+          </p>
+          <button
+            type="submit"
+            disabled={saving || !content.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Schedule for next iteration'}
+          </button>
+        </div>
+      </form>
+
+      {/* Pending */}
+      {pending && (
+        <section className="p-4 rounded-lg border-2 border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/20">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="font-semibold text-gray-900 dark:text-white">
+              Pending
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                by {pending.author}, {new Date(pending.createdAt).toLocaleString()}
+              </span>
+            </h2>
+            <button
+              onClick={() => send('DELETE')}
+              disabled={saving}
+              className="px-3 py-1 text-sm rounded-lg bg-white dark:bg-gray-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+          <PRDPreview content={pending.content} />
+        </section>
+      )}
+
+      {/* History */}
+      <section>
+        <h2 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">History</h2>
+        {directives && history.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No directives yet.</p>
+        )}
+        <ul className="space-y-3">
+          {history.map(directive => (
+            <li key={directive.id} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className={`px-1.5 py-0.5 rounded font-medium ${STATUS_STYLES[directive.status].className}`}>
+                  {STATUS_STYLES[directive.status].label}
+                </span>
+                <span className={directive.author === 'manager' ? 'text-purple-600 dark:text-purple-400' : 'text-blue-600 dark:text-blue-400'}>
+                  {directive.author === 'manager' ? 'Manager' : 'Human'}
+                </span>
+                <span>{new Date(directive.createdAt).toLocaleString()}</span>
+                {directive.delivery && (
+                  <span>
+                    → Iteration {directive.delivery.iteration}, Task {directive.delivery.taskId}
+                  </span>
+                )}
+              </div>
+              <PRDPreview content={directive.content} className="mb-2" />
+              <Acknowledgement directive={directive} />
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
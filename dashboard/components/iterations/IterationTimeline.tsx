@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PRDPreview } from '../prd/PRDPreview';
+import { useStatusStream } from '../../lib/status/useStatusStream';
+import type { IterationDetail, IterationOutcome, IterationSummary } from '../../lib/types/iteration';
+import type { LogLevel } from '../../lib/types/logs';
+
+const OUTCOME_STYLES: Record<IterationOutcome, { className: string; label: string }> = {
+  completed: { className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300', label: 'Completed' },
+  in_progress: { className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300', label: 'In progress' },
+  failed: { className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300', label: 'Failed' },
+  timed_out: { className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300', label: 'Timed out' },
+};
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  INFO: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  WARN: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  ERROR: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  SUCCESS: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  REVIEW: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+};
+
+interface IterationTimelineProps {
+  instanceId: string;
+}
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function IterationTimeline({ instanceId }: IterationTimelineProps) {
+  const decodedId = decodeURIComponent(instanceId);
+
+  const [iterations, setIterations] = useState<IterationSummary[] | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [detail, setDetail] = useState<{ iteration: number; data?: IterationDetail; error?: string } | null>(null);
+
+  const timeline = (iterations || []).slice().reverse();
+  const activeIteration = timeline.find(i => i.iteration === selected)?.iteration ?? timeline[0]?.iteration ?? null;
+  const loading = activeIteration !== null && detail?.iteration !== activeIteration;
+
+  useEffect(() => {
+    fetch(`/api/instances/${instanceId}/iterations`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load iterations');
+        setIterations(data.iterations);
+        setListError(null);
+      })
+      .catch(err => setListError(err instanceof Error ? err.message : 'Failed to load iterations'));
+  }, [instanceId, reloadToken]);
+
+  // Load the selected iteration's report and log slice
+  useEffect(() => {
+    if (activeIteration === null) return;
+
+    let cancelled = false;
+    fetch(`/api/instances/${instanceId}/iterations/${activeIteration}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load iteration');
+        if (!cancelled) setDetail({ iteration: activeIteration, data: data.iteration });
+      })
+      .catch(err => {
+        if (!cancelled) setDetail({ iteration: activeIteration, error: err instanceof Error ? err.message : 'Failed to load iteration' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [instanceId, activeIteration, reloadToken]);
+
+  // A report is written as each iteration ends, just before the counter moves
+  useStatusStream((event, { managers }) => {
+    if (event.type !== 'status' || event.changes.worker?.iteration === undefined) return;
+    const instance = managers?.find(m => m.id === event.id);
+    if (instance && (instance.id === decodedId || instance.path === decodedId)) {
+      setReloadToken(t => t + 1);
+    }
+  });
+
+  const iteration = detail?.iteration === activeIteration ? detail.data : undefined;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      {/* Timeline, newest first */}
+      <aside className="lg:w-80 flex-shrink-0">
+        {listError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{listError}</p>
+        )}
+
+        {iterations && timeline.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No iteration reports yet.</p>
+        )}
+
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-1 max-h-[calc(100vh-200px)] overflow-y-auto">
+          {timeline.map(i => (
+            <li key={i.iteration} className="ml-4">
+              <span className={`absolute -left-1.5 mt-3 w-3 h-3 rounded-full border-2 border-white dark:border-gray-800 ${
+                i.outcome === 'completed' ? 'bg-green-500'
+                  : i.outcome === 'failed' ? 'bg-red-500'
+                  : i.outcome === 'timed_out' ? 'bg-orange-500'
+                  : 'bg-gray-400'
+              }`} />
+              <button
+                onClick={() => setSelected(i.iteration)}
+                className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                  i.iteration === activeIteration
+                    ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-300 dark:border-blue-700'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-700 border border-transparent'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">
+                    Iteration {i.iteration}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(i.finishedAt).toLocaleString()}
+                  </span>
+                </div>
+                {i.taskId && (
+                  <p className="text-xs text-gray-600 dark:text-gray-300 truncate">
+                    Task {i.taskId}{i.taskTitle && `: ${i.taskTitle}`}
+                  </p>
+                )}
+                <div className="flex items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {i.outcome && (
+                    <span className={`px-1.5 rounded ${OUTCOME_STYLES[i.outcome].className}`}>
+                      {OUTCOME_STYLES[i.outcome].label}
+                    </span>
+                  )}
+                  {i.durationSeconds !== null && <span>{formatDuration(i.durationSeconds)}</span>}
+                  {i.filesChanged && (
+                    <span>{i.filesChanged.length} file{i.filesChanged.length === 1 ? '' : 's'}</span>
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </aside>
+
+      {/* Report next to the worker log lines of the same iteration */}
+      <section className="flex-1 min-w-0">
+        {detail?.error && detail.iteration === activeIteration && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-4">
+            <p className="text-red-700 dark:text-red-400">{detail.error}</p>
+          </div>
+        )}
+
+        {loading && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading iteration...</p>
+        )}
+
+        {iteration && (
+          <>
+            {iteration.filesChanged && iteration.filesChanged.length > 0 && (
+              <details className="mb-4 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                <summary className="text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+                  {iteration.filesChanged.length} file{iteration.filesChanged.length === 1 ? '' : 's'} changed
+                </summary>
+                <ul className="mt-2 text-xs font-mono text-gray-600 dark:text-gray-400 space-y-0.5">
+                  {iteration.filesChanged.map(file => <li key={file}>{file}</li>)}
+                </ul>
+              </details>
+            )}
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">Report</h3>
+                  {(iteration.report ?? iteration.output) && (
+                    <span className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate" title={(iteration.report ?? iteration.output)!}>
+                      {iteration.report ?? iteration.output}
+                    </span>
+                  )}
+                </div>
+
+                <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 max-h-[calc(100vh-320px)] overflow-y-auto">
+                  {iteration.reportContent !== null ? (
+                    <>
+                      <PRDPreview content={iteration.reportContent} />
+                      {iteration.reportTruncated && (
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Report truncated.</p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">The report could not be read.</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="min-w-0">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">Worker log</h3>
+                  {iteration.log && (
+                    <span className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                      {iteration.log.file}
+                    </span>
+                  )}
+                </div>
+
+                <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-auto max-h-[calc(100vh-320px)] font-mono text-xs">
+                  {iteration.log ? (
+                    <>
+                      {iteration.log.lines.map(line => (
+                        <div key={line.number} className="flex gap-3 px-3 py-0.5 hover:bg-gray-800">
+                          <span className="w-12 flex-shrink-0 text-right text-gray-600 select-none">{line.number}</span>
+                          {line.timestamp && (
+                            <span className="flex-shrink-0 text-gray-500">{line.timestamp}</span>
+                          )}
+                          {line.level && (
+                            <span className={`flex-shrink-0 px-1.5 rounded ${LEVEL_STYLES[line.level]}`}>{line.level}</span>
+                          )}
+                          <span className={`whitespace-pre-wrap break-all ${line.level ? 'text-gray-100' : 'text-gray-400'}`}>
+                            {line.message}
+                          </span>
+                        </div>
+                      ))}
+                      {iteration.log.truncated && (
+                        <p className="px-3 py-2 text-gray-500">Log slice truncated.</p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="p-4 text-gray-500">No worker log entries found for this iteration.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
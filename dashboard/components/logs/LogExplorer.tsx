@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect, useMemo, type FormEvent } from 'react';
+import { useStatusStream } from '../../lib/status/useStatusStream';
+import { LOG_LEVELS, type LogFileInfo, type LogLevel, type LogPage } from '../../lib/types/logs';
+
+const PAGE_SIZE = 200;
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  INFO: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  WARN: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  ERROR: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  SUCCESS: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  REVIEW: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+};
+
+type SourceFilter = 'all' | 'worker' | 'manager';
+
+interface LogExplorerProps {
+  instanceId: string;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function highlight(text: string, search: string) {
+  if (!search) return text;
+  const parts = text.split(new RegExp(`(${search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi'));
+  return parts.map((part, i) =>
+    part.toLowerCase() === search.toLowerCase()
+      ? <mark key={i} className="bg-yellow-300 dark:bg-yellow-600 text-gray-900 rounded px-0.5">{part}</mark>
+      : part
+  );
+}
+
+export function LogExplorer({ instanceId }: LogExplorerProps) {
+  const decodedId = decodeURIComponent(instanceId);
+
+  const [files, setFiles] = useState<LogFileInfo[] | null>(null);
+  const [filesError, setFilesError] = useState<string | null>(null);
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+
+  const [levels, setLevels] = useState<LogLevel[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  // undefined = last page (follows new lines)
+  const [offset, setOffset] = useState<number | undefined>(undefined);
+  const [follow, setFollow] = useState(true);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const [result, setResult] = useState<{ key: string; page?: LogPage; error?: string } | null>(null);
+
+  const visibleFiles = useMemo(
+    () => (files || []).filter(f => sourceFilter === 'all' || f.source === sourceFilter),
+    [files, sourceFilter]
+  );
+  const activeFile = visibleFiles.find(f => f.name === selectedFile)?.name ?? visibleFiles[0]?.name ?? null;
+
+  const requestKey = JSON.stringify({ activeFile, levels, search, offset, reloadToken });
+  const loading = activeFile !== null && result?.key !== requestKey;
+  const page = result?.page;
+
+  // Load the file list
+  useEffect(() => {
+    fetch(`/api/logs/${instanceId}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load log files');
+        setFiles(data.files);
+        setFilesError(null);
+      })
+      .catch(err => setFilesError(err instanceof Error ? err.message : 'Failed to load log files'));
+  }, [instanceId, reloadToken]);
+
+  // Load the current page
+  useEffect(() => {
+    if (!activeFile) return;
+
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (levels.length > 0) params.set('level', levels.join(','));
+    if (search) params.set('search', search);
+    if (offset !== undefined) params.set('offset', String(offset));
+
+    let cancelled = false;
+    fetch(`/api/logs/${instanceId}/${encodeURIComponent(activeFile)}?${params}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load log');
+        if (!cancelled) setResult({ key: requestKey, page: data });
+      })
+      .catch(err => {
+        if (!cancelled) setResult({ key: requestKey, error: err instanceof Error ? err.message : 'Failed to load log' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [instanceId, activeFile, levels, search, offset, requestKey]);
+
+  // Pull in new lines while viewing the end of the newest file
+  useStatusStream((event, { managers }) => {
+    if (!follow || offset !== undefined || (event.type !== 'log' && event.type !== 'status')) return;
+    const instance = managers?.find(m => m.id === event.id);
+    if (!instance || (instance.id !== decodedId && instance.path !== decodedId)) return;
+    if (event.type === 'status' || event.file === activeFile || !files?.some(f => f.name === event.file)) {
+      setReloadToken(t => t + 1);
+    }
+  });
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+    setOffset(undefined);
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setOffset(undefined);
+  };
+
+  const selectFile = (name: string) => {
+    setSelectedFile(name);
+    setOffset(undefined);
+  };
+
+  const pageStart = page ? page.offset : 0;
+  const hasOlder = pageStart > 0;
+  const hasNewer = page ? pageStart + page.limit < page.total : false;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      {/* File list */}
+      <aside className="lg:w-72 flex-shrink-0">
+        <div className="flex gap-1 mb-3">
+          {(['all', 'worker', 'manager'] as const).map(source => (
+            <button
+              key={source}
+              onClick={() => {
+                setSourceFilter(source);
+                setOffset(undefined);
+              }}
+              className={`flex-1 px-3 py-1.5 text-sm rounded-lg capitalize transition-colors ${
+                sourceFilter === source
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {source}
+            </button>
+          ))}
+        </div>
+
+        {filesError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{filesError}</p>
+        )}
+
+        {files && visibleFiles.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No log files yet.</p>
+        )}
+
+        <ul className="space-y-1 max-h-[calc(100vh-300px)] overflow-y-auto">
+          {visibleFiles.map(file => (
+            <li key={file.name}>
+              <button
+                onClick={() => selectFile(file.name)}
+                className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                  file.name === activeFile
+                    ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-300 dark:border-blue-700'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-700 border border-transparent'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-xs font-medium uppercase ${
+                    file.source === 'manager' ? 'text-purple-600 dark:text-purple-400' : 'text-blue-600 dark:text-blue-400'
+                  }`}>
+                    {file.source}
+                  </span>
+                  <span className="text-xs text-gray-400">{formatSize(file.size)}</span>
+                </div>
+                <div className="text-sm text-gray-900 dark:text-white font-mono truncate" title={file.name}>
+                  {file.startedAt || file.name}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </aside>
+
+      {/* Viewer */}
+      <section className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <form onSubmit={handleSearch} className="flex gap-2 flex-1 min-w-[240px]">
+            <input
+              type="text"
+              value={searchInput}
+              onChange={e => setSearchInput(e.target.value)}
+              placeholder="Search log messages..."
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+            >
+              Search
+            </button>
+          </form>
+
+          <div className="flex flex-wrap gap-1">
+            {LOG_LEVELS.map(level => (
+              <button
+                key={level}
+                onClick={() => toggleLevel(level)}
+                className={`px-2 py-1 text-xs font-medium rounded transition-opacity ${LEVEL_STYLES[level]} ${
+                  levels.length === 0 || levels.includes(level) ? 'opacity-100' : 'opacity-40'
+                } ${levels.includes(level) ? 'ring-2 ring-offset-1 ring-blue-500 dark:ring-offset-gray-800' : ''}`}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={follow}
+              onChange={e => setFollow(e.target.checked)}
+              className="rounded"
+            />
+            Follow
+          </label>
+        </div>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between mb-2 text-sm text-gray-500 dark:text-gray-400">
+          <span>
+            {page && page.total > 0
+              ? `Lines ${pageStart + 1}-${pageStart + page.lines.length} of ${page.total}` +
+                (page.total !== page.totalLines ? ` matching (${page.totalLines} total)` : '')
+              : page ? 'No matching lines' : ''}
+            {loading && ' - loading...'}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset(Math.max(pageStart - PAGE_SIZE, 0))}
+              disabled={!hasOlder || loading}
+              className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Older
+            </button>
+            <button
+              onClick={() => setOffset(pageStart + PAGE_SIZE)}
+              disabled={!hasNewer || loading}
+              className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Newer
+            </button>
+            <button
+              onClick={() => setOffset(undefined)}
+              disabled={offset === undefined}
+              className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Latest
+            </button>
+          </div>
+        </div>
+
+        {result?.error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-4">
+            <p className="text-red-700 dark:text-red-400">{result.error}</p>
+          </div>
+        )}
+
+        <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-auto max-h-[calc(100vh-320px)] min-h-[300px] font-mono text-xs">
+          {page?.lines.map(line => (
+            <div key={line.number} className="flex gap-3 px-3 py-0.5 hover:bg-gray-800">
+              <span className="w-12 flex-shrink-0 text-right text-gray-600 select-none">{line.number}</span>
+              {line.timestamp && (
+                <span className="flex-shrink-0 text-gray-500">{line.timestamp}</span>
+              )}
+              {line.level && (
+                <span className={`flex-shrink-0 px-1.5 rounded ${LEVEL_STYLES[line.level]}`}>{line.level}</span>
+              )}
+              <span className={`whitespace-pre-wrap break-all ${line.level ? 'text-gray-100' : 'text-gray-400'}`}>
+                {highlight(line.message, search)}
+              </span>
+            </div>
+          ))}
+          {!activeFile && files && (
+            <p className="p-4 text-gray-500">Select a log file to view.</p>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useToast } from '../ui/Toast';
+import type { SkillConflictStrategy, SkillImportResult } from '@/lib/types/skill';
 
 interface Skill {
   filename: string;
@@ -44,6 +45,8 @@ export function ImportExport({
   const [importSource, setImportSource] = useState<'instance' | 'file'>('instance');
   const [fileContent, setFileContent] = useState<any>(null);
   const [fileName, setFileName] = useState<string>('');
+  const [conflict, setConflict] = useState<SkillConflictStrategy>('skip');
+  const [preview, setPreview] = useState<{ key: string; result: SkillImportResult } | null>(null);
 
   // Decode instance ID for display
   const decodedInstanceId = decodeURIComponent(instanceId);
@@ -151,8 +154,56 @@ export function ImportExport({
     }
   };
 
-  // Handle import
-  const handleImport = async () => {
+  // Build the import request body (shared by preview and import)
+  const buildImportBody = (dryRun: boolean) => {
+    if (importSource === 'instance') {
+      return {
+        instanceId,
+        source: selectedInstance,
+        sourceType: 'instance',
+        skills: Array.from(selectedSkills),
+        conflict,
+        dryRun,
+      };
+    }
+
+    // Import from file
+    const skillsToImport = fileContent.skills.filter((s: Skill) =>
+      selectedSkills.has(s.filename)
+    );
+    return {
+      instanceId,
+      sourceType: 'json',
+      format: fileContent.format,
+      version: fileContent.version,
+      skills: skillsToImport,
+      conflict,
+      dryRun,
+    };
+  };
+
+  const requestImport = async (dryRun: boolean): Promise<SkillImportResult> => {
+    const response = await fetch('/api/skills/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildImportBody(dryRun)),
+    });
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Import failed');
+    }
+
+    return data.result;
+  };
+
+  // A dry-run preview only applies to the selection it was made for
+  const previewKey = JSON.stringify([importSource, selectedInstance, fileName, conflict, Array.from(selectedSkills)]);
+  const currentPreview = preview?.key === previewKey ? preview.result : null;
+
+  // Handle dry-run preview
+  const handlePreview = async () => {
     if (selectedSkills.size === 0) {
       toast.error('No skills selected', 'Please select at least one skill to import');
       return;
@@ -161,40 +212,25 @@ export function ImportExport({
     setLoading(true);
 
     try {
-      let requestBody: any;
-
-      if (importSource === 'instance') {
-        requestBody = {
-          instanceId,
-          source: selectedInstance,
-          sourceType: 'instance',
-          skills: Array.from(selectedSkills),
-        };
-      } else {
-        // Import from file
-        const skillsToImport = fileContent.skills.filter((s: Skill) =>
-          selectedSkills.has(s.filename)
-        );
-        requestBody = {
-          instanceId,
-          sourceType: 'json',
-          skills: skillsToImport,
-        };
-      }
-
-      const response = await fetch('/api/skills/import', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-      });
+      setPreview({ key: previewKey, result: await requestImport(true) });
+    } catch (err) {
+      toast.error('Preview failed', err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const data = await response.json();
+  // Handle import
+  const handleImport = async () => {
+    if (selectedSkills.size === 0) {
+      toast.error('No skills selected', 'Please select at least one skill to import');
+      return;
+    }
 
-      if (!data.success) {
-        throw new Error(data.error || 'Import failed');
-      }
+    setLoading(true);
 
-      const { result } = data;
+    try {
+      const result = await requestImport(false);
 
       if (result.imported > 0) {
         toast.success(
@@ -477,6 +513,60 @@ export function ImportExport({
             </div>
           )}
 
+          {/* Conflict Handling */}
+          {mode === 'import' && availableSkills.length > 0 && (
+            <div className="mt-6">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                If a skill already exists
+              </label>
+              <select
+                value={conflict}
+                onChange={(e) => setConflict(e.target.value as SkillConflictStrategy)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="skip">Skip it</option>
+                <option value="overwrite">Overwrite the existing skill</option>
+                <option value="rename">Import under a new name</option>
+              </select>
+            </div>
+          )}
+
+          {/* Dry-run Preview */}
+          {mode === 'import' && currentPreview && (
+            <div className="mt-6">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Preview ({currentPreview.imported} to import, {currentPreview.skipped} skipped)
+              </label>
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg max-h-48 overflow-auto">
+                {currentPreview.items.map((item) => (
+                  <div
+                    key={`${item.filename}-${item.targetFilename}`}
+                    className="flex items-center justify-between gap-3 p-2 text-sm border-b border-gray-100 dark:border-gray-700 last:border-b-0"
+                  >
+                    <span className="text-gray-900 dark:text-white truncate">
+                      {item.filename}
+                      {item.targetFilename !== item.filename && (
+                        <span className="text-gray-500 dark:text-gray-400"> → {item.targetFilename}</span>
+                      )}
+                    </span>
+                    <span
+                      title={item.reason}
+                      className={`px-2 py-0.5 text-xs rounded ${
+                        item.action === 'skip'
+                          ? 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
+                          : item.action === 'overwrite'
+                          ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400'
+                          : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                      }`}
+                    >
+                      {item.action}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Loading state */}
           {loading && (
             <div className="flex items-center justify-center py-8">
@@ -508,6 +598,15 @@ export function ImportExport({
           >
             Cancel
           </button>
+          {mode === 'import' && (
+            <button
+              onClick={handlePreview}
+              disabled={loading || selectedSkills.size === 0}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              Preview
+            </button>
+          )}
           <button
             onClick={mode === 'import' ? handleImport : handleExport}
             disabled={loading || selectedSkills.size === 0}
@@ -4,7 +4,7 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useToast } from '../ui/Toast';
 import { TagManager } from './TagManager';
-import type { PRDMetadata, PRDStatus, PRDPriority, PRDViewMode } from '@/lib/types/prd';
+import { PRD_PRIORITIES, PRD_PRIORITY_LABELS, PRD_STATUSES, type PRDMetadata, type PRDStatus, type PRDPriority, type PRDViewMode } from '@/lib/types/prd';
 
 interface PRDOrganizerProps {
   instanceId: string;
@@ -101,7 +101,7 @@ export function PRDOrganizer({ instanceId }: PRDOrganizerProps) {
   const groupedPrds = useMemo(() => {
     const groups: Record<PRDStatus, PRDMetadata[]> = {
       'pending': [],
-      'in-progress': [],
+      'in_progress': [],
       'blocked': [],
       'completed': [],
     };
@@ -409,7 +409,7 @@ function KanbanView({
       icon: <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>,
     },
     {
-      status: 'in-progress',
+      status: 'in_progress',
       title: 'In Progress',
       color: 'border-blue-400',
       icon: <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>,
@@ -569,14 +569,14 @@ function PRDCard({
   const [showMenu, setShowMenu] = useState(false);
 
   const priorityColors: Record<PRDPriority, string> = {
-    high: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
-    medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
-    low: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
+    1: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+    2: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+    3: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
   };
 
   const statusColors: Record<PRDStatus, string> = {
     pending: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400',
-    'in-progress': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+    'in_progress': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
     blocked: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
     completed: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
   };
@@ -620,7 +620,7 @@ function PRDCard({
 
         <div className="flex items-center gap-2 flex-wrap">
           <span className={`px-1.5 py-0.5 text-xs rounded ${priorityColors[prd.priority]}`}>
-            {prd.priority}
+            {PRD_PRIORITY_LABELS[prd.priority]}
           </span>
           <span className="text-xs text-gray-500 dark:text-gray-400">
             {complexityIcons[prd.complexity]} {prd.complexity}
@@ -701,12 +701,12 @@ function PRDCard({
 
           {/* Priority */}
           <span className={`px-2 py-1 text-xs rounded font-medium ${priorityColors[prd.priority]}`}>
-            {prd.priority}
+            {PRD_PRIORITY_LABELS[prd.priority]}
           </span>
 
           {/* Status */}
           <span className={`px-2 py-1 text-xs rounded font-medium ${statusColors[prd.status]}`}>
-            {prd.status}
+            {prd.status.replace('_', ' ')}
           </span>
 
           {/* Complexity */}
@@ -758,8 +758,6 @@ function CardMenu({
   onUpdatePrd: (filename: string, updates: Partial<PRDMetadata>) => void;
   setEditingPrd: (prd: PRDMetadata | null) => void;
 }) {
-  const statuses: PRDStatus[] = ['pending', 'in-progress', 'blocked', 'completed'];
-  const priorities: PRDPriority[] = ['high', 'medium', 'low'];
 
   return (
     <>
@@ -767,7 +765,7 @@ function CardMenu({
       <div className="absolute right-0 top-full mt-1 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50">
         {/* Status submenu */}
         <div className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400">Status</div>
-        {statuses.map(status => (
+        {PRD_STATUSES.map(status => (
           <button
             key={status}
             onClick={(e) => {
@@ -777,7 +775,7 @@ function CardMenu({
             }}
             className={`w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 ${prd.status === status ? 'text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-gray-300'}`}
           >
-            {prd.status === status && '✓ '}{status}
+            {prd.status === status && '✓ '}{status.replace('_', ' ')}
           </button>
         ))}
 
@@ -785,7 +783,7 @@ function CardMenu({
 
         {/* Priority submenu */}
         <div className="px-3 py-1 text-xs font-medium text-gray-500 dark:text-gray-400">Priority</div>
-        {priorities.map(priority => (
+        {PRD_PRIORITIES.map(priority => (
           <button
             key={priority}
             onClick={(e) => {
@@ -795,7 +793,7 @@ function CardMenu({
             }}
             className={`w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 ${prd.priority === priority ? 'text-blue-600 dark:text-blue-400' : 'text-gray-700 dark:text-gray-300'}`}
           >
-            {prd.priority === priority && '✓ '}{priority}
+            {prd.priority === priority && '✓ '}{PRD_PRIORITY_LABELS[priority]}
           </button>
         ))}
 
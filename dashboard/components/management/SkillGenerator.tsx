@@ -50,6 +50,9 @@ export function SkillGenerator({
   const { showToast } = useToast();
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('');
+  const [showContext, setShowContext] = useState(false);
+  const [workerLog, setWorkerLog] = useState('');
+  const [managerReview, setManagerReview] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [previewSkill, setPreviewSkill] = useState<GeneratedSkill | null>(null);
   const [step, setStep] = useState<'input' | 'preview'>('input');
@@ -70,6 +73,8 @@ export function SkillGenerator({
           instanceId,
           description: description.trim(),
           category: category || undefined,
+          workerLog: workerLog.trim() || undefined,
+          managerReview: managerReview.trim() || undefined,
         }),
       });
 
@@ -92,7 +97,7 @@ export function SkillGenerator({
     } finally {
       setIsGenerating(false);
     }
-  }, [instanceId, description, category, showToast]);
+  }, [instanceId, description, category, workerLog, managerReview, showToast]);
 
   // Save skill
   const handleSave = useCallback(() => {
@@ -168,6 +173,41 @@ export function SkillGenerator({
                 </div>
               </div>
 
+              {/* Optional context from a worker run */}
+              <div>
+                <button
+                  onClick={() => setShowContext(!showContext)}
+                  disabled={isGenerating}
+                  className="text-sm font-medium text-purple-600 dark:text-purple-400 hover:underline"
+                >
+                  {showContext ? 'Hide context' : 'Add worker log or manager review (optional)'}
+                </button>
+                {showContext && (
+                  <div className="mt-3 space-y-3">
+                    <textarea
+                      value={workerLog}
+                      onChange={(e) => setWorkerLog(e.target.value)}
+                      className="w-full h-24 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-xs
+                        focus:ring-2 focus:ring-purple-500 focus:border-transparent
+                        resize-none placeholder-gray-400"
+                      placeholder="Paste a worker log excerpt showing the problem..."
+                      disabled={isGenerating}
+                    />
+                    <textarea
+                      value={managerReview}
+                      onChange={(e) => setManagerReview(e.target.value)}
+                      className="w-full h-24 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg
+                        bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm
+                        focus:ring-2 focus:ring-purple-500 focus:border-transparent
+                        resize-none placeholder-gray-400"
+                      placeholder="Paste a manager review that flagged the problem..."
+                      disabled={isGenerating}
+                    />
+                  </div>
+                )}
+              </div>
+
               {/* Category selector */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -6,9 +6,11 @@ interface ChatInputProps {
   onSend: (message: string) => void;
   disabled?: boolean;
   placeholder?: string;
+  // Shown as a stop button while a response streams
+  onStop?: () => void;
 }
 
-export function ChatInput({ onSend, disabled = false, placeholder = 'Type your message...' }: ChatInputProps) {
+export function ChatInput({ onSend, disabled = false, placeholder = 'Type your message...', onStop }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -73,32 +75,45 @@ export function ChatInput({ onSend, disabled = false, placeholder = 'Type your m
           </div>
         </div>
 
-        <button
-          onClick={handleSend}
-          disabled={disabled || !message.trim()}
-          className={`p-2.5 sm:px-4 sm:py-3 rounded-xl font-medium transition-all duration-200 flex-shrink-0
-            ${
-              disabled || !message.trim()
-                ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
-                : 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg hover:shadow-xl active:scale-95'
-            }`}
-          aria-label="Send message"
-        >
-          {disabled ? (
-            <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-              <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-              />
+        {onStop ? (
+          <button
+            onClick={onStop}
+            className="p-2.5 sm:px-4 sm:py-3 rounded-xl font-medium transition-all duration-200 flex-shrink-0
+              bg-red-600 hover:bg-red-700 text-white shadow-lg hover:shadow-xl active:scale-95"
+            aria-label="Stop response"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="2" />
             </svg>
-          ) : (
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-            </svg>
-          )}
-        </button>
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={disabled || !message.trim()}
+            className={`p-2.5 sm:px-4 sm:py-3 rounded-xl font-medium transition-all duration-200 flex-shrink-0
+              ${
+                disabled || !message.trim()
+                  ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
+                  : 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg hover:shadow-xl active:scale-95'
+              }`}
+            aria-label="Send message"
+          >
+            {disabled ? (
+              <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+            ) : (
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            )}
+          </button>
+        )}
       </div>
 
       <div className="mt-1.5 sm:mt-2 flex items-center justify-between text-[10px] sm:text-xs text-gray-500 dark:text-gray-400">
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PlanningConversationSummary, PlanningSearchMatch } from '../../lib/types/planning';
+
+const SEARCH_DELAY_MS = 300;
+
+interface ConversationSidebarProps {
+  instancePath: string;
+  activeConversationId?: string;
+  // Changing it reloads the list
+  refreshKey: number;
+  onOpen: (conversationId: string) => void;
+  onNew: () => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+function formatDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString();
+}
+
+export function ConversationSidebar({
+  instancePath,
+  activeConversationId,
+  refreshKey,
+  onOpen,
+  onNew,
+  onDeleted,
+}: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<PlanningConversationSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<PlanningSearchMatch[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = `/api/planning/conversations?instancePath=${encodeURIComponent(instancePath)}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(base)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load conversations');
+        if (!cancelled) {
+          setConversations(data.conversations);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load conversations');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [base, refreshKey]);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`${base}&q=${encodeURIComponent(q)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Search failed');
+        if (!cancelled) setMatches(data.matches);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Search failed');
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [base, query, refreshKey]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    if (!value.trim()) setMatches(null);
+  };
+
+  const handleDelete = useCallback(async (conversation: PlanningConversationSummary) => {
+    if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+
+    try {
+      const res = await fetch(
+        `/api/planning/conversations/${encodeURIComponent(conversation.id)}?instancePath=${encodeURIComponent(instancePath)}`,
+        { method: 'DELETE' }
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to delete conversation');
+      setConversations(prev => prev.filter(c => c.id !== conversation.id));
+      setMatches(prev => prev && prev.filter(m => m.conversationId !== conversation.id));
+      onDeleted(conversation.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete conversation');
+    }
+  }, [instancePath, onDeleted]);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+        <button
+          onClick={onNew}
+          className="w-full px-3 py-2 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+        >
+          + New conversation
+        </button>
+        <input
+          type="search"
+          value={query}
+          onChange={e => handleQueryChange(e.target.value)}
+          placeholder="Search messages..."
+          className="w-full px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {error && (
+        <div className="mx-3 mt-2 text-xs text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {matches ? (
+          matches.length === 0 ? (
+            <div className="p-3 text-xs text-gray-500 dark:text-gray-400">No messages match.</div>
+          ) : (
+            matches.map(match => (
+              <button
+                key={`${match.conversationId}-${match.messageId}`}
+                onClick={() => onOpen(match.conversationId)}
+                className="w-full text-left p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-colors"
+              >
+                <div className="text-xs font-medium text-gray-700 dark:text-gray-300 truncate">{match.title}</div>
+                <div className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-3">
+                  <span className="font-medium">{match.role === 'user' ? 'You' : 'Claude'}:</span> {match.snippet}
+                </div>
+              </button>
+            ))
+          )
+        ) : loading ? (
+          <div className="p-3 text-xs text-gray-500 dark:text-gray-400">Loading...</div>
+        ) : conversations.length === 0 ? (
+          <div className="p-3 text-xs text-gray-500 dark:text-gray-400">No saved conversations yet.</div>
+        ) : (
+          conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group flex items-start gap-1 rounded-lg transition-colors ${
+                conversation.id === activeConversationId
+                  ? 'bg-blue-50 dark:bg-blue-900/30'
+                  : 'hover:bg-gray-100 dark:hover:bg-gray-700/50'
+              }`}
+            >
+              <button onClick={() => onOpen(conversation.id)} className="flex-1 min-w-0 text-left p-2">
+                <div className="text-sm text-gray-900 dark:text-white truncate">
+                  {conversation.forkedFrom && <span title="Forked conversation">⑂ </span>}
+                  {conversation.title}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatDate(conversation.updatedAt)} · {conversation.messageCount} message{conversation.messageCount !== 1 ? 's' : ''}
+                </div>
+              </button>
+              <button
+                onClick={() => handleDelete(conversation)}
+                className="p-2 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                aria-label={`Delete ${conversation.title}`}
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { useStatusStream } from '../../lib/status/useStatusStream';
 
 interface ExecutionState {
   status: 'idle' | 'starting' | 'running' | 'paused' | 'completed' | 'failed';
+  // 'requested' until the current iteration finishes
+  pause?: 'requested' | 'paused' | null;
   startedAt?: string;
   workerModel?: string;
   managerModel?: string;
@@ -14,6 +17,8 @@ interface ExecutionState {
   error?: string;
 }
 
+const MAX_LOG_LINES = 200;
+
 interface ExecutionProgressProps {
   instancePath: string;
   isVisible: boolean;
@@ -27,8 +32,8 @@ export function ExecutionProgress({
 }: ExecutionProgressProps) {
   const [state, setState] = useState<ExecutionState>({ status: 'idle' });
   const [logs, setLogs] = useState<string[]>([]);
+  const [controlling, setControlling] = useState(false);
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const pollInterval = useRef<NodeJS.Timeout | null>(null);
 
   const fetchStatus = useCallback(async () => {
     try {
@@ -46,19 +51,47 @@ export function ExecutionProgress({
     }
   }, [instancePath]);
 
-  // Poll for status updates
   useEffect(() => {
     if (isVisible) {
       fetchStatus();
-      pollInterval.current = setInterval(fetchStatus, 3000);
     }
+  }, [isVisible, fetchStatus]);
 
-    return () => {
-      if (pollInterval.current) {
-        clearInterval(pollInterval.current);
+  const handleControl = async (action: 'pause' | 'resume' | 'stop') => {
+    setControlling(true);
+    try {
+      const response = await fetch('/api/control', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, instancePath }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action}`);
       }
-    };
-  }, [isVisible, fetchStatus]);
+      await fetchStatus();
+    } catch (error) {
+      console.error(`Failed to ${action} execution:`, error);
+      setState(prev => ({ ...prev, error: error instanceof Error ? error.message : String(error) }));
+    } finally {
+      setControlling(false);
+    }
+  };
+
+  // Refresh execution state on status changes and tail the worker log
+  useStatusStream((event, { managers }) => {
+    if (!isVisible || event.type === 'snapshot') return;
+    const id = event.type === 'added' ? event.instance.id : event.id;
+    if (managers?.find(m => m.id === id)?.path !== instancePath) return;
+
+    if (event.type === 'log') {
+      if (event.source === 'worker') {
+        setLogs(prev => [...prev, ...event.lines].slice(-MAX_LOG_LINES));
+      }
+    } else {
+      fetchStatus();
+    }
+  });
 
   // Auto-scroll logs
   useEffect(() => {
@@ -93,6 +126,12 @@ export function ExecutionProgress({
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
           </svg>
         );
+      case 'paused':
+        return (
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        );
       case 'completed':
         return (
           <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -214,6 +253,12 @@ export function ExecutionProgress({
             </div>
           )}
 
+          {state.pause === 'requested' && (
+            <div className="mt-3 p-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-sm text-yellow-700 dark:text-yellow-300">
+              Pausing after the current iteration finishes
+            </div>
+          )}
+
           {/* Error display */}
           {state.error && (
             <div className="mt-3 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-sm text-red-700 dark:text-red-300">
@@ -236,15 +281,29 @@ export function ExecutionProgress({
       )}
 
       {/* Actions */}
-      {state.status === 'running' && (
+      {(state.status === 'running' || state.status === 'paused') && (
         <div className="p-3 border-t border-gray-200 dark:border-gray-700 flex gap-2">
+          {state.pause ? (
+            <button
+              onClick={() => handleControl('resume')}
+              disabled={controlling}
+              className="flex-1 px-3 py-2 text-sm font-medium text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30 hover:bg-green-200 dark:hover:bg-green-900/50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Resume
+            </button>
+          ) : (
+            <button
+              onClick={() => handleControl('pause')}
+              disabled={controlling}
+              className="flex-1 px-3 py-2 text-sm font-medium text-yellow-700 dark:text-yellow-300 bg-yellow-100 dark:bg-yellow-900/30 hover:bg-yellow-200 dark:hover:bg-yellow-900/50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Pause
+            </button>
+          )}
           <button
-            className="flex-1 px-3 py-2 text-sm font-medium text-yellow-700 dark:text-yellow-300 bg-yellow-100 dark:bg-yellow-900/30 hover:bg-yellow-200 dark:hover:bg-yellow-900/50 rounded-lg transition-colors"
-          >
-            Pause
-          </button>
-          <button
-            className="flex-1 px-3 py-2 text-sm font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30 hover:bg-red-200 dark:hover:bg-red-900/50 rounded-lg transition-colors"
+            onClick={() => handleControl('stop')}
+            disabled={controlling}
+            className="flex-1 px-3 py-2 text-sm font-medium text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30 hover:bg-red-200 dark:hover:bg-red-900/50 rounded-lg transition-colors disabled:opacity-50"
           >
             Stop
           </button>
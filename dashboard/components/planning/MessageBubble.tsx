@@ -7,6 +7,10 @@ interface MessageBubbleProps {
   content: string;
   timestamp?: string;
   isStreaming?: boolean;
+  // Reply the user stopped before it finished
+  interrupted?: boolean;
+  // Starts a new conversation from this message
+  onFork?: () => void;
 }
 
 // Simple markdown-like rendering for code blocks and basic formatting
@@ -118,7 +122,7 @@ function formatTimestamp(timestamp: string): string {
   return date.toLocaleDateString();
 }
 
-function MessageBubbleComponent({ role, content, timestamp, isStreaming }: MessageBubbleProps) {
+function MessageBubbleComponent({ role, content, timestamp, isStreaming, interrupted, onFork }: MessageBubbleProps) {
   const isUser = role === 'user';
   const [displayContent, setDisplayContent] = useState(content);
 
@@ -128,7 +132,7 @@ function MessageBubbleComponent({ role, content, timestamp, isStreaming }: Messa
   }, [content]);
 
   return (
-    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-3 sm:mb-4`}>
+    <div className={`group flex ${isUser ? 'justify-end' : 'justify-start'} mb-3 sm:mb-4`}>
       <div
         className={`max-w-[90%] sm:max-w-[85%] rounded-xl sm:rounded-2xl px-3 sm:px-4 py-2.5 sm:py-3 ${
           isUser
@@ -146,6 +150,17 @@ function MessageBubbleComponent({ role, content, timestamp, isStreaming }: Messa
               {formatTimestamp(timestamp)}
             </span>
           )}
+          {onFork && (
+            <button
+              onClick={onFork}
+              title="Start a new conversation from this message"
+              className={`text-[10px] sm:text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity ${
+                isUser ? 'text-blue-200 hover:text-white' : 'text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              ⑂ Fork
+            </button>
+          )}
         </div>
 
         {/* Message content */}
@@ -153,6 +168,12 @@ function MessageBubbleComponent({ role, content, timestamp, isStreaming }: Messa
           {renderContent(displayContent)}
         </div>
 
+        {interrupted && (
+          <div className="mt-1.5 sm:mt-2 text-[10px] sm:text-xs italic text-gray-500 dark:text-gray-400">
+            Stopped before it finished
+          </div>
+        )}
+
         {/* Streaming indicator */}
         {isStreaming && !isUser && (
           <div className="flex items-center gap-1 mt-1.5 sm:mt-2">
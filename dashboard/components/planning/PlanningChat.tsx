@@ -7,12 +7,14 @@ import { PlanningToolbar } from './PlanningToolbar';
 import { PrdPreviewModal } from './PrdPreviewModal';
 import { ExecutionProgress } from './ExecutionProgress';
 import { useSoundEffect } from '../../lib/sounds/useSoundEffect';
+import type { PlanningStreamEvent } from '../../lib/types/planning';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  interrupted?: boolean;
 }
 
 interface PRD {
@@ -44,6 +46,10 @@ interface PlanningChatProps {
   onStartWork?: () => void;
   initialConversationId?: string;
   initialMessages?: Message[];
+  // Opens another conversation, such as a fork of this one
+  onOpenConversation?: (conversation: { id: string; messages: Message[] }) => void;
+  // Called when this conversation is saved or forked
+  onConversationsChange?: () => void;
 }
 
 // Generate a simple UUID
@@ -51,6 +57,51 @@ function generateId(): string {
   return 'msg_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 }
 
+// Read a planning route's event stream, passing each text delta to onContent. Returns the route's
+// result (the last event that isn't a delta) and throws on an error event.
+async function readEventStream(
+  response: Response,
+  onContent: (content: string) => void,
+  onEvent?: (event: PlanningStreamEvent) => void
+): Promise<PlanningStreamEvent | null> {
+  const reader = response.body?.getReader();
+  if (!reader) return null;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: PlanningStreamEvent | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return result;
+
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split('\n\n');
+    buffer = chunks.pop() ?? '';
+
+    for (const chunk of chunks) {
+      if (!chunk.startsWith('data: ')) continue;
+      const data = chunk.slice(6);
+      if (data === '[DONE]') return result;
+
+      let event: PlanningStreamEvent;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      if (event.error) throw new Error(event.error);
+      if (event.content) {
+        onContent(event.content);
+      } else {
+        result = event;
+        onEvent?.(event);
+      }
+    }
+  }
+}
+
 export function PlanningChat({
   instanceId,
   instanceName,
@@ -60,6 +111,8 @@ export function PlanningChat({
   onStartWork,
   initialConversationId,
   initialMessages = [],
+  onOpenConversation,
+  onConversationsChange,
 }: PlanningChatProps) {
   const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [conversationId, setConversationId] = useState<string | undefined>(initialConversationId);
@@ -74,7 +127,13 @@ export function PlanningChat({
   const [showExecutionProgress, setShowExecutionProgress] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  // Aborts the response streaming in, if any
+  const abortRef = useRef<AbortController | null>(null);
   const { play } = useSoundEffect();
+  const isBusy = isLoading || isDraftingPrd || isGeneratingPlan;
+
+  // Stop any response still streaming when the chat closes
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -98,6 +157,12 @@ export function PlanningChat({
       setMessages((prev) => [...prev, userMessage]);
       setStreamingContent('');
 
+      const controller = new AbortController();
+      abortRef.current = controller;
+      let fullContent = '';
+      // Replaced by the id the server saves the reply under
+      let replyId = generateId();
+
       try {
         const response = await fetch('/api/planning/message', {
           method: 'POST',
@@ -106,6 +171,7 @@ export function PlanningChat({
             instanceId,
             instancePath,
             message: content,
+            messageId: userMessage.id,
             conversationId,
             context: {
               instanceName,
@@ -114,6 +180,7 @@ export function PlanningChat({
               previousMessages: messages.slice(-20), // Include last 20 messages for context
             },
           }),
+          signal: controller.signal,
         });
 
         if (!response.ok) {
@@ -122,88 +189,59 @@ export function PlanningChat({
           throw new Error(errorData.error || 'Failed to send message');
         }
 
-        console.log('Response headers:', Object.fromEntries(response.headers));
-
-        // Handle streaming response
-        if (response.headers.get('content-type')?.includes('text/event-stream')) {
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
-          let fullContent = '';
-
-          if (reader) {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-
-              const chunk = decoder.decode(value, { stream: true });
-              const lines = chunk.split('\n');
-
-              for (const line of lines) {
-                if (line.startsWith('data: ')) {
-                  const data = line.slice(6);
-                  if (data === '[DONE]') {
-                    // Final message
-                    continue;
-                  }
-                  try {
-                    const parsed = JSON.parse(data);
-                    if (parsed.conversationId) {
-                      setConversationId(parsed.conversationId);
-                    }
-                    if (parsed.content) {
-                      fullContent += parsed.content;
-                      setStreamingContent(fullContent);
-                    }
-                  } catch {
-                    // Not JSON, might be raw content
-                    fullContent += data;
-                    setStreamingContent(fullContent);
-                  }
-                }
-              }
+        await readEventStream(
+          response,
+          (delta) => {
+            fullContent += delta;
+            setStreamingContent(fullContent);
+          },
+          (event) => {
+            if (event.conversationId) {
+              setConversationId(event.conversationId);
+            }
+            if (event.assistantMessageId) {
+              replyId = event.assistantMessageId;
             }
           }
+        );
 
-          // Add assistant message when streaming is complete
+        // Add assistant message when streaming is complete
+        if (fullContent) {
+          const assistantMessage: Message = {
+            id: replyId,
+            role: 'assistant',
+            content: fullContent,
+            timestamp: new Date().toISOString(),
+          };
+          setMessages((prev) => [...prev, assistantMessage]);
+        } else {
+          console.warn('No content received from Claude');
+        }
+      } catch (err) {
+        if (controller.signal.aborted) {
+          // Stopped: keep what arrived (the server saved it to the conversation under the same ids)
           if (fullContent) {
-            const assistantMessage: Message = {
-              id: generateId(),
+            const partialMessage: Message = {
+              id: replyId,
               role: 'assistant',
               content: fullContent,
               timestamp: new Date().toISOString(),
+              interrupted: true,
             };
-            console.log('Adding assistant message:', assistantMessage);
-            setMessages((prev) => {
-              const updated = [...prev, assistantMessage];
-              console.log('Updated messages:', updated);
-              return updated;
-            });
-            setStreamingContent('');
-          } else {
-            console.warn('No content received from Claude');
+            setMessages((prev) => [...prev, partialMessage]);
+            onConversationsChange?.();
           }
         } else {
-          // Non-streaming response
-          const data = await response.json();
-          if (data.conversationId) {
-            setConversationId(data.conversationId);
-          }
-          const assistantMessage: Message = {
-            id: generateId(),
-            role: 'assistant',
-            content: data.reply,
-            timestamp: new Date().toISOString(),
-          };
-          setMessages((prev) => [...prev, assistantMessage]);
+          setError(err instanceof Error ? err.message : 'Failed to send message');
+          console.error('Chat error:', err);
         }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to send message');
-        console.error('Chat error:', err);
       } finally {
+        abortRef.current = null;
+        setStreamingContent('');
         setIsLoading(false);
       }
     },
-    [instanceId, instancePath, instanceName, existingPrds, skills, conversationId, messages]
+    [instanceId, instancePath, instanceName, existingPrds, skills, conversationId, messages, onConversationsChange]
   );
 
   const handleSave = useCallback(async () => {
@@ -219,7 +257,6 @@ export function PlanningChat({
           instancePath,
           conversationId,
           messages,
-          title: `Planning session - ${new Date().toLocaleDateString()}`,
         }),
       });
 
@@ -232,17 +269,54 @@ export function PlanningChat({
       if (data.conversationId) {
         setConversationId(data.conversationId);
       }
+      onConversationsChange?.();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save');
     } finally {
       setIsSaving(false);
     }
-  }, [instanceId, instancePath, conversationId, messages]);
+  }, [instanceId, instancePath, conversationId, messages, onConversationsChange]);
+
+  // Save, then branch a new conversation off at the message
+  const handleFork = useCallback(async (messageId: string) => {
+    if (!conversationId || !onOpenConversation) return;
+
+    try {
+      const saveResponse = await fetch('/api/planning/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instanceId, instancePath, conversationId, messages }),
+      });
+      if (!saveResponse.ok) {
+        const errorData = await saveResponse.json();
+        throw new Error(errorData.error || 'Failed to save conversation');
+      }
+
+      const response = await fetch(`/api/planning/conversations/${encodeURIComponent(conversationId)}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instancePath, messageId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fork conversation');
+      }
+
+      onConversationsChange?.();
+      onOpenConversation(data.conversation);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fork conversation');
+    }
+  }, [instanceId, instancePath, conversationId, messages, onOpenConversation, onConversationsChange]);
 
   const handleDraftPrd = useCallback(async () => {
     if (messages.length === 0) return;
 
     setIsDraftingPrd(true);
+    setStreamingContent('');
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       const response = await fetch('/api/planning/draft-prd', {
         method: 'POST',
@@ -253,6 +327,7 @@ export function PlanningChat({
           conversationId,
           messages,
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -260,7 +335,14 @@ export function PlanningChat({
         throw new Error(errorData.error || 'Failed to draft PRD');
       }
 
-      const data = await response.json();
+      // Show the PRD as it is written
+      let draft = '';
+      const data = await readEventStream(response, (delta) => {
+        draft += delta;
+        setStreamingContent(draft);
+      });
+      if (!data?.success) throw new Error('Failed to draft PRD');
+
       // Show the drafted PRD as a message
       const prdMessage: Message = {
         id: generateId(),
@@ -270,8 +352,12 @@ export function PlanningChat({
       };
       setMessages((prev) => [...prev, prdMessage]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to draft PRD');
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to draft PRD');
+      }
     } finally {
+      abortRef.current = null;
+      setStreamingContent('');
       setIsDraftingPrd(false);
     }
   }, [instanceId, instancePath, conversationId, messages]);
@@ -307,6 +393,7 @@ export function PlanningChat({
   }, [messages, instanceName, conversationId]);
 
   const handleNewConversation = useCallback(() => {
+    abortRef.current?.abort();
     setMessages([]);
     setConversationId(undefined);
     setError(null);
@@ -328,6 +415,9 @@ export function PlanningChat({
 
     setIsGeneratingPlan(true);
     setError(null);
+    setStreamingContent('');
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
       const response = await fetch('/api/planning/generate-prds', {
@@ -339,6 +429,7 @@ export function PlanningChat({
           messages,
           userRequest: 'Generate PRDs based on our planning conversation',
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -346,9 +437,16 @@ export function PlanningChat({
         throw new Error(errorData.error || 'Failed to generate plan');
       }
 
-      const data = await response.json();
-      if (data.success && data.plan) {
-        setGeneratedPlan(data.plan);
+      // Show the plan's PRDs as they are written
+      let draft = '';
+      const data = await readEventStream(response, (delta) => {
+        draft += delta;
+        setStreamingContent(draft);
+      });
+
+      const plan = data?.success ? data.plan as GeneratedPlan | undefined : undefined;
+      if (plan) {
+        setGeneratedPlan(plan);
         setShowPrdPreview(true);
         play('success');
 
@@ -356,20 +454,28 @@ export function PlanningChat({
         const planMessage: Message = {
           id: generateId(),
           role: 'assistant',
-          content: `I've generated a plan with ${data.plan.prds.length} PRD${data.plan.prds.length !== 1 ? 's' : ''} based on our conversation:\n\n**${data.plan.title}**\n\n${data.plan.summary}\n\nClick "View Plan" in the toolbar to review and start implementation.`,
+          content: `I've generated a plan with ${plan.prds.length} PRD${plan.prds.length !== 1 ? 's' : ''} based on our conversation:\n\n**${plan.title}**\n\n${plan.summary}\n\nClick "View Plan" in the toolbar to review and start implementation.`,
           timestamp: new Date().toISOString(),
         };
         setMessages((prev) => [...prev, planMessage]);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate plan');
-      play('error');
-      console.error('Generate plan error:', err);
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to generate plan');
+        play('error');
+        console.error('Generate plan error:', err);
+      }
     } finally {
+      abortRef.current = null;
+      setStreamingContent('');
       setIsGeneratingPlan(false);
     }
   }, [instancePath, conversationId, messages, play]);
 
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   // Execute the generated plan
   const handleExecutePlan = useCallback(async () => {
     if (!generatedPlan) return;
@@ -540,6 +646,8 @@ export function PlanningChat({
             role={message.role}
             content={message.content}
             timestamp={message.timestamp}
+            interrupted={message.interrupted}
+            onFork={conversationId && onOpenConversation && !isBusy ? () => handleFork(message.id) : undefined}
           />
         ))}
 
@@ -549,7 +657,7 @@ export function PlanningChat({
         )}
 
         {/* Loading indicator when waiting for response */}
-        {isLoading && !streamingContent && (
+        {isBusy && !streamingContent && (
           <div className="flex justify-start mb-4">
             <div className="bg-gray-100 dark:bg-gray-800 rounded-2xl rounded-bl-md px-4 py-3">
               <div className="flex items-center gap-2">
@@ -567,7 +675,8 @@ export function PlanningChat({
       {/* Input area */}
       <ChatInput
         onSend={handleSendMessage}
-        disabled={isLoading}
+        disabled={isBusy}
+        onStop={isBusy ? handleStop : undefined}
         placeholder="Describe what you want to build..."
       />
 
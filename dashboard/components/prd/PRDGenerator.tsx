@@ -110,7 +110,8 @@ export function PRDGenerator({
       setGeneratedPRD(data.updatedPRD);
       setPrdTitle(data.title);
       setRefinementPrompt('');
-      showToast('success', 'PRD refined successfully');
+      const changedLines = Array.isArray(data.changes) ? data.changes.length : 0;
+      showToast('success', `PRD refined (${changedLines} line${changedLines !== 1 ? 's' : ''} changed)`, data.explanation);
     } catch (err) {
       showToast('error', err instanceof Error ? err.message : 'Failed to refine PRD');
     } finally {
@@ -2,16 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useToast } from '../ui/Toast';
-
-interface PRDQueueItem {
-  id: string;
-  filename: string;
-  title: string;
-  priority: number;
-  status: 'pending' | 'in_progress' | 'completed';
-  addedAt: string;
-  estimatedIterations?: number;
-}
+import { useStatusStream } from '../../lib/status/useStatusStream';
+import type { PRDMetadata as PRDQueueItem, PRDQueueStats } from '../../lib/types/prd';
 
 interface QueueManagerProps {
   instanceId: string;
@@ -22,11 +14,13 @@ interface QueueManagerProps {
 export function QueueManager({ instanceId, instancePath, onGenerateNew }: QueueManagerProps) {
   const [queue, setQueue] = useState<PRDQueueItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [stats, setStats] = useState({
+  const [stats, setStats] = useState<PRDQueueStats>({
     total: 0,
     pending: 0,
     inProgress: 0,
+    blocked: 0,
     completed: 0,
+    archived: 0,
   });
   const { showToast } = useToast();
 
@@ -43,7 +37,7 @@ export function QueueManager({ instanceId, instancePath, onGenerateNew }: QueueM
 
       const data = await response.json();
       setQueue(data.queue || []);
-      setStats(data.stats || { total: 0, pending: 0, inProgress: 0, completed: 0 });
+      setStats(data.stats || { total: 0, pending: 0, inProgress: 0, blocked: 0, completed: 0, archived: 0 });
     } catch (err) {
       showToast('error', err instanceof Error ? err.message : 'Failed to load queue');
     } finally {
@@ -55,6 +49,16 @@ export function QueueManager({ instanceId, instancePath, onGenerateNew }: QueueM
     fetchQueue();
   }, [fetchQueue]);
 
+  // Refetch when the worker picks up or finishes a PRD for this instance
+  useStatusStream((event, { managers }) => {
+    if (event.type !== 'status') return;
+    const instance = managers?.find(m => m.id === event.id);
+    if (instance?.path !== instancePath) return;
+    if (event.changes.prds || event.changes.worker?.currentPrd !== undefined) {
+      fetchQueue();
+    }
+  });
+
   // Delete item from queue
   const handleDelete = useCallback(async (prdId: string, deleteFile: boolean) => {
     try {
@@ -105,6 +109,7 @@ export function QueueManager({ instanceId, instancePath, onGenerateNew }: QueueM
 
   // Group items by status and priority
   const inProgress = queue.filter(item => item.status === 'in_progress');
+  const blocked = queue.filter(item => item.status === 'blocked');
   const highPriority = queue.filter(item => item.status === 'pending' && item.priority === 1);
   const mediumPriority = queue.filter(item => item.status === 'pending' && item.priority === 2);
   const lowPriority = queue.filter(item => item.status === 'pending' && item.priority === 3);
@@ -132,6 +137,7 @@ export function QueueManager({ instanceId, instancePath, onGenerateNew }: QueueM
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">PRD Queue</h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">
             {stats.pending} pending, {stats.inProgress} in progress, {stats.completed} completed
+            {stats.blocked > 0 && `, ${stats.blocked} blocked`}
           </p>
         </div>
         {onGenerateNew && (
@@ -175,6 +181,18 @@ export function QueueManager({ instanceId, instancePath, onGenerateNew }: QueueM
               />
             )}
 
+            {/* Blocked */}
+            {blocked.length > 0 && (
+              <QueueSection
+                title="Blocked"
+                icon={<BlockedIcon />}
+                iconColor="text-red-500"
+                items={blocked}
+                onDelete={handleDelete}
+                onUpdate={handleUpdate}
+              />
+            )}
+
             {/* High Priority */}
             {highPriority.length > 0 && (
               <QueueSection
@@ -307,14 +325,14 @@ function QueueItem({
       <div className="flex-1 min-w-0">
         <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{item.title}</p>
         <p className="text-xs text-gray-500 dark:text-gray-400">
-          {item.filename} • Added {formatDate(item.addedAt)}
+          {item.filename} • Added {formatDate(item.createdAt)}
           {item.estimatedIterations && ` • ~${item.estimatedIterations} iterations`}
         </p>
       </div>
 
       <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-        {/* Start button (for pending items) */}
-        {item.status === 'pending' && (
+        {/* Start button (for pending and blocked items) */}
+        {(item.status === 'pending' || item.status === 'blocked') && (
           <button
             onClick={() => onUpdate(item.id, { status: 'in_progress' })}
             className="p-1.5 text-blue-500 hover:bg-blue-100 dark:hover:bg-blue-900/20 rounded"
@@ -416,6 +434,14 @@ function InProgressIcon() {
   );
 }
 
+function BlockedIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+    </svg>
+  );
+}
+
 function HighPriorityIcon() {
   return (
     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
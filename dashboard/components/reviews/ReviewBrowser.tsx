@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { PRDPreview } from '../prd/PRDPreview';
+import { ScoreChart } from './ScoreChart';
+import { useStatusStream } from '../../lib/status/useStatusStream';
+import type { ReviewDetail, ReviewSummary, ReviewVerdict } from '../../lib/types/review';
+
+type VerdictFilter = 'all' | ReviewVerdict | 'none';
+
+const VERDICT_FILTERS: { value: VerdictFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'needs-work', label: 'Needs work' },
+  { value: 'none', label: 'No verdict' },
+];
+
+const VERDICT_STYLES: Record<ReviewVerdict, string> = {
+  approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  'needs-work': 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+};
+
+interface ReviewBrowserProps {
+  instanceId: string;
+}
+
+function scoreColor(score: number) {
+  if (score >= 8) return 'text-green-600 dark:text-green-400';
+  if (score >= 5) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+export function ReviewBrowser({ instanceId }: ReviewBrowserProps) {
+  const decodedId = decodeURIComponent(instanceId);
+
+  const [reviews, setReviews] = useState<ReviewSummary[] | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<VerdictFilter>('all');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [detail, setDetail] = useState<{ number: number; review?: ReviewDetail; error?: string } | null>(null);
+
+  const visibleReviews = useMemo(
+    () => (reviews || [])
+      .filter(r => filter === 'all' || (r.verdict ?? 'none') === filter)
+      .reverse(),
+    [reviews, filter]
+  );
+  const activeReview = visibleReviews.find(r => r.number === selected)?.number ?? visibleReviews[0]?.number ?? null;
+  const loading = activeReview !== null && detail?.number !== activeReview;
+
+  // Load the review list (filtered client-side so the chart keeps every review)
+  useEffect(() => {
+    fetch(`/api/instances/${instanceId}/reviews`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load reviews');
+        setReviews(data.reviews);
+        setListError(null);
+      })
+      .catch(err => setListError(err instanceof Error ? err.message : 'Failed to load reviews'));
+  }, [instanceId, reloadToken]);
+
+  // Load the selected review with its iteration report
+  useEffect(() => {
+    if (activeReview === null) return;
+
+    let cancelled = false;
+    fetch(`/api/instances/${instanceId}/reviews/${activeReview}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load review');
+        if (!cancelled) setDetail({ number: activeReview, review: data.review });
+      })
+      .catch(err => {
+        if (!cancelled) setDetail({ number: activeReview, error: err instanceof Error ? err.message : 'Failed to load review' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [instanceId, activeReview]);
+
+  // Pick up new reviews as the manager's review counter moves
+  useStatusStream((event, { managers }) => {
+    if (event.type !== 'status' || event.changes.manager?.reviews === undefined) return;
+    const instance = managers?.find(m => m.id === event.id);
+    if (instance && (instance.id === decodedId || instance.path === decodedId)) {
+      setReloadToken(t => t + 1);
+    }
+  });
+
+  const review = detail?.number === activeReview ? detail.review : undefined;
+
+  return (
+    <div className="space-y-6">
+      {/* Score over time */}
+      <section>
+        <h2 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">Score over time</h2>
+        {reviews && (
+          <ScoreChart
+            reviews={reviews}
+            selected={activeReview}
+            onSelect={number => {
+              setFilter('all');
+              setSelected(number);
+            }}
+          />
+        )}
+      </section>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Review list */}
+        <aside className="lg:w-72 flex-shrink-0">
+          <div className="flex flex-wrap gap-1 mb-3">
+            {VERDICT_FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  filter === value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {listError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{listError}</p>
+          )}
+
+          {reviews && visibleReviews.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {reviews.length === 0 ? 'No reviews yet.' : 'No reviews match this filter.'}
+            </p>
+          )}
+
+          <ul className="space-y-1 max-h-[calc(100vh-300px)] overflow-y-auto">
+            {visibleReviews.map(r => (
+              <li key={r.number}>
+                <button
+                  onClick={() => setSelected(r.number)}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                    r.number === activeReview
+                      ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-300 dark:border-blue-700'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-700 border border-transparent'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">
+                      Review #{r.number}
+                    </span>
+                    {r.score !== null && (
+                      <span className={`text-sm font-bold ${scoreColor(r.score)}`}>{r.score}/10</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {r.verdict && (
+                      <span className={`px-1.5 rounded ${VERDICT_STYLES[r.verdict]}`}>
+                        {r.verdict === 'approved' ? 'Approved' : 'Needs work'}
+                      </span>
+                    )}
+                    {r.iteration !== null && <span>Iteration {r.iteration}</span>}
+                    {r.issues.length > 0 && (
+                      <span>{r.issues.length} issue{r.issues.length === 1 ? '' : 's'}</span>
+                    )}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+
+        {/* Review next to the iteration report it judged */}
+        <section className="flex-1 min-w-0">
+          {detail?.error && detail.number === activeReview && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 mb-4">
+              <p className="text-red-700 dark:text-red-400">{detail.error}</p>
+            </div>
+          )}
+
+          {loading && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading review...</p>
+          )}
+
+          {review && (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">Review #{review.number}</h3>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(review.reviewedAt).toLocaleString()}
+                  </span>
+                </div>
+
+                {review.issues.length > 0 && (
+                  <div className="mb-3 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+                    <p className="text-xs font-medium text-yellow-800 dark:text-yellow-200 mb-1">Issues</p>
+                    <ul className="list-disc list-inside text-sm text-yellow-800 dark:text-yellow-200 space-y-0.5">
+                      {review.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 max-h-[calc(100vh-320px)] overflow-y-auto">
+                  <PRDPreview content={review.content} />
+                  {review.verdictContent && (
+                    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                      <PRDPreview content={review.verdictContent} />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="min-w-0">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">
+                    {review.iteration !== null ? `Iteration ${review.iteration}` : 'Iteration report'}
+                  </h3>
+                  {review.report && (
+                    <span className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate" title={review.report}>
+                      {review.report}
+                    </span>
+                  )}
+                </div>
+
+                <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 max-h-[calc(100vh-320px)] overflow-y-auto">
+                  {review.reportContent !== null ? (
+                    <>
+                      <PRDPreview content={review.reportContent} />
+                      {review.reportTruncated && (
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Report truncated.</p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      No iteration report found for this review.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
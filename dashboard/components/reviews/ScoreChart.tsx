@@ -0,0 +1,123 @@
+'use client';
+
+import type { ReviewSummary, ReviewVerdict } from '../../lib/types/review';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 28 };
+// Reviews averaged for the trend line
+const TREND_WINDOW = 3;
+
+const VERDICT_COLORS: Record<ReviewVerdict | 'none', string> = {
+  approved: '#22c55e',
+  'needs-work': '#f59e0b',
+  none: '#9ca3af',
+};
+
+interface ScoreChartProps {
+  reviews: ReviewSummary[];
+  selected: number | null;
+  onSelect: (review: number) => void;
+}
+
+export function ScoreChart({ reviews, selected, onSelect }: ScoreChartProps) {
+  const scored = reviews.filter((r): r is ReviewSummary & { score: number } => r.score !== null);
+
+  if (scored.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+        No scored reviews yet.
+      </p>
+    );
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (i: number) => PADDING.left + (scored.length === 1 ? plotWidth / 2 : (i / (scored.length - 1)) * plotWidth);
+  const y = (score: number) => PADDING.top + (1 - score / 10) * plotHeight;
+
+  const trend = scored.map((_, i) => {
+    const recent = scored.slice(Math.max(0, i - TREND_WINDOW + 1), i + 1);
+    return recent.reduce((sum, r) => sum + r.score, 0) / recent.length;
+  });
+  const average = scored.reduce((sum, r) => sum + r.score, 0) / scored.length;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Review scores over time">
+        {/* Grid */}
+        {[0, 5, 10].map(score => (
+          <g key={score}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(score)}
+              y2={y(score)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+              strokeDasharray={score === 5 ? '4 4' : undefined}
+            />
+            <text x={PADDING.left - 6} y={y(score) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+              {score}
+            </text>
+          </g>
+        ))}
+
+        {/* Scores and trend */}
+        <polyline
+          points={scored.map((r, i) => `${x(i)},${y(r.score)}`).join(' ')}
+          fill="none"
+          className="stroke-blue-500"
+          strokeWidth={2}
+        />
+        {scored.length > TREND_WINDOW && (
+          <polyline
+            points={trend.map((score, i) => `${x(i)},${y(score)}`).join(' ')}
+            fill="none"
+            className="stroke-purple-400"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+        )}
+
+        {scored.map((review, i) => (
+          <g key={review.number} onClick={() => onSelect(review.number)} className="cursor-pointer">
+            <circle
+              cx={x(i)}
+              cy={y(review.score)}
+              r={review.number === selected ? 7 : 5}
+              fill={VERDICT_COLORS[review.verdict ?? 'none']}
+              className={review.number === selected ? 'stroke-gray-900 dark:stroke-white' : 'stroke-white dark:stroke-gray-800'}
+              strokeWidth={2}
+            >
+              <title>
+                {`Review #${review.number}: ${review.score}/10` +
+                  (review.iteration !== null ? ` (iteration ${review.iteration})` : '')}
+              </title>
+            </circle>
+            {scored.length <= 20 && (
+              <text x={x(i)} y={HEIGHT - 6} textAnchor="middle" className="fill-gray-400 text-[10px]">
+                #{review.number}
+              </text>
+            )}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap justify-center gap-4 mt-2 text-xs text-gray-600 dark:text-gray-400">
+        <span>Average {average.toFixed(1)}/10</span>
+        {scored.length > TREND_WINDOW && (
+          <span className="flex items-center gap-1">
+            <span className="w-4 border-t-2 border-dashed border-purple-400" />
+            {TREND_WINDOW}-review average
+          </span>
+        )}
+        {(['approved', 'needs-work', 'none'] as const).map(verdict => (
+          <span key={verdict} className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: VERDICT_COLORS[verdict] }} />
+            {verdict === 'none' ? 'No verdict' : verdict === 'approved' ? 'Approved' : 'Needs work'}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
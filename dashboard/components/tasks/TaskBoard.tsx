@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { TaskEditor } from './TaskEditor';
+import { useToast } from '../ui/Toast';
+import { useStatusStream } from '../../lib/status/useStatusStream';
+import type { ScheduleResult } from '../../lib/scheduler/task-scheduler';
+import type { Task, TaskFields, TaskStatus } from '../../lib/types/task';
+
+interface TaskBoardProps {
+  instanceId: string;
+}
+
+const COLUMNS: { status: TaskStatus; title: string; color: string }[] = [
+  { status: 'pending', title: 'Pending', color: 'border-gray-300 dark:border-gray-600' },
+  { status: 'in_progress', title: 'In Progress', color: 'border-blue-400' },
+  { status: 'completed', title: 'Completed', color: 'border-green-400' },
+];
+
+const PRIORITY_BADGES: Record<number, { label: string; className: string }> = {
+  1: { label: 'High', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  3: { label: 'Low', className: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400' },
+};
+
+const BLOCKED_LABELS: Record<string, string> = {
+  dependencies: 'waiting on',
+  cycle: 'dependency cycle with',
+  'unknown-dependency': 'unknown dependency',
+  'timed-out': 'task time limit reached',
+  'marked-blocked': 'marked blocked',
+};
+
+async function request(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+// Move a task before another one (or to the end of its column) in worker order
+function moveTask(tasks: Task[], taskId: string, status: TaskStatus, beforeId: string | null): Task[] {
+  const moving = tasks.find(t => t.id === taskId);
+  if (!moving) return tasks;
+
+  const rest = tasks.filter(t => t.id !== taskId);
+  const moved = { ...moving, status };
+
+  let index = beforeId ? rest.findIndex(t => t.id === beforeId) : -1;
+  if (index === -1) {
+    const lastInColumn = rest.map(t => t.status).lastIndexOf(status);
+    index = lastInColumn === -1 ? rest.length : lastInColumn + 1;
+  }
+
+  return [...rest.slice(0, index), moved, ...rest.slice(index)];
+}
+
+export function TaskBoard({ instanceId }: TaskBoardProps) {
+  const toast = useToast();
+  const decodedId = decodeURIComponent(instanceId);
+  const baseUrl = `/api/instances/${encodeURIComponent(decodedId)}/tasks`;
+
+  const [tasks, setTasks] = useState<Task[] | null>(null);
+  const [schedule, setSchedule] = useState<ScheduleResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Task | 'new' | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: TaskStatus; beforeId: string | null } | null>(null);
+
+  const loadTasks = useCallback(() => {
+    return request(baseUrl)
+      .then(data => {
+        setTasks(data.tasks);
+        setSchedule(data.schedule);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load tasks'));
+  }, [baseUrl]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  // The worker updates tasks.json as it starts and finishes tasks
+  useStatusStream((event, { managers }) => {
+    if (event.type !== 'status') return;
+    const instance = managers?.find(m => m.id === event.id);
+    if (instance && (instance.id === decodedId || instance.path === decodedId)) {
+      loadTasks();
+    }
+  });
+
+  const statusById = new Map((tasks || []).map(t => [t.id, t.status]));
+  const nextId = schedule?.next?.id ?? null;
+  const criticalIds = new Set(schedule?.criticalPath.ids ?? []);
+
+  const handleDrop = async (e: React.DragEvent, status: TaskStatus, beforeId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const taskId = draggedId;
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!tasks || !taskId || taskId === beforeId) return;
+
+    const previous = tasks;
+    const next = moveTask(tasks, taskId, status, beforeId);
+    setTasks(next);
+
+    try {
+      if (previous.find(t => t.id === taskId)?.status !== status) {
+        await request(`${baseUrl}/${encodeURIComponent(taskId)}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ status }),
+        });
+      }
+      const order = next.map(t => t.id);
+      if (order.join('\n') !== previous.map(t => t.id).join('\n')) {
+        await request(`${baseUrl}/reorder`, {
+          method: 'PUT',
+          body: JSON.stringify({ order }),
+        });
+      }
+    } catch (err) {
+      toast.error('Failed to move task', err instanceof Error ? err.message : String(err));
+    }
+    loadTasks();
+  };
+
+  const handleSave = async (fields: TaskFields) => {
+    if (editing === 'new') {
+      await request(baseUrl, { method: 'POST', body: JSON.stringify(fields) });
+      toast.success('Task created');
+    } else if (editing) {
+      await request(`${baseUrl}/${encodeURIComponent(editing.id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(fields),
+      });
+      toast.success('Task updated');
+    }
+    setEditing(null);
+    await loadTasks();
+  };
+
+  const handleDelete = async (task: Task) => {
+    await request(`${baseUrl}/${encodeURIComponent(task.id)}`, { method: 'DELETE' });
+    toast.success('Task deleted');
+    setEditing(null);
+    await loadTasks();
+  };
+
+  const handleReset = async (task: Task) => {
+    await request(`${baseUrl}/${encodeURIComponent(task.id)}/reset`, { method: 'POST' });
+    toast.success('Task reset', `Task ${task.id} is pending again`);
+    setEditing(null);
+    await loadTasks();
+  };
+
+  if (!tasks) {
+    return error ? (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+        <p className="text-red-700 dark:text-red-400">{error}</p>
+      </div>
+    ) : (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          The worker runs the next task whose dependencies are completed, by priority and critical path, then top to bottom. Drag cards to reorder or change status.
+        </p>
+        <button
+          onClick={() => setEditing('new')}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+        >
+          New Task
+        </button>
+      </div>
+
+      {schedule && !schedule.allCompleted && (
+        <div className="mb-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 text-sm">
+          {schedule.next ? (
+            <>
+              <p className="font-medium text-gray-900 dark:text-white">
+                Next up: <span className="font-mono text-gray-400">#{schedule.next.id}</span> {schedule.next.title}
+              </p>
+              <ul className="mt-1 list-disc list-inside text-gray-600 dark:text-gray-400">
+                {schedule.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="font-medium text-red-700 dark:text-red-400">
+              No runnable task: every remaining task is blocked. The worker will stop until dependencies are fixed.
+            </p>
+          )}
+          {schedule.criticalPath.ids.length > 1 && (
+            <p className="mt-2 text-gray-500 dark:text-gray-400">
+              Critical path ({schedule.criticalPath.iterations} iter): {schedule.criticalPath.ids.map(id => `#${id}`).join(' → ')}
+            </p>
+          )}
+          {schedule.blocked.length > 0 && (
+            <p className="mt-1 text-gray-500 dark:text-gray-400">
+              Blocked: {schedule.blocked.map(b => `#${b.id} (${[BLOCKED_LABELS[b.reason], ...b.waitingOn.map(d => `#${d}`)].join(' ')})`).join('; ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto flex-1 pb-4">
+        {COLUMNS.map(column => {
+          const columnTasks = tasks.filter(t => t.status === column.status);
+          return (
+            <div
+              key={column.status}
+              className={`flex-1 min-w-[280px] bg-gray-50 dark:bg-gray-800/50 rounded-lg border-t-4 ${column.color} ${
+                dropTarget?.status === column.status ? 'ring-2 ring-blue-500 ring-opacity-50' : ''
+              } transition-all`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (dropTarget?.status !== column.status || dropTarget.beforeId !== null) {
+                  setDropTarget({ status: column.status, beforeId: null });
+                }
+              }}
+              onDrop={(e) => handleDrop(e, column.status, null)}
+            >
+              <div className="p-3 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+                <h3 className="font-semibold text-gray-900 dark:text-white">{column.title}</h3>
+                <span className="ml-auto px-2 py-0.5 text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 rounded-full">
+                  {columnTasks.length}
+                </span>
+              </div>
+
+              <div className="p-2 space-y-2 max-h-[calc(100vh-320px)] overflow-y-auto min-h-[100px]">
+                {columnTasks.map(task => {
+                  const blockedBy = task.status !== 'completed'
+                    ? task.dependencies.filter(id => statusById.get(id) !== 'completed')
+                    : [];
+                  const isDropBefore = dropTarget?.beforeId === task.id && draggedId !== task.id;
+                  const priorityBadge = PRIORITY_BADGES[task.priority ?? 2];
+
+                  return (
+                    <div
+                      key={task.id}
+                      draggable
+                      onDragStart={(e) => {
+                        setDraggedId(task.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', task.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropTarget(null);
+                      }}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        if (dropTarget?.beforeId !== task.id) {
+                          setDropTarget({ status: column.status, beforeId: task.id });
+                        }
+                      }}
+                      onDrop={(e) => handleDrop(e, column.status, task.id)}
+                      onClick={() => setEditing(task)}
+                      className={`bg-white dark:bg-gray-800 rounded-lg border p-3 cursor-pointer hover:shadow-md transition-all ${
+                        draggedId === task.id ? 'opacity-40' : ''
+                      } ${isDropBefore ? 'border-t-4 border-t-blue-500' : 'border-gray-200 dark:border-gray-700'}`}
+                    >
+                      <div className="flex items-start gap-2">
+                        <span className="font-mono text-xs text-gray-400 mt-0.5">#{task.id}</span>
+                        <span className="flex-1 text-sm font-medium text-gray-900 dark:text-white">{task.title}</span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                        {task.id === nextId && (
+                          <span className="px-1.5 py-0.5 bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 rounded font-medium">
+                            Next
+                          </span>
+                        )}
+                        {priorityBadge && (
+                          <span className={`px-1.5 py-0.5 rounded ${priorityBadge.className}`}>{priorityBadge.label}</span>
+                        )}
+                        {criticalIds.has(task.id) && (
+                          <span
+                            className="px-1.5 py-0.5 bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300 rounded"
+                            title="On the longest chain of remaining work"
+                          >
+                            Critical
+                          </span>
+                        )}
+                        <span className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded">
+                          ~{task.estimatedIterations} iter
+                        </span>
+                        {task.timeout && (
+                          <span
+                            className="px-1.5 py-0.5 bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300 rounded"
+                            title={task.timeout.reason}
+                          >
+                            {task.timeout.limit === 'task' ? 'Timed out' : 'Interrupted'}
+                          </span>
+                        )}
+                        {task.blocked && (
+                          <span
+                            className="px-1.5 py-0.5 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 rounded"
+                            title={task.blocked.reason}
+                          >
+                            Blocked
+                          </span>
+                        )}
+                        {task.skippedAt && (
+                          <span
+                            className="px-1.5 py-0.5 bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400 rounded"
+                            title="Runs after the other runnable tasks"
+                          >
+                            Skipped
+                          </span>
+                        )}
+                        {task.dependencies.length > 0 && (
+                          <span
+                            className={`px-1.5 py-0.5 rounded ${
+                              blockedBy.length > 0
+                                ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300'
+                                : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                            }`}
+                            title={`Depends on ${task.dependencies.map(d => `#${d}`).join(', ')}`}
+                          >
+                            {blockedBy.length > 0
+                              ? `Waiting on ${blockedBy.map(d => `#${d}`).join(', ')}`
+                              : `Needs ${task.dependencies.map(d => `#${d}`).join(', ')}`}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {editing && (
+        <TaskEditor
+          task={editing === 'new' ? null : editing}
+          allTasks={tasks}
+          onSave={handleSave}
+          onDelete={editing === 'new' ? undefined : () => handleDelete(editing)}
+          onReset={editing === 'new' ? undefined : () => handleReset(editing)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
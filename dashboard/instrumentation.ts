@@ -0,0 +1,7 @@
+// Server-side background services, started once when the dashboard boots
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { watchdog } = await import('@/lib/api/watchdog');
+    watchdog.start();
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { readBudgetStatus } from '@/lib/api/budget';
+import type { InstanceConfig } from '@/lib/types/instance';
+
+let instancePath: string;
+
+async function writeUsage(entries: object[]) {
+  await fs.writeFile(
+    path.join(instancePath, '.state', 'usage.jsonl'),
+    entries.map(entry => JSON.stringify(entry)).join('\n') + '\n'
+  );
+}
+
+before(async () => {
+  instancePath = await fs.mkdtemp(path.join(os.tmpdir(), 'budget-'));
+  await fs.mkdir(path.join(instancePath, '.state'));
+  // The run started an hour ago
+  await fs.writeFile(
+    path.join(instancePath, '.state', 'worker_started_at'),
+    String(Math.floor(Date.now() / 1000) - 3600)
+  );
+});
+
+after(async () => {
+  await fs.rm(instancePath, { recursive: true, force: true });
+});
+
+describe('readBudgetStatus', () => {
+  const config: InstanceConfig = { budget: { run: { usd: 1 } } };
+  const base = { at: new Date().toISOString(), source: 'worker', ref: 'iteration 1', taskId: '1' };
+
+  it('prices entries without a reported cost from their tokens, as worker.sh does', async () => {
+    // Opus at $15 per million input tokens and $75 per million output tokens: $0.75 + $0.375
+    await writeUsage([
+      { ...base, model: 'claude-opus-4-1', inputTokens: 50000, outputTokens: 5000, costUsd: null },
+    ]);
+
+    const status = await readBudgetStatus(instancePath, config, '1');
+    const run = status?.lines.find(line => line.scope === 'run' && line.metric === 'usd');
+    assert.ok(run);
+    assert.ok(Math.abs(run.spent - 1.125) < 1e-9);
+    assert.ok(run.spent > run.limit);
+    assert.equal(run.remaining, 0);
+  });
+
+  it('uses the reported cost when there is one', async () => {
+    await writeUsage([
+      { ...base, model: 'claude-opus-4-1', inputTokens: 50000, outputTokens: 5000, costUsd: 0.25 },
+    ]);
+
+    const status = await readBudgetStatus(instancePath, config, '1');
+    const run = status?.lines.find(line => line.scope === 'run' && line.metric === 'usd');
+    assert.equal(run?.spent, 0.25);
+    assert.equal(run?.remaining, 0.75);
+  });
+});
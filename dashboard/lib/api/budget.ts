@@ -0,0 +1,180 @@
+/**
+ * Budgets
+ * Token and dollar limits per day, per worker run and per task, from config.json "budget".
+ * worker.sh enforces them between iterations: it pauses itself and writes .state/budget_exceeded.json.
+ * This module measures the same spending from the instance's usage ledger, for the remaining
+ * budget on the instance card, and edits the limits.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readTasksFile } from '@/lib/api/task-store';
+import { estimateCost, getInstanceLedgerPath, readLedger } from '@/lib/api/usage-ledger';
+import { scheduleTasks } from '@/lib/scheduler/task-scheduler';
+import {
+  BUDGET_METRICS,
+  BUDGET_SCOPES,
+  type BudgetConfig,
+  type BudgetExceeded,
+  type BudgetLine,
+  type BudgetMetric,
+  type BudgetScope,
+  type BudgetStatus,
+} from '@/lib/types/budget';
+import type { InstanceConfig } from '@/lib/types/instance';
+import type { UsageEntry } from '@/lib/types/usage';
+
+export function getBudgetFile(instancePath: string): string {
+  return path.join(instancePath, '.state', 'budget_exceeded.json');
+}
+
+export async function readBudgetExceeded(instancePath: string): Promise<BudgetExceeded | null> {
+  try {
+    return JSON.parse(await fs.readFile(getBudgetFile(instancePath), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The configured limit, or 0 for none (as worker.sh reads it: anything but a positive number is no limit)
+ */
+export function getBudgetLimit(config: InstanceConfig | null, scope: BudgetScope, metric: BudgetMetric): number {
+  const budget = config?.budget;
+  const limits = budget && typeof budget === 'object' ? (budget as Record<string, unknown>)[scope] : null;
+  const limit = limits && typeof limits === 'object' ? (limits as Record<string, unknown>)[metric] : null;
+  return typeof limit === 'number' && Number.isFinite(limit) && limit > 0 ? limit : 0;
+}
+
+// Start of the worker's current (or last) run, written by worker.sh as epoch seconds
+async function readRunStartedAt(instancePath: string): Promise<number | null> {
+  try {
+    const seconds = parseInt(await fs.readFile(path.join(instancePath, '.state', 'worker_started_at'), 'utf-8'), 10);
+    return Number.isInteger(seconds) ? seconds * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Limits and what has been spent against them. `taskId` is the task the task limits apply to.
+ * Null when no limit is configured and the worker isn't paused on one.
+ */
+export async function readBudgetStatus(
+  instancePath: string,
+  config: InstanceConfig | null,
+  taskId: string | null
+): Promise<BudgetStatus | null> {
+  const exceeded = await readBudgetExceeded(instancePath);
+  const limits = BUDGET_SCOPES.flatMap(scope =>
+    BUDGET_METRICS.map(metric => ({ scope, metric, limit: getBudgetLimit(config, scope, metric) }))
+  ).filter(({ limit }) => limit > 0);
+
+  if (limits.length === 0 && !exceeded) {
+    return null;
+  }
+
+  const spent: Record<BudgetScope, Record<BudgetMetric, number>> = {
+    daily: { usd: 0, tokens: 0 },
+    run: { usd: 0, tokens: 0 },
+    task: { usd: 0, tokens: 0 },
+  };
+  const today = localDay(new Date());
+  const runStartedAt = await readRunStartedAt(instancePath);
+
+  const add = (scope: BudgetScope, entry: UsageEntry) => {
+    // Runs without a reported cost are priced from their tokens, as worker.sh does
+    spent[scope].usd += estimateCost(entry);
+    spent[scope].tokens += entry.inputTokens + entry.outputTokens + entry.cacheCreationInputTokens + entry.cacheReadInputTokens;
+  };
+
+  await readLedger(getInstanceLedgerPath(instancePath), 'worker', entry => {
+    const at = new Date(entry.at);
+    if (localDay(at) === today) add('daily', entry);
+    if (runStartedAt !== null && at.getTime() >= runStartedAt) add('run', entry);
+    if (taskId !== null && entry.taskId === taskId) add('task', entry);
+  });
+
+  const lines: BudgetLine[] = limits.map(({ scope, metric, limit }) => ({
+    scope,
+    metric,
+    limit,
+    spent: spent[scope][metric],
+    remaining: Math.max(limit - spent[scope][metric], 0),
+  }));
+
+  return { lines, taskId, exceeded };
+}
+
+/**
+ * The task the task limits apply to: the one the worker is on, or picks next
+ */
+export async function getBudgetTaskId(instancePath: string): Promise<string | null> {
+  try {
+    return scheduleTasks((await readTasksFile(instancePath)).tasks).next?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read config.json. A missing file reads as an empty config.
+ */
+export async function readInstanceConfig(instancePath: string): Promise<InstanceConfig> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(instancePath, 'config.json'), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  const config = JSON.parse(content);
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('config.json is not a JSON object');
+  }
+  return config;
+}
+
+/**
+ * A copy of the config with one limit set (0 removes it)
+ */
+export function withBudgetLimit(
+  config: InstanceConfig,
+  scope: BudgetScope,
+  metric: BudgetMetric,
+  limit: number
+): InstanceConfig {
+  const budget: BudgetConfig = config.budget && typeof config.budget === 'object' ? { ...config.budget } : {};
+  const limits = { ...budget[scope] };
+  if (limit > 0) {
+    limits[metric] = limit;
+  } else {
+    delete limits[metric];
+  }
+
+  if (Object.keys(limits).length > 0) {
+    budget[scope] = limits;
+  } else {
+    delete budget[scope];
+  }
+  return { ...config, budget };
+}
+
+/**
+ * Write config.json atomically. worker.sh reads the budget on every check, so new limits apply
+ * from its next iteration.
+ */
+export async function writeInstanceConfig(instancePath: string, config: InstanceConfig): Promise<void> {
+  const file = path.join(instancePath, 'config.json');
+  const tempFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(config, null, 2), 'utf-8');
+  await fs.rename(tempFile, file);
+}
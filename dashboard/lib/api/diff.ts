@@ -0,0 +1,95 @@
+/**
+ * Line diff helpers shared by the PRD editing routes
+ */
+
+export interface DiffLine {
+  type: 'add' | 'remove' | 'unchanged' | 'modify';
+  lineNumber?: number;
+  content: string;
+  oldContent?: string;
+}
+
+/**
+ * Compute a line-level diff between two documents (changed lines only)
+ */
+export function computeDiff(oldContent: string, newContent: string): DiffLine[] {
+  const oldLines = oldContent.split('\n');
+  const newLines = newContent.split('\n');
+  const diff: DiffLine[] = [];
+
+  // Simple LCS-based diff
+  const lcs = longestCommonSubsequence(oldLines, newLines);
+  let oldIndex = 0;
+  let newIndex = 0;
+  let lcsIndex = 0;
+  let lineNumber = 1;
+
+  while (oldIndex < oldLines.length || newIndex < newLines.length) {
+    if (lcsIndex < lcs.length && oldIndex < oldLines.length && oldLines[oldIndex] === lcs[lcsIndex]) {
+      if (newIndex < newLines.length && newLines[newIndex] === lcs[lcsIndex]) {
+        // Unchanged line
+        diff.push({
+          type: 'unchanged',
+          lineNumber: lineNumber++,
+          content: oldLines[oldIndex],
+        });
+        newIndex++;
+      }
+      oldIndex++;
+      lcsIndex++;
+    } else if (newIndex < newLines.length && (lcsIndex >= lcs.length || newLines[newIndex] !== lcs[lcsIndex])) {
+      // Added line
+      diff.push({
+        type: 'add',
+        lineNumber: lineNumber++,
+        content: newLines[newIndex],
+      });
+      newIndex++;
+    } else if (oldIndex < oldLines.length && (lcsIndex >= lcs.length || oldLines[oldIndex] !== lcs[lcsIndex])) {
+      // Removed line
+      diff.push({
+        type: 'remove',
+        lineNumber: lineNumber++,
+        content: oldLines[oldIndex],
+      });
+      oldIndex++;
+    }
+  }
+
+  // Filter to only show changes (not unchanged lines)
+  return diff.filter(line => line.type !== 'unchanged');
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): string[] {
+  const m = a.length;
+  const n = b.length;
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (a[i - 1] === b[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1] + 1;
+      } else {
+        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+      }
+    }
+  }
+
+  const lcs: string[] = [];
+  let i = m;
+  let j = n;
+
+  while (i > 0 && j > 0) {
+    if (a[i - 1] === b[j - 1]) {
+      lcs.unshift(a[i - 1]);
+      i--;
+      j--;
+    } else if (dp[i - 1][j] > dp[i][j - 1]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return lcs;
+}
@@ -0,0 +1,308 @@
+/**
+ * Directive Store
+ * Directives steer the worker: Manager Claude or the dashboard writes .state/manager_directive.md,
+ * and worker.sh hands it to the next iteration, moving it to .state/directives/iteration_N.md
+ * with a delivery record beside it.
+ *
+ * Directives written here carry a "<!-- directive:<id> -->" first line linking them to
+ * .state/directives.json, which also keeps the ones replaced or cancelled before delivery.
+ * A directive without the marker was written by the manager.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isProcessAlive, readLogTail } from '@/lib/api/instance-status';
+import { resolveWithin } from '@/lib/api/path-security';
+import type {
+  Directive,
+  DirectiveDelivery,
+  DirectiveRecord,
+  DirectivesFile,
+} from '@/lib/types/directive';
+
+export const MAX_DIRECTIVE_LENGTH = 10000;
+
+const MARKER_PATTERN = /^<!-- directive:([a-f0-9]+) -->\n?/;
+const DELIVERED_PATTERN = /^iteration_(\d+)\.md$/;
+const ACKNOWLEDGEMENT_PATTERN = /DIRECTIVE ACKNOWLEDGED:?\s*(.*)/i;
+// Lines read from the end of an iteration's output when looking for the acknowledgement
+const ACKNOWLEDGEMENT_SCAN_LINES = 2000;
+
+const locks = new Map<string, Promise<unknown>>();
+
+export function getPendingDirectivePath(instancePath: string): string {
+  return path.join(instancePath, '.state', 'manager_directive.md');
+}
+
+function getDirectivesFilePath(instancePath: string): string {
+  return path.join(instancePath, '.state', 'directives.json');
+}
+
+function getDeliveredDir(instancePath: string): string {
+  return path.join(instancePath, '.state', 'directives');
+}
+
+async function readText(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function readDirectivesFile(instancePath: string): Promise<DirectivesFile> {
+  try {
+    const data = JSON.parse(await fs.readFile(getDirectivesFilePath(instancePath), 'utf-8'));
+    return { directives: Array.isArray(data.directives) ? data.directives : [] };
+  } catch {
+    return { directives: [] };
+  }
+}
+
+async function writeDirectivesFile(instancePath: string, data: DirectivesFile): Promise<void> {
+  const file = getDirectivesFilePath(instancePath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  const tempFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempFile, file);
+}
+
+async function withDirectivesLock<T>(instancePath: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(instancePath) ?? Promise.resolve();
+  const run = previous.then(fn, fn);
+  const settled = run.catch(() => {});
+  locks.set(instancePath, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (locks.get(instancePath) === settled) {
+      locks.delete(instancePath);
+    }
+  }
+}
+
+/**
+ * Split a directive file into its dashboard id (null for manager-written ones) and content
+ */
+function parseDirectiveFile(text: string): { id: string | null; content: string } {
+  const match = text.match(MARKER_PATTERN);
+  return match
+    ? { id: match[1], content: text.slice(match[0].length).trim() }
+    : { id: null, content: text.trim() };
+}
+
+interface PendingDirective {
+  id: string | null;
+  content: string;
+  modifiedAt: string;
+}
+
+async function readPending(instancePath: string): Promise<PendingDirective | null> {
+  const file = getPendingDirectivePath(instancePath);
+  const text = await readText(file);
+  if (text === null) return null;
+
+  try {
+    const { mtime } = await fs.stat(file);
+    return { ...parseDirectiveFile(text), modifiedAt: mtime.toISOString() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep a pending directive in the history before it is replaced or cancelled
+ */
+function closePending(
+  data: DirectivesFile,
+  pending: PendingDirective,
+  field: 'supersededAt' | 'cancelledAt'
+): DirectiveRecord {
+  const now = new Date().toISOString();
+  let record = pending.id ? data.directives.find(d => d.id === pending.id) : undefined;
+  if (!record) {
+    record = {
+      id: pending.id ?? crypto.randomBytes(8).toString('hex'),
+      author: pending.id ? 'human' : 'manager',
+      content: pending.content,
+      createdAt: pending.modifiedAt,
+    };
+    data.directives.push(record);
+  }
+  record[field] = now;
+  return record;
+}
+
+/**
+ * Find the worker's acknowledgement in the output of the iteration a directive went to
+ */
+async function readAcknowledgement(
+  instancePath: string,
+  delivery: DirectiveDelivery,
+  iterationFinished: boolean
+): Promise<{ acknowledged: boolean | null; acknowledgement: string | null }> {
+  let lines: string[] = [];
+  const output = typeof delivery.output === 'string' ? await resolveWithin(instancePath, delivery.output) : null;
+  if (output) {
+    try {
+      lines = await readLogTail(output, ACKNOWLEDGEMENT_SCAN_LINES);
+    } catch {}
+  }
+
+  for (const line of lines) {
+    const match = line.match(ACKNOWLEDGEMENT_PATTERN);
+    if (match) {
+      return { acknowledged: true, acknowledgement: match[1].trim() || null };
+    }
+  }
+  return { acknowledged: iterationFinished ? false : null, acknowledgement: null };
+}
+
+/**
+ * The pending directive and every past one, newest first
+ */
+export async function listDirectives(instancePath: string): Promise<Directive[]> {
+  const stateDir = path.join(instancePath, '.state');
+  const data = await readDirectivesFile(instancePath);
+  const records = new Map(data.directives.map(d => [d.id, d]));
+  const directives: Directive[] = [];
+  const seen = new Set<string>();
+
+  const iteration = parseInt((await readText(path.join(stateDir, 'worker_iteration')))?.trim() || '0', 10) || 0;
+  const workerRunning = isProcessAlive((await readText(path.join(stateDir, 'worker.pid')))?.trim());
+
+  const describe = (
+    id: string | null,
+    content: string,
+    fallbackAt: string,
+    fallbackId: string
+  ): Pick<Directive, 'id' | 'author' | 'content' | 'createdAt'> => {
+    const record = id ? records.get(id) : undefined;
+    if (id) seen.add(id);
+    return {
+      id: id ?? fallbackId,
+      author: record?.author ?? (id ? 'human' : 'manager'),
+      content,
+      createdAt: record?.createdAt ?? fallbackAt,
+    };
+  };
+
+  const pending = await readPending(instancePath);
+  if (pending) {
+    directives.push({
+      ...describe(pending.id, pending.content, pending.modifiedAt, 'manager-pending'),
+      status: 'pending',
+      closedAt: null,
+      delivery: null,
+      acknowledged: null,
+      acknowledgement: null,
+    });
+  }
+
+  const deliveredDir = getDeliveredDir(instancePath);
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(deliveredDir);
+  } catch {}
+
+  for (const file of files) {
+    const match = file.match(DELIVERED_PATTERN);
+    if (!match) continue;
+
+    const text = await readText(path.join(deliveredDir, file));
+    if (text === null) continue;
+
+    let delivery: DirectiveDelivery | null = null;
+    try {
+      delivery = JSON.parse(await fs.readFile(path.join(deliveredDir, file.replace(/\.md$/, '.json')), 'utf-8'));
+    } catch {}
+
+    const { id, content } = parseDirectiveFile(text);
+    const deliveredAt = delivery?.deliveredAt ?? (await fs.stat(path.join(deliveredDir, file))).mtime.toISOString();
+    const finished = delivery ? iteration > delivery.iteration || !workerRunning : false;
+
+    directives.push({
+      ...describe(id, content, deliveredAt, `manager-${match[1]}`),
+      status: 'delivered',
+      closedAt: null,
+      delivery,
+      ...(delivery
+        ? await readAcknowledgement(instancePath, delivery, finished)
+        : { acknowledged: null, acknowledgement: null }),
+    });
+  }
+
+  // Replaced or cancelled before delivery (a dashboard directive the manager overwrote
+  // has no supersededAt, but never reached the worker either)
+  for (const record of data.directives) {
+    if (seen.has(record.id)) continue;
+
+    directives.push({
+      id: record.id,
+      author: record.author,
+      content: record.content,
+      createdAt: record.createdAt,
+      status: record.cancelledAt ? 'cancelled' : 'superseded',
+      closedAt: record.cancelledAt ?? record.supersededAt ?? null,
+      delivery: null,
+      acknowledged: null,
+      acknowledgement: null,
+    });
+  }
+
+  const sortKey = (d: Directive) => d.delivery?.deliveredAt ?? d.closedAt ?? d.createdAt;
+  return directives.sort((a, b) => {
+    if (a.status === 'pending') return -1;
+    if (b.status === 'pending') return 1;
+    return sortKey(b).localeCompare(sortKey(a));
+  });
+}
+
+/**
+ * Write a directive for the worker's next iteration, replacing any directive still pending
+ */
+export async function writeDirective(instancePath: string, content: string): Promise<DirectiveRecord> {
+  return withDirectivesLock(instancePath, async () => {
+    const data = await readDirectivesFile(instancePath);
+    const pending = await readPending(instancePath);
+    if (pending) {
+      closePending(data, pending, 'supersededAt');
+    }
+
+    const record: DirectiveRecord = {
+      id: crypto.randomBytes(8).toString('hex'),
+      author: 'human',
+      content: content.trim(),
+      createdAt: new Date().toISOString(),
+    };
+    data.directives.push(record);
+    await writeDirectivesFile(instancePath, data);
+
+    // worker.sh claims the file with a rename, so write it the same way
+    const file = getPendingDirectivePath(instancePath);
+    const tempFile = `${file}.${Date.now()}.tmp`;
+    await fs.writeFile(tempFile, `<!-- directive:${record.id} -->\n${record.content}\n`, 'utf-8');
+    await fs.rename(tempFile, file);
+
+    return record;
+  });
+}
+
+/**
+ * Withdraw the pending directive. Returns null if none was pending.
+ */
+export async function cancelDirective(instancePath: string): Promise<DirectiveRecord | null> {
+  return withDirectivesLock(instancePath, async () => {
+    const pending = await readPending(instancePath);
+    if (!pending) return null;
+
+    const data = await readDirectivesFile(instancePath);
+    const record = closePending(data, pending, 'cancelledAt');
+    await writeDirectivesFile(instancePath, data);
+    await fs.rm(getPendingDirectivePath(instancePath), { force: true });
+    return record;
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * File Lock
+ * Cross-process lock for instance files the dashboard shares with the shell scripts: the lock file
+ * is created exclusively and removed on release. worker.sh takes the same lock the same way
+ * (noclobber), so the scripts and the dashboard never interleave a read-modify-write.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Locks older than this were left behind by a crashed process
+const LOCK_STALE_MS = 30000;
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_RETRY_MS = 50;
+
+// Create the lock file exclusively, breaking locks left behind by a crashed process
+async function acquireFileLock(lockFile: string): Promise<void> {
+  const started = Date.now();
+
+  while (true) {
+    try {
+      await fs.writeFile(lockFile, String(process.pid), { flag: 'wx' });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    try {
+      const stat = await fs.stat(lockFile);
+      if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockFile, { force: true });
+        continue;
+      }
+    } catch {
+      // Released between our write and stat
+      continue;
+    }
+
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for lock: ${lockFile}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Run fn while holding lockFile
+ */
+export async function withFileLock<T>(lockFile: string, fn: () => Promise<T>): Promise<T> {
+  await fs.mkdir(path.dirname(lockFile), { recursive: true });
+  await acquireFileLock(lockFile);
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockFile, { force: true });
+  }
+}
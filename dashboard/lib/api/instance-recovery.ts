@@ -0,0 +1,175 @@
+/**
+ * Instance Recovery
+ * Cleans up after a worker or manager that died without stopping (a reboot, a kill -9):
+ * stale .state PID files, a worker_status still saying "running", tasks left in_progress,
+ * and .tmp files from interrupted jq, task store and PRD version writes.
+ *
+ * Runs before the process supervisor starts a stopped worker, and on demand from the dashboard.
+ * The report goes to .state/recovery.json, which getInstanceStatus reports as status.recovery.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getRecoveryFile, isProcessAlive } from '@/lib/api/instance-status';
+import { clearCompletionMarker, readTasksFile, setTaskStatus, withTasksLock, writeTasksFile } from '@/lib/api/task-store';
+import type { RecoveryReport, RecoveryTrigger } from '@/lib/types/recovery';
+import type { ProcessRole } from '@/lib/types/supervisor';
+
+// Directories the dashboard and worker.sh write through temp files
+const TEMP_FILE_DIRS = ['prds', 'planning', '.state', '.prd-versions'];
+// Younger temp files may belong to a write in progress
+const TEMP_FILE_MIN_AGE_MS = 60 * 1000;
+
+const ROLES: ProcessRole[] = ['worker', 'manager'];
+
+async function readTrimmed(file: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(file, 'utf-8')).trim();
+  } catch {
+    return null;
+  }
+}
+
+async function pathExists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function writeReport(instancePath: string, report: RecoveryReport): Promise<void> {
+  const file = getRecoveryFile(instancePath);
+  const tempFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(report, null, 2), 'utf-8');
+  await fs.rename(tempFile, file);
+}
+
+// Whether a report found anything to fix
+function hasRecoveredAnything(report: RecoveryReport): boolean {
+  return report.stalePids.length > 0
+    || report.staleWorkerStatus !== null
+    || report.tasks.length > 0
+    || report.tempFiles.length > 0
+    || report.errors.length > 0;
+}
+
+/**
+ * Put tasks a dead worker left in_progress back in order: completed if it left the
+ * completion marker, otherwise pending again
+ */
+async function reconcileTasks(instancePath: string, report: RecoveryReport): Promise<void> {
+  await withTasksLock(instancePath, async () => {
+    const data = await readTasksFile(instancePath);
+    let changed = false;
+
+    for (const task of data.tasks) {
+      // Blocked and timed out tasks stay where the watchdog or time limit put them
+      if (task.status !== 'in_progress' || task.blocked || task.timeout?.limit === 'task') continue;
+
+      if (await pathExists(path.join(instancePath, '.state', `TASK_${task.id}_COMPLETE`))) {
+        setTaskStatus(task, 'completed');
+        await clearCompletionMarker(instancePath, task.id);
+        report.tasks.push({ id: task.id, title: task.title, outcome: 'completed' });
+      } else {
+        // Not setTaskStatus: the task keeps the time it has already spent against maxTaskMinutes
+        task.status = 'pending';
+        task.startedAt = null;
+        report.tasks.push({ id: task.id, title: task.title, outcome: 'pending' });
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      await writeTasksFile(instancePath, data);
+    }
+  });
+}
+
+async function removeTempFiles(instancePath: string, report: RecoveryReport): Promise<void> {
+  const cutoff = Date.now() - TEMP_FILE_MIN_AGE_MS;
+
+  for (const dir of TEMP_FILE_DIRS) {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(instancePath, dir));
+    } catch {
+      continue;
+    }
+
+    for (const file of files.filter(f => f.endsWith('.tmp'))) {
+      const fullPath = path.join(instancePath, dir, file);
+      try {
+        const stat = await fs.stat(fullPath);
+        if (!stat.isFile() || stat.mtimeMs > cutoff) continue;
+
+        await fs.rm(fullPath, { force: true });
+        report.tempFiles.push({ file: path.join(dir, file), modifiedAt: stat.mtime.toISOString() });
+      } catch (error) {
+        report.errors.push(`Failed to remove ${path.join(dir, file)}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
+
+/**
+ * Recover an instance and write .state/recovery.json. Each step records its own failure
+ * in the report rather than stopping the others. A clean start keeps the previous report.
+ * Callers serialize this with starts and stops (see processSupervisor.recover).
+ */
+export async function recoverInstance(instancePath: string, trigger: RecoveryTrigger): Promise<RecoveryReport> {
+  const stateDir = path.join(instancePath, '.state');
+  const report: RecoveryReport = {
+    trigger,
+    recoveredAt: new Date().toISOString(),
+    workerRunning: false,
+    stalePids: [],
+    staleWorkerStatus: null,
+    tasks: [],
+    tempFiles: [],
+    errors: [],
+  };
+
+  // Never started
+  if (!await pathExists(stateDir)) {
+    return report;
+  }
+
+  for (const role of ROLES) {
+    const file = path.join(stateDir, `${role}.pid`);
+    const pid = await readTrimmed(file);
+    if (pid !== null && isProcessAlive(pid)) {
+      if (role === 'worker') report.workerRunning = true;
+      continue;
+    }
+
+    if (pid !== null) {
+      await fs.rm(file, { force: true });
+      report.stalePids.push({ role, pid });
+    }
+  }
+
+  if (!report.workerRunning) {
+    // Left behind by a worker that died before it could write "stopped"
+    const statusFile = path.join(stateDir, 'worker_status');
+    const workerStatus = await readTrimmed(statusFile);
+    if (workerStatus === 'running' || workerStatus === 'paused') {
+      await fs.writeFile(statusFile, 'stopped\n', 'utf-8');
+      report.staleWorkerStatus = workerStatus;
+    }
+
+    try {
+      await reconcileTasks(instancePath, report);
+    } catch (error) {
+      report.errors.push(`Failed to reconcile tasks: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  await removeTempFiles(instancePath, report);
+
+  if (trigger === 'manual' || hasRecoveredAnything(report)) {
+    await writeReport(instancePath, report);
+  }
+  return report;
+}
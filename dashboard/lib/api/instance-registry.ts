@@ -0,0 +1,260 @@
+/**
+ * Instance Registry
+ * Single source of truth for which claude-manager instances the dashboard can see.
+ * Instances are every directory under the configured root directories plus any
+ * instance registered explicitly; routes resolve ids/paths through here.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import type {
+  InstanceConfig,
+  InstanceRecord,
+  InstanceSource,
+  RegistryFile,
+} from '@/lib/types/instance';
+
+const DEFAULT_ROOT = path.join(os.homedir(), 'claude-managers');
+const ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Location of the persisted registry (override with CLAUDE_MANAGER_REGISTRY)
+ */
+export function getRegistryFilePath(): string {
+  return process.env.CLAUDE_MANAGER_REGISTRY
+    || path.join(os.homedir(), '.claude-manager', 'registry.json');
+}
+
+async function readRegistryFile(): Promise<RegistryFile> {
+  try {
+    const data = JSON.parse(await fs.readFile(getRegistryFilePath(), 'utf-8'));
+    return {
+      roots: Array.isArray(data.roots) ? data.roots.filter((r: unknown) => typeof r === 'string') : undefined,
+      instances: Array.isArray(data.instances) ? data.instances : [],
+    };
+  } catch {
+    return { instances: [] };
+  }
+}
+
+async function writeRegistryFile(registry: RegistryFile): Promise<void> {
+  const file = getRegistryFilePath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  const tempFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(registry, null, 2), 'utf-8');
+  await fs.rename(tempFile, file);
+}
+
+function normalize(p: string): string {
+  const expanded = p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+  return path.normalize(path.resolve(expanded)).replace(/(.)\/+$/, '$1');
+}
+
+/**
+ * Root directories scanned for instances.
+ * CLAUDE_MANAGER_ROOTS (path-delimiter separated) wins over the registry file.
+ */
+export async function getRoots(): Promise<string[]> {
+  const fromEnv = process.env.CLAUDE_MANAGER_ROOTS;
+  if (fromEnv) {
+    return fromEnv.split(path.delimiter).filter(Boolean).map(normalize);
+  }
+
+  const registry = await readRegistryFile();
+  if (registry.roots && registry.roots.length > 0) {
+    return registry.roots.map(normalize);
+  }
+
+  return [DEFAULT_ROOT];
+}
+
+/**
+ * Persist the root directories (ignored while CLAUDE_MANAGER_ROOTS is set)
+ */
+export async function setRoots(roots: string[]): Promise<string[]> {
+  const normalized = [...new Set(roots.map(normalize))];
+  const registry = await readRegistryFile();
+  await writeRegistryFile({ ...registry, roots: normalized });
+  return normalized;
+}
+
+async function isDirectory(p: string, followSymlinks = true): Promise<boolean> {
+  try {
+    return (await (followSymlinks ? fs.stat(p) : fs.lstat(p))).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function readConfig(instancePath: string): Promise<InstanceConfig | null> {
+  try {
+    const config = JSON.parse(await fs.readFile(path.join(instancePath, 'config.json'), 'utf-8'));
+    return config && typeof config === 'object' ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+function slugify(name: string): string {
+  if (ID_PATTERN.test(name)) {
+    return name;
+  }
+  return name.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'instance';
+}
+
+function shortHash(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex').slice(0, 6);
+}
+
+/**
+ * List every known instance, with stable ids.
+ * Ids are the directory name; names shared by several instances get a path hash suffix.
+ */
+export async function listInstances(): Promise<InstanceRecord[]> {
+  const found = new Map<string, InstanceSource>();
+
+  for (const root of await getRoots()) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(root);
+    } catch {
+      // Root doesn't exist yet
+      continue;
+    }
+
+    for (const entry of entries.sort()) {
+      if (entry.startsWith('.')) continue;
+      // Symlinked entries are skipped; register their target explicitly instead
+      const instancePath = path.join(root, entry);
+      if (!found.has(instancePath) && await isDirectory(instancePath, false)) {
+        found.set(instancePath, 'root');
+      }
+    }
+  }
+
+  const registry = await readRegistryFile();
+  for (const entry of registry.instances) {
+    const instancePath = normalize(entry.path);
+    if (!found.has(instancePath) && await isDirectory(instancePath)) {
+      found.set(instancePath, 'registered');
+    }
+  }
+
+  const slugCounts = new Map<string, number>();
+  for (const instancePath of found.keys()) {
+    const slug = slugify(path.basename(instancePath));
+    slugCounts.set(slug, (slugCounts.get(slug) || 0) + 1);
+  }
+
+  const records: InstanceRecord[] = [];
+  for (const [instancePath, source] of found) {
+    const name = path.basename(instancePath);
+    const slug = slugify(name);
+    const config = await readConfig(instancePath);
+
+    records.push({
+      id: slugCounts.get(slug)! > 1 ? `${slug}-${shortHash(instancePath)}` : slug,
+      name,
+      path: instancePath,
+      projectPath: typeof config?.projectPath === 'string' ? config.projectPath : null,
+      config,
+      source,
+    });
+  }
+
+  return records;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Resolve an instance from an id, an absolute path, or a URL-encoded path.
+ * Only instances the registry knows about resolve; anything else returns null.
+ * Routes should go through resolveInstancePath in path-security, which also checks containment.
+ */
+export async function resolveInstance(ref: string): Promise<InstanceRecord | null> {
+  if (!ref || typeof ref !== 'string') {
+    return null;
+  }
+
+  const decoded = safeDecode(ref);
+  const instances = await listInstances();
+
+  const byId = instances.find(i => i.id === decoded);
+  if (byId) {
+    return byId;
+  }
+
+  if (!decoded.includes('/')) {
+    return null;
+  }
+
+  const target = normalize(decoded);
+  return instances.find(i => i.path === target) || null;
+}
+
+/**
+ * Paths of explicitly registered instances
+ */
+export async function listRegisteredPaths(): Promise<string[]> {
+  const registry = await readRegistryFile();
+  return registry.instances.map(entry => normalize(entry.path));
+}
+
+/**
+ * Register an instance that lives outside the root directories
+ */
+export async function registerInstance(instancePath: string): Promise<InstanceRecord> {
+  if (!await isDirectory(normalize(instancePath))) {
+    throw new Error('Instance directory does not exist');
+  }
+
+  // Store the real location so later symlink swaps can't redirect the registration
+  const target = await fs.realpath(normalize(instancePath));
+
+  const hasConfig = await readConfig(target) !== null;
+  const hasOrchestrator = await fs.access(path.join(target, 'scripts', 'orchestrator.sh')).then(() => true, () => false);
+  if (!hasConfig && !hasOrchestrator) {
+    throw new Error('Directory is not a claude-manager instance (no config.json or scripts/orchestrator.sh)');
+  }
+
+  const registry = await readRegistryFile();
+  if (!registry.instances.some(entry => normalize(entry.path) === target)) {
+    registry.instances.push({ path: target, registeredAt: new Date().toISOString() });
+    await writeRegistryFile(registry);
+  }
+
+  const record = (await listInstances()).find(i => i.path === target);
+  if (!record) {
+    throw new Error('Failed to register instance');
+  }
+  return record;
+}
+
+/**
+ * Remove an explicit registration. Instances found under a root cannot be unregistered.
+ * Returns the removed path, or null if the instance was not registered.
+ */
+export async function unregisterInstance(ref: string): Promise<string | null> {
+  const instance = await resolveInstance(ref);
+  const registry = await readRegistryFile();
+
+  const target = instance ? instance.path : normalize(safeDecode(ref));
+  const remaining = registry.instances.filter(entry => normalize(entry.path) !== target);
+
+  if (remaining.length === registry.instances.length) {
+    return null;
+  }
+
+  await writeRegistryFile({ ...registry, instances: remaining });
+  return target;
+}
@@ -0,0 +1,38 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getLatestLogFile } from '@/lib/api/instance-status';
+
+let instancePath: string;
+
+before(async () => {
+  instancePath = await fs.mkdtemp(path.join(os.tmpdir(), 'instance-status-'));
+  const logs = path.join(instancePath, 'logs');
+  await fs.mkdir(logs);
+  for (const name of [
+    'worker_20261017_090000.log',
+    'worker_20261018_120000.log',
+    'worker_stdout.log',
+    'manager_20261018_130000.log',
+    'manager_stdout.log',
+  ]) {
+    await fs.writeFile(path.join(logs, name), '');
+  }
+});
+
+after(async () => {
+  await fs.rm(instancePath, { recursive: true, force: true });
+});
+
+describe('getLatestLogFile', () => {
+  it('picks the newest run log, not the supervisor output', async () => {
+    assert.equal(await getLatestLogFile(instancePath, 'worker'), path.join(instancePath, 'logs', 'worker_20261018_120000.log'));
+    assert.equal(await getLatestLogFile(instancePath, 'manager'), path.join(instancePath, 'logs', 'manager_20261018_130000.log'));
+  });
+
+  it('returns null without run logs', async () => {
+    assert.equal(await getLatestLogFile(path.join(instancePath, 'missing'), 'worker'), null);
+  });
+});
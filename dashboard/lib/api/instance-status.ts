@@ -0,0 +1,255 @@
+/**
+ * Instance Status
+ * Reads an instance's .state, prds, skills and logs into a status snapshot
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { readBudgetStatus } from '@/lib/api/budget';
+import { stripAnsi } from '@/lib/api/log-reader';
+import { readTasksFile } from '@/lib/api/task-store';
+import { scheduleTasks } from '@/lib/scheduler/task-scheduler';
+import type { InstanceRecord } from '@/lib/types/instance';
+import type { CurrentTask, InstanceStatus, LogSource, WorkerTimeout } from '@/lib/types/status';
+import type { RecoveryReport } from '@/lib/types/recovery';
+import type { PauseState } from '@/lib/types/supervisor';
+import type { WatchdogState } from '@/lib/types/watchdog';
+
+export const RECENT_LOG_LINES = 20;
+const LOG_TAIL_BYTES = 64 * 1024;
+
+/**
+ * Check whether a process is alive without signalling it
+ */
+export function isProcessAlive(pid: string | number | null | undefined): boolean {
+  const numericPid = typeof pid === 'number' ? pid : parseInt(String(pid ?? ''), 10);
+  if (!Number.isInteger(numericPid) || numericPid <= 0) {
+    return false;
+  }
+
+  try {
+    process.kill(numericPid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function readTrimmed(file: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(file, 'utf-8')).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Marker that holds scripts/worker.sh between iterations while it exists
+ */
+export function getPauseFile(instancePath: string): string {
+  return path.join(instancePath, '.state', 'pause_requested');
+}
+
+/**
+ * Whether a pause is pending or in effect: worker.sh writes "paused" to worker_status once it holds
+ */
+export async function getPauseState(instancePath: string): Promise<PauseState | null> {
+  try {
+    await fs.access(getPauseFile(instancePath));
+  } catch {
+    return null;
+  }
+
+  const workerStatus = await readTrimmed(path.join(instancePath, '.state', 'worker_status'));
+  return workerStatus === 'paused' ? 'paused' : 'requested';
+}
+
+/**
+ * Marker that makes scripts/worker.sh exit after its current iteration
+ */
+export function getStopFile(instancePath: string): string {
+  return path.join(instancePath, '.state', 'stop_requested');
+}
+
+export async function isStopRequested(instancePath: string): Promise<boolean> {
+  try {
+    await fs.access(getStopFile(instancePath));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The last time limit worker.sh hit, if any since it started
+ */
+export async function readWorkerTimeout(instancePath: string): Promise<WorkerTimeout | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(instancePath, '.state', 'worker_timeout.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export function getWatchdogFile(instancePath: string): string {
+  return path.join(instancePath, '.state', 'watchdog.json');
+}
+
+export async function readWatchdogState(instancePath: string): Promise<WatchdogState | null> {
+  try {
+    return JSON.parse(await fs.readFile(getWatchdogFile(instancePath), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export function getRecoveryFile(instancePath: string): string {
+  return path.join(instancePath, '.state', 'recovery.json');
+}
+
+export async function readRecoveryReport(instancePath: string): Promise<RecoveryReport | null> {
+  try {
+    return JSON.parse(await fs.readFile(getRecoveryFile(instancePath), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Latest run log, worker_YYYYMMDD_HHMMSS.log / manager_YYYYMMDD_HHMMSS.log (the timestamp sorts by
+ * name). The supervisor's worker_stdout.log and the like are not run logs and are skipped.
+ */
+export async function getLatestLogFile(instancePath: string, source: LogSource): Promise<string | null> {
+  const runLog = new RegExp(`^${source}_\\d{8}_\\d{6}\\.log$`);
+  try {
+    const files = (await fs.readdir(path.join(instancePath, 'logs')))
+      .filter(f => runLog.test(f))
+      .sort();
+    return files.length > 0 ? path.join(instancePath, 'logs', files[files.length - 1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Last lines of a log file, reading only its tail
+ */
+export async function readLogTail(file: string, lines = RECENT_LOG_LINES): Promise<string[]> {
+  const handle = await fs.open(file, 'r');
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, LOG_TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    return stripAnsi(buffer.toString('utf-8')).trim().split('\n').filter(Boolean).slice(-lines);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * The task the worker picks next from prds/tasks.json
+ */
+async function getCurrentTask(instancePath: string): Promise<CurrentTask | null> {
+  try {
+    const task = scheduleTasks((await readTasksFile(instancePath)).tasks).next;
+    return task ? { id: task.id, title: task.title, status: task.status } : null;
+  } catch {
+    return null;
+  }
+}
+
+async function listMarkdown(dir: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(dir)).filter(f => f.endsWith('.md')).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build the status snapshot for one instance
+ */
+export async function getInstanceStatus(instance: InstanceRecord): Promise<InstanceStatus> {
+  const managerPath = instance.path;
+  const stateDir = path.join(managerPath, '.state');
+
+  const status: InstanceStatus = {
+    id: instance.id,
+    path: managerPath,
+    name: instance.name,
+    projectPath: instance.projectPath,
+    worker: {
+      status: 'stopped',
+      pid: null,
+      pause: null,
+      stopRequested: false,
+      timeout: null,
+      iteration: 0,
+      currentPrd: null,
+      currentTask: null,
+      model: 'sonnet',
+    },
+    manager: { status: 'stopped', pid: null, reviews: 0, model: 'opus' },
+    prds: { total: 0, completed: 0, list: [], completedList: [] },
+    skills: { count: 0, list: [] },
+    recentLogs: [],
+    config: instance.config,
+    watchdog: null,
+    recovery: null,
+    budget: null,
+  };
+
+  if (typeof instance.config?.workerModel === 'string') status.worker.model = instance.config.workerModel;
+  if (typeof instance.config?.managerModel === 'string') status.manager.model = instance.config.managerModel;
+
+  // Check worker and manager processes
+  const workerPid = await readTrimmed(path.join(stateDir, 'worker.pid'));
+  if (workerPid && isProcessAlive(workerPid)) {
+    status.worker.status = 'running';
+    status.worker.pid = workerPid;
+    status.worker.pause = await getPauseState(managerPath);
+    status.worker.stopRequested = await isStopRequested(managerPath);
+  }
+  status.worker.timeout = await readWorkerTimeout(managerPath);
+  status.watchdog = await readWatchdogState(managerPath);
+  status.recovery = await readRecoveryReport(managerPath);
+
+  const managerPid = await readTrimmed(path.join(stateDir, 'manager.pid'));
+  if (managerPid && isProcessAlive(managerPid)) {
+    status.manager.status = 'running';
+    status.manager.pid = managerPid;
+  }
+
+  status.worker.iteration = parseInt(await readTrimmed(path.join(stateDir, 'worker_iteration')) || '0', 10) || 0;
+  status.manager.reviews = parseInt(await readTrimmed(path.join(stateDir, 'manager_reviews')) || '0', 10) || 0;
+
+  const currentPrd = await readTrimmed(path.join(stateDir, 'current_prd'));
+  status.worker.currentPrd = currentPrd ? path.basename(currentPrd) : null;
+  status.worker.currentTask = await getCurrentTask(managerPath);
+  status.budget = await readBudgetStatus(managerPath, instance.config, status.worker.currentTask?.id ?? null);
+
+  // PRDs, completed PRDs and skills
+  status.prds.list = await listMarkdown(path.join(managerPath, 'prds'));
+  status.prds.total = status.prds.list.length;
+
+  try {
+    const completedFiles = await fs.readdir(path.join(managerPath, 'output', 'completed'));
+    status.prds.completedList = completedFiles.filter(f => f.endsWith('.done')).map(f => f.replace('.md.done', '.md'));
+    status.prds.completed = status.prds.completedList.length;
+  } catch {}
+
+  status.skills.list = await listMarkdown(path.join(managerPath, 'skills'));
+  status.skills.count = status.skills.list.length;
+
+  // Recent worker log lines
+  const workerLog = await getLatestLogFile(managerPath, 'worker');
+  if (workerLog) {
+    try {
+      status.recentLogs = await readLogTail(workerLog);
+    } catch {}
+  }
+
+  return status;
+}
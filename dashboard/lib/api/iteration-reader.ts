@@ -0,0 +1,281 @@
+/**
+ * Iteration Reader
+ * Builds the worker's iteration timeline from output/iteration_N_report.md and the
+ * .meta.json worker.sh writes beside it (task, duration, files changed, log position).
+ * Iterations from before the metadata fall back to logs/iteration_N_task_<id>.md and a
+ * search of the worker logs for their "=== Iteration N ===" entry.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { listLogFiles, parseLogLine } from '@/lib/api/log-reader';
+import { resolveWithin } from '@/lib/api/path-security';
+import { readTasksFile } from '@/lib/api/task-store';
+import type { LogLine } from '@/lib/types/logs';
+import type {
+  IterationDetail,
+  IterationLogSlice,
+  IterationMeta,
+  IterationSummary,
+} from '@/lib/types/iteration';
+
+const REPORT_FILE_PATTERN = /^iteration_(\d+)_report\.(md|meta\.json)$/;
+const OUTPUT_FILE_PATTERN = /^iteration_(\d+)_task_(.+)\.md$/;
+const ITERATION_MARKER_PATTERN = /^=== Iteration (\d+) ===$/;
+const MAX_REPORT_BYTES = 256 * 1024;
+const MAX_SLICE_LINES = 1000;
+
+interface IterationFiles {
+  report?: string;
+  meta?: string;
+  // Newest raw output for the iteration (a failed iteration is retried under the same number)
+  output?: { name: string; taskId: string; mtimeMs: number };
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+async function mtimeOf(file: string): Promise<Date | null> {
+  try {
+    return (await fs.stat(file)).mtime;
+  } catch {
+    return null;
+  }
+}
+
+async function readMeta(file: string): Promise<Partial<IterationMeta>> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+async function findIterationFiles(instancePath: string): Promise<Map<number, IterationFiles>> {
+  const iterations = new Map<number, IterationFiles>();
+  const entry = (iteration: number) => {
+    let files = iterations.get(iteration);
+    if (!files) {
+      files = {};
+      iterations.set(iteration, files);
+    }
+    return files;
+  };
+
+  for (const name of await listDir(path.join(instancePath, 'output'))) {
+    const match = name.match(REPORT_FILE_PATTERN);
+    if (!match) continue;
+
+    const files = entry(parseInt(match[1], 10));
+    if (match[2] === 'md') files.report = name;
+    else files.meta = name;
+  }
+
+  for (const name of await listDir(path.join(instancePath, 'logs'))) {
+    const match = name.match(OUTPUT_FILE_PATTERN);
+    if (!match) continue;
+
+    const mtime = await mtimeOf(path.join(instancePath, 'logs', name));
+    if (!mtime) continue;
+
+    const files = entry(parseInt(match[1], 10));
+    if (!files.output || mtime.getTime() > files.output.mtimeMs) {
+      files.output = { name, taskId: match[2], mtimeMs: mtime.getTime() };
+    }
+  }
+
+  return iterations;
+}
+
+async function summarize(
+  instancePath: string,
+  iteration: number,
+  files: IterationFiles,
+  taskTitles: Map<string, string>
+): Promise<{ summary: IterationSummary; meta: Partial<IterationMeta> } | null> {
+  const meta = files.meta ? await readMeta(path.join(instancePath, 'output', files.meta)) : {};
+  const report = files.report ? `output/${files.report}` : null;
+  const output = typeof meta.output === 'string'
+    ? meta.output
+    : files.output ? `logs/${files.output.name}` : null;
+  if (!report && !output) return null;
+
+  const finishedAt = typeof meta.finishedAt === 'string'
+    ? meta.finishedAt
+    : (await mtimeOf(path.join(instancePath, (report ?? output)!)))?.toISOString();
+  if (!finishedAt) return null;
+
+  const taskId = typeof meta.taskId === 'string' ? meta.taskId : files.output?.taskId ?? null;
+
+  return {
+    meta,
+    summary: {
+      iteration,
+      taskId,
+      taskTitle: typeof meta.taskTitle === 'string' ? meta.taskTitle : (taskId && taskTitles.get(taskId)) || null,
+      startedAt: typeof meta.startedAt === 'string' ? meta.startedAt : null,
+      finishedAt,
+      durationSeconds: typeof meta.durationSeconds === 'number' ? meta.durationSeconds : null,
+      outcome: meta.outcome ?? null,
+      filesChanged: Array.isArray(meta.filesChanged) ? meta.filesChanged : null,
+      report,
+      output,
+    },
+  };
+}
+
+async function readTaskTitles(instancePath: string): Promise<Map<string, string>> {
+  try {
+    const { tasks } = await readTasksFile(instancePath);
+    return new Map(tasks.map(task => [task.id, task.title]));
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Read the start of a file, at most MAX_REPORT_BYTES
+ */
+async function readCapped(file: string): Promise<{ content: string; truncated: boolean } | null> {
+  try {
+    const handle = await fs.open(file, 'r');
+    try {
+      const { size } = await handle.stat();
+      const buffer = Buffer.alloc(Math.min(size, MAX_REPORT_BYTES));
+      await handle.read(buffer, 0, buffer.length, 0);
+      return { content: buffer.toString('utf-8'), truncated: size > MAX_REPORT_BYTES };
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lines of a worker log from an iteration's entry up to the next iteration's
+ */
+async function readLogSlice(file: string, startLine: number): Promise<IterationLogSlice> {
+  const lines: LogLine[] = [];
+  let truncated = false;
+  let number = 0;
+
+  const input = createReadStream(file, { encoding: 'utf-8' });
+  const reader = readline.createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    for await (const raw of reader) {
+      number++;
+      if (number < startLine) continue;
+
+      const line = parseLogLine(raw, number);
+      if (lines.length > 0 && ITERATION_MARKER_PATTERN.test(line.message)) break;
+      if (lines.length === MAX_SLICE_LINES) {
+        truncated = true;
+        break;
+      }
+      lines.push(line);
+    }
+  } finally {
+    // Stop reading the rest of the file after an early break
+    input.destroy();
+  }
+
+  return { file: path.basename(file), lines, truncated };
+}
+
+/**
+ * The line of the last "=== Iteration N ===" entry in a worker log
+ */
+async function findIterationStart(file: string, iteration: number): Promise<number | null> {
+  let start: number | null = null;
+  let number = 0;
+
+  const reader = readline.createInterface({
+    input: createReadStream(file, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const raw of reader) {
+    number++;
+    const match = parseLogLine(raw, number).message.match(ITERATION_MARKER_PATTERN);
+    if (match && parseInt(match[1], 10) === iteration) {
+      start = number;
+    }
+  }
+
+  return start;
+}
+
+async function readIterationLog(
+  instancePath: string,
+  iteration: number,
+  meta: Partial<IterationMeta>
+): Promise<IterationLogSlice | null> {
+  if (typeof meta.log?.file === 'string' && typeof meta.log.line === 'number') {
+    const file = await resolveWithin(instancePath, meta.log.file);
+    if (file) {
+      try {
+        return await readLogSlice(file, meta.log.line);
+      } catch {}
+    }
+  }
+
+  // The iteration number restarts when the counter is reset, so prefer the newest log
+  const logs = (await listLogFiles(instancePath)).filter(log => log.source === 'worker');
+  for (const log of logs) {
+    const file = path.join(instancePath, 'logs', log.name);
+    try {
+      const start = await findIterationStart(file, iteration);
+      if (start !== null) return await readLogSlice(file, start);
+    } catch {}
+  }
+  return null;
+}
+
+/**
+ * Every iteration with a report or raw output, oldest first
+ */
+export async function listIterations(instancePath: string): Promise<IterationSummary[]> {
+  const iterations = await findIterationFiles(instancePath);
+  const taskTitles = await readTaskTitles(instancePath);
+
+  const summaries: IterationSummary[] = [];
+  for (const iteration of [...iterations.keys()].sort((a, b) => a - b)) {
+    const result = await summarize(instancePath, iteration, iterations.get(iteration)!, taskTitles);
+    if (result) summaries.push(result.summary);
+  }
+  return summaries;
+}
+
+/**
+ * One iteration with its rendered report and the worker log lines it produced
+ */
+export async function readIteration(instancePath: string, iteration: number): Promise<IterationDetail | null> {
+  const files = (await findIterationFiles(instancePath)).get(iteration);
+  if (!files) return null;
+
+  const result = await summarize(instancePath, iteration, files, await readTaskTitles(instancePath));
+  if (!result) return null;
+
+  const { summary, meta } = result;
+  let report: { content: string; truncated: boolean } | null = null;
+  for (const candidate of [summary.report, summary.output]) {
+    const file = candidate ? await resolveWithin(instancePath, candidate) : null;
+    report = file ? await readCapped(file) : null;
+    if (report) break;
+  }
+
+  return {
+    ...summary,
+    reportContent: report?.content ?? null,
+    reportTruncated: report?.truncated ?? false,
+    log: await readIterationLog(instancePath, iteration, meta),
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Log Reader
+ * Lists an instance's worker/manager logs and pages through them with
+ * level filtering and full-text search. Lines are streamed, never loaded whole.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { LOG_LEVELS, type LogFileInfo, type LogLevel, type LogLine, type LogPage, type LogQuery } from '@/lib/types/logs';
+
+export const LOG_FILENAME_PATTERN = /^(worker|manager)_[A-Za-z0-9_-]+\.log$/;
+export const DEFAULT_PAGE_SIZE = 200;
+export const MAX_PAGE_SIZE = 1000;
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+// [2026-01-01 12:00:00] [MANAGER] [INFO] message  (the [MANAGER] tag only appears in manager logs)
+const LINE_PATTERN = new RegExp(
+  `^\\[(\\d{4}-\\d{2}-\\d{2} \\d{2}:\\d{2}:\\d{2})\\] (?:\\[MANAGER\\] )?\\[(${LOG_LEVELS.join('|')})\\] ?(.*)$`
+);
+
+/**
+ * Remove terminal color codes
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Split a raw log line into timestamp, level and message
+ */
+export function parseLogLine(raw: string, number: number): LogLine {
+  const line = stripAnsi(raw).replace(/\r$/, '');
+  const match = line.match(LINE_PATTERN);
+
+  if (!match) {
+    return { number, timestamp: null, level: null, message: line };
+  }
+
+  return {
+    number,
+    timestamp: match[1],
+    level: match[2] as LogLevel,
+    message: match[3],
+  };
+}
+
+// worker_20260101_120000.log -> 2026-01-01 12:00:00
+function parseStartedAt(filename: string): string | null {
+  const match = filename.match(/_(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})\.log$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]} ${match[4]}:${match[5]}:${match[6]}` : null;
+}
+
+/**
+ * All worker and manager log files of an instance, newest first
+ */
+export async function listLogFiles(instancePath: string): Promise<LogFileInfo[]> {
+  const logsDir = path.join(instancePath, 'logs');
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(logsDir);
+  } catch {
+    return [];
+  }
+
+  const files: LogFileInfo[] = [];
+  for (const name of entries) {
+    if (!LOG_FILENAME_PATTERN.test(name)) continue;
+
+    try {
+      const stat = await fs.lstat(path.join(logsDir, name));
+      if (!stat.isFile()) continue;
+
+      files.push({
+        name,
+        source: name.startsWith('manager_') ? 'manager' : 'worker',
+        size: stat.size,
+        startedAt: parseStartedAt(name),
+        modifiedAt: stat.mtime.toISOString(),
+      });
+    } catch {
+      // Rotated away while listing
+    }
+  }
+
+  return files.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt) || b.name.localeCompare(a.name));
+}
+
+/**
+ * Read one page of matching lines from a log file
+ */
+export async function readLogPage(file: string, query: LogQuery = {}): Promise<LogPage> {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const levels = query.levels && query.levels.length > 0 ? new Set(query.levels) : null;
+  const search = query.search?.trim().toLowerCase() || null;
+  const tail = query.offset === undefined;
+  const start = Math.max(query.offset ?? 0, 0);
+
+  const matches = (line: LogLine) =>
+    (!levels || (line.level !== null && levels.has(line.level)))
+    && (!search || line.message.toLowerCase().includes(search));
+
+  let lines: LogLine[] = [];
+  let total = 0;
+  let totalLines = 0;
+
+  const reader = readline.createInterface({
+    input: createReadStream(file, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const raw of reader) {
+    totalLines++;
+    const line = parseLogLine(raw, totalLines);
+    if (!matches(line)) continue;
+
+    if (tail) {
+      lines.push(line);
+      if (lines.length > limit * 2) {
+        lines = lines.slice(-limit);
+      }
+    } else if (total >= start && total < start + limit) {
+      lines.push(line);
+    }
+    total++;
+  }
+
+  if (tail) {
+    lines = lines.slice(-limit);
+  }
+
+  return {
+    file: path.basename(file),
+    lines,
+    offset: tail ? Math.max(total - limit, 0) : start,
+    limit,
+    total,
+    totalLines,
+  };
+}
@@ -0,0 +1,184 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  isPathWithin,
+  resolveWithin,
+  checkRootDirectory,
+  isInstancePathAllowed,
+  resolveInstancePath,
+} from '@/lib/api/path-security';
+
+// Layout under a temp dir:
+//   claude-managers/alpha, claude-managers/escape -> outside   (the root and its instances)
+//   claude-managers-evil/gamma                                 (sibling sharing the root's prefix)
+//   registered/delta                                           (explicitly registered instance)
+//   outside/secret.txt
+let tmp: string;
+let root: string;
+
+before(async () => {
+  tmp = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'path-security-')));
+  root = path.join(tmp, 'claude-managers');
+
+  await fs.mkdir(path.join(root, 'alpha', 'skills'), { recursive: true });
+  await fs.mkdir(path.join(tmp, 'claude-managers-evil', 'gamma'), { recursive: true });
+  await fs.mkdir(path.join(tmp, 'registered', 'delta'), { recursive: true });
+  await fs.mkdir(path.join(tmp, 'outside'), { recursive: true });
+  await fs.writeFile(path.join(tmp, 'outside', 'secret.txt'), 'secret');
+  await fs.symlink(path.join(tmp, 'outside'), path.join(root, 'escape'));
+  await fs.symlink(path.join(tmp, 'outside'), path.join(root, 'alpha', 'skills', 'linked'));
+
+  const registry = path.join(tmp, 'registry.json');
+  await fs.writeFile(registry, JSON.stringify({ instances: [{ path: path.join(tmp, 'registered', 'delta') }] }));
+
+  process.env.CLAUDE_MANAGER_ROOTS = root;
+  process.env.CLAUDE_MANAGER_REGISTRY = registry;
+});
+
+after(async () => {
+  delete process.env.CLAUDE_MANAGER_ROOTS;
+  delete process.env.CLAUDE_MANAGER_REGISTRY;
+  await fs.rm(tmp, { recursive: true, force: true });
+});
+
+describe('isPathWithin', () => {
+  it('accepts the base and paths below it', () => {
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers'), true);
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers', false), false);
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers/alpha/tasks.json'), true);
+  });
+
+  it('rejects .. segments that leave the base', () => {
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers/../etc'), false);
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers/alpha/../../etc/passwd'), false);
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers/alpha/../beta'), true);
+  });
+
+  it('rejects siblings sharing the prefix', () => {
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers-evil'), false);
+    assert.equal(isPathWithin('/a/claude-managers', '/a/claude-managers-evil/alpha'), false);
+  });
+
+  it('rejects absolute paths elsewhere', () => {
+    assert.equal(isPathWithin('/a/claude-managers', '/etc/passwd'), false);
+    assert.equal(isPathWithin('/a/claude-managers', '/'), false);
+  });
+});
+
+describe('resolveWithin', () => {
+  it('joins plain segments', async () => {
+    const skills = path.join(root, 'alpha', 'skills');
+    assert.equal(await resolveWithin(skills, 'new_skill.md'), path.join(skills, 'new_skill.md'));
+  });
+
+  it('rejects .. segments and the base itself', async () => {
+    const skills = path.join(root, 'alpha', 'skills');
+    assert.equal(await resolveWithin(skills, '../config.json'), null);
+    assert.equal(await resolveWithin(skills, '..', '..', '..', 'outside', 'secret.txt'), null);
+    assert.equal(await resolveWithin(skills, '.'), null);
+  });
+
+  it('keeps absolute segments inside the base', async () => {
+    assert.equal(await resolveWithin(path.join(root, 'alpha'), '/etc/passwd'), path.join(root, 'alpha', 'etc', 'passwd'));
+  });
+
+  it('rejects symlinks that escape the base', async () => {
+    const skills = path.join(root, 'alpha', 'skills');
+    assert.equal(await resolveWithin(skills, 'linked', 'secret.txt'), null);
+    assert.equal(await resolveWithin(skills, 'linked', 'missing.md'), null);
+  });
+
+  it('rejects NUL bytes', async () => {
+    assert.equal(await resolveWithin(path.join(root, 'alpha'), 'skills\0/../../outside'), null);
+  });
+});
+
+describe('isInstancePathAllowed', () => {
+  it('accepts direct children of a root and registered instances', async () => {
+    assert.equal(await isInstancePathAllowed(path.join(root, 'alpha')), true);
+    assert.equal(await isInstancePathAllowed(path.join(tmp, 'registered', 'delta')), true);
+  });
+
+  it('rejects the root itself and nested directories', async () => {
+    assert.equal(await isInstancePathAllowed(root), false);
+    assert.equal(await isInstancePathAllowed(path.join(root, 'alpha', 'skills')), false);
+  });
+
+  it('rejects .. segments and sibling prefixes', async () => {
+    assert.equal(await isInstancePathAllowed(path.join(root, 'alpha', '..', '..', 'outside')), false);
+    assert.equal(await isInstancePathAllowed(path.join(tmp, 'claude-managers-evil', 'gamma')), false);
+  });
+
+  it('rejects symlinked instances that escape the root', async () => {
+    assert.equal(await isInstancePathAllowed(path.join(root, 'escape')), false);
+  });
+
+  it('rejects absolute paths outside the roots', async () => {
+    assert.equal(await isInstancePathAllowed(path.join(tmp, 'outside')), false);
+    assert.equal(await isInstancePathAllowed('/etc'), false);
+    assert.equal(await isInstancePathAllowed(path.join(tmp, 'missing')), false);
+  });
+});
+
+describe('resolveInstancePath', () => {
+  it('resolves ids and paths of known instances', async () => {
+    assert.equal(await resolveInstancePath('alpha'), path.join(root, 'alpha'));
+    assert.equal(await resolveInstancePath('delta'), path.join(tmp, 'registered', 'delta'));
+    assert.equal(await resolveInstancePath(path.join(root, 'alpha')), path.join(root, 'alpha'));
+    assert.equal(await resolveInstancePath(encodeURIComponent(path.join(root, 'alpha'))), path.join(root, 'alpha'));
+  });
+
+  it('rejects non-strings, empty refs and NUL bytes', async () => {
+    assert.equal(await resolveInstancePath(undefined), null);
+    assert.equal(await resolveInstancePath(42), null);
+    assert.equal(await resolveInstancePath(''), null);
+    assert.equal(await resolveInstancePath('alpha\0'), null);
+    assert.equal(await resolveInstancePath(`${path.join(root, 'alpha')}\0/../../outside`), null);
+  });
+
+  it('rejects .. ids, raw and URL-encoded', async () => {
+    assert.equal(await resolveInstancePath('..'), null);
+    assert.equal(await resolveInstancePath('%2e%2e'), null);
+    assert.equal(await resolveInstancePath('%2e%2e%2foutside'), null);
+    assert.equal(await resolveInstancePath(`${root}/alpha/../../outside`), null);
+    assert.equal(await resolveInstancePath(encodeURIComponent(`${root}/alpha/../../outside`)), null);
+  });
+
+  it('rejects symlinked and sibling-prefix instances', async () => {
+    assert.equal(await resolveInstancePath('escape'), null);
+    assert.equal(await resolveInstancePath(path.join(root, 'escape')), null);
+    assert.equal(await resolveInstancePath('gamma'), null);
+    assert.equal(await resolveInstancePath(path.join(tmp, 'claude-managers-evil', 'gamma')), null);
+  });
+
+  it('rejects absolute paths outside the roots', async () => {
+    assert.equal(await resolveInstancePath(path.join(tmp, 'outside')), null);
+    assert.equal(await resolveInstancePath('/etc'), null);
+    assert.equal(await resolveInstancePath(encodeURIComponent('/etc/passwd')), null);
+  });
+});
+
+describe('checkRootDirectory', () => {
+  it('accepts existing directories', async () => {
+    assert.equal(await checkRootDirectory(root), null);
+  });
+
+  it('refuses missing paths and files', async () => {
+    assert.match(await checkRootDirectory(path.join(tmp, 'missing')) ?? '', /does not exist/);
+    assert.match(await checkRootDirectory(path.join(tmp, 'outside', 'secret.txt')) ?? '', /not a directory/);
+  });
+
+  it('refuses the filesystem root, the home directory and system directories', async () => {
+    assert.match(await checkRootDirectory('/') ?? '', /too broad/);
+    assert.match(await checkRootDirectory(os.homedir()) ?? '', /too broad/);
+    assert.match(await checkRootDirectory('/etc') ?? '', /system directory/);
+  });
+
+  it('refuses symlinks to system directories', async () => {
+    await fs.symlink('/etc', path.join(tmp, 'etc-link'));
+    assert.match(await checkRootDirectory(path.join(tmp, 'etc-link')) ?? '', /system directory/);
+  });
+});
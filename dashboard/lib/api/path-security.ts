@@ -0,0 +1,175 @@
+/**
+ * Path Security
+ * Shared path authorization for API routes: symlink-aware containment checks
+ * and resolution of instance ids to validated instance directories.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import os from 'os';
+import { getRoots, listRegisteredPaths, resolveInstance } from '@/lib/api/instance-registry';
+
+/**
+ * Lexical containment: true if target is base itself or lives below it.
+ * Compares whole path segments, so "/a/claude-managers-evil" is not inside "/a/claude-managers".
+ */
+export function isPathWithin(base: string, target: string, allowEqual = true): boolean {
+  const relative = path.relative(path.resolve(base), path.resolve(target));
+
+  if (relative === '') {
+    return allowEqual;
+  }
+
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolve symlinks in a path that may not exist yet.
+ * The deepest existing ancestor is resolved and the missing segments re-appended.
+ */
+export async function realpathAllowMissing(target: string): Promise<string> {
+  const resolved = path.resolve(target);
+  const missing: string[] = [];
+  let current = resolved;
+
+  while (true) {
+    try {
+      const real = await fs.realpath(current);
+      return path.join(real, ...missing.reverse());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && (error as NodeJS.ErrnoException).code !== 'ENOTDIR') {
+        throw error;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return resolved;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Symlink-aware containment: both paths are resolved through realpath before comparing,
+ * so a symlink inside base that points elsewhere is rejected.
+ */
+export async function isRealPathWithin(base: string, target: string, allowEqual = true): Promise<boolean> {
+  if (!isPathWithin(base, target, allowEqual)) {
+    return false;
+  }
+
+  try {
+    const [realBase, realTarget] = await Promise.all([
+      realpathAllowMissing(base),
+      realpathAllowMissing(target),
+    ]);
+    return isPathWithin(realBase, realTarget, allowEqual);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Join untrusted path segments onto a trusted directory.
+ * Returns null if the result (after symlinks) escapes the directory or is the directory itself.
+ */
+export async function resolveWithin(base: string, ...segments: string[]): Promise<string | null> {
+  if (segments.some(segment => typeof segment !== 'string' || segment.includes('\0'))) {
+    return null;
+  }
+
+  const target = path.join(base, ...segments);
+  return (await isRealPathWithin(base, target, false)) ? target : null;
+}
+
+// Never accepted as instance roots, nor anything inside them
+const SYSTEM_DIRS = ['/bin', '/boot', '/dev', '/etc', '/lib', '/lib64', '/proc', '/root', '/run', '/sbin', '/sys', '/usr', '/var'];
+const PRIVATE_HOME_DIRS = ['.ssh', '.gnupg', '.aws', '.kube', '.docker', '.config', '.claude-manager'];
+
+/**
+ * Check a directory before it becomes an instance root.
+ * Returns the reason it is refused, or null if it is an existing directory outside the
+ * filesystem root, the home directory itself, system directories and private dotfile directories.
+ */
+export async function checkRootDirectory(root: string): Promise<string | null> {
+  let realRoot: string;
+  try {
+    realRoot = await fs.realpath(root);
+    if (!(await fs.stat(realRoot)).isDirectory()) {
+      return `Root is not a directory: ${root}`;
+    }
+  } catch {
+    return `Root does not exist: ${root}`;
+  }
+
+  const home = await fs.realpath(os.homedir()).catch(() => path.resolve(os.homedir()));
+  if (realRoot === path.parse(realRoot).root || realRoot === home) {
+    return `Root is too broad: ${root}`;
+  }
+
+  if (isPathWithin(home, realRoot)) {
+    // The home directory may itself be a system directory (/root)
+    if (PRIVATE_HOME_DIRS.some(dir => isPathWithin(path.join(home, dir), realRoot))) {
+      return `Root is a private directory: ${root}`;
+    }
+  } else if (SYSTEM_DIRS.some(dir => isPathWithin(dir, realRoot))) {
+    return `Root is a system directory: ${root}`;
+  }
+
+  return null;
+}
+
+/**
+ * Check that a path is an authorized instance directory:
+ * a direct child of a root directory or an explicitly registered instance.
+ */
+export async function isInstancePathAllowed(instancePath: string): Promise<boolean> {
+  let realInstance: string;
+  try {
+    realInstance = await fs.realpath(instancePath);
+  } catch {
+    return false;
+  }
+
+  for (const root of await getRoots()) {
+    if (path.dirname(path.resolve(instancePath)) !== root) continue;
+    try {
+      if (path.dirname(realInstance) === await fs.realpath(root)) {
+        return true;
+      }
+    } catch {
+      // Root doesn't exist
+    }
+  }
+
+  for (const registered of await listRegisteredPaths()) {
+    if (path.resolve(instancePath) !== registered) continue;
+    try {
+      if (realInstance === await fs.realpath(registered)) {
+        return true;
+      }
+    } catch {
+      // Registered directory was removed
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Turn an instance id (or legacy instance path, raw or URL-encoded) into a validated directory.
+ * Returns null for unknown instances and for instances that fail the containment checks.
+ */
+export async function resolveInstancePath(ref: unknown): Promise<string | null> {
+  if (typeof ref !== 'string' || !ref || ref.includes('\0')) {
+    return null;
+  }
+
+  const instance = await resolveInstance(ref);
+  if (!instance || !await isInstancePathAllowed(instance.path)) {
+    return null;
+  }
+
+  return instance.path;
+}
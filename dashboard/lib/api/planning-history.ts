@@ -0,0 +1,208 @@
+/**
+ * Planning History
+ * Planning conversations saved in .state/planning_history/<conversationId>.json. The chat saves the
+ * whole conversation on request; a reply the user stops mid-stream is appended as soon as it stops,
+ * so the partial answer survives even if the page is closed.
+ *
+ * The library lists, searches, forks and deletes these files. A fork is a new conversation holding
+ * the messages up to the chosen one, with forkedFrom pointing back at its source.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { resolveWithin } from '@/lib/api/path-security';
+import type {
+  PlanningConversation,
+  PlanningConversationSummary,
+  PlanningMessage,
+  PlanningSearchMatch,
+} from '@/lib/types/planning';
+
+const TITLE_LENGTH = 80;
+const SNIPPET_CONTEXT = 60;
+export const MAX_SEARCH_MATCHES = 100;
+
+function getHistoryDir(instancePath: string): string {
+  return path.join(instancePath, '.state', 'planning_history');
+}
+
+/**
+ * Path of a conversation's file, or null if the id would leave the history directory
+ */
+export async function getConversationPath(instancePath: string, conversationId: unknown): Promise<string | null> {
+  if (typeof conversationId !== 'string' || !conversationId) return null;
+  const historyDir = getHistoryDir(instancePath);
+  const conversationPath = await resolveWithin(historyDir, `${conversationId}.json`);
+  return conversationPath && path.dirname(conversationPath) === historyDir ? conversationPath : null;
+}
+
+async function readConversation(conversationPath: string): Promise<PlanningConversation | null> {
+  try {
+    const conversation = JSON.parse(await fs.readFile(conversationPath, 'utf-8'));
+    return conversation && Array.isArray(conversation.messages) ? conversation : null;
+  } catch {
+    return null;
+  }
+}
+
+export function generateConversationId(): string {
+  return 'conv_' + Date.now().toString(36) + '_' + Math.random().toString(36).substring(2, 11);
+}
+
+function conversationTitle(conversation: PlanningConversation): string {
+  if (conversation.title?.trim()) return conversation.title.trim();
+  const first = conversation.messages.find(m => m.role === 'user')?.content.trim().split('\n')[0];
+  if (!first) return 'Untitled conversation';
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 3)}...` : first;
+}
+
+function summarize(conversation: PlanningConversation): PlanningConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversationTitle(conversation),
+    messageCount: conversation.messages.length,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    forkedFrom: conversation.forkedFrom,
+  };
+}
+
+async function readAllConversations(instancePath: string): Promise<PlanningConversation[]> {
+  const historyDir = getHistoryDir(instancePath);
+  let files: string[];
+  try {
+    files = await fs.readdir(historyDir);
+  } catch {
+    return [];
+  }
+
+  const conversations = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readConversation(path.join(historyDir, file)))
+  );
+  return conversations
+    .filter((c): c is PlanningConversation => c !== null)
+    .sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+}
+
+/**
+ * Saved conversations, most recently updated first
+ */
+export async function listConversations(instancePath: string): Promise<PlanningConversationSummary[]> {
+  return (await readAllConversations(instancePath)).map(summarize);
+}
+
+export async function getConversation(
+  instancePath: string,
+  conversationId: string
+): Promise<PlanningConversation | null> {
+  const conversationPath = await getConversationPath(instancePath, conversationId);
+  return conversationPath ? readConversation(conversationPath) : null;
+}
+
+/**
+ * Messages containing `query` (case-insensitive), most recent conversations first
+ */
+export async function searchConversations(instancePath: string, query: string): Promise<PlanningSearchMatch[]> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const matches: PlanningSearchMatch[] = [];
+  for (const conversation of await readAllConversations(instancePath)) {
+    const title = conversationTitle(conversation);
+    for (const message of conversation.messages) {
+      const index = message.content.toLowerCase().indexOf(needle);
+      if (index === -1) continue;
+
+      const start = Math.max(0, index - SNIPPET_CONTEXT);
+      const end = Math.min(message.content.length, index + needle.length + SNIPPET_CONTEXT);
+      matches.push({
+        conversationId: conversation.id,
+        title,
+        messageId: message.id,
+        role: message.role,
+        snippet: `${start > 0 ? '...' : ''}${message.content.slice(start, end)}${end < message.content.length ? '...' : ''}`,
+        timestamp: message.timestamp,
+      });
+      if (matches.length >= MAX_SEARCH_MATCHES) return matches;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Replace a conversation's messages, creating it if needed
+ */
+export async function saveConversation(
+  instancePath: string,
+  conversationId: string,
+  messages: PlanningMessage[],
+  fields: Pick<PlanningConversation, 'title' | 'forkedFrom'> = {}
+): Promise<PlanningConversation> {
+  const conversationPath = await getConversationPath(instancePath, conversationId);
+  if (!conversationPath) throw new Error('Invalid conversation ID');
+
+  const now = new Date().toISOString();
+  const existing = await readConversation(conversationPath);
+  const conversation: PlanningConversation = existing
+    ? { ...existing, ...fields, messages, updatedAt: now }
+    : { id: conversationId, instanceId: path.basename(instancePath), ...fields, messages, createdAt: now, updatedAt: now };
+
+  await fs.mkdir(path.dirname(conversationPath), { recursive: true });
+  const tmpFile = `${conversationPath}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(conversation, null, 2), 'utf-8');
+  await fs.rename(tmpFile, conversationPath);
+  return conversation;
+}
+
+/**
+ * Append messages to a saved conversation, or start one from `earlier` (the messages the chat
+ * had before them) if it was never saved
+ */
+export async function appendToConversation(
+  instancePath: string,
+  conversationId: string,
+  messages: PlanningMessage[],
+  earlier: PlanningMessage[] = []
+): Promise<PlanningConversation> {
+  const conversationPath = await getConversationPath(instancePath, conversationId);
+  if (!conversationPath) throw new Error('Invalid conversation ID');
+
+  const existing = await readConversation(conversationPath);
+  return saveConversation(instancePath, conversationId, [...(existing?.messages ?? earlier), ...messages]);
+}
+
+/**
+ * Start a new conversation from a saved one's messages up to and including `messageId`.
+ * Returns null if the conversation or message doesn't exist.
+ */
+export async function forkConversation(
+  instancePath: string,
+  conversationId: string,
+  messageId: string
+): Promise<PlanningConversation | null> {
+  const source = await getConversation(instancePath, conversationId);
+  const index = source?.messages.findIndex(m => m.id === messageId) ?? -1;
+  if (!source || index === -1) return null;
+
+  return saveConversation(instancePath, generateConversationId(), source.messages.slice(0, index + 1), {
+    title: `${conversationTitle(source)} (fork)`,
+    forkedFrom: { conversationId, messageId },
+  });
+}
+
+/**
+ * Returns false if there was no such conversation
+ */
+export async function deleteConversation(instancePath: string, conversationId: string): Promise<boolean> {
+  const conversationPath = await getConversationPath(instancePath, conversationId);
+  if (!conversationPath) return false;
+  try {
+    await fs.unlink(conversationPath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
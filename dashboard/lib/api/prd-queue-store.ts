@@ -0,0 +1,376 @@
+/**
+ * PRD Queue Store
+ * The single record of an instance's PRDs (queue order, status, priority and organizer metadata),
+ * kept in planning/prd-queue.json. Reads and writes are serialized per instance and guarded by a
+ * lock file, so other processes writing the queue don't interleave with the dashboard.
+ *
+ * Older dashboards kept this in three files: planning/prd-queue.json (queue, no version),
+ * planning/prd-organizer.json (organizer metadata, 'in-progress' statuses) and .state/prd_queue.json.
+ * They are merged into the current file the first time an instance's queue is loaded and then
+ * renamed to <file>.migrated.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { withFileLock } from '@/lib/api/file-lock';
+import {
+  PRD_PRIORITIES,
+  PRD_PRIORITY_LABELS,
+  PRD_STATUSES,
+  type PRDComplexity,
+  type PRDMetadata,
+  type PRDPriority,
+  type PRDQueueFile,
+  type PRDQueueStats,
+  type PRDStatus,
+} from '@/lib/types/prd';
+
+export const PRD_QUEUE_VERSION = 2;
+export const DEFAULT_PRD_PRIORITY: PRDPriority = 2;
+
+const COMPLEXITIES: PRDComplexity[] = ['simple', 'medium', 'complex'];
+
+const STATUS_ORDER: Record<PRDStatus, number> = {
+  in_progress: 0,
+  blocked: 1,
+  pending: 2,
+  completed: 3,
+};
+
+const locks = new Map<string, Promise<unknown>>();
+
+export function getPrdQueuePath(instancePath: string): string {
+  return path.join(instancePath, 'planning', 'prd-queue.json');
+}
+
+function getLegacyFiles(instancePath: string) {
+  return {
+    organizer: path.join(instancePath, 'planning', 'prd-organizer.json'),
+    stateQueue: path.join(instancePath, '.state', 'prd_queue.json'),
+  };
+}
+
+/**
+ * Parse a status, accepting the organizer's old 'in-progress' spelling
+ */
+export function parsePrdStatus(value: unknown): PRDStatus | null {
+  if (value === 'in-progress') return 'in_progress';
+  return PRD_STATUSES.includes(value as PRDStatus) ? value as PRDStatus : null;
+}
+
+/**
+ * Parse a priority given as 1-3 or as 'high' | 'medium' | 'low'
+ */
+export function parsePrdPriority(value: unknown): PRDPriority | null {
+  if (PRD_PRIORITIES.includes(value as PRDPriority)) return value as PRDPriority;
+  const entry = Object.entries(PRD_PRIORITY_LABELS).find(([, label]) => label === value);
+  return entry ? Number(entry[0]) as PRDPriority : null;
+}
+
+// Title from the first H1, then H2, then first non-empty line
+function extractTitle(content: string): string {
+  const h1Match = content.match(/^#\s+(?:PRD:\s*)?(.+)$/m);
+  if (h1Match) {
+    return h1Match[1].trim();
+  }
+  const h2Match = content.match(/^##\s+(.+)$/m);
+  if (h2Match) {
+    return h2Match[1].trim();
+  }
+  const firstLine = content.split('\n').find(line => line.trim());
+  return firstLine?.replace(/^#+\s*/, '').trim() || 'Untitled PRD';
+}
+
+function detectComplexity(content: string): PRDComplexity {
+  const wordCount = content.split(/\s+/).length;
+  const hasTechRequirements = /technical requirements|tech stack|architecture/i.test(content);
+  const hasPhases = /phase \d|iteration \d/i.test(content);
+
+  if (wordCount > 2000 || (hasTechRequirements && hasPhases)) {
+    return 'complex';
+  }
+  if (wordCount > 800 || hasTechRequirements || hasPhases) {
+    return 'medium';
+  }
+  return 'simple';
+}
+
+function estimateIterations(content: string, complexity: PRDComplexity): number {
+  // An explicit "Estimated iterations: N" in the PRD wins
+  const iterMatch = content.match(/estimated?.?\s*iterations?:?\s*(\d+)/i);
+  if (iterMatch) {
+    return parseInt(iterMatch[1], 10);
+  }
+
+  switch (complexity) {
+    case 'simple': return 3;
+    case 'medium': return 8;
+    case 'complex': return 15;
+  }
+}
+
+/**
+ * Build a new queue record from a PRD file's content
+ */
+export function createPrdRecord(
+  filename: string,
+  content: string,
+  options: { title?: string; priority?: PRDPriority; createdAt?: string } = {}
+): PRDMetadata {
+  const complexity = detectComplexity(content);
+  return {
+    id: crypto.randomUUID(),
+    filename,
+    title: options.title || extractTitle(content),
+    status: 'pending',
+    priority: options.priority ?? DEFAULT_PRD_PRIORITY,
+    tags: [],
+    complexity,
+    dependencies: [],
+    estimatedIterations: estimateIterations(content, complexity),
+    createdAt: options.createdAt ?? new Date().toISOString(),
+    archived: false,
+  };
+}
+
+// Keep the known, well-typed fields of a stored or legacy record
+function normalizeRecord(raw: Record<string, unknown>): Partial<PRDMetadata> {
+  const record: Partial<PRDMetadata> = {};
+
+  if (typeof raw.id === 'string' && raw.id) record.id = raw.id;
+  if (typeof raw.title === 'string' && raw.title) record.title = raw.title;
+
+  const status = parsePrdStatus(raw.status);
+  if (status) record.status = status;
+
+  const priority = parsePrdPriority(raw.priority);
+  if (priority) record.priority = priority;
+
+  if (Array.isArray(raw.tags)) record.tags = raw.tags.filter((t): t is string => typeof t === 'string');
+  if (COMPLEXITIES.includes(raw.complexity as PRDComplexity)) record.complexity = raw.complexity as PRDComplexity;
+  if (Array.isArray(raw.dependencies)) record.dependencies = raw.dependencies.map(String);
+  if (typeof raw.estimatedIterations === 'number') record.estimatedIterations = raw.estimatedIterations;
+  if (typeof raw.actualIterations === 'number') record.actualIterations = raw.actualIterations;
+
+  // The old queue file called this addedAt
+  const createdAt = raw.createdAt ?? raw.addedAt;
+  if (typeof createdAt === 'string') record.createdAt = createdAt;
+  if (typeof raw.completedAt === 'string') record.completedAt = raw.completedAt;
+  if (typeof raw.archived === 'boolean') record.archived = raw.archived;
+
+  return record;
+}
+
+async function readJson(file: string): Promise<Record<string, unknown> | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+  return JSON.parse(content);
+}
+
+// Legacy files are best-effort: an unreadable one is skipped, not fatal
+async function readLegacyJson(file: string): Promise<Record<string, unknown> | null> {
+  try {
+    return await readJson(file);
+  } catch (error) {
+    console.warn(`Skipping unreadable PRD queue file ${file}:`, error);
+    return null;
+  }
+}
+
+// Records from a legacy file, keyed by filename
+function legacyRecords(data: Record<string, unknown> | null, key: 'queue' | 'prds'): Map<string, Partial<PRDMetadata>> {
+  const records = new Map<string, Partial<PRDMetadata>>();
+  const items = data && Array.isArray(data[key]) ? data[key] as unknown[] : [];
+
+  for (const item of items) {
+    // .state/prd_queue.json may list bare filenames
+    const raw = typeof item === 'string' ? { filename: item, status: 'pending' } : item as Record<string, unknown>;
+    if (raw && typeof raw.filename === 'string') {
+      records.set(raw.filename, normalizeRecord(raw));
+    }
+  }
+
+  // .state/prd_queue.json tracks the running PRD separately
+  const inProgress = data?.inProgress;
+  const inProgressName = typeof inProgress === 'string'
+    ? inProgress
+    : (inProgress as { filename?: unknown } | null)?.filename;
+  if (typeof inProgressName === 'string') {
+    records.set(inProgressName, { ...records.get(inProgressName), status: 'in_progress' });
+  }
+
+  return records;
+}
+
+export function comparePrds(a: PRDMetadata, b: PRDMetadata): number {
+  if (Boolean(a.archived) !== Boolean(b.archived)) return a.archived ? 1 : -1;
+  return (STATUS_ORDER[a.status] - STATUS_ORDER[b.status])
+    || (a.priority - b.priority)
+    || a.createdAt.localeCompare(b.createdAt);
+}
+
+function collectTags(prds: PRDMetadata[]): string[] {
+  return Array.from(new Set(prds.flatMap(p => p.tags))).sort();
+}
+
+/**
+ * Load the queue, migrating legacy files and syncing with prds/*.md.
+ * Must run under the queue lock since it may write.
+ */
+async function loadQueue(instancePath: string): Promise<PRDQueueFile> {
+  const queuePath = getPrdQueuePath(instancePath);
+  const legacyFiles = getLegacyFiles(instancePath);
+
+  const current = await readJson(queuePath);
+  const isCurrent = current?.version === PRD_QUEUE_VERSION;
+  const organizer = await readLegacyJson(legacyFiles.organizer);
+  const stateQueue = await readLegacyJson(legacyFiles.stateQueue);
+  const migrating = Boolean((current && !isCurrent) || organizer || stateQueue);
+
+  // Lowest precedence first: the old queue's status wins over the organizer's, and the
+  // current file wins over everything
+  const merged = new Map<string, Partial<PRDMetadata>>();
+  const sources = [
+    legacyRecords(stateQueue, 'queue'),
+    legacyRecords(organizer, 'prds'),
+    legacyRecords(isCurrent ? null : current, 'queue'),
+    legacyRecords(isCurrent ? current : null, 'prds'),
+  ];
+  for (const source of sources) {
+    for (const [filename, record] of source) {
+      merged.set(filename, { ...merged.get(filename), ...record });
+    }
+  }
+
+  // One record per PRD file; records whose file is gone are dropped
+  const prdsDir = path.join(instancePath, 'prds');
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(prdsDir)).filter(f => f.endsWith('.md'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  let changed = migrating || merged.size !== files.length;
+  const prds: PRDMetadata[] = [];
+  for (const filename of files) {
+    const record = merged.get(filename);
+    const complete = record?.id && record.title && record.status && record.priority && record.tags
+      && record.complexity && record.dependencies && record.estimatedIterations !== undefined && record.createdAt;
+
+    if (complete) {
+      prds.push({ ...record, filename } as PRDMetadata);
+      continue;
+    }
+
+    const filePath = path.join(prdsDir, filename);
+    const [content, stat] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+    prds.push({ ...createPrdRecord(filename, content, { createdAt: stat.birthtime.toISOString() }), ...record, filename });
+    changed = true;
+  }
+
+  prds.sort(comparePrds);
+  const queue: PRDQueueFile = {
+    version: PRD_QUEUE_VERSION,
+    prds,
+    tags: collectTags(prds),
+    lastUpdated: typeof current?.lastUpdated === 'string' && isCurrent ? current.lastUpdated : new Date().toISOString(),
+  };
+
+  if (changed) {
+    if (current && !isCurrent) {
+      await fs.copyFile(queuePath, `${queuePath}.migrated`);
+    }
+    await writeQueue(instancePath, queue);
+  }
+
+  if (migrating) {
+    for (const file of Object.values(legacyFiles)) {
+      await fs.rename(file, `${file}.migrated`).catch(() => {});
+    }
+  }
+
+  return queue;
+}
+
+async function writeQueue(instancePath: string, queue: PRDQueueFile): Promise<void> {
+  const file = getPrdQueuePath(instancePath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  queue.lastUpdated = new Date().toISOString();
+  const tempFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(queue, null, 2), 'utf-8');
+  await fs.rename(tempFile, file);
+}
+
+async function withQueueLock<T>(instancePath: string, fn: () => Promise<T>): Promise<T> {
+  const locked = () => withFileLock(`${getPrdQueuePath(instancePath)}.lock`, fn);
+
+  const previous = locks.get(instancePath) ?? Promise.resolve();
+  const run = previous.then(locked, locked);
+  const settled = run.catch(() => {});
+  locks.set(instancePath, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (locks.get(instancePath) === settled) {
+      locks.delete(instancePath);
+    }
+  }
+}
+
+/**
+ * Read the queue, sorted: active before archived, then in progress, blocked, pending, completed,
+ * then priority, then oldest first
+ */
+export async function readPrdQueue(instancePath: string): Promise<PRDQueueFile> {
+  return withQueueLock(instancePath, () => loadQueue(instancePath));
+}
+
+/**
+ * Read-modify-write the queue. fn mutates queue.prds in place; the result is re-sorted and saved.
+ */
+export async function updatePrdQueue<T>(
+  instancePath: string,
+  fn: (queue: PRDQueueFile) => T | Promise<T>
+): Promise<T> {
+  return withQueueLock(instancePath, async () => {
+    const queue = await loadQueue(instancePath);
+    const result = await fn(queue);
+    queue.prds.sort(comparePrds);
+    queue.tags = collectTags(queue.prds);
+    await writeQueue(instancePath, queue);
+    return result;
+  });
+}
+
+/**
+ * Apply a status change, stamping completedAt the first time a PRD completes
+ */
+export function setPrdStatus(prd: PRDMetadata, status: PRDStatus): void {
+  prd.status = status;
+  if (status === 'completed' && !prd.completedAt) {
+    prd.completedAt = new Date().toISOString();
+  }
+}
+
+export function getPrdQueueStats(prds: PRDMetadata[]): PRDQueueStats {
+  const active = prds.filter(p => !p.archived);
+  return {
+    total: prds.length,
+    pending: active.filter(p => p.status === 'pending').length,
+    inProgress: active.filter(p => p.status === 'in_progress').length,
+    blocked: active.filter(p => p.status === 'blocked').length,
+    completed: active.filter(p => p.status === 'completed').length,
+    archived: prds.length - active.length,
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * PRD Templates
+ * Section scaffolds for each template offered by the PRD generator
+ * (ids match TemplateSelector in components/prd)
+ */
+
+export type PRDTemplateId =
+  | 'feature'
+  | 'bug_fix'
+  | 'refactoring'
+  | 'api_integration'
+  | 'testing'
+  | 'documentation'
+  | 'performance';
+
+export interface PRDTemplate {
+  id: PRDTemplateId;
+  name: string;
+  guidance: string;
+  scaffold: string;
+}
+
+const ACCEPTANCE_AND_PRIORITY = `## Acceptance Criteria
+- [ ] [Specific, testable criterion]
+- [ ] [Specific, testable criterion]
+
+## Priority
+[High/Medium/Low]
+
+## Estimated Complexity
+[Simple/Medium/Complex]`;
+
+export const PRD_TEMPLATES: Record<PRDTemplateId, PRDTemplate> = {
+  feature: {
+    id: 'feature',
+    name: 'Feature Addition',
+    guidance: 'Describe a new user-facing capability end to end, from user stories to the files that change.',
+    scaffold: `# PRD: [Feature Name]
+
+## Overview
+[What this feature does and why - 2-3 sentences]
+
+## Goals
+- [What success looks like]
+
+## User Stories
+- As a [role], I want to [action] so that [benefit]
+
+## Technical Requirements
+
+### Architecture
+[Files and components to create or modify]
+
+### Implementation Details
+[API endpoints, data models, UI states]
+
+### Dependencies
+[Libraries, services, prerequisites]
+
+${ACCEPTANCE_AND_PRIORITY}
+
+## Out of Scope (v1)
+- [What we are not building yet]`,
+  },
+  bug_fix: {
+    id: 'bug_fix',
+    name: 'Bug Fix',
+    guidance: 'Focus on reproducing, diagnosing and fixing one defect, and on preventing regressions.',
+    scaffold: `# PRD: Fix [Bug Summary]
+
+## Overview
+[What is broken and who it affects]
+
+## Steps to Reproduce
+1. [Step]
+2. [Step]
+
+## Expected Behavior
+[What should happen]
+
+## Actual Behavior
+[What happens instead, including errors or logs]
+
+## Root Cause Analysis
+[Suspected or confirmed cause, with file paths]
+
+## Proposed Fix
+[Code changes required]
+
+## Regression Tests
+- [Test that fails before the fix and passes after]
+
+${ACCEPTANCE_AND_PRIORITY}`,
+  },
+  refactoring: {
+    id: 'refactoring',
+    name: 'Refactoring',
+    guidance: 'Improve code structure without changing behavior; be explicit about what must stay identical.',
+    scaffold: `# PRD: Refactor [Area]
+
+## Overview
+[What is being restructured and why]
+
+## Current State
+[How the code is organized today and what hurts]
+
+## Target State
+[How the code should be organized afterwards]
+
+## Migration Steps
+1. [Incremental, behavior-preserving step]
+
+## Behavior That Must Not Change
+- [Public API, output format, side effect]
+
+## Risks
+- [What could break and how we will notice]
+
+${ACCEPTANCE_AND_PRIORITY}`,
+  },
+  api_integration: {
+    id: 'api_integration',
+    name: 'API Integration',
+    guidance: 'Integrate an external service; cover authentication, error handling, rate limits and configuration.',
+    scaffold: `# PRD: Integrate [Service Name]
+
+## Overview
+[What the integration enables]
+
+## External API
+- Base URL: [URL]
+- Endpoints used: [List]
+- Documentation: [Link]
+
+## Authentication
+[API keys, OAuth, where secrets live]
+
+## Data Mapping
+[How external data maps to internal models]
+
+## Error Handling & Rate Limits
+[Retries, backoff, timeouts, quota handling]
+
+## Configuration
+[Environment variables and defaults]
+
+## Technical Requirements
+[Files and modules to create or modify]
+
+${ACCEPTANCE_AND_PRIORITY}`,
+  },
+  testing: {
+    id: 'testing',
+    name: 'Testing',
+    guidance: 'Define a test suite: what is covered, at which level, with which tools and fixtures.',
+    scaffold: `# PRD: Tests for [Area]
+
+## Overview
+[What is being tested and why now]
+
+## Scope
+- [Modules, routes or components in scope]
+
+## Test Strategy
+- Unit: [What]
+- Integration: [What]
+- End-to-end: [What]
+
+## Test Cases
+- [ ] [Case: input -> expected result]
+
+## Fixtures & Mocks
+[Test data and external services to stub]
+
+## Tooling
+[Test runner, commands, CI integration]
+
+${ACCEPTANCE_AND_PRIORITY}`,
+  },
+  documentation: {
+    id: 'documentation',
+    name: 'Documentation',
+    guidance: 'Plan documentation for a specific audience, with an outline and runnable examples.',
+    scaffold: `# PRD: Document [Topic]
+
+## Overview
+[What documentation is missing or outdated]
+
+## Audience
+[Who reads this and what they already know]
+
+## Outline
+1. [Section]
+2. [Section]
+
+## Examples to Include
+- [Code sample or walkthrough]
+
+## Location & Format
+[Where the docs live and how they are published]
+
+${ACCEPTANCE_AND_PRIORITY}`,
+  },
+  performance: {
+    id: 'performance',
+    name: 'Performance',
+    guidance: 'Optimize a measured bottleneck; start from a baseline and define numeric targets.',
+    scaffold: `# PRD: Improve Performance of [Area]
+
+## Overview
+[What is slow and the impact on users]
+
+## Baseline Metrics
+- [Metric]: [Current value, how it was measured]
+
+## Target Metrics
+- [Metric]: [Target value]
+
+## Profiling Findings
+[Where the time or memory goes]
+
+## Proposed Optimizations
+1. [Change and expected gain]
+
+## Measurement Plan
+[How to verify the improvement and prevent regressions]
+
+${ACCEPTANCE_AND_PRIORITY}`,
+  },
+};
+
+/**
+ * Look up a template by id (null for unknown ids or "no template")
+ */
+export function getPrdTemplate(id: unknown): PRDTemplate | null {
+  if (typeof id !== 'string' || !(id in PRD_TEMPLATES)) {
+    return null;
+  }
+  return PRD_TEMPLATES[id as PRDTemplateId];
+}
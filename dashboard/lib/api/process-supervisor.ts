@@ -0,0 +1,471 @@
+/**
+ * Process Supervisor
+ * Starts and stops an instance's scripts/worker.sh and scripts/manager.sh without a shell:
+ * argv arrays only, options passed through the environment the scripts already read.
+ * Each process runs in its own process group so stopping it also stops the claude CLI it runs.
+ *
+ * PIDs go to .state/<role>.pid (as orchestrator.sh writes them, so either can stop the other's
+ * processes) and the last exit to .state/<role>_exit.json.
+ *
+ * Pausing doesn't signal anything: it writes .state/pause_requested, which worker.sh checks between
+ * iterations, so the current claude run finishes and the loop holds until resume removes the marker.
+ * Draining works the same way with .state/stop_requested: the worker exits instead of holding.
+ *
+ * Starting a stopped worker runs crash recovery first (see instance-recovery.ts).
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { promises as fs, constants as fsConstants } from 'fs';
+import path from 'path';
+import { recoverInstance } from '@/lib/api/instance-recovery';
+import {
+  getPauseFile,
+  getPauseState,
+  getStopFile,
+  isProcessAlive,
+  isStopRequested,
+} from '@/lib/api/instance-status';
+import { MODEL_ALIASES, type ModelAlias } from '@/lib/types/llm';
+import type { RecoveryReport } from '@/lib/types/recovery';
+import {
+  MAX_ITERATIONS_LIMIT,
+  type ControlMarker,
+  type ProcessExit,
+  type ProcessResult,
+  type ProcessRole,
+  type StartOptions,
+  type SupervisedProcess,
+  type SupervisorAction,
+  type SupervisorResult,
+} from '@/lib/types/supervisor';
+
+// A start counts as failed if the script exits within this window
+const STARTUP_CHECK_MS = 1000;
+// Wait between starting the worker and the manager, as orchestrator.sh does
+const MANAGER_START_DELAY_MS = 2000;
+const STOP_GRACE_MS = 5000;
+const STOP_POLL_MS = 100;
+const OUTPUT_TAIL_BYTES = 2048;
+
+const ROLES: ProcessRole[] = ['worker', 'manager'];
+
+interface TrackedProcess {
+  child: ChildProcess;
+  pid: number;
+  exit: ProcessExit | null;
+  exited: Promise<ProcessExit>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function pidFile(instancePath: string, role: ProcessRole): string {
+  return path.join(instancePath, '.state', `${role}.pid`);
+}
+
+function exitFile(instancePath: string, role: ProcessRole): string {
+  return path.join(instancePath, '.state', `${role}_exit.json`);
+}
+
+function stdoutLog(instancePath: string, role: ProcessRole): string {
+  return path.join(instancePath, 'logs', `${role}_stdout.log`);
+}
+
+async function readPid(file: string): Promise<number | null> {
+  try {
+    const pid = parseInt((await fs.readFile(file, 'utf-8')).trim(), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readTail(file: string, bytes: number): Promise<string> {
+  try {
+    const handle = await fs.open(file, 'r');
+    try {
+      const { size } = await handle.stat();
+      const length = Math.min(size, bytes);
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, size - length);
+      return buffer.toString('utf-8');
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Signal a process group, falling back to the single process when it isn't a group leader
+ * (processes started by orchestrator.sh share the orchestrator's group)
+ */
+function signalProcess(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Validate start options from a request body. Omitted fields keep the scripts' defaults.
+ */
+export function parseStartOptions(body: Record<string, unknown>): { options: StartOptions; error?: string } {
+  const options: StartOptions = {};
+
+  for (const key of ['workerModel', 'managerModel'] as const) {
+    if (body[key] !== undefined) {
+      if (!MODEL_ALIASES.includes(body[key] as ModelAlias)) {
+        return { options, error: `${key} must be one of: ${MODEL_ALIASES.join(', ')}` };
+      }
+      options[key] = body[key] as ModelAlias;
+    }
+  }
+
+  if (body.maxIterations !== undefined) {
+    const value = body.maxIterations;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_ITERATIONS_LIMIT) {
+      return { options, error: `maxIterations must be an integer between 1 and ${MAX_ITERATIONS_LIMIT}` };
+    }
+    options.maxIterations = value;
+  }
+
+  if (body.noManager !== undefined) {
+    options.noManager = Boolean(body.noManager);
+  }
+
+  return { options };
+}
+
+// Options as the environment variables worker.sh and manager.sh read
+function buildEnv(options: StartOptions): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  if (options.workerModel) env.WORKER_MODEL = options.workerModel;
+  if (options.managerModel) env.MANAGER_MODEL = options.managerModel;
+  if (options.maxIterations !== undefined) env.MAX_ITERATIONS = String(options.maxIterations);
+  return env;
+}
+
+/**
+ * One-line error message for the failed processes in a result
+ */
+export function describeFailures(result: SupervisorResult): string {
+  return result.results
+    .filter(r => r.outcome === 'failed')
+    .map(r => `${r.role}: ${r.error ?? 'failed'}`)
+    .join('; ');
+}
+
+class ProcessSupervisor {
+  private processes = new Map<string, TrackedProcess>();
+  private actions = new Map<string, Promise<unknown>>();
+
+  private key(instancePath: string, role: ProcessRole): string {
+    return `${instancePath}\0${role}`;
+  }
+
+  /**
+   * PID of the running process for a role, whether we started it or orchestrator.sh did
+   */
+  private async runningPid(instancePath: string, role: ProcessRole): Promise<number | null> {
+    const tracked = this.processes.get(this.key(instancePath, role));
+    if (tracked && !tracked.exit) {
+      return tracked.pid;
+    }
+
+    const pid = await readPid(pidFile(instancePath, role));
+    return pid && isProcessAlive(pid) ? pid : null;
+  }
+
+  async getLastExit(instancePath: string, role: ProcessRole): Promise<ProcessExit | null> {
+    const tracked = this.processes.get(this.key(instancePath, role));
+    if (tracked?.exit) {
+      return tracked.exit;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(exitFile(instancePath, role), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async getProcesses(instancePath: string): Promise<SupervisedProcess[]> {
+    return Promise.all(ROLES.map(async role => {
+      const pid = await this.runningPid(instancePath, role);
+      return {
+        role,
+        running: pid !== null,
+        pid,
+        lastExit: await this.getLastExit(instancePath, role),
+        pause: role === 'worker' && pid !== null ? await getPauseState(instancePath) : null,
+        stopRequested: role === 'worker' && pid !== null && await isStopRequested(instancePath),
+      };
+    }));
+  }
+
+  private async startRole(instancePath: string, role: ProcessRole, options: StartOptions): Promise<ProcessResult> {
+    const runningPid = await this.runningPid(instancePath, role);
+    if (runningPid) {
+      return { role, outcome: 'already-running', pid: runningPid, exit: null };
+    }
+
+    const script = path.join(instancePath, 'scripts', `${role}.sh`);
+    try {
+      await fs.access(script, fsConstants.R_OK);
+    } catch {
+      return { role, outcome: 'failed', pid: null, exit: null, error: `Missing scripts/${role}.sh` };
+    }
+
+    await fs.mkdir(path.join(instancePath, '.state'), { recursive: true });
+    await fs.mkdir(path.join(instancePath, 'logs'), { recursive: true });
+
+    const logHandle = await fs.open(stdoutLog(instancePath, role), 'a');
+    let tracked: TrackedProcess;
+    try {
+      const child = spawn('bash', [script], {
+        cwd: instancePath,
+        env: buildEnv(options),
+        detached: true,
+        stdio: ['ignore', logHandle.fd, logHandle.fd],
+      });
+
+      // Listen for exit before any await so a script that dies immediately isn't missed
+      const exited = new Promise<ProcessExit>(resolve => {
+        child.once('exit', (code, signal) => {
+          const exit = { pid: child.pid!, exitCode: code, signal, exitedAt: new Date().toISOString() };
+          const entry = this.processes.get(this.key(instancePath, role));
+          if (entry?.child === child) {
+            entry.exit = exit;
+          }
+          this.recordExit(instancePath, role, exit).finally(() => resolve(exit));
+        });
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        child.once('spawn', resolve);
+        child.once('error', reject);
+      });
+
+      tracked = { child, pid: child.pid!, exit: null, exited };
+    } catch (error) {
+      return {
+        role,
+        outcome: 'failed',
+        pid: null,
+        exit: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      await logHandle.close();
+    }
+
+    const pid = tracked.pid;
+    this.processes.set(this.key(instancePath, role), tracked);
+    tracked.child.unref();
+
+    await fs.writeFile(pidFile(instancePath, role), String(pid), 'utf-8');
+
+    const earlyExit = await Promise.race([tracked.exited, sleep(STARTUP_CHECK_MS).then(() => null)]);
+    if (earlyExit) {
+      return {
+        role,
+        outcome: 'failed',
+        pid,
+        exit: earlyExit,
+        error: `${role}.sh exited during startup (code ${earlyExit.exitCode ?? earlyExit.signal})`,
+        output: await readTail(stdoutLog(instancePath, role), OUTPUT_TAIL_BYTES),
+      };
+    }
+
+    return { role, outcome: 'started', pid, exit: null };
+  }
+
+  private async recordExit(instancePath: string, role: ProcessRole, exit: ProcessExit): Promise<void> {
+    try {
+      await fs.writeFile(exitFile(instancePath, role), JSON.stringify(exit, null, 2), 'utf-8');
+      // Only clear the PID file if it's still ours
+      if (await readPid(pidFile(instancePath, role)) === exit.pid) {
+        await fs.rm(pidFile(instancePath, role), { force: true });
+      }
+    } catch (error) {
+      console.error(`[Supervisor] Failed to record ${role} exit:`, error);
+    }
+  }
+
+  private async stopRole(instancePath: string, role: ProcessRole): Promise<ProcessResult> {
+    const pid = await this.runningPid(instancePath, role);
+    if (!pid) {
+      await fs.rm(pidFile(instancePath, role), { force: true });
+      return { role, outcome: 'not-running', pid: null, exit: null };
+    }
+
+    const tracked = this.processes.get(this.key(instancePath, role));
+    const isAlive = () => (tracked?.pid === pid ? !tracked.exit : isProcessAlive(pid));
+
+    signalProcess(pid, 'SIGTERM');
+    const deadline = Date.now() + STOP_GRACE_MS;
+    while (isAlive() && Date.now() < deadline) {
+      await sleep(STOP_POLL_MS);
+    }
+
+    if (isAlive()) {
+      signalProcess(pid, 'SIGKILL');
+      await sleep(STOP_POLL_MS);
+    }
+
+    // The exit code is only known for processes we spawned
+    const exit = tracked?.pid === pid ? await Promise.race([tracked.exited, sleep(STOP_POLL_MS).then(() => null)]) : null;
+    await fs.rm(pidFile(instancePath, role), { force: true });
+
+    if (isAlive()) {
+      return { role, outcome: 'failed', pid, exit: null, error: `${role} (PID ${pid}) did not exit after SIGKILL` };
+    }
+    return { role, outcome: 'stopped', pid, exit };
+  }
+
+  // One action at a time per instance, so two starts can't both spawn
+  private async serialize<T>(instancePath: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.actions.get(instancePath) ?? Promise.resolve();
+    const run = previous.then(fn, fn);
+    const settled = run.catch(() => {});
+    this.actions.set(instancePath, settled);
+
+    try {
+      return await run;
+    } finally {
+      if (this.actions.get(instancePath) === settled) {
+        this.actions.delete(instancePath);
+      }
+    }
+  }
+
+  private result(action: SupervisorAction, instancePath: string, results: ProcessResult[]): SupervisorResult {
+    return { ok: results.every(r => r.outcome !== 'failed'), action, instancePath, results };
+  }
+
+  /**
+   * Start the worker, then the manager unless options.noManager
+   */
+  async start(instancePath: string, options: StartOptions = {}): Promise<SupervisorResult> {
+    return this.serialize(instancePath, () => this.startAll(instancePath, options));
+  }
+
+  private async startAll(instancePath: string, options: StartOptions): Promise<SupervisorResult> {
+    if (!await this.runningPid(instancePath, 'worker')) {
+      try {
+        await recoverInstance(instancePath, 'start');
+      } catch (error) {
+        // A failed recovery shouldn't keep the instance from starting
+        console.error('[Supervisor] Recovery before start failed:', error);
+      }
+    }
+
+    const worker = await this.startRole(instancePath, 'worker', options);
+    const results = [worker];
+
+    if (!options.noManager && worker.outcome !== 'failed') {
+      if (worker.outcome === 'started') {
+        await sleep(MANAGER_START_DELAY_MS);
+      }
+      results.push(await this.startRole(instancePath, 'manager', options));
+    }
+
+    return this.result('start', instancePath, results);
+  }
+
+  /**
+   * Stop the worker and manager: SIGTERM to each process group, SIGKILL after a grace period
+   */
+  async stop(instancePath: string): Promise<SupervisorResult> {
+    return this.serialize(instancePath, () => this.stopAll(instancePath));
+  }
+
+  private async stopAll(instancePath: string): Promise<SupervisorResult> {
+    const results = await Promise.all(ROLES.map(role => this.stopRole(instancePath, role)));
+    // A stopped instance starts unpaused
+    if (results.every(r => r.outcome !== 'failed')) {
+      await fs.rm(getPauseFile(instancePath), { force: true });
+      await fs.rm(getStopFile(instancePath), { force: true });
+    }
+    return this.result('stop', instancePath, results);
+  }
+
+  /**
+   * Stop the worker once its current iteration finishes, so no task is left half done.
+   * The manager exits by itself after its final review.
+   */
+  async drain(instancePath: string): Promise<SupervisorResult> {
+    return this.serialize(instancePath, async () => {
+      const pid = await this.runningPid(instancePath, 'worker');
+      if (!pid) {
+        return this.result('drain', instancePath, [{ role: 'worker', outcome: 'not-running', pid: null, exit: null }]);
+      }
+
+      const marker: ControlMarker = { requestedAt: new Date().toISOString() };
+      await fs.writeFile(getStopFile(instancePath), JSON.stringify(marker, null, 2), 'utf-8');
+      return this.result('drain', instancePath, [{ role: 'worker', outcome: 'draining', pid, exit: null }]);
+    });
+  }
+
+  async restart(instancePath: string, options: StartOptions = {}): Promise<SupervisorResult> {
+    return this.serialize(instancePath, async () => {
+      const stopped = await this.stopAll(instancePath);
+      if (!stopped.ok) {
+        return { ...stopped, action: 'restart' as const };
+      }
+
+      const started = await this.startAll(instancePath, options);
+      return { ...started, action: 'restart' as const, results: [...stopped.results, ...started.results] };
+    });
+  }
+
+  /**
+   * Run crash recovery on demand. Only cleans up the worker's tasks while it is stopped.
+   */
+  async recover(instancePath: string): Promise<RecoveryReport> {
+    return this.serialize(instancePath, () => recoverInstance(instancePath, 'manual'));
+  }
+
+  /**
+   * Hold the worker after its current iteration. The marker outlives the dashboard,
+   * so a paused worker stays paused until resumed or stopped.
+   */
+  async pause(instancePath: string): Promise<SupervisorResult> {
+    return this.serialize(instancePath, async () => {
+      const pid = await this.runningPid(instancePath, 'worker');
+      if (!pid) {
+        return this.result('pause', instancePath, [
+          { role: 'worker', outcome: 'failed', pid: null, exit: null, error: 'Worker is not running' },
+        ]);
+      }
+
+      if (await getPauseState(instancePath)) {
+        return this.result('pause', instancePath, [{ role: 'worker', outcome: 'already-paused', pid, exit: null }]);
+      }
+
+      const marker: ControlMarker = { requestedAt: new Date().toISOString() };
+      await fs.writeFile(getPauseFile(instancePath), JSON.stringify(marker, null, 2), 'utf-8');
+      return this.result('pause', instancePath, [{ role: 'worker', outcome: 'paused', pid, exit: null }]);
+    });
+  }
+
+  /**
+   * Let a paused worker continue with its next iteration
+   */
+  async resume(instancePath: string): Promise<SupervisorResult> {
+    return this.serialize(instancePath, async () => {
+      const pid = await this.runningPid(instancePath, 'worker');
+      const outcome = await getPauseState(instancePath) ? 'resumed' : 'not-paused';
+      await fs.rm(getPauseFile(instancePath), { force: true });
+      return this.result('resume', instancePath, [{ role: 'worker', outcome, pid, exit: null }]);
+    });
+  }
+}
+
+export const processSupervisor = new ProcessSupervisor();
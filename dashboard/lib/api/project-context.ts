@@ -0,0 +1,378 @@
+/**
+ * Project Context
+ * A markdown summary of an instance's project (config.json projectPath) for the planning prompts:
+ * package manifests, README, routes, source modules, recently changed files and the file tree with
+ * sizes, in that order of priority, cut to fit a token budget (llm.json projectContextTokens).
+ *
+ * Summaries are cached per project. At most every RECHECK_INTERVAL_MS a request walks the tree and
+ * compares a fingerprint of every file's path, size and mtime, so a summary is rebuilt only when
+ * the project changes; requests in between reuse it as it is.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { resolveInstance } from '@/lib/api/instance-registry';
+import { DEFAULT_PROJECT_CONTEXT_TOKENS, PROJECT_CONTEXT_HEADING } from '@/lib/llm/models';
+import { readLlmSettings } from '@/lib/llm/provider';
+import type { ProjectContext, ProjectFile } from '@/lib/types/project';
+
+const IGNORED_DIRS = new Set([
+  'node_modules', 'dist', 'build', 'out', 'coverage', 'target', 'vendor',
+  '__pycache__', 'venv', 'env', 'bower_components',
+]);
+// Hidden directories are skipped, except these
+const INCLUDED_HIDDEN_DIRS = new Set(['.github']);
+const MAX_FILES = 5000;
+const MAX_DEPTH = 12;
+const RECHECK_INTERVAL_MS = 30000;
+
+const MANIFEST_FILES = new Set([
+  'package.json', 'pyproject.toml', 'requirements.txt', 'Cargo.toml', 'go.mod',
+  'Gemfile', 'composer.json', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'Makefile',
+]);
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.rb', '.java', '.kt',
+  '.swift', '.c', '.cc', '.cpp', '.h', '.hpp', '.cs', '.php', '.sh', '.vue', '.svelte',
+]);
+const MANIFEST_LINES = 40;
+const RECENT_FILES = 15;
+const MODULE_FILES_SHOWN = 12;
+
+// Share of the budget each section may take; the file tree gets whatever is left
+const SECTION_SHARES = {
+  manifests: 0.25,
+  readme: 0.2,
+  routes: 0.15,
+  modules: 0.15,
+  recent: 0.05,
+};
+
+const CHARS_PER_TOKEN = 4;
+
+interface CacheEntry {
+  context: ProjectContext;
+  // When the project was last walked
+  checkedAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+// Cut at a line boundary to at most maxChars
+function clip(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const marker = '\n... (truncated)';
+  if (maxChars <= marker.length) return '';
+  const cut = text.lastIndexOf('\n', maxChars - marker.length);
+  return text.slice(0, cut > 0 ? cut : maxChars - marker.length) + marker;
+}
+
+async function walkProject(projectPath: string): Promise<{ files: ProjectFile[]; truncated: boolean }> {
+  const files: ProjectFile[] = [];
+  let truncated = false;
+
+  async function walk(dir: string, depth: number): Promise<void> {
+    if (depth > MAX_DEPTH) return;
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (files.length >= MAX_FILES) {
+        truncated = true;
+        return;
+      }
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (IGNORED_DIRS.has(entry.name)) continue;
+        if (entry.name.startsWith('.') && !INCLUDED_HIDDEN_DIRS.has(entry.name)) continue;
+        await walk(fullPath, depth + 1);
+      } else if (entry.isFile() && !entry.name.startsWith('.')) {
+        try {
+          const stat = await fs.stat(fullPath);
+          files.push({
+            path: path.relative(projectPath, fullPath).split(path.sep).join('/'),
+            size: stat.size,
+            mtimeMs: stat.mtimeMs,
+          });
+        } catch {
+          // Removed while walking
+        }
+      }
+    }
+  }
+
+  await walk(projectPath, 0);
+  return { files, truncated };
+}
+
+function fingerprintFiles(files: ProjectFile[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const file of files) hash.update(`${file.path}:${file.size}:${file.mtimeMs}\n`);
+  return hash.digest('hex').slice(0, 16);
+}
+
+async function readText(file: string): Promise<string> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+function summarizePackageJson(content: string): string {
+  try {
+    const pkg = JSON.parse(content);
+    const lines = [`name: ${pkg.name ?? '(unnamed)'}${pkg.version ? ` ${pkg.version}` : ''}`];
+    if (pkg.scripts) lines.push(`scripts: ${Object.keys(pkg.scripts).join(', ')}`);
+    if (pkg.dependencies) lines.push(`dependencies: ${Object.keys(pkg.dependencies).join(', ')}`);
+    if (pkg.devDependencies) lines.push(`devDependencies: ${Object.keys(pkg.devDependencies).join(', ')}`);
+    return lines.join('\n');
+  } catch {
+    return content.split('\n').slice(0, MANIFEST_LINES).join('\n');
+  }
+}
+
+// Manifests at the root and one level down (monorepo packages)
+async function manifestsSection(projectPath: string, files: ProjectFile[]): Promise<string> {
+  const manifests = files.filter(f => MANIFEST_FILES.has(path.posix.basename(f.path)) && f.path.split('/').length <= 2);
+  const parts: string[] = [];
+  for (const manifest of manifests) {
+    const content = await readText(path.join(projectPath, manifest.path));
+    const summary = path.posix.basename(manifest.path) === 'package.json'
+      ? summarizePackageJson(content)
+      : content.split('\n').slice(0, MANIFEST_LINES).join('\n');
+    parts.push(`### ${manifest.path}\n\`\`\`\n${summary.trim()}\n\`\`\``);
+  }
+  return parts.join('\n\n');
+}
+
+async function readmeSection(projectPath: string, files: ProjectFile[]): Promise<string> {
+  const readme = files.find(f => /^readme(\.(md|markdown|txt|rst))?$/i.test(f.path));
+  if (!readme) return '';
+
+  // Nest its headings under the section's, leaving code blocks alone
+  let inCode = false;
+  return (await readText(path.join(projectPath, readme.path)))
+    .trim()
+    .split('\n')
+    .map(line => {
+      if (line.trimStart().startsWith('```')) inCode = !inCode;
+      return inCode ? line : line.replace(/^(#{1,4}) /, '##$1 ');
+    })
+    .join('\n');
+}
+
+// Next.js app and pages routes, or files in routes/, controllers/ and api/ directories
+function routesSection(files: ProjectFile[]): string {
+  const lines: string[] = [];
+  for (const file of files) {
+    const appRoute = file.path.match(/(?:^|\/)app\/(.*?)\/?(page|route)\.(?:tsx?|jsx?)$/);
+    if (appRoute) {
+      const route = '/' + appRoute[1].split('/').filter(s => s && !/^\(.*\)$/.test(s)).join('/');
+      lines.push(`- ${appRoute[2] === 'route' ? 'API' : 'page'} ${route} (${file.path})`);
+      continue;
+    }
+    const pagesRoute = file.path.match(/(?:^|\/)pages\/(.+?)\.(?:tsx?|jsx?)$/);
+    if (pagesRoute && !/^_/.test(path.posix.basename(pagesRoute[1]))) {
+      const route = '/' + pagesRoute[1].replace(/(^|\/)index$/, '');
+      lines.push(`- ${route.startsWith('/api') ? 'API' : 'page'} ${route} (${file.path})`);
+      continue;
+    }
+    if (/(?:^|\/)(routes|controllers|api)\//.test(file.path) && SOURCE_EXTENSIONS.has(path.posix.extname(file.path))) {
+      lines.push(`- ${file.path}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+// Source files grouped by directory
+function modulesSection(files: ProjectFile[]): string {
+  const byDir = new Map<string, string[]>();
+  for (const file of files) {
+    if (!SOURCE_EXTENSIONS.has(path.posix.extname(file.path))) continue;
+    const dir = path.posix.dirname(file.path);
+    byDir.set(dir, [...(byDir.get(dir) ?? []), path.posix.basename(file.path)]);
+  }
+
+  return [...byDir.entries()]
+    .map(([dir, names]) => {
+      const shown = names.slice(0, MODULE_FILES_SHOWN).join(', ');
+      const more = names.length > MODULE_FILES_SHOWN ? `, ... (${names.length - MODULE_FILES_SHOWN} more)` : '';
+      return `- ${dir === '.' ? '(root)' : `${dir}/`}: ${shown}${more}`;
+    })
+    .join('\n');
+}
+
+function recentSection(files: ProjectFile[]): string {
+  return [...files]
+    .sort((a, b) => b.mtimeMs - a.mtimeMs)
+    .slice(0, RECENT_FILES)
+    .map(f => `- ${f.path} (${new Date(f.mtimeMs).toISOString().slice(0, 16).replace('T', ' ')})`)
+    .join('\n');
+}
+
+interface TreeNode {
+  files: ProjectFile[];
+  dirs: Map<string, TreeNode>;
+  size: number;
+  count: number;
+}
+
+// Directories first, with their file counts and total sizes, as deep as maxChars allows
+function treeSection(files: ProjectFile[], maxChars: number): string {
+  const root: TreeNode = { files: [], dirs: new Map(), size: 0, count: 0 };
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let node = root;
+    node.size += file.size;
+    node.count++;
+    for (const part of parts.slice(0, -1)) {
+      let child = node.dirs.get(part);
+      if (!child) {
+        child = { files: [], dirs: new Map(), size: 0, count: 0 };
+        node.dirs.set(part, child);
+      }
+      child.size += file.size;
+      child.count++;
+      node = child;
+    }
+    node.files.push(file);
+  }
+
+  // Deepen one level at a time while the whole tree still fits
+  const render = (node: TreeNode, depth: number, maxDepth: number): string[] => {
+    const indent = '  '.repeat(depth);
+    const lines: string[] = [];
+    for (const [name, child] of node.dirs) {
+      lines.push(`${indent}${name}/ (${child.count} files, ${formatSize(child.size)})`);
+      if (depth + 1 < maxDepth) lines.push(...render(child, depth + 1, maxDepth));
+    }
+    if (depth < maxDepth) {
+      for (const file of node.files) {
+        lines.push(`${indent}${path.posix.basename(file.path)} (${formatSize(file.size)})`);
+      }
+    }
+    return lines;
+  };
+
+  let best = render(root, 0, 1).join('\n');
+  for (let depth = 2; depth <= MAX_DEPTH; depth++) {
+    const tree = render(root, 0, depth).join('\n');
+    if (tree.length > maxChars || tree === best) break;
+    best = tree;
+  }
+  return clip(best, maxChars);
+}
+
+async function buildSummary(
+  projectPath: string,
+  files: ProjectFile[],
+  truncated: boolean,
+  tokenBudget: number
+): Promise<string> {
+  const budget = tokenBudget * CHARS_PER_TOKEN;
+  const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+  const parts = [
+    `Project at ${projectPath}: ${files.length}${truncated ? '+' : ''} files, ${formatSize(totalSize)}` +
+      ' (dependencies, build output and hidden directories left out)',
+  ];
+  let used = parts[0].length;
+
+  const add = (title: string, body: string, share: number) => {
+    if (!body) return;
+    const section = clip(`## ${title}\n${body}`, Math.min(budget * share, budget - used));
+    if (!section) return;
+    parts.push(section);
+    used += section.length + 2;
+  };
+
+  add('Package manifests', await manifestsSection(projectPath, files), SECTION_SHARES.manifests);
+  add('README', await readmeSection(projectPath, files), SECTION_SHARES.readme);
+  add('Routes', routesSection(files), SECTION_SHARES.routes);
+  add('Source modules', modulesSection(files), SECTION_SHARES.modules);
+  add('Recently changed files', recentSection(files), SECTION_SHARES.recent);
+  add('File tree', treeSection(files, budget - used), 1);
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Summary of a project directory, rebuilt only if its files changed since it was last checked
+ */
+export async function buildProjectContext(projectPath: string, tokenBudget: number): Promise<ProjectContext> {
+  const key = `${projectPath}:${tokenBudget}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.checkedAt < RECHECK_INTERVAL_MS) return cached.context;
+
+  const checkedAt = Date.now();
+  const { files, truncated } = await walkProject(projectPath);
+  const fingerprint = fingerprintFiles(files);
+  if (cached?.context.fingerprint === fingerprint) {
+    cached.checkedAt = checkedAt;
+    return cached.context;
+  }
+
+  const summary = await buildSummary(projectPath, files, truncated, tokenBudget);
+  const context: ProjectContext = {
+    projectPath,
+    summary,
+    estimatedTokens: estimateTokens(summary),
+    tokenBudget,
+    fileCount: files.length,
+    fingerprint,
+    builtAt: new Date().toISOString(),
+  };
+  cache.set(key, { context, checkedAt });
+  return context;
+}
+
+/**
+ * Context for an instance's project, or null if config.json has no projectPath or it isn't a
+ * directory
+ */
+export async function getProjectContext(instancePath: string): Promise<ProjectContext | null> {
+  const instance = await resolveInstance(instancePath);
+  if (!instance?.projectPath) return null;
+
+  const projectPath = path.resolve(instancePath, instance.projectPath);
+  try {
+    if (!(await fs.stat(projectPath)).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+
+  const settings = await readLlmSettings();
+  return buildProjectContext(projectPath, settings.projectContextTokens ?? DEFAULT_PROJECT_CONTEXT_TOKENS);
+}
+
+/**
+ * The project summary as a system prompt section, or '' if there is none. Failures are logged,
+ * not thrown, so a planning call still goes ahead without it. Append it at the end of the system
+ * prompt: fixture keys leave out everything from its heading on.
+ */
+export async function projectContextPrompt(instancePath: string | null): Promise<string> {
+  if (!instancePath) return '';
+  try {
+    const context = await getProjectContext(instancePath);
+    if (!context) return '';
+    return `${PROJECT_CONTEXT_HEADING}This summary describes what already exists. Build on it and refer to real files, routes and modules.\n\n${context.summary}`;
+  } catch (error) {
+    console.error('Error building project context:', error);
+    return '';
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Review Reader
+ * Parses the manager's output/reviews/review_N.md files into score, issues and verdict, and links
+ * each review to the iteration report it judged (recorded by manager.sh in review_N.meta.json;
+ * older reviews fall back to the iteration named in the review text).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { resolveWithin } from '@/lib/api/path-security';
+import type { ReviewDetail, ReviewMeta, ReviewSummary, ReviewVerdict } from '@/lib/types/review';
+
+const REVIEW_FILE_PATTERN = /^review_(\d+)\.md$/;
+const MAX_REPORT_BYTES = 256 * 1024;
+
+interface ReviewFiles {
+  instancePath: string;
+  reviewsDir: string;
+  // Directory listings of output/reviews, output and the instance root (older manager prompts
+  // didn't say where to write the verdict file, so Claude wrote it to whichever it chose)
+  names: Map<string, string[]>;
+}
+
+async function readText(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Score out of 10: "Score: 8/10", "**Score**: 7.5", "## Score\n9"
+ */
+export function parseScore(content: string): number | null {
+  // Drop the "(1-10)" hint the prompt uses so it isn't read as the score
+  const text = content.replace(/\(\s*1\s*[-–]\s*10\s*\)/g, '');
+  const match = text.match(/score\b[^\d\n]*(?:\n[^\S\n]*[^\d\n]{0,10})?(\d+(?:\.\d+)?)(?:\s*\/\s*10)?/i);
+  if (!match) return null;
+
+  const score = parseFloat(match[1]);
+  return score >= 0 && score <= 10 ? score : null;
+}
+
+/**
+ * List items under the first heading (or bold line) that mentions issues
+ */
+export function parseIssues(content: string): string[] {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => /^\s*(#{1,6}\s*|\*\*)[^\n]*\bissues?\b/i.test(line));
+  if (start === -1) return [];
+
+  const issues: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\s*#{1,6}\s/.test(line) || /^\s*\*\*[^*]+\*\*:?\s*$/.test(line)) break;
+
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.+)$/);
+    if (!item) continue;
+
+    const text = item[1].replace(/\*\*/g, '').trim();
+    if (text && !/^(none|n\/a|no issues?( found)?)\.?$/i.test(text)) {
+      issues.push(text);
+    }
+  }
+  return issues;
+}
+
+function parseVerdictText(content: string): ReviewVerdict | null {
+  if (/\bNEEDS[_ ]WORK\b/.test(content)) return 'needs-work';
+  if (/\bAPPROVED\b/.test(content)) return 'approved';
+  return null;
+}
+
+/**
+ * APPROVED_N.md / NEEDS_WORK_N.md, newest if the manager wrote both
+ */
+async function findVerdictFile(
+  files: ReviewFiles,
+  number: number
+): Promise<{ verdict: ReviewVerdict; file: string } | null> {
+  const candidates: { verdict: ReviewVerdict; file: string; mtimeMs: number }[] = [];
+
+  for (const [dir, names] of files.names) {
+    for (const [verdict, name] of [['approved', `APPROVED_${number}.md`], ['needs-work', `NEEDS_WORK_${number}.md`]] as const) {
+      if (!names.includes(name)) continue;
+      try {
+        const file = path.join(dir, name);
+        candidates.push({ verdict, file, mtimeMs: (await fs.stat(file)).mtimeMs });
+      } catch {}
+    }
+  }
+
+  return candidates.sort((a, b) => b.mtimeMs - a.mtimeMs)[0] ?? null;
+}
+
+/**
+ * The iteration report for reviews without metadata: output/iteration_N_report.md,
+ * else the worker's raw output logs/iteration_N_task_<id>.md
+ */
+async function findReportForIteration(instancePath: string, iteration: number): Promise<string | null> {
+  const report = `output/iteration_${iteration}_report.md`;
+  try {
+    await fs.access(path.join(instancePath, report));
+    return report;
+  } catch {}
+
+  const log = (await listDir(path.join(instancePath, 'logs')))
+    .filter(f => f.startsWith(`iteration_${iteration}_task_`) && f.endsWith('.md'))
+    .sort()
+    .pop();
+  return log ? `logs/${log}` : null;
+}
+
+async function loadFiles(instancePath: string): Promise<ReviewFiles> {
+  const reviewsDir = path.join(instancePath, 'output', 'reviews');
+  const outputDir = path.join(instancePath, 'output');
+  return {
+    instancePath,
+    reviewsDir,
+    names: new Map([
+      [reviewsDir, await listDir(reviewsDir)],
+      [outputDir, await listDir(outputDir)],
+      [instancePath, await listDir(instancePath)],
+    ]),
+  };
+}
+
+async function summarize(files: ReviewFiles, number: number): Promise<{ summary: ReviewSummary; content: string; verdictFile: string | null } | null> {
+  const file = path.join(files.reviewsDir, `review_${number}.md`);
+  const content = await readText(file);
+  if (content === null) return null;
+
+  let meta: Partial<ReviewMeta> = {};
+  try {
+    meta = JSON.parse(await fs.readFile(path.join(files.reviewsDir, `review_${number}.meta.json`), 'utf-8'));
+  } catch {}
+
+  const iterationMatch = content.match(/\biteration\s*#?\s*(\d+)/i);
+  const iteration = typeof meta.iteration === 'number'
+    ? meta.iteration
+    : iterationMatch ? parseInt(iterationMatch[1], 10) : null;
+
+  let report = typeof meta.report === 'string' ? meta.report : null;
+  if (!report && iteration !== null) {
+    report = await findReportForIteration(files.instancePath, iteration);
+  }
+
+  const verdictFile = await findVerdictFile(files, number);
+  const { mtime } = await fs.stat(file);
+
+  return {
+    content,
+    verdictFile: verdictFile?.file ?? null,
+    summary: {
+      number,
+      file: path.relative(files.instancePath, file),
+      score: parseScore(content),
+      verdict: verdictFile?.verdict ?? parseVerdictText(content),
+      issues: parseIssues(content),
+      iteration,
+      report,
+      prd: typeof meta.prd === 'string' ? meta.prd : null,
+      reviewedAt: mtime.toISOString(),
+    },
+  };
+}
+
+/**
+ * Every review of an instance, oldest first
+ */
+export async function listReviews(instancePath: string): Promise<ReviewSummary[]> {
+  const files = await loadFiles(instancePath);
+  const numbers = files.names.get(files.reviewsDir)!
+    .map(name => name.match(REVIEW_FILE_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => parseInt(match[1], 10))
+    .sort((a, b) => a - b);
+
+  const reviews: ReviewSummary[] = [];
+  for (const number of numbers) {
+    const review = await summarize(files, number);
+    if (review) reviews.push(review.summary);
+  }
+  return reviews;
+}
+
+/**
+ * One review with its text, verdict file and the iteration report it judged
+ */
+export async function readReview(instancePath: string, number: number): Promise<ReviewDetail | null> {
+  const files = await loadFiles(instancePath);
+  const review = await summarize(files, number);
+  if (!review) return null;
+
+  let reportContent: string | null = null;
+  let reportTruncated = false;
+  const reportPath = review.summary.report ? await resolveWithin(instancePath, review.summary.report) : null;
+  if (reportPath) {
+    try {
+      const handle = await fs.open(reportPath, 'r');
+      try {
+        const { size } = await handle.stat();
+        const buffer = Buffer.alloc(Math.min(size, MAX_REPORT_BYTES));
+        await handle.read(buffer, 0, buffer.length, 0);
+        reportContent = buffer.toString('utf-8');
+        reportTruncated = size > MAX_REPORT_BYTES;
+      } finally {
+        await handle.close();
+      }
+    } catch {}
+  }
+
+  return {
+    ...review.summary,
+    content: review.content,
+    verdictContent: review.verdictFile ? await readText(review.verdictFile) : null,
+    reportContent,
+    reportTruncated,
+  };
+}
@@ -0,0 +1,144 @@
+// Validation constants shared by the skills routes
+export const MAX_SKILL_NAME_LENGTH = 100;
+export const MAX_CONTENT_LENGTH = 100000; // 100KB
+export const SKILL_FILENAME_PATTERN = /^[a-z0-9_-]+\.md$/;
+export const MAX_SKILL_TAGS = 10;
+
+// Optional "---" block at the top of a skill holding category/tags that override the inferred ones
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---\n?/;
+
+/**
+ * Validate skill filename
+ */
+export function isValidSkillFilename(filename: string): boolean {
+  return SKILL_FILENAME_PATTERN.test(filename);
+}
+
+/**
+ * Extract title from markdown content
+ */
+export function extractTitle(content: string): string {
+  const lines = content.split('\n');
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('# ')) {
+      return trimmed.substring(2).trim();
+    }
+  }
+  return 'Untitled Skill';
+}
+
+interface SkillMetadata {
+  category?: string;
+  tags?: string[];
+}
+
+function readFrontmatter(content: string): SkillMetadata {
+  const block = content.match(FRONTMATTER_PATTERN)?.[1];
+  if (!block) return {};
+
+  const metadata: SkillMetadata = {};
+  for (const line of block.split('\n')) {
+    const match = line.match(/^(category|tags):\s*(.*)$/);
+    if (!match) continue;
+    if (match[1] === 'category' && match[2].trim()) {
+      metadata.category = match[2].trim();
+    } else if (match[1] === 'tags') {
+      metadata.tags = match[2].split(',').map(t => t.trim()).filter(Boolean);
+    }
+  }
+  return metadata;
+}
+
+function cleanMetadataValue(value: string): string {
+  return value.replace(/[\r\n,]+/g, ' ').trim();
+}
+
+/**
+ * Record a category and tags in the skill's frontmatter. Content is returned unchanged when they
+ * match what would be inferred from it anyway.
+ */
+export function withSkillMetadata(content: string, filename: string, metadata: SkillMetadata): string {
+  const body = content.replace(FRONTMATTER_PATTERN, '');
+  const category = metadata.category ? cleanMetadataValue(metadata.category) : '';
+  const tags = (metadata.tags ?? []).map(cleanMetadataValue).filter(Boolean).slice(0, MAX_SKILL_TAGS);
+
+  const sameCategory = !category || category === extractCategory(content, filename);
+  const currentTags = extractTags(content);
+  const sameTags = !metadata.tags || (tags.length === currentTags.length && tags.every((t, i) => t === currentTags[i]));
+  if (sameCategory && sameTags) return content;
+
+  // Keep any other frontmatter lines
+  const otherLines = (content.match(FRONTMATTER_PATTERN)?.[1] ?? '')
+    .split('\n')
+    .filter(line => line && !/^(category|tags):/.test(line));
+  const lines = [
+    ...otherLines,
+    `category: ${category || extractCategory(content, filename)}`,
+    `tags: ${(metadata.tags ? tags : currentTags).join(', ')}`,
+  ];
+  return `---\n${lines.join('\n')}\n---\n${body}`;
+}
+
+/**
+ * Extract category from markdown content (frontmatter, then the filename prefix, then the content)
+ */
+export function extractCategory(content: string, filename: string): string {
+  const { category } = readFrontmatter(content);
+  if (category) return category;
+
+  // Try to infer from filename
+  const parts = filename.replace('.md', '').split('_');
+  if (parts.length > 1) {
+    return parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
+  }
+
+  // Check content for common patterns
+  const lowerContent = content.toLowerCase();
+  if (lowerContent.includes('react') || lowerContent.includes('hook')) return 'React';
+  if (lowerContent.includes('api') || lowerContent.includes('endpoint')) return 'API';
+  if (lowerContent.includes('database') || lowerContent.includes('prisma')) return 'Database';
+  if (lowerContent.includes('security') || lowerContent.includes('xss')) return 'Security';
+  if (lowerContent.includes('testing') || lowerContent.includes('test')) return 'Testing';
+  if (lowerContent.includes('performance')) return 'Performance';
+
+  return 'General';
+}
+
+/**
+ * Extract tags from content (frontmatter tags take precedence)
+ */
+export function extractTags(content: string): string[] {
+  const { tags: frontmatterTags } = readFrontmatter(content);
+  if (frontmatterTags) return frontmatterTags;
+
+  const tags: Set<string> = new Set();
+
+  // Look for common patterns
+  const patterns = [
+    /typescript/gi, /javascript/gi, /react/gi, /nextjs/gi,
+    /prisma/gi, /api/gi, /security/gi, /performance/gi,
+    /testing/gi, /database/gi, /validation/gi, /error/gi
+  ];
+
+  for (const pattern of patterns) {
+    if (pattern.test(content)) {
+      const match = content.match(pattern);
+      if (match) {
+        tags.add(match[0].toLowerCase());
+      }
+    }
+  }
+
+  return Array.from(tags).slice(0, 5);
+}
+
+/**
+ * Turn a free-form skill name into a skill filename (e.g. "API Retries" -> "api_retries.md")
+ */
+export function toSkillFilename(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '') + '.md';
+}
@@ -0,0 +1,332 @@
+/**
+ * Status Stream
+ * Watches every instance's .state/, logs/ and prds/ directories and pushes
+ * status diffs and new log lines to subscribers (the SSE route).
+ * One watcher set is shared by all connected clients.
+ */
+
+import { watch, promises as fs, type FSWatcher } from 'fs';
+import path from 'path';
+import { listInstances } from '@/lib/api/instance-registry';
+import { getInstanceStatus, getLatestLogFile, isProcessAlive } from '@/lib/api/instance-status';
+import { stripAnsi } from '@/lib/api/log-reader';
+import type { InstanceRecord } from '@/lib/types/instance';
+import type { InstanceStatus, LogSource, StatusChanges, StatusStreamEvent } from '@/lib/types/status';
+
+type Listener = (event: StatusStreamEvent) => void;
+
+const WATCHED_DIRS = ['.state', 'logs', 'prds'];
+const REFRESH_DEBOUNCE_MS = 250;
+// Process liveness and new instances aren't visible as file events. The heartbeat only lists
+// instances and checks PIDs; file events trigger the full status reads.
+const HEARTBEAT_MS = 5000;
+const MAX_LOG_CHUNK_BYTES = 256 * 1024;
+
+interface LogCursor {
+  file: string;
+  offset: number;
+  remainder: string;
+}
+
+interface WatchedInstance {
+  record: InstanceRecord;
+  status: InstanceStatus;
+  watchers: Map<string, FSWatcher>;
+  logCursors: Partial<Record<LogSource, LogCursor>>;
+  refreshTimer: NodeJS.Timeout | null;
+  refreshing: Promise<void> | null;
+}
+
+/**
+ * Changed fields between two snapshots (recentLogs travel as log events instead)
+ */
+export function diffStatus(prev: InstanceStatus, next: InstanceStatus): StatusChanges | null {
+  const changes: StatusChanges = {};
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  for (const key of ['worker', 'manager'] as const) {
+    const partial: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(next[key])) {
+      if (!same(prev[key][field as keyof typeof prev[typeof key]], value)) {
+        partial[field] = value;
+      }
+    }
+    if (Object.keys(partial).length > 0) {
+      changes[key] = partial;
+    }
+  }
+
+  if (!same(prev.prds, next.prds)) changes.prds = next.prds;
+  if (!same(prev.skills, next.skills)) changes.skills = next.skills;
+  if (!same(prev.config, next.config)) changes.config = next.config;
+  if (!same(prev.watchdog, next.watchdog)) changes.watchdog = next.watchdog;
+  if (!same(prev.recovery, next.recovery)) changes.recovery = next.recovery;
+  if (!same(prev.budget, next.budget)) changes.budget = next.budget;
+  if (prev.name !== next.name) changes.name = next.name;
+  if (prev.projectPath !== next.projectPath) changes.projectPath = next.projectPath;
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+class StatusStream {
+  private listeners = new Set<Listener>();
+  private instances = new Map<string, WatchedInstance>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private starting: Promise<void> | null = null;
+
+  /**
+   * Subscribe to status events. The listener first receives a full snapshot.
+   */
+  async subscribe(listener: Listener): Promise<() => void> {
+    this.listeners.add(listener);
+
+    if (!this.heartbeat) {
+      this.starting ??= this.start();
+    }
+    await this.starting;
+
+    listener({
+      type: 'snapshot',
+      timestamp: new Date().toISOString(),
+      managers: this.getSnapshot(),
+    });
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  getSnapshot(): InstanceStatus[] {
+    return [...this.instances.values()].map(i => i.status);
+  }
+
+  private emit(event: StatusStreamEvent) {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[Status Stream] Listener error:', error);
+      }
+    }
+  }
+
+  private async start() {
+    await this.syncInstances(false);
+    this.heartbeat = setInterval(() => {
+      this.syncInstances(true).catch(error => console.error('[Status Stream] Sync failed:', error));
+    }, HEARTBEAT_MS);
+    this.starting = null;
+  }
+
+  private stop() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    for (const id of [...this.instances.keys()]) {
+      this.unwatchInstance(id);
+    }
+  }
+
+  // Pick up added/removed instances and refresh the ones whose processes died or config changed
+  private async syncInstances(announce: boolean) {
+    const records = await listInstances();
+    const seen = new Set<string>();
+
+    for (const record of records) {
+      seen.add(record.id);
+      const existing = this.instances.get(record.id);
+
+      if (existing) {
+        const recordChanged = JSON.stringify(existing.record) !== JSON.stringify(record);
+        existing.record = record;
+        // A newly watched directory may have changed before its watcher existed
+        const newlyWatched = this.watchDirectories(existing);
+        if (recordChanged || newlyWatched || this.hasDeadProcess(existing)) {
+          this.scheduleRefresh(record.id);
+        }
+        continue;
+      }
+
+      const watched: WatchedInstance = {
+        record,
+        status: await getInstanceStatus(record),
+        watchers: new Map(),
+        logCursors: {},
+        refreshTimer: null,
+        refreshing: null,
+      };
+      this.instances.set(record.id, watched);
+      this.watchDirectories(watched);
+      await this.initLogCursors(watched);
+
+      if (announce) {
+        this.emit({ type: 'added', timestamp: new Date().toISOString(), instance: watched.status });
+      }
+    }
+
+    for (const id of [...this.instances.keys()]) {
+      if (!seen.has(id)) {
+        this.unwatchInstance(id);
+        this.emit({ type: 'removed', timestamp: new Date().toISOString(), id });
+      }
+    }
+  }
+
+  // A worker or manager shown as running whose process has exited
+  private hasDeadProcess(watched: WatchedInstance): boolean {
+    const { worker, manager } = watched.status;
+    return [worker.pid, manager.pid].some(pid => pid && !isProcessAlive(pid));
+  }
+
+  // Directories may not exist yet, so this is retried on every heartbeat.
+  // Returns true if a watcher was added.
+  private watchDirectories(watched: WatchedInstance): boolean {
+    let added = false;
+    for (const dir of WATCHED_DIRS) {
+      if (watched.watchers.has(dir)) continue;
+
+      try {
+        const watcher = watch(path.join(watched.record.path, dir), () => {
+          this.scheduleRefresh(watched.record.id);
+        });
+        watcher.on('error', () => {
+          watcher.close();
+          watched.watchers.delete(dir);
+        });
+        watched.watchers.set(dir, watcher);
+        added = true;
+      } catch {
+        // Directory doesn't exist yet
+      }
+    }
+    return added;
+  }
+
+  private unwatchInstance(id: string) {
+    const watched = this.instances.get(id);
+    if (!watched) return;
+
+    for (const watcher of watched.watchers.values()) {
+      watcher.close();
+    }
+    if (watched.refreshTimer) {
+      clearTimeout(watched.refreshTimer);
+    }
+    this.instances.delete(id);
+  }
+
+  private scheduleRefresh(id: string) {
+    const watched = this.instances.get(id);
+    if (!watched || watched.refreshTimer) return;
+
+    watched.refreshTimer = setTimeout(() => {
+      watched.refreshTimer = null;
+      this.refresh(id).catch(error => console.error('[Status Stream] Refresh failed:', error));
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  private async refresh(id: string) {
+    const watched = this.instances.get(id);
+    if (!watched) return;
+
+    // Serialize refreshes per instance so log offsets never race
+    const previous = watched.refreshing;
+    const run = (async () => {
+      await previous;
+      const next = await getInstanceStatus(watched.record);
+      const changes = diffStatus(watched.status, next);
+      watched.status = next;
+
+      if (changes) {
+        this.emit({ type: 'status', timestamp: new Date().toISOString(), id, changes });
+      }
+
+      await this.readNewLogLines(watched);
+    })();
+
+    watched.refreshing = run;
+    try {
+      await run;
+    } finally {
+      if (watched.refreshing === run) {
+        watched.refreshing = null;
+      }
+    }
+  }
+
+  // Start tailing from the current end of each log so only new lines are pushed
+  private async initLogCursors(watched: WatchedInstance) {
+    for (const source of ['worker', 'manager'] as const) {
+      const file = await getLatestLogFile(watched.record.path, source);
+      if (!file) continue;
+      try {
+        const { size } = await fs.stat(file);
+        watched.logCursors[source] = { file, offset: size, remainder: '' };
+      } catch {}
+    }
+  }
+
+  private async readNewLogLines(watched: WatchedInstance) {
+    for (const source of ['worker', 'manager'] as const) {
+      const file = await getLatestLogFile(watched.record.path, source);
+      if (!file) continue;
+
+      let cursor = watched.logCursors[source];
+      if (!cursor || cursor.file !== file) {
+        // A new log file was started (new run) - read it from the beginning
+        cursor = { file, offset: 0, remainder: '' };
+        watched.logCursors[source] = cursor;
+      }
+
+      let size: number;
+      try {
+        size = (await fs.stat(file)).size;
+      } catch {
+        continue;
+      }
+
+      if (size < cursor.offset) {
+        // Truncated
+        cursor.offset = 0;
+        cursor.remainder = '';
+      }
+      if (size === cursor.offset) continue;
+
+      // Very large bursts are cut to their tail; the partial line before the cut is dropped
+      const start = Math.max(cursor.offset, size - MAX_LOG_CHUNK_BYTES);
+      const skipped = start > cursor.offset;
+      const handle = await fs.open(file, 'r');
+      let chunk: string;
+      try {
+        const buffer = Buffer.alloc(size - start);
+        await handle.read(buffer, 0, buffer.length, start);
+        chunk = buffer.toString('utf-8');
+      } finally {
+        await handle.close();
+      }
+
+      cursor.offset = size;
+      const parts = ((skipped ? '' : cursor.remainder) + chunk).split('\n');
+      cursor.remainder = parts.pop() ?? '';
+      const lines = (skipped ? parts.slice(1) : parts).map(stripAnsi).filter(Boolean);
+
+      if (lines.length === 0) continue;
+
+      this.emit({
+        type: 'log',
+        timestamp: new Date().toISOString(),
+        id: watched.record.id,
+        source,
+        file: path.basename(file),
+        lines,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const statusStream = new StatusStream();
@@ -0,0 +1,265 @@
+/**
+ * Task Store
+ * Typed access to an instance's prds/tasks.json. Writes go through a temp file and
+ * rename (as worker.sh does with jq) and are serialized per instance and guarded by
+ * prds/tasks.json.lock, the lock file worker.sh takes for its own rewrites.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { withFileLock } from '@/lib/api/file-lock';
+import { TASK_STATUSES, type Task, type TaskFields, type TasksFile, type TaskStats, type TaskStatus } from '@/lib/types/task';
+
+export const MAX_TASK_TITLE_LENGTH = 200;
+export const MAX_ESTIMATED_ITERATIONS = 50;
+
+const locks = new Map<string, Promise<unknown>>();
+
+export function getTasksFilePath(instancePath: string): string {
+  return path.join(instancePath, 'prds', 'tasks.json');
+}
+
+function normalizeTask(raw: Record<string, unknown>): Task {
+  const status = TASK_STATUSES.includes(raw.status as TaskStatus) ? raw.status as TaskStatus : 'pending';
+  return {
+    ...raw,
+    id: String(raw.id),
+    title: typeof raw.title === 'string' ? raw.title : '',
+    description: typeof raw.description === 'string' ? raw.description : '',
+    status,
+    estimatedIterations: typeof raw.estimatedIterations === 'number' ? raw.estimatedIterations : 1,
+    dependencies: Array.isArray(raw.dependencies) ? raw.dependencies.map(String) : [],
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : null,
+    startedAt: typeof raw.startedAt === 'string' ? raw.startedAt : null,
+    completedAt: typeof raw.completedAt === 'string' ? raw.completedAt : null,
+  };
+}
+
+/**
+ * Read tasks.json. A missing file reads as an empty task list.
+ */
+export async function readTasksFile(instancePath: string): Promise<TasksFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(getTasksFilePath(instancePath), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { tasks: [] };
+    }
+    throw error;
+  }
+
+  const data = JSON.parse(content);
+  return {
+    ...data,
+    tasks: Array.isArray(data.tasks) ? data.tasks.map(normalizeTask) : [],
+  };
+}
+
+/**
+ * Write tasks.json atomically
+ */
+export async function writeTasksFile(instancePath: string, data: TasksFile): Promise<void> {
+  const file = getTasksFilePath(instancePath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  const tempFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempFile, file);
+}
+
+/**
+ * Run a read-modify-write of tasks.json without interleaving with other dashboard or worker writes
+ */
+export async function withTasksLock<T>(instancePath: string, fn: () => Promise<T>): Promise<T> {
+  const locked = () => withFileLock(`${getTasksFilePath(instancePath)}.lock`, fn);
+
+  const previous = locks.get(instancePath) ?? Promise.resolve();
+  const run = previous.then(locked, locked);
+  const settled = run.catch(() => {});
+  locks.set(instancePath, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (locks.get(instancePath) === settled) {
+      locks.delete(instancePath);
+    }
+  }
+}
+
+/**
+ * Check ids and dependencies: ids unique, dependencies known, no self-references or cycles.
+ * Returns an error message, or null if the task list is valid.
+ */
+export function validateTaskGraph(tasks: Task[]): string | null {
+  const ids = new Set<string>();
+  for (const task of tasks) {
+    if (ids.has(task.id)) {
+      return `Duplicate task id: ${task.id}`;
+    }
+    ids.add(task.id);
+  }
+
+  for (const task of tasks) {
+    for (const dependency of task.dependencies) {
+      if (dependency === task.id) {
+        return `Task ${task.id} cannot depend on itself`;
+      }
+      if (!ids.has(dependency)) {
+        return `Task ${task.id} depends on unknown task ${dependency}`;
+      }
+    }
+  }
+
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dependency of byId.get(id)!.dependencies) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) {
+      return `Dependency cycle: ${cycle.join(' -> ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate task fields from a request body.
+ * With requireTitle, the fields describe a new task.
+ */
+export function parseTaskFields(
+  body: Record<string, unknown>,
+  requireTitle = false
+): { fields: TaskFields; error?: string } {
+  const fields: TaskFields = {};
+
+  if (body.title !== undefined || requireTitle) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return { fields, error: 'Title is required' };
+    }
+    if (body.title.length > MAX_TASK_TITLE_LENGTH) {
+      return { fields, error: `Title must be ${MAX_TASK_TITLE_LENGTH} characters or less` };
+    }
+    fields.title = body.title.trim();
+  }
+
+  for (const key of ['description', 'acceptanceCriteria'] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== 'string') {
+        return { fields, error: `${key} must be a string` };
+      }
+      fields[key] = body[key] as string;
+    }
+  }
+
+  if (body.status !== undefined) {
+    if (!TASK_STATUSES.includes(body.status as TaskStatus)) {
+      return { fields, error: `Status must be one of ${TASK_STATUSES.join(', ')}` };
+    }
+    fields.status = body.status as TaskStatus;
+  }
+
+  if (body.estimatedIterations !== undefined) {
+    const value = body.estimatedIterations;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_ESTIMATED_ITERATIONS) {
+      return { fields, error: `estimatedIterations must be an integer between 1 and ${MAX_ESTIMATED_ITERATIONS}` };
+    }
+    fields.estimatedIterations = value;
+  }
+
+  if (body.priority !== undefined) {
+    if (body.priority !== 1 && body.priority !== 2 && body.priority !== 3) {
+      return { fields, error: 'priority must be 1 (high), 2 (medium) or 3 (low)' };
+    }
+    fields.priority = body.priority;
+  }
+
+  if (body.dependencies !== undefined) {
+    if (!Array.isArray(body.dependencies) || body.dependencies.some(d => typeof d !== 'string' && typeof d !== 'number')) {
+      return { fields, error: 'dependencies must be an array of task ids' };
+    }
+    fields.dependencies = [...new Set(body.dependencies.map(String))];
+  }
+
+  return { fields };
+}
+
+/**
+ * Apply a status change, keeping the timestamps worker.sh maintains consistent
+ */
+export function setTaskStatus(task: Task, status: TaskStatus): void {
+  if (task.status === status) return;
+
+  const now = new Date().toISOString();
+  task.status = status;
+
+  if (status === 'pending') {
+    task.startedAt = null;
+    task.completedAt = null;
+    // A reset task gets a fresh time budget and is no longer held back
+    delete task.elapsedSeconds;
+    delete task.timeout;
+    delete task.blocked;
+  } else if (status === 'in_progress') {
+    task.startedAt = task.startedAt ?? now;
+    task.completedAt = null;
+  } else {
+    task.startedAt = task.startedAt ?? now;
+    task.completedAt = now;
+  }
+}
+
+/**
+ * Put a task back to pending, also clearing a block or timeout on a task that is already pending
+ */
+export function resetTask(task: Task): void {
+  setTaskStatus(task, 'pending');
+  delete task.elapsedSeconds;
+  delete task.timeout;
+  delete task.blocked;
+}
+
+/**
+ * Next numeric id (ids are strings in tasks.json)
+ */
+export function nextTaskId(tasks: Task[]): string {
+  const numericIds = tasks.map(t => parseInt(t.id, 10)).filter(id => !isNaN(id));
+  return String(numericIds.length > 0 ? Math.max(...numericIds) + 1 : 1);
+}
+
+/**
+ * Remove a stale .state/TASK_<id>_COMPLETE marker so the worker doesn't complete a reset task
+ */
+export async function clearCompletionMarker(instancePath: string, taskId: string): Promise<void> {
+  if (!/^[A-Za-z0-9._-]+$/.test(taskId)) return;
+  await fs.rm(path.join(instancePath, '.state', `TASK_${taskId}_COMPLETE`), { force: true });
+}
+
+export function getTaskStats(tasks: Task[]): TaskStats {
+  return {
+    total: tasks.length,
+    pending: tasks.filter(t => t.status === 'pending').length,
+    inProgress: tasks.filter(t => t.status === 'in_progress').length,
+    completed: tasks.filter(t => t.status === 'completed').length,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Usage Ledger
+ * Token usage and estimated cost of every Claude call, from three sources: the dashboard's own
+ * AI routes (recorded here, in usage.jsonl beside the registry), and worker iterations and manager
+ * reviews (recorded by the scripts from the claude CLI's JSON output, in each instance's
+ * .state/usage.jsonl). Ledgers are append-only JSON lines, aggregated on read.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { getRegistryFilePath, listInstances } from '@/lib/api/instance-registry';
+import {
+  USAGE_SOURCES,
+  type UsageEntry,
+  type UsageSource,
+  type UsageSummary,
+  type UsageTotals,
+} from '@/lib/types/usage';
+
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 365;
+
+// US dollars per million tokens, matched against the model id in order (first match wins).
+// Cache writes cost 1.25x the input price and cache reads 0.1x. worker.sh's budget check keeps a copy.
+const MODEL_PRICING: { match: string; input: number; output: number }[] = [
+  { match: 'opus-4-5', input: 5, output: 25 },
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'haiku-4-5', input: 1, output: 5 },
+  { match: 'haiku', input: 0.8, output: 4 },
+  { match: 'sonnet', input: 3, output: 15 },
+];
+// Unknown models are priced as Sonnet
+const DEFAULT_PRICING = MODEL_PRICING[MODEL_PRICING.length - 1];
+
+// Anthropic's message usage, as returned by messages.create and a stream's final message
+interface MessageUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+export function getDashboardLedgerPath(): string {
+  return path.join(path.dirname(getRegistryFilePath()), 'usage.jsonl');
+}
+
+export function getInstanceLedgerPath(instancePath: string): string {
+  return path.join(instancePath, '.state', 'usage.jsonl');
+}
+
+export function estimateCost(entry: UsageEntry): number {
+  if (typeof entry.costUsd === 'number') return entry.costUsd;
+
+  const model = entry.model.toLowerCase();
+  const pricing = MODEL_PRICING.find(p => model.includes(p.match)) ?? DEFAULT_PRICING;
+  const inputTokens = entry.inputTokens + entry.cacheCreationInputTokens * 1.25 + entry.cacheReadInputTokens * 0.1;
+  return (inputTokens * pricing.input + entry.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Record a dashboard AI call. Never throws: a ledger write must not fail the feature.
+ */
+export async function recordUsage(
+  feature: string,
+  response: { model: string; usage: MessageUsage },
+  instancePath?: string | null
+): Promise<void> {
+  const entry: UsageEntry = {
+    at: new Date().toISOString(),
+    source: 'dashboard',
+    ref: feature,
+    instance: instancePath ?? null,
+    model: response.model,
+    inputTokens: response.usage.input_tokens,
+    outputTokens: response.usage.output_tokens,
+    cacheCreationInputTokens: response.usage.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: response.usage.cache_read_input_tokens ?? 0,
+    costUsd: null,
+  };
+
+  try {
+    const file = getDashboardLedgerPath();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, JSON.stringify(entry) + '\n', 'utf-8');
+  } catch (error) {
+    console.error('Error recording usage:', error);
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry, cost: number): void {
+  totals.calls++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.cacheCreationInputTokens += entry.cacheCreationInputTokens;
+  totals.cacheReadInputTokens += entry.cacheReadInputTokens;
+  totals.costUsd += cost;
+}
+
+// YYYY-MM-DD in server local time
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse one ledger line, filling in what older or hand-written lines leave out
+ */
+function parseEntry(line: string, defaultSource: UsageSource): UsageEntry | null {
+  let data: Partial<UsageEntry>;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data.at !== 'string' || isNaN(Date.parse(data.at))) return null;
+
+  const tokens = (value: unknown) => (typeof value === 'number' && value > 0 ? value : 0);
+  return {
+    at: data.at,
+    source: USAGE_SOURCES.includes(data.source as UsageSource) ? data.source as UsageSource : defaultSource,
+    ref: typeof data.ref === 'string' ? data.ref : null,
+    instance: typeof data.instance === 'string' ? data.instance : null,
+    taskId: typeof data.taskId === 'string' && data.taskId ? data.taskId : null,
+    model: typeof data.model === 'string' && data.model ? data.model : 'unknown',
+    inputTokens: tokens(data.inputTokens),
+    outputTokens: tokens(data.outputTokens),
+    cacheCreationInputTokens: tokens(data.cacheCreationInputTokens),
+    cacheReadInputTokens: tokens(data.cacheReadInputTokens),
+    costUsd: typeof data.costUsd === 'number' ? data.costUsd : null,
+  };
+}
+
+export async function readLedger(
+  file: string,
+  defaultSource: UsageSource,
+  onEntry: (entry: UsageEntry) => void
+): Promise<void> {
+  try {
+    await fs.access(file);
+  } catch {
+    return;
+  }
+
+  const reader = readline.createInterface({
+    input: createReadStream(file, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of reader) {
+    if (!line.trim()) continue;
+    const entry = parseEntry(line, defaultSource);
+    if (entry) onEntry(entry);
+  }
+}
+
+/**
+ * Usage over the last `days` days (today included), per source, instance, model and day.
+ * `instancePath` limits it to one instance.
+ */
+export async function readUsage(options: { days?: number; instancePath?: string } = {}): Promise<UsageSummary> {
+  const days = Math.min(Math.max(options.days ?? DEFAULT_USAGE_DAYS, 1), MAX_USAGE_DAYS);
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  const since = localDay(start);
+  const today = localDay(new Date());
+
+  const instances = await listInstances();
+  const names = new Map(instances.map(instance => [instance.path, instance.name]));
+
+  const summary: UsageSummary = {
+    days,
+    since,
+    totals: emptyTotals(),
+    today: emptyTotals(),
+    bySource: Object.fromEntries(USAGE_SOURCES.map(source => [source, emptyTotals()])) as Record<UsageSource, UsageTotals>,
+    byInstance: [],
+    byModel: [],
+    byDay: [],
+  };
+  const byInstance = new Map<string | null, UsageTotals>();
+  const byModel = new Map<string, UsageTotals>();
+  const byDay = new Map<string, UsageTotals>();
+  const group = <K>(map: Map<K, UsageTotals>, key: K) => {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  };
+
+  const add = (entry: UsageEntry, instance: string | null) => {
+    const day = localDay(new Date(entry.at));
+    if (day < since) return;
+    if (options.instancePath && instance !== options.instancePath) return;
+
+    const cost = estimateCost(entry);
+    addTo(summary.totals, entry, cost);
+    addTo(summary.bySource[entry.source], entry, cost);
+    addTo(group(byInstance, instance), entry, cost);
+    addTo(group(byModel, entry.model), entry, cost);
+    addTo(group(byDay, day), entry, cost);
+    if (day === today) addTo(summary.today, entry, cost);
+  };
+
+  await readLedger(getDashboardLedgerPath(), 'dashboard', entry => add(entry, entry.instance ?? null));
+  for (const instance of instances) {
+    await readLedger(getInstanceLedgerPath(instance.path), 'worker', entry => add(entry, instance.path));
+  }
+
+  summary.byInstance = [...byInstance]
+    .map(([instance, totals]) => ({ instance, name: instance ? names.get(instance) ?? path.basename(instance) : null, ...totals }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+  summary.byModel = [...byModel]
+    .map(([model, totals]) => ({ model, ...totals }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+  summary.byDay = [...byDay]
+    .map(([day, totals]) => ({ day, ...totals }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  return summary;
+}
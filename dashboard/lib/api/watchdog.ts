@@ -0,0 +1,284 @@
+/**
+ * Watchdog
+ * Checks every instance for a stuck worker once a minute: iterations that never complete a task,
+ * a running worker that writes no logs, or a .state/worker.pid whose process died without stopping.
+ * The instance's config.json "watchdog" policy decides what happens when a condition first appears:
+ * alert only, restart, skip the current task or mark it blocked.
+ *
+ * Results go to .state/watchdog.json, which getInstanceStatus reports as status.watchdog.
+ * Started from instrumentation.ts when the dashboard server boots.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { listInstances } from '@/lib/api/instance-registry';
+import { getPauseState, getWatchdogFile, isProcessAlive, readWatchdogState } from '@/lib/api/instance-status';
+import { describeFailures, parseStartOptions, processSupervisor } from '@/lib/api/process-supervisor';
+import { readTasksFile, setTaskStatus, withTasksLock, writeTasksFile } from '@/lib/api/task-store';
+import type { InstanceRecord } from '@/lib/types/instance';
+import {
+  WATCHDOG_POLICIES,
+  type WatchdogAlert,
+  type WatchdogConfig,
+  type WatchdogPolicy,
+  type WatchdogState,
+} from '@/lib/types/watchdog';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const MAX_HISTORY = 20;
+
+export const DEFAULT_WATCHDOG_CONFIG: Required<WatchdogConfig> = {
+  enabled: true,
+  policy: 'alert',
+  maxIterationsWithoutProgress: 10,
+  // Claude writes its iteration output when it finishes, so allow for long iterations
+  maxSilentMinutes: 60,
+};
+
+type DetectedAlert = Omit<WatchdogAlert, 'detectedAt' | 'action' | 'actionError'>;
+
+/**
+ * config.json "watchdog" with defaults filled in; invalid values fall back to the default
+ */
+export function resolveWatchdogConfig(config: WatchdogConfig | undefined): Required<WatchdogConfig> {
+  const positive = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : fallback;
+
+  return {
+    enabled: config?.enabled !== false,
+    policy: WATCHDOG_POLICIES.includes(config?.policy as WatchdogPolicy)
+      ? config!.policy!
+      : DEFAULT_WATCHDOG_CONFIG.policy,
+    maxIterationsWithoutProgress: positive(
+      config?.maxIterationsWithoutProgress,
+      DEFAULT_WATCHDOG_CONFIG.maxIterationsWithoutProgress
+    ),
+    maxSilentMinutes: positive(config?.maxSilentMinutes, DEFAULT_WATCHDOG_CONFIG.maxSilentMinutes),
+  };
+}
+
+async function readTrimmed(file: string): Promise<string | null> {
+  try {
+    return (await fs.readFile(file, 'utf-8')).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Most recent write to the worker's logs (its own log, stdout, or a claude iteration output)
+ */
+async function getLastWorkerOutput(instancePath: string): Promise<number | null> {
+  const logsDir = path.join(instancePath, 'logs');
+  let latest: number | null = null;
+
+  try {
+    for (const file of await fs.readdir(logsDir)) {
+      if (!file.startsWith('worker') && !file.startsWith('iteration_')) continue;
+      try {
+        const { mtimeMs } = await fs.stat(path.join(logsDir, file));
+        latest = Math.max(latest ?? 0, mtimeMs);
+      } catch {}
+    }
+  } catch {}
+
+  return latest;
+}
+
+async function writeState(instancePath: string, state: WatchdogState): Promise<void> {
+  const file = getWatchdogFile(instancePath);
+  const tempFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(state, null, 2), 'utf-8');
+  await fs.rename(tempFile, file);
+}
+
+class Watchdog {
+  private timer: NodeJS.Timeout | null = null;
+  private checking: Promise<void> | null = null;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.checkAll().catch(error => console.error('[Watchdog] Check failed:', error));
+    }, CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Check every instance once (a check already in progress is shared)
+   */
+  async checkAll(): Promise<void> {
+    this.checking ??= (async () => {
+      try {
+        for (const record of await listInstances()) {
+          try {
+            await this.check(record);
+          } catch (error) {
+            console.error(`[Watchdog] Failed to check ${record.name}:`, error);
+          }
+        }
+      } finally {
+        this.checking = null;
+      }
+    })();
+    return this.checking;
+  }
+
+  async check(record: InstanceRecord): Promise<WatchdogState | null> {
+    const config = resolveWatchdogConfig(record.config?.watchdog);
+    if (!config.enabled) {
+      await fs.rm(getWatchdogFile(record.path), { force: true });
+      return null;
+    }
+
+    const stateDir = path.join(record.path, '.state');
+    try {
+      await fs.access(stateDir);
+    } catch {
+      // Never started
+      return null;
+    }
+
+    const previous = await readWatchdogState(record.path);
+    const now = new Date();
+
+    const iteration = parseInt(await readTrimmed(path.join(stateDir, 'worker_iteration')) || '0', 10) || 0;
+    const tasks = (await readTasksFile(record.path).catch(() => ({ tasks: [] }))).tasks;
+    const lastCompletedAt = tasks
+      .map(t => t.completedAt)
+      .filter((at): at is string => Boolean(at))
+      .sort()
+      .pop() ?? null;
+    const taskId = tasks.find(t => t.status === 'in_progress')?.id ?? null;
+    const onTask = taskId ? ` (on Task ${taskId})` : '';
+
+    // A completed task (or a reset iteration counter) restarts the progress count
+    let baseline = previous?.baseline ?? { iteration, lastCompletedAt };
+    if (lastCompletedAt !== baseline.lastCompletedAt || iteration < baseline.iteration) {
+      baseline = { iteration, lastCompletedAt };
+    }
+
+    const detected: DetectedAlert[] = [];
+    const pid = await readTrimmed(path.join(stateDir, 'worker.pid'));
+    const running = Boolean(pid) && isProcessAlive(pid);
+
+    if (pid && !running) {
+      // worker.sh writes "stopped" on a normal exit or SIGTERM, so anything else means it died
+      const workerStatus = await readTrimmed(path.join(stateDir, 'worker_status'));
+      if (workerStatus === 'running' || workerStatus === 'paused') {
+        detected.push({
+          condition: 'dead-pid',
+          taskId,
+          message: `Worker PID ${pid} exited without stopping (worker_status is "${workerStatus}")${onTask}`,
+        });
+      }
+    }
+
+    if (running && await getPauseState(record.path) !== 'paused') {
+      const stalled = iteration - baseline.iteration;
+      if (stalled >= config.maxIterationsWithoutProgress) {
+        detected.push({
+          condition: 'no-progress',
+          taskId,
+          message: `${stalled} iterations without completing a task${onTask}`,
+        });
+      }
+
+      const lastOutput = await getLastWorkerOutput(record.path);
+      const silentMinutes = lastOutput === null ? 0 : Math.floor((now.getTime() - lastOutput) / 60000);
+      if (silentMinutes >= config.maxSilentMinutes) {
+        detected.push({
+          condition: 'silent',
+          taskId,
+          message: `No worker log output for ${silentMinutes} minutes${onTask}`,
+        });
+      }
+    }
+
+    // Conditions already alerted keep their original detection; new ones trigger the policy
+    const alerts: WatchdogAlert[] = [];
+    const fresh: WatchdogAlert[] = [];
+    for (const found of detected) {
+      const existing = previous?.alerts.find(a => a.condition === found.condition);
+      if (existing) {
+        alerts.push({ ...existing, message: found.message });
+      } else {
+        const alert: WatchdogAlert = { ...found, detectedAt: now.toISOString(), action: config.policy };
+        alerts.push(alert);
+        fresh.push(alert);
+      }
+    }
+
+    if (fresh.length > 0) {
+      try {
+        await this.act(record, config.policy, fresh);
+      } catch (error) {
+        const actionError = error instanceof Error ? error.message : String(error);
+        fresh.forEach(alert => { alert.actionError = actionError; });
+        console.error(`[Watchdog] ${config.policy} failed for ${record.name}:`, error);
+      }
+
+      // After acting, count progress from here so a no-progress alert can fire again later
+      if (config.policy !== 'alert') {
+        baseline = { iteration, lastCompletedAt };
+      }
+    }
+
+    const state: WatchdogState = {
+      policy: config.policy,
+      alerts,
+      history: [...fresh, ...(previous?.history ?? [])].slice(0, MAX_HISTORY),
+      baseline,
+      checkedAt: now.toISOString(),
+    };
+    await writeState(record.path, state);
+    return state;
+  }
+
+  private async act(record: InstanceRecord, policy: WatchdogPolicy, alerts: WatchdogAlert[]): Promise<void> {
+    const summary = alerts.map(a => a.message).join('; ');
+    console.warn(`[Watchdog] ${record.name}: ${summary} (policy: ${policy})`);
+
+    if (policy === 'alert') return;
+
+    const taskId = alerts.find(a => a.taskId)?.taskId;
+    if (taskId && (policy === 'skip-task' || policy === 'block-task')) {
+      await withTasksLock(record.path, async () => {
+        const data = await readTasksFile(record.path);
+        const task = data.tasks.find(t => t.id === taskId);
+        if (!task) return;
+
+        const at = new Date().toISOString();
+        if (policy === 'skip-task') {
+          setTaskStatus(task, 'pending');
+          task.skippedAt = at;
+        } else {
+          task.blocked = { reason: `Watchdog: ${summary}`, at };
+        }
+        await writeTasksFile(record.path, data);
+      });
+    }
+
+    // A silent or dead worker never reaches its next iteration, so it has to be restarted
+    // for a skipped or blocked task to take effect
+    if (policy === 'restart' || alerts.some(a => a.condition !== 'no-progress')) {
+      const config = record.config ?? {};
+      const { options, error } = parseStartOptions({
+        workerModel: config.workerModel,
+        managerModel: config.managerModel,
+        maxIterations: config.maxIterations,
+      });
+      const manager = (await processSupervisor.getProcesses(record.path)).find(p => p.role === 'manager');
+      const result = await processSupervisor.restart(record.path, {
+        ...(error ? {} : options),
+        noManager: !manager?.running,
+      });
+      if (!result.ok) {
+        throw new Error(describeFailures(result));
+      }
+    }
+  }
+}
+
+export const watchdog = new Watchdog();
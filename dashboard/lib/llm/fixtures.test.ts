@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fixtureKey } from '@/lib/llm/fixtures';
+import { PROJECT_CONTEXT_HEADING } from '@/lib/llm/models';
+
+const messages = [{ role: 'user' as const, content: 'Plan a login page' }];
+
+describe('fixtureKey', () => {
+  it('ignores the project summary at the end of the system prompt', () => {
+    const before = fixtureKey('planning-message', {
+      system: `You are a planner.${PROJECT_CONTEXT_HEADING}- src/app.ts (2026-10-01 09:00)`,
+      messages,
+    });
+    const after = fixtureKey('planning-message', {
+      system: `You are a planner.${PROJECT_CONTEXT_HEADING}- src/login.ts (2026-10-18 17:30)\n- src/app.ts (2026-10-01 09:00)`,
+      messages,
+    });
+    assert.equal(before, after);
+    assert.equal(before, fixtureKey('planning-message', { system: 'You are a planner.', messages }));
+  });
+
+  it('changes with the rest of the request', () => {
+    const key = fixtureKey('planning-message', { system: 'You are a planner.', messages });
+    assert.notEqual(key, fixtureKey('planning-message', { system: 'You are a reviewer.', messages }));
+    assert.notEqual(key, fixtureKey('planning-draft-prd', { system: 'You are a planner.', messages }));
+    assert.notEqual(key, fixtureKey('planning-message', {
+      system: 'You are a planner.',
+      messages: [{ role: 'user', content: 'Plan a signup page' }],
+    }));
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * LLM Fixtures
+ * Responses saved in record mode and served in replay mode, one file per request at
+ * <fixtures dir>/<feature>/<key>.json. The key hashes the feature and request without the model and
+ * limits, so changing llm.json doesn't invalidate recordings, and without the project summary that
+ * ends planning system prompts, so editing the project doesn't either.
+ *
+ * The fixtures dir lives beside the registry (override with CLAUDE_MANAGER_LLM_FIXTURES).
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type Anthropic from '@anthropic-ai/sdk';
+import { getRegistryFilePath } from '@/lib/api/instance-registry';
+import { PROJECT_CONTEXT_HEADING } from '@/lib/llm/models';
+import type { LlmMessageParams } from '@/lib/llm/provider';
+import type { LlmFeature, LlmFixture } from '@/lib/types/llm';
+
+export function getFixturesDir(): string {
+  return process.env.CLAUDE_MANAGER_LLM_FIXTURES
+    || path.join(path.dirname(getRegistryFilePath()), 'llm-fixtures');
+}
+
+// The request without the project summary, which changes whenever the project does
+function stableParams(params: LlmMessageParams): LlmMessageParams {
+  if (typeof params.system !== 'string') return params;
+  const start = params.system.indexOf(PROJECT_CONTEXT_HEADING);
+  return start === -1 ? params : { ...params, system: params.system.slice(0, start) };
+}
+
+export function fixtureKey(feature: LlmFeature, params: LlmMessageParams): string {
+  return crypto.createHash('sha256').update(JSON.stringify([feature, stableParams(params)])).digest('hex').slice(0, 32);
+}
+
+function getFixturePath(feature: LlmFeature, key: string): string {
+  return path.join(getFixturesDir(), feature, `${key}.json`);
+}
+
+/**
+ * The recorded response for a request, or null if none was recorded
+ */
+export async function readFixture(feature: LlmFeature, params: LlmMessageParams): Promise<LlmFixture | null> {
+  const key = fixtureKey(feature, params);
+  try {
+    const fixture = JSON.parse(await fs.readFile(getFixturePath(feature, key), 'utf-8')) as LlmFixture;
+    return fixture?.message ? fixture : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Error reading LLM fixture ${feature}/${key}:`, error);
+    }
+    return null;
+  }
+}
+
+export async function writeFixture(
+  feature: LlmFeature,
+  params: LlmMessageParams,
+  message: Anthropic.Message
+): Promise<string> {
+  const key = fixtureKey(feature, params);
+  const file = getFixturePath(feature, key);
+  const fixture: LlmFixture = {
+    feature,
+    key,
+    recordedAt: new Date().toISOString(),
+    request: params,
+    message,
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmpFile = `${file}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(fixture, null, 2));
+  await fs.rename(tmpFile, file);
+  return file;
+}
@@ -0,0 +1,165 @@
+/**
+ * Mock Responses
+ * Canned replies for CLAUDE_MANAGER_LLM_MODE=mock, one per feature, in the format its route parses.
+ * Documents sent for editing come back unchanged; everything else is built from the request, so the
+ * same request always gets the same reply and no network is needed.
+ */
+
+import crypto from 'crypto';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { LlmMessageParams } from '@/lib/llm/provider';
+import type { LlmFeature } from '@/lib/types/llm';
+
+const MOCK_NOTE = 'Mock response (CLAUDE_MANAGER_LLM_MODE=mock)';
+
+// Text of the last user message, the prompt each feature builds
+function lastUserText(params: LlmMessageParams): string {
+  const message = [...params.messages].reverse().find(m => m.role === 'user');
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map(block => (block.type === 'text' ? block.text : '')).join('\n');
+}
+
+// First non-empty line after `marker` (or of the whole text), shortened
+function excerpt(text: string, marker = '', max = 60): string {
+  const start = marker ? text.indexOf(marker) : -1;
+  const rest = start === -1 ? text : text.slice(start + marker.length);
+  const line = rest.split('\n').map(l => l.trim()).find(Boolean) ?? '';
+  return line.length > max ? `${line.slice(0, max - 3)}...` : line || 'Untitled';
+}
+
+function fencedBlock(text: string): string {
+  return text.match(/```(?:markdown)?\n([\s\S]*?)\n```/)?.[1] ?? '';
+}
+
+function quoted(text: string): string {
+  return text.match(/"([^"\n]+)"/)?.[1] ?? excerpt(text);
+}
+
+function mockPrd(title: string): string {
+  return `# PRD: ${title}
+
+## Overview
+${MOCK_NOTE}. A placeholder PRD for "${title}".
+
+## Goals
+- Exercise the dashboard without an Anthropic API key
+
+## User Stories
+- As a developer, I want deterministic AI replies so that I can work offline
+
+## Acceptance Criteria
+- [ ] The feature works end to end with the mock provider
+
+## Priority
+Medium
+
+## Estimated Complexity
+Simple
+`;
+}
+
+// Edits return the document unchanged
+function editReply(prompt: string): string {
+  return `<explanation>
+${MOCK_NOTE}: no changes made.
+</explanation>
+
+<updated_content>
+${fencedBlock(prompt)}
+</updated_content>`;
+}
+
+const MOCK_REPLIES: Record<LlmFeature, (prompt: string) => string> = {
+  'editor-command': editReply,
+  'editor-batch-edit': editReply,
+  'prd-refine': editReply,
+
+  'skill-generate': prompt => {
+    const problem = excerpt(prompt, 'Problem to address:');
+    return `<filename>
+general_mock_skill
+</filename>
+
+<skill>
+# Skill: ${problem}
+
+${MOCK_NOTE}.
+
+## Guidelines
+
+1. Replace this mock skill with a generated one before relying on it
+</skill>`;
+  },
+
+  'planning-message': prompt =>
+    `${MOCK_NOTE}. You said: "${excerpt(prompt, '', 200)}"\n\nWhat should the first version include?`,
+
+  'planning-draft-prd': prompt => mockPrd(excerpt(prompt, 'User:')),
+
+  'planning-generate-prds': prompt => {
+    const title = excerpt(prompt, 'User:');
+    const plan = {
+      plan: {
+        title,
+        summary: `${MOCK_NOTE}.`,
+        prds: [
+          {
+            id: 'prd_mock',
+            filename: 'mock_feature.md',
+            title,
+            content: mockPrd(title),
+            priority: 'medium',
+            dependencies: [],
+            estimatedIterations: 3,
+          },
+        ],
+        estimatedComplexity: 'simple',
+        suggestedOrder: [0],
+      },
+    };
+    return `\`\`\`json\n${JSON.stringify(plan, null, 2)}\n\`\`\``;
+  },
+
+  'prd-generate': prompt => `<prd>
+${mockPrd(excerpt(prompt, 'Write a PRD for the following request:'))}
+</prd>
+
+<suggestions>
+- Generate this PRD with a live model
+</suggestions>`,
+
+  'task-add': prompt => JSON.stringify({
+    title: quoted(prompt).slice(0, 80),
+    description: `${MOCK_NOTE}: ${quoted(prompt)}`,
+    acceptanceCriteria: 'Task completed successfully',
+    estimatedIterations: 2,
+  }, null, 2),
+};
+
+// Roughly 4 characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function mockMessage(feature: LlmFeature, params: LlmMessageParams, model: string): Anthropic.Message {
+  const prompt = lastUserText(params);
+  const text = MOCK_REPLIES[feature](prompt);
+  const id = crypto.createHash('sha256').update(`${feature}\n${prompt}`).digest('hex').slice(0, 24);
+
+  return {
+    id: `msg_mock_${id}`,
+    type: 'message',
+    role: 'assistant',
+    model,
+    content: [{ type: 'text', text, citations: null }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: {
+      input_tokens: estimateTokens(JSON.stringify(params)),
+      output_tokens: estimateTokens(text),
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Model Catalog
+ * The Claude models the dashboard knows, what the opus/sonnet/haiku aliases resolve to, and each
+ * feature's built-in defaults. llm.json overrides any of them (see provider.ts).
+ */
+
+import type { AliasInfo, LlmFeature, ModelAlias, ModelInfo } from '@/lib/types/llm';
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  { id: 'claude-opus-4-5-20251101', name: 'Claude Opus 4.5', family: 'opus' },
+  { id: 'claude-opus-4-1-20250805', name: 'Claude Opus 4.1', family: 'opus' },
+  { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', family: 'opus' },
+  { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', family: 'sonnet' },
+  { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', family: 'sonnet' },
+  { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', family: 'haiku' },
+  { id: 'claude-3-5-haiku-20241022', name: 'Claude Haiku 3.5', family: 'haiku' },
+];
+
+export const MODEL_ALIAS_INFO: AliasInfo[] = [
+  { alias: 'opus', name: 'Opus', description: 'Most powerful and capable model' },
+  { alias: 'sonnet', name: 'Sonnet', description: 'Balanced performance and speed' },
+  { alias: 'haiku', name: 'Haiku', description: 'Fastest and most efficient' },
+];
+
+export const DEFAULT_ALIASES: Record<ModelAlias, string> = {
+  opus: 'claude-opus-4-5-20251101',
+  sonnet: 'claude-sonnet-4-20250514',
+  haiku: 'claude-haiku-4-5-20251001',
+};
+
+export const DEFAULT_MODEL: ModelAlias = 'sonnet';
+
+// The Anthropic SDK's own defaults
+export const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Size of the project summary in planning prompts
+export const DEFAULT_PROJECT_CONTEXT_TOKENS = 6000;
+// Starts the project summary, which always ends the system prompt (left out of fixture keys)
+export const PROJECT_CONTEXT_HEADING = "\n\n## The project's codebase\n\n";
+
+// Room for each feature's longest expected response
+export const FEATURE_MAX_TOKENS: Record<LlmFeature, number> = {
+  'editor-command': 8000,
+  'editor-batch-edit': 8000,
+  'skill-generate': 4000,
+  'planning-message': 4096,
+  'planning-draft-prd': 8000,
+  'planning-generate-prds': 16000,
+  'prd-generate': 8000,
+  'prd-refine': 8000,
+  'task-add': 1000,
+};
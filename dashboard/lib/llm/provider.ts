@@ -0,0 +1,279 @@
+/**
+ * LLM Provider
+ * The one place the dashboard calls Claude. Each call names its feature; the provider resolves the
+ * feature's model, token limit, timeout and retries from llm.json over the catalog defaults, and
+ * records the call in the usage ledger.
+ *
+ * llm.json lives beside the registry (override with CLAUDE_MANAGER_LLM_SETTINGS) and is read on
+ * every call, so edits apply without a restart.
+ *
+ * CLAUDE_MANAGER_LLM_MODE picks how calls are answered: live (the default) calls Claude, mock serves
+ * canned replies (mock.ts), record calls Claude and saves each response as a fixture, and replay
+ * serves the saved fixtures (fixtures.ts). Mock and replay need no network or API key and record no
+ * usage.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import Anthropic from '@anthropic-ai/sdk';
+import { MessageStream } from '@anthropic-ai/sdk/lib/MessageStream';
+import { getRegistryFilePath } from '@/lib/api/instance-registry';
+import { recordUsage } from '@/lib/api/usage-ledger';
+import { fixtureKey, readFixture, writeFixture } from '@/lib/llm/fixtures';
+import { mockMessage } from '@/lib/llm/mock';
+import {
+  DEFAULT_ALIASES,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_MODEL,
+  DEFAULT_TIMEOUT_MS,
+  FEATURE_MAX_TOKENS,
+} from '@/lib/llm/models';
+import {
+  LLM_FEATURES,
+  LLM_MODES,
+  MODEL_ALIASES,
+  type FeatureSettings,
+  type LlmFeature,
+  type LlmMode,
+  type LlmSettings,
+  type ModelAlias,
+  type ResolvedFeatureSettings,
+} from '@/lib/types/llm';
+
+// Everything but what the provider decides
+export type LlmMessageParams = Omit<Anthropic.MessageCreateParamsNonStreaming, 'model' | 'max_tokens' | 'stream'>;
+
+export interface LlmCallOptions {
+  // Instance the call is made for, recorded with its usage
+  instancePath?: string | null;
+}
+
+export function getLlmSettingsPath(): string {
+  return process.env.CLAUDE_MANAGER_LLM_SETTINGS
+    || path.join(path.dirname(getRegistryFilePath()), 'llm.json');
+}
+
+function positiveInteger(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function nonNegativeInteger(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+function modelName(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function parseFeatureSettings(raw: unknown): FeatureSettings {
+  const data = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  return {
+    model: modelName(data.model),
+    maxTokens: positiveInteger(data.maxTokens),
+    timeoutMs: positiveInteger(data.timeoutMs),
+    maxRetries: nonNegativeInteger(data.maxRetries),
+  };
+}
+
+/**
+ * Read llm.json. A missing file reads as no overrides; invalid values are ignored.
+ */
+export async function readLlmSettings(): Promise<LlmSettings> {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(await fs.readFile(getLlmSettingsPath(), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading LLM settings, using the defaults:', error);
+    }
+    return {};
+  }
+  if (!data || typeof data !== 'object') return {};
+
+  const aliases: Partial<Record<ModelAlias, string>> = {};
+  const rawAliases = data.aliases && typeof data.aliases === 'object' ? data.aliases as Record<string, unknown> : {};
+  for (const alias of MODEL_ALIASES) {
+    const model = modelName(rawAliases[alias]);
+    if (model) aliases[alias] = model;
+  }
+
+  const features: Partial<Record<LlmFeature, FeatureSettings>> = {};
+  const rawFeatures = data.features && typeof data.features === 'object' ? data.features as Record<string, unknown> : {};
+  for (const feature of LLM_FEATURES) {
+    if (rawFeatures[feature]) features[feature] = parseFeatureSettings(rawFeatures[feature]);
+  }
+
+  return {
+    defaultModel: modelName(data.defaultModel),
+    aliases,
+    timeoutMs: positiveInteger(data.timeoutMs),
+    maxRetries: nonNegativeInteger(data.maxRetries),
+    features,
+    projectContextTokens: positiveInteger(data.projectContextTokens),
+  };
+}
+
+/**
+ * Model id for an alias (as llm.json or the catalog maps it) or a model id (returned as is)
+ */
+export function resolveModel(model: string, settings: LlmSettings = {}): string {
+  if (MODEL_ALIASES.includes(model as ModelAlias)) {
+    const alias = model as ModelAlias;
+    return settings.aliases?.[alias] ?? DEFAULT_ALIASES[alias];
+  }
+  return model;
+}
+
+export function resolveFeatureSettings(feature: LlmFeature, settings: LlmSettings): ResolvedFeatureSettings {
+  const overrides = settings.features?.[feature] ?? {};
+  return {
+    feature,
+    model: resolveModel(overrides.model ?? settings.defaultModel ?? DEFAULT_MODEL, settings),
+    maxTokens: overrides.maxTokens ?? FEATURE_MAX_TOKENS[feature],
+    timeoutMs: overrides.timeoutMs ?? settings.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRetries: overrides.maxRetries ?? settings.maxRetries ?? DEFAULT_MAX_RETRIES,
+  };
+}
+
+export function getLlmMode(): LlmMode {
+  const mode = process.env.CLAUDE_MANAGER_LLM_MODE?.trim() || 'live';
+  if (!LLM_MODES.includes(mode as LlmMode)) {
+    throw new Error(`Invalid CLAUDE_MANAGER_LLM_MODE "${mode}" (expected ${LLM_MODES.join(', ')})`);
+  }
+  return mode as LlmMode;
+}
+
+// Text deltas of about this many characters when a complete message is streamed
+const STREAM_CHUNK_SIZE = 40;
+
+/**
+ * Replay a complete message as the events the API would have streamed
+ */
+function streamFromMessage(message: Anthropic.Message): MessageStream {
+  const events: Anthropic.RawMessageStreamEvent[] = [
+    { type: 'message_start', message: { ...message, content: [], stop_reason: null, stop_sequence: null } },
+  ];
+
+  message.content.forEach((block, index) => {
+    if (block.type !== 'text') {
+      events.push({ type: 'content_block_start', index, content_block: block });
+    } else {
+      events.push({ type: 'content_block_start', index, content_block: { ...block, text: '' } });
+      for (let i = 0; i < block.text.length; i += STREAM_CHUNK_SIZE) {
+        const text = block.text.slice(i, i + STREAM_CHUNK_SIZE);
+        events.push({ type: 'content_block_delta', index, delta: { type: 'text_delta', text } });
+      }
+    }
+    events.push({ type: 'content_block_stop', index });
+  });
+
+  events.push(
+    {
+      type: 'message_delta',
+      delta: { stop_reason: message.stop_reason, stop_sequence: message.stop_sequence },
+      usage: { output_tokens: message.usage.output_tokens },
+    },
+    { type: 'message_stop' }
+  );
+
+  const encoder = new TextEncoder();
+  return MessageStream.fromReadableStream(new ReadableStream({
+    start(controller) {
+      for (const event of events) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      controller.close();
+    },
+  }));
+}
+
+class LlmProvider {
+  private client: Anthropic | null = null;
+
+  // Created on first use, so a missing API key only fails the calls that need it
+  private getClient(): Anthropic {
+    this.client ??= new Anthropic();
+    return this.client;
+  }
+
+  async getFeatureSettings(feature: LlmFeature): Promise<ResolvedFeatureSettings> {
+    return resolveFeatureSettings(feature, await readLlmSettings());
+  }
+
+  /**
+   * One message, recorded in the usage ledger once it returns
+   */
+  async createMessage(
+    feature: LlmFeature,
+    params: LlmMessageParams,
+    options: LlmCallOptions = {}
+  ): Promise<Anthropic.Message> {
+    const mode = getLlmMode();
+    const settings = await this.getFeatureSettings(feature);
+    if (mode === 'mock' || mode === 'replay') {
+      return this.offlineMessage(mode, feature, params, settings);
+    }
+
+    const message = await this.getClient().messages.create(
+      { ...params, model: settings.model, max_tokens: settings.maxTokens },
+      { timeout: settings.timeoutMs, maxRetries: settings.maxRetries }
+    );
+
+    if (mode === 'record') await this.saveFixture(feature, params, message);
+    await recordUsage(feature, message, options.instancePath);
+    return message;
+  }
+
+  /**
+   * A streamed message, recorded in the usage ledger when the stream finishes
+   */
+  async streamMessage(
+    feature: LlmFeature,
+    params: LlmMessageParams,
+    options: LlmCallOptions = {}
+  ): Promise<MessageStream> {
+    const mode = getLlmMode();
+    const settings = await this.getFeatureSettings(feature);
+    if (mode === 'mock' || mode === 'replay') {
+      return streamFromMessage(await this.offlineMessage(mode, feature, params, settings));
+    }
+
+    const stream = this.getClient().messages.stream(
+      { ...params, model: settings.model, max_tokens: settings.maxTokens },
+      { timeout: settings.timeoutMs, maxRetries: settings.maxRetries }
+    );
+
+    stream.on('finalMessage', message => {
+      if (mode === 'record') void this.saveFixture(feature, params, message);
+      void recordUsage(feature, message, options.instancePath);
+    });
+    return stream;
+  }
+
+  // A canned reply (mock) or the recorded one (replay); throws if replay has nothing recorded
+  private async offlineMessage(
+    mode: 'mock' | 'replay',
+    feature: LlmFeature,
+    params: LlmMessageParams,
+    settings: ResolvedFeatureSettings
+  ): Promise<Anthropic.Message> {
+    if (mode === 'mock') return mockMessage(feature, params, settings.model);
+
+    const fixture = await readFixture(feature, params);
+    if (!fixture) {
+      throw new Error(
+        `No recorded response for ${feature} request ${fixtureKey(feature, params)}; record it with CLAUDE_MANAGER_LLM_MODE=record`
+      );
+    }
+    return fixture.message;
+  }
+
+  // A failed write only loses the recording, not the response
+  private async saveFixture(feature: LlmFeature, params: LlmMessageParams, message: Anthropic.Message): Promise<void> {
+    try {
+      await writeFixture(feature, params, message);
+    } catch (error) {
+      console.error(`Error recording LLM fixture for ${feature}:`, error);
+    }
+  }
+}
+
+export const llmProvider = new LlmProvider();
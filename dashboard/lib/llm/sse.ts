@@ -0,0 +1,104 @@
+/**
+ * LLM Event Streams
+ * Sends a provider message to the browser as Server-Sent Events while it is written: a
+ * `data: {"content": ...}` event per text delta, then the route's result event, then `data: [DONE]`.
+ * Failures become a `{"error": ...}` event, since the response has already started.
+ *
+ * When the browser disconnects (the user pressed stop), the Claude request is aborted and onAbort
+ * gets the text that arrived before then.
+ */
+
+import type { MessageStream } from '@anthropic-ai/sdk/lib/MessageStream';
+import type { PlanningStreamEvent } from '@/lib/types/planning';
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+export interface LlmEventStreamOptions {
+  // Log prefix, e.g. "[Draft PRD]"
+  label: string;
+  // Aborts the stream along with the request
+  signal?: AbortSignal;
+  // Sent before the message starts
+  prelude?: PlanningStreamEvent;
+  // Handles the complete text; its return value is the result event
+  onComplete?: (text: string) => Promise<PlanningStreamEvent | void>;
+  // Handles the text received before the user stopped the stream
+  onAbort?: (partialText: string) => Promise<void>;
+}
+
+export function llmEventStream(
+  start: () => Promise<MessageStream>,
+  { label, signal, prelude, onComplete, onAbort }: LlmEventStreamOptions
+): Response {
+  const encoder = new TextEncoder();
+  let llmStream: MessageStream | null = null;
+  let text = '';
+  let completed = false;
+  let aborted = false;
+
+  const abort = async () => {
+    if (aborted) return;
+    aborted = true;
+    llmStream?.abort();
+    if (completed || !onAbort) return;
+    try {
+      await onAbort(text);
+    } catch (error) {
+      console.error(`${label} Error saving the stopped response:`, error);
+    }
+  };
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (data: PlanningStreamEvent | '[DONE]') => {
+        if (aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`));
+        } catch {
+          // Closed by the client; cancel() or the abort signal handles it
+        }
+      };
+
+      signal?.addEventListener('abort', () => void abort());
+
+      try {
+        if (prelude) send(prelude);
+
+        llmStream = await start();
+        if (aborted) {
+          llmStream.abort();
+          return;
+        }
+
+        for await (const event of llmStream) {
+          if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            text += event.delta.text;
+            send({ content: event.delta.text });
+          }
+        }
+        completed = true;
+
+        const result = onComplete ? await onComplete(text) : undefined;
+        if (result) send(result);
+      } catch (error) {
+        if (aborted) return;
+        console.error(`${label} Streaming error:`, error);
+        send({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+
+      if (aborted) return;
+      send('[DONE]');
+      controller.close();
+    },
+    async cancel() {
+      await abort();
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,73 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync, spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The bundled CLI worker.sh runs, committed at the repo root
+const CLI = path.resolve(__dirname, '../../../scripts/schedule-tasks.mjs');
+
+let tmp: string;
+let tasksFile: string;
+
+function runCli(command: string, file = tasksFile) {
+  // Plain node, without type stripping, as worker.sh runs it
+  return spawnSync(process.execPath, [CLI, command, file], { encoding: 'utf-8' });
+}
+
+before(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'schedule-cli-'));
+  tasksFile = path.join(tmp, 'tasks.json');
+});
+
+after(async () => {
+  await fs.rm(tmp, { recursive: true, force: true });
+});
+
+describe('scripts/schedule-tasks.mjs', () => {
+  it('is up to date with npm run build:scheduler', async () => {
+    const built = path.join(tmp, 'schedule-tasks.mjs');
+    execFileSync('npm', ['run', 'build:scheduler', '--silent', '--', `--outfile=${built}`], {
+      cwd: path.resolve(__dirname, '../..'),
+      stdio: 'pipe',
+    });
+    assert.equal(
+      await fs.readFile(built, 'utf-8'),
+      await fs.readFile(CLI, 'utf-8'),
+      'scripts/schedule-tasks.mjs is stale; run npm run build:scheduler'
+    );
+  });
+
+  it('prints the next runnable task and why', async () => {
+    await fs.writeFile(tasksFile, JSON.stringify({
+      tasks: [
+        { id: '1', title: 'Schema', status: 'completed' },
+        { id: '2', title: 'API', status: 'pending', dependencies: ['3'] },
+        { id: '3', title: 'Models', status: 'pending', dependencies: ['1'] },
+      ],
+    }));
+
+    const result = runCli('next');
+    assert.equal(result.status, 0);
+    assert.equal(JSON.parse(result.stdout).id, '3');
+    assert.match(result.stderr, /dependencies are completed/);
+  });
+
+  it('exits 1 when every task is completed and 2 when the rest are blocked', async () => {
+    await fs.writeFile(tasksFile, JSON.stringify({ tasks: [{ id: '1', title: 'Done', status: 'completed' }] }));
+    assert.equal(runCli('next').status, 1);
+
+    await fs.writeFile(tasksFile, JSON.stringify({
+      tasks: [
+        { id: '1', title: 'A', status: 'pending', dependencies: ['2'] },
+        { id: '2', title: 'B', status: 'pending', dependencies: ['1'] },
+      ],
+    }));
+    assert.equal(runCli('next').status, 2);
+  });
+
+  it('exits 3 for unreadable files', () => {
+    assert.equal(runCli('next', path.join(tmp, 'missing.json')).status, 3);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Task Scheduler
+ * Picks the next runnable task from tasks.json using the dependency DAG and priority,
+ * and reports blocked tasks and the critical path.
+ *
+ * Only type imports here: scripts/schedule-tasks.mts imports this file by relative path, without
+ * the Next.js path aliases, when it is bundled into the worker's scheduler.
+ */
+
+import type { Task } from '@/lib/types/task';
+
+// 1 = high, 2 = medium, 3 = low (same scale as the PRD queue)
+export const DEFAULT_TASK_PRIORITY = 2;
+
+export type BlockedReason = 'dependencies' | 'unknown-dependency' | 'cycle' | 'timed-out' | 'marked-blocked';
+
+export interface BlockedTask {
+  id: string;
+  reason: BlockedReason;
+  waitingOn: string[];
+}
+
+export interface ScheduleResult<T = Task> {
+  next: T | null;
+  // Why next was chosen, one sentence per entry
+  reasons: string[];
+  // Tasks that could run now, in the order they would be picked
+  runnable: string[];
+  blocked: BlockedTask[];
+  // Longest chain of remaining work by estimated iterations
+  criticalPath: { ids: string[]; iterations: number };
+  allCompleted: boolean;
+}
+
+type Schedulable = Pick<Task, 'id' | 'title' | 'status' | 'dependencies' | 'estimatedIterations'>
+  & Partial<Pick<Task, 'priority' | 'timeout' | 'blocked' | 'skippedAt'>>;
+
+function priorityOf(task: Schedulable): number {
+  return typeof task.priority === 'number' ? task.priority : DEFAULT_TASK_PRIORITY;
+}
+
+function iterationsOf(task: Schedulable): number {
+  return typeof task.estimatedIterations === 'number' && task.estimatedIterations > 0 ? task.estimatedIterations : 1;
+}
+
+function dependenciesOf(task: Schedulable): string[] {
+  return Array.isArray(task.dependencies) ? task.dependencies.map(String) : [];
+}
+
+const PRIORITY_NAMES: Record<number, string> = { 1: 'high', 2: 'medium', 3: 'low' };
+
+/**
+ * Compute the schedule for a task list (in tasks.json order)
+ */
+export function scheduleTasks<T extends Schedulable>(tasks: T[]): ScheduleResult<T> {
+  const byId = new Map(tasks.map(t => [String(t.id), t]));
+  const order = new Map(tasks.map((t, i) => [String(t.id), i]));
+  const isDone = (id: string) => byId.get(id)?.status === 'completed';
+  const incomplete = tasks.filter(t => t.status !== 'completed');
+
+  // Tasks on a dependency cycle (among incomplete tasks) can never run
+  const onCycle = new Set<string>();
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const findCycles = (id: string) => {
+    if (visited.has(id)) return;
+    if (visiting.has(id)) {
+      stack.slice(stack.indexOf(id)).forEach(c => onCycle.add(c));
+      return;
+    }
+    const task = byId.get(id);
+    if (!task || task.status === 'completed') return;
+
+    visiting.add(id);
+    stack.push(id);
+    dependenciesOf(task).forEach(findCycles);
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+  };
+  incomplete.forEach(t => findCycles(String(t.id)));
+
+  // Blocked: marked blocked, stopped by the task time limit, or waiting on something that isn't completed
+  const blocked: BlockedTask[] = [];
+  const blockedIds = new Set<string>();
+  for (const task of incomplete) {
+    const id = String(task.id);
+    const dependencies = dependenciesOf(task);
+    const unknown = dependencies.filter(d => !byId.has(d));
+    const waitingOn = dependencies.filter(d => !isDone(d));
+
+    let reason: BlockedReason | null = null;
+    if (task.blocked) reason = 'marked-blocked';
+    else if (task.timeout?.limit === 'task') reason = 'timed-out';
+    else if (unknown.length > 0) reason = 'unknown-dependency';
+    else if (onCycle.has(id)) reason = 'cycle';
+    else if (waitingOn.length > 0) reason = 'dependencies';
+
+    if (reason) {
+      blocked.push({ id, reason, waitingOn });
+      blockedIds.add(id);
+    }
+  }
+
+  // Remaining work from each task to the end of its longest downstream chain
+  const dependents = new Map<string, string[]>();
+  for (const task of incomplete) {
+    for (const dependency of dependenciesOf(task)) {
+      dependents.set(dependency, [...(dependents.get(dependency) || []), String(task.id)]);
+    }
+  }
+  const chain = new Map<string, { iterations: number; ids: string[] }>();
+  const chainFrom = (id: string): { iterations: number; ids: string[] } => {
+    const cached = chain.get(id);
+    if (cached) return cached;
+    // Placeholder breaks cycles; tasks on cycles are blocked anyway
+    chain.set(id, { iterations: 0, ids: [] });
+
+    let best = { iterations: 0, ids: [] as string[] };
+    for (const dependent of dependents.get(id) || []) {
+      if (onCycle.has(dependent)) continue;
+      const candidate = chainFrom(dependent);
+      if (candidate.iterations > best.iterations) best = candidate;
+    }
+
+    const result = { iterations: iterationsOf(byId.get(id)!) + best.iterations, ids: [id, ...best.ids] };
+    chain.set(id, result);
+    return result;
+  };
+
+  let criticalPath = { ids: [] as string[], iterations: 0 };
+  for (const task of incomplete) {
+    const id = String(task.id);
+    // Chains start at tasks with nothing incomplete left upstream
+    if (onCycle.has(id) || dependenciesOf(task).some(d => byId.has(d) && !isDone(d))) continue;
+    const candidate = chainFrom(id);
+    if (candidate.iterations > criticalPath.iterations) criticalPath = candidate;
+  }
+  const critical = new Set(criticalPath.ids);
+
+  // Resume in-progress work first, then skipped tasks last, then priority, then critical path, then file order
+  const runnable = incomplete
+    .filter(t => !blockedIds.has(String(t.id)))
+    .sort((a, b) => {
+      const aId = String(a.id);
+      const bId = String(b.id);
+      return (Number(b.status === 'in_progress') - Number(a.status === 'in_progress'))
+        || (Number(Boolean(a.skippedAt)) - Number(Boolean(b.skippedAt)))
+        || (priorityOf(a) - priorityOf(b))
+        || (Number(critical.has(bId)) - Number(critical.has(aId)))
+        || ((chain.get(bId)?.iterations ?? 0) - (chain.get(aId)?.iterations ?? 0))
+        || (order.get(aId)! - order.get(bId)!);
+    });
+
+  const next = runnable[0] ?? null;
+  const reasons: string[] = [];
+
+  if (next) {
+    const id = String(next.id);
+    const dependencies = dependenciesOf(next);
+
+    if (next.status === 'in_progress') {
+      reasons.push('Already in progress, so the worker resumes it.');
+    }
+    if (next.skippedAt) {
+      reasons.push('Skipped earlier, but every other runnable task was skipped as well.');
+    }
+    reasons.push(dependencies.length > 0
+      ? `All dependencies are completed (${dependencies.map(d => `#${d}`).join(', ')}).`
+      : 'Has no dependencies.');
+    reasons.push(`Priority ${PRIORITY_NAMES[priorityOf(next)] ?? priorityOf(next)}.`);
+    if (critical.has(id)) {
+      reasons.push(`On the critical path (${criticalPath.iterations} estimated iterations of chained work remaining).`);
+    }
+    const neededBy = (dependents.get(id) || []).filter(d => !onCycle.has(d));
+    if (neededBy.length > 0) {
+      reasons.push(`Needed by ${neededBy.map(d => `#${d}`).join(', ')}.`);
+    }
+    if (runnable.length > 1) {
+      reasons.push(`Picked ahead of ${runnable.slice(1).map(t => `#${t.id}`).join(', ')}.`);
+    }
+  } else if (incomplete.length > 0) {
+    reasons.push('Every remaining task is blocked.');
+  }
+
+  return {
+    next,
+    reasons,
+    runnable: runnable.map(t => String(t.id)),
+    blocked,
+    criticalPath,
+    allCompleted: incomplete.length === 0,
+  };
+}
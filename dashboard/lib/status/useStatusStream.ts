@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { InstanceStatus, StatusStreamEvent } from '@/lib/types/status';
+
+const STREAM_URL = '/api/status/stream';
+const EVENT_TYPES: StatusStreamEvent['type'][] = ['snapshot', 'status', 'added', 'removed', 'log'];
+// EventSource retries dropped connections itself; this only covers hard failures (non-SSE responses)
+const RECONNECT_MS = 5000;
+const MAX_RECENT_LOGS = 20;
+
+export interface StatusStreamState {
+  managers: InstanceStatus[] | null;
+  connected: boolean;
+  error: string | null;
+  lastUpdate: Date | null;
+}
+
+type Listener = (state: StatusStreamState, event: StatusStreamEvent | null) => void;
+
+// One EventSource is shared by every component on the page
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let state: StatusStreamState = { managers: null, connected: false, error: null, lastUpdate: null };
+const listeners = new Set<Listener>();
+
+/**
+ * Apply a stream event to a managers list, returning a new list
+ */
+export function applyStatusEvent(managers: InstanceStatus[], event: StatusStreamEvent): InstanceStatus[] {
+  switch (event.type) {
+    case 'snapshot':
+      return event.managers;
+    case 'added':
+      return [...managers.filter(m => m.id !== event.instance.id), event.instance];
+    case 'removed':
+      return managers.filter(m => m.id !== event.id);
+    case 'status':
+      return managers.map(m => m.id !== event.id ? m : {
+        ...m,
+        ...event.changes,
+        worker: { ...m.worker, ...event.changes.worker },
+        manager: { ...m.manager, ...event.changes.manager },
+      });
+    case 'log':
+      if (event.source !== 'worker') return managers;
+      return managers.map(m => m.id !== event.id ? m : {
+        ...m,
+        recentLogs: [...m.recentLogs, ...event.lines].slice(-MAX_RECENT_LOGS),
+      });
+  }
+}
+
+function update(next: Partial<StatusStreamState>, event: StatusStreamEvent | null = null) {
+  state = { ...state, ...next };
+  for (const listener of listeners) {
+    listener(state, event);
+  }
+}
+
+function connect() {
+  if (source || typeof EventSource === 'undefined') return;
+
+  const es = new EventSource(STREAM_URL);
+  source = es;
+
+  es.onopen = () => update({ connected: true, error: null });
+
+  es.onerror = () => {
+    update({ connected: false, error: 'Lost connection to status stream, reconnecting...' });
+
+    if (es.readyState === EventSource.CLOSED) {
+      disconnect();
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (listeners.size > 0) connect();
+      }, RECONNECT_MS);
+    }
+  };
+
+  for (const type of EVENT_TYPES) {
+    es.addEventListener(type, (message) => {
+      let event: StatusStreamEvent;
+      try {
+        event = JSON.parse((message as MessageEvent<string>).data);
+      } catch {
+        return;
+      }
+      update({
+        managers: applyStatusEvent(state.managers ?? [], event),
+        lastUpdate: new Date(event.timestamp),
+        connected: true,
+        error: null,
+      }, event);
+    });
+  }
+}
+
+function disconnect() {
+  source?.close();
+  source = null;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+}
+
+/**
+ * Listen to the shared status stream. The listener is called with the current state
+ * straight away, then on every event. Returns an unsubscribe function.
+ */
+export function subscribeToStatus(listener: Listener): () => void {
+  listeners.add(listener);
+  connect();
+  listener(state, null);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      disconnect();
+      state = { ...state, connected: false };
+    }
+  };
+}
+
+/**
+ * React hook for live instance status from /api/status/stream
+ *
+ * @example
+ * ```tsx
+ * const { managers, connected } = useStatusStream((event, { managers }) => {
+ *   if (event.type === 'log') console.log(event.lines, managers);
+ * });
+ * ```
+ */
+export function useStatusStream(
+  onEvent?: (event: StatusStreamEvent, state: StatusStreamState) => void
+): StatusStreamState {
+  const [current, setCurrent] = useState<StatusStreamState>(() => state);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  useEffect(() => subscribeToStatus((next, event) => {
+    setCurrent(next);
+    if (event) {
+      onEventRef.current?.(event, next);
+    }
+  }), []);
+
+  return current;
+}
@@ -0,0 +1,41 @@
+// Budget types (config.json "budget" and .state/budget_exceeded.json)
+
+// daily: today, server local time; run: since the worker last started; task: the task being worked on
+export const BUDGET_SCOPES = ['daily', 'run', 'task'] as const;
+export type BudgetScope = typeof BUDGET_SCOPES[number];
+
+// usd: cost as reported by the claude CLI; tokens: input, output and cache tokens together
+export const BUDGET_METRICS = ['usd', 'tokens'] as const;
+export type BudgetMetric = typeof BUDGET_METRICS[number];
+
+// config.json "budget", e.g. { "daily": { "usd": 20 }, "task": { "tokens": 5000000 } } (0 or unset = no limit)
+export type BudgetConfig = Partial<Record<BudgetScope, Partial<Record<BudgetMetric, number>>>>;
+
+// .state/budget_exceeded.json: the limit worker.sh paused on (removed once back under every limit)
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  limit: number;
+  spent: number;
+  // Set for the task scope
+  taskId: string | null;
+  reason: string;
+  at: string;
+}
+
+export interface BudgetLine {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  limit: number;
+  spent: number;
+  // 0 once the limit is reached
+  remaining: number;
+}
+
+export interface BudgetStatus {
+  // One line per configured limit, in BUDGET_SCOPES then BUDGET_METRICS order
+  lines: BudgetLine[];
+  // The task the task lines measure (the worker's current or next task)
+  taskId: string | null;
+  exceeded: BudgetExceeded | null;
+}
@@ -0,0 +1,46 @@
+// Worker directive types (.state/manager_directive.md and its history)
+
+export type DirectiveAuthor = 'human' | 'manager';
+
+// pending: waiting in .state/manager_directive.md for the next iteration
+// delivered: worker.sh moved it to .state/directives/iteration_N.md and gave it to that iteration
+// superseded: replaced by a newer directive before delivery; cancelled: withdrawn before delivery
+export type DirectiveStatus = 'pending' | 'delivered' | 'superseded' | 'cancelled';
+
+// .state/directives.json: directives the dashboard wrote, and any it replaced or cancelled
+export interface DirectiveRecord {
+  id: string;
+  author: DirectiveAuthor;
+  content: string;
+  createdAt: string;
+  supersededAt?: string;
+  cancelledAt?: string;
+}
+
+export interface DirectivesFile {
+  directives: DirectiveRecord[];
+}
+
+// .state/directives/iteration_N.json, written by worker.sh on delivery
+export interface DirectiveDelivery {
+  iteration: number;
+  taskId: string;
+  deliveredAt: string;
+  // Instance-relative path of the iteration's output (its report)
+  output: string;
+}
+
+export interface Directive {
+  id: string;
+  author: DirectiveAuthor;
+  content: string;
+  createdAt: string;
+  status: DirectiveStatus;
+  // When it was superseded or cancelled
+  closedAt: string | null;
+  delivery: DirectiveDelivery | null;
+  // null until the iteration it was delivered to has finished
+  acknowledged: boolean | null;
+  // The worker's "DIRECTIVE ACKNOWLEDGED:" line
+  acknowledgement: string | null;
+}
@@ -0,0 +1,45 @@
+// Instance registry types
+
+import type { BudgetConfig } from './budget';
+import type { WatchdogConfig } from './watchdog';
+
+// Contents of an instance's config.json
+export interface InstanceConfig {
+  name?: string;
+  workerModel?: string;
+  managerModel?: string;
+  maxIterations?: number;
+  // Time limits worker.sh enforces, in minutes (0 or unset = no limit)
+  maxRuntimeMinutes?: number;
+  maxTaskMinutes?: number;
+  watchdog?: WatchdogConfig;
+  // Token and dollar limits worker.sh pauses on
+  budget?: BudgetConfig;
+  projectPath?: string;
+  createdAt?: string;
+  [key: string]: unknown;
+}
+
+// How the registry learned about an instance
+export type InstanceSource = 'root' | 'registered';
+
+export interface InstanceRecord {
+  id: string;
+  name: string;
+  path: string;
+  projectPath: string | null;
+  config: InstanceConfig | null;
+  source: InstanceSource;
+}
+
+// An instance registered explicitly, outside the root directories
+export interface RegisteredInstance {
+  path: string;
+  registeredAt: string;
+}
+
+// Persisted registry file (~/.claude-manager/registry.json by default)
+export interface RegistryFile {
+  roots?: string[];
+  instances: RegisteredInstance[];
+}
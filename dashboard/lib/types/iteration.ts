@@ -0,0 +1,52 @@
+// Iteration timeline types (output/iteration_N_report.md and the worker logs around it)
+
+import type { LogLine } from './logs';
+
+// in_progress: the run ended without the task's completion marker
+export type IterationOutcome = 'completed' | 'in_progress' | 'failed' | 'timed_out';
+
+// output/iteration_N_report.meta.json, written by worker.sh after each Claude run
+export interface IterationMeta {
+  iteration: number;
+  taskId: string;
+  taskTitle: string;
+  startedAt: string;
+  finishedAt: string;
+  durationSeconds: number;
+  outcome: IterationOutcome;
+  exitCode: number;
+  // Relative to the project directory
+  filesChanged: string[];
+  // Instance-relative path of Claude's raw output
+  output: string;
+  // Worker log and the line its "=== Iteration N ===" entry starts on
+  log: { file: string; line: number };
+}
+
+// Older iterations have only a report or raw output, so anything from the metadata may be null
+export interface IterationSummary {
+  iteration: number;
+  taskId: string | null;
+  taskTitle: string | null;
+  startedAt: string | null;
+  finishedAt: string;
+  durationSeconds: number | null;
+  outcome: IterationOutcome | null;
+  filesChanged: string[] | null;
+  // Instance-relative paths
+  report: string | null;
+  output: string | null;
+}
+
+export interface IterationLogSlice {
+  file: string;
+  lines: LogLine[];
+  truncated: boolean;
+}
+
+export interface IterationDetail extends IterationSummary {
+  // The report, or Claude's raw output when there is none
+  reportContent: string | null;
+  reportTruncated: boolean;
+  log: IterationLogSlice | null;
+}
@@ -0,0 +1,77 @@
+// LLM provider types (model catalog and llm.json beside the registry)
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+// Model aliases the scripts pass to the claude CLI and the dashboard resolves through llm.json
+export const MODEL_ALIASES = ['opus', 'sonnet', 'haiku'] as const;
+export type ModelAlias = typeof MODEL_ALIASES[number];
+
+// Every dashboard feature that calls Claude; also the ref of its usage ledger lines
+export const LLM_FEATURES = [
+  'editor-command',
+  'editor-batch-edit',
+  'skill-generate',
+  'planning-message',
+  'planning-draft-prd',
+  'planning-generate-prds',
+  'prd-generate',
+  'prd-refine',
+  'task-add',
+] as const;
+export type LlmFeature = typeof LLM_FEATURES[number];
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  family: ModelAlias;
+}
+
+export interface AliasInfo {
+  alias: ModelAlias;
+  name: string;
+  description: string;
+}
+
+// A feature's call settings; model is an alias or a model id
+export interface FeatureSettings {
+  model?: string;
+  maxTokens?: number;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+// llm.json. Everything is optional; unset values fall back to the built-in defaults.
+export interface LlmSettings {
+  // Model for every feature without its own (alias or model id)
+  defaultModel?: string;
+  // What each alias resolves to
+  aliases?: Partial<Record<ModelAlias, string>>;
+  timeoutMs?: number;
+  maxRetries?: number;
+  features?: Partial<Record<LlmFeature, FeatureSettings>>;
+  // Token budget of the project summary the planning features send
+  projectContextTokens?: number;
+}
+
+// What a feature's call actually uses
+export interface ResolvedFeatureSettings {
+  feature: LlmFeature;
+  // Model id, aliases resolved
+  model: string;
+  maxTokens: number;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+// How the provider answers: calls Claude, serves canned replies, or records/replays fixtures
+export const LLM_MODES = ['live', 'mock', 'record', 'replay'] as const;
+export type LlmMode = typeof LLM_MODES[number];
+
+// A recorded response, replayed for the same feature and request
+export interface LlmFixture {
+  feature: LlmFeature;
+  key: string;
+  recordedAt: string;
+  request: unknown;
+  message: Anthropic.Message;
+}
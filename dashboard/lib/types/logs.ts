@@ -0,0 +1,42 @@
+// Log explorer types for worker_*.log / manager_*.log files
+
+import type { LogSource } from './status';
+
+// Levels emitted by the log_* helpers in scripts/worker.sh and scripts/manager.sh
+export const LOG_LEVELS = ['INFO', 'WARN', 'ERROR', 'SUCCESS', 'REVIEW'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogFileInfo {
+  name: string;
+  source: LogSource;
+  size: number;
+  startedAt: string | null;
+  modifiedAt: string;
+}
+
+export interface LogLine {
+  number: number;
+  timestamp: string | null;
+  // null for raw output (e.g. Claude responses) that wasn't written through log_*
+  level: LogLevel | null;
+  message: string;
+}
+
+export interface LogQuery {
+  levels?: LogLevel[];
+  search?: string;
+  // Index into the matching lines; omitted means the last page
+  offset?: number;
+  limit?: number;
+}
+
+export interface LogPage {
+  file: string;
+  lines: LogLine[];
+  offset: number;
+  limit: number;
+  // Lines matching the query vs. lines in the file
+  total: number;
+  totalLines: number;
+}
@@ -0,0 +1,56 @@
+// Planning chat types (.state/planning_history/<conversationId>.json)
+
+export interface PlanningMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  // Reply cut short when the user stopped it; content is what arrived before then
+  interrupted?: boolean;
+}
+
+export interface PlanningConversation {
+  id: string;
+  instanceId: string;
+  // Set when saved with one; otherwise the first user message names it
+  title?: string;
+  messages: PlanningMessage[];
+  createdAt: string;
+  updatedAt: string;
+  // The conversation and message this one was forked at
+  forkedFrom?: {
+    conversationId: string;
+    messageId: string;
+  };
+}
+
+// A conversation in the library list
+export interface PlanningConversationSummary {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+  forkedFrom?: PlanningConversation['forkedFrom'];
+}
+
+// A message matching a library search, with the text around the match
+export interface PlanningSearchMatch {
+  conversationId: string;
+  title: string;
+  messageId: string;
+  role: PlanningMessage['role'];
+  snippet: string;
+  timestamp: string;
+}
+
+// One Server-Sent Event from a streaming planning route: text deltas, then the route's result,
+// then the literal [DONE]
+export interface PlanningStreamEvent {
+  conversationId?: string;
+  // Sent before a chat reply: the id it is saved under, also when the user stops it
+  assistantMessageId?: string;
+  content?: string;
+  error?: string;
+  [key: string]: unknown;
+}
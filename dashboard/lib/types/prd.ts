@@ -1,10 +1,22 @@
-// PRD Metadata types for the organizer
+// PRD queue types: one record per prds/*.md file, shared by the queue and the organizer
+
+export const PRD_STATUSES = ['pending', 'in_progress', 'blocked', 'completed'] as const;
+export type PRDStatus = typeof PRD_STATUSES[number];
+
+// 1 = high, 2 = medium, 3 = low (same scale as task priority)
+export const PRD_PRIORITIES = [1, 2, 3] as const;
+export type PRDPriority = typeof PRD_PRIORITIES[number];
+
+export const PRD_PRIORITY_LABELS: Record<PRDPriority, string> = {
+  1: 'high',
+  2: 'medium',
+  3: 'low',
+};
 
-export type PRDStatus = 'pending' | 'in-progress' | 'completed' | 'blocked';
-export type PRDPriority = 'high' | 'medium' | 'low';
 export type PRDComplexity = 'simple' | 'medium' | 'complex';
 
 export interface PRDMetadata {
+  id: string;
   filename: string;
   title: string;
   status: PRDStatus;
@@ -26,12 +38,23 @@ export interface PRDFile {
   metadata: PRDMetadata;
 }
 
-export interface PRDOrganizerState {
+// planning/prd-queue.json
+export interface PRDQueueFile {
+  version: number;
   prds: PRDMetadata[];
   tags: string[];
   lastUpdated: string;
 }
 
+export interface PRDQueueStats {
+  total: number;
+  pending: number;
+  inProgress: number;
+  blocked: number;
+  completed: number;
+  archived: number;
+}
+
 // View modes for the PRD organizer
 export type PRDViewMode = 'list' | 'kanban';
 
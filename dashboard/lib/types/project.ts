@@ -0,0 +1,20 @@
+// Project context types (summary of an instance's projectPath for planning prompts)
+
+export interface ProjectFile {
+  // Relative to the project, with forward slashes
+  path: string;
+  size: number;
+  mtimeMs: number;
+}
+
+export interface ProjectContext {
+  projectPath: string;
+  // Markdown summary: manifests, README, routes, modules, recent changes and the file tree
+  summary: string;
+  estimatedTokens: number;
+  tokenBudget: number;
+  fileCount: number;
+  // Hash of every file's path, size and mtime; the summary is rebuilt when it changes
+  fingerprint: string;
+  builtAt: string;
+}
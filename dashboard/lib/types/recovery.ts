@@ -0,0 +1,39 @@
+// Crash recovery types (.state/recovery.json)
+
+import type { ProcessRole } from './supervisor';
+
+// Why recovery ran: before a dashboard start, or from the dashboard's Recover button
+export type RecoveryTrigger = 'start' | 'manual';
+
+export interface RecoveredPid {
+  role: ProcessRole;
+  pid: string;
+}
+
+export interface RecoveredTask {
+  id: string;
+  title: string;
+  // completed: the worker left its TASK_<id>_COMPLETE marker before dying
+  // pending: the task goes back to the queue, keeping its elapsed time
+  outcome: 'completed' | 'pending';
+}
+
+export interface RemovedTempFile {
+  // Relative to the instance directory
+  file: string;
+  modifiedAt: string;
+}
+
+// .state/recovery.json: what the last recovery found and fixed
+export interface RecoveryReport {
+  trigger: RecoveryTrigger;
+  recoveredAt: string;
+  // Tasks are only reconciled while the worker is stopped
+  workerRunning: boolean;
+  stalePids: RecoveredPid[];
+  // worker_status left as "running" or "paused" by a worker that died
+  staleWorkerStatus: string | null;
+  tasks: RecoveredTask[];
+  tempFiles: RemovedTempFile[];
+  errors: string[];
+}
@@ -0,0 +1,39 @@
+// Manager review types (output/reviews/review_N.md written by scripts/manager.sh)
+
+export const REVIEW_VERDICTS = ['approved', 'needs-work'] as const;
+export type ReviewVerdict = typeof REVIEW_VERDICTS[number];
+
+// output/reviews/review_N.meta.json, written by manager.sh before each review
+export interface ReviewMeta {
+  review: number;
+  // The worker's iteration count when the review started
+  iteration: number;
+  startedAt: string;
+  // Instance-relative path of the iteration report the manager was given
+  report: string | null;
+  prd: string | null;
+}
+
+export interface ReviewSummary {
+  number: number;
+  file: string;
+  // 1-10, null if the review doesn't state one
+  score: number | null;
+  // From APPROVED_N.md / NEEDS_WORK_N.md, or the review text if neither exists
+  verdict: ReviewVerdict | null;
+  issues: string[];
+  iteration: number | null;
+  // Instance-relative path of the iteration report the review judged
+  report: string | null;
+  prd: string | null;
+  reviewedAt: string;
+}
+
+export interface ReviewDetail extends ReviewSummary {
+  content: string;
+  // Contents of APPROVED_N.md / NEEDS_WORK_N.md
+  verdictContent: string | null;
+  reportContent: string | null;
+  // The report is cut off at the first 256 KB
+  reportTruncated: boolean;
+}
@@ -0,0 +1,42 @@
+// Skill bundle types for sharing skills between instances
+
+export const SKILL_BUNDLE_FORMAT = 'claude-manager-skills';
+export const SKILL_BUNDLE_VERSION = 1;
+
+export interface SkillBundleEntry {
+  filename: string;
+  title: string;
+  category: string;
+  tags: string[];
+  content: string;
+}
+
+export interface SkillBundle {
+  format: typeof SKILL_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: {
+    instance: string;
+  };
+  skillCount: number;
+  skills: SkillBundleEntry[];
+}
+
+// How to handle a skill whose filename already exists in the target instance
+export type SkillConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export type SkillImportAction = 'create' | 'overwrite' | 'rename' | 'skip';
+
+export interface SkillImportItem {
+  filename: string;
+  targetFilename: string;
+  action: SkillImportAction;
+  reason?: string;
+}
+
+export interface SkillImportResult {
+  dryRun: boolean;
+  imported: number;
+  skipped: number;
+  items: SkillImportItem[];
+}
@@ -0,0 +1,94 @@
+// Instance status types shared by /api/status and the status stream
+
+import type { BudgetStatus } from './budget';
+import type { InstanceConfig } from './instance';
+import type { RecoveryReport } from './recovery';
+import type { PauseState } from './supervisor';
+import type { TaskTimeout } from './task';
+import type { WatchdogState } from './watchdog';
+
+export type ProcessState = 'running' | 'stopped';
+
+export interface CurrentTask {
+  id: string;
+  title: string;
+  status: string;
+}
+
+// .state/worker_timeout.json: the last time limit the worker hit (cleared when it starts again)
+export interface WorkerTimeout extends TaskTimeout {
+  // null when the runtime limit was reached between tasks
+  taskId: string | null;
+}
+
+export interface WorkerStatus {
+  status: ProcessState;
+  pid: string | null;
+  // Set while the worker is running and a pause is pending or in effect
+  pause: PauseState | null;
+  // A drain stop is pending: the worker exits after its current iteration
+  stopRequested: boolean;
+  timeout: WorkerTimeout | null;
+  iteration: number;
+  currentPrd: string | null;
+  currentTask: CurrentTask | null;
+  model: string;
+}
+
+export interface ManagerStatus {
+  status: ProcessState;
+  pid: string | null;
+  reviews: number;
+  model: string;
+}
+
+export interface InstanceStatus {
+  id: string;
+  path: string;
+  name: string;
+  projectPath: string | null;
+  worker: WorkerStatus;
+  manager: ManagerStatus;
+  prds: {
+    total: number;
+    completed: number;
+    list: string[];
+    completedList: string[];
+  };
+  skills: {
+    count: number;
+    list: string[];
+  };
+  recentLogs: string[];
+  config: InstanceConfig | null;
+  // null when the watchdog is disabled or hasn't checked the instance yet
+  watchdog: WatchdogState | null;
+  // The last crash recovery, null if none has run
+  recovery: RecoveryReport | null;
+  // null when no budget is configured
+  budget: BudgetStatus | null;
+}
+
+// Fields of an instance that changed since the last event (nested objects are partial)
+export interface StatusChanges {
+  name?: string;
+  projectPath?: string | null;
+  worker?: Partial<WorkerStatus>;
+  manager?: Partial<ManagerStatus>;
+  prds?: InstanceStatus['prds'];
+  skills?: InstanceStatus['skills'];
+  config?: InstanceConfig | null;
+  watchdog?: WatchdogState | null;
+  recovery?: RecoveryReport | null;
+  budget?: BudgetStatus | null;
+}
+
+export type LogSource = 'worker' | 'manager';
+
+// Events pushed over /api/status/stream (the SSE event name is the type)
+export type StatusStreamEvent =
+  | { type: 'snapshot'; timestamp: string; managers: InstanceStatus[] }
+  | { type: 'status'; timestamp: string; id: string; changes: StatusChanges }
+  | { type: 'added'; timestamp: string; instance: InstanceStatus }
+  | { type: 'removed'; timestamp: string; id: string }
+  | { type: 'log'; timestamp: string; id: string; source: LogSource; file: string; lines: string[] };
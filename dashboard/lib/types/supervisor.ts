@@ -0,0 +1,72 @@
+// Process supervisor types (worker.sh / manager.sh started and stopped by the dashboard)
+
+import type { ModelAlias } from './llm';
+
+export const MAX_ITERATIONS_LIMIT = 999999;
+
+export type ProcessRole = 'worker' | 'manager';
+
+export type SupervisorAction = 'start' | 'stop' | 'drain' | 'restart' | 'pause' | 'resume';
+
+export interface StartOptions {
+  workerModel?: ModelAlias;
+  managerModel?: ModelAlias;
+  maxIterations?: number;
+  // Worker only, no manager reviews
+  noManager?: boolean;
+}
+
+export type ProcessOutcome =
+  | 'started'
+  | 'already-running'
+  | 'stopped'
+  | 'draining'
+  | 'not-running'
+  | 'paused'
+  | 'already-paused'
+  | 'resumed'
+  | 'not-paused'
+  | 'failed';
+
+// 'requested' while the worker finishes its current iteration, 'paused' once it is holding
+export type PauseState = 'requested' | 'paused';
+
+// .state/pause_requested and .state/stop_requested, the markers worker.sh checks between iterations
+export interface ControlMarker {
+  requestedAt: string;
+}
+
+export interface ProcessExit {
+  pid: number;
+  exitCode: number | null;
+  signal: string | null;
+  exitedAt: string;
+}
+
+export interface ProcessResult {
+  role: ProcessRole;
+  outcome: ProcessOutcome;
+  pid: number | null;
+  // Set once the process has exited (a failed start, or a stop we saw complete)
+  exit: ProcessExit | null;
+  error?: string;
+  // Tail of logs/<role>_stdout.log when a start fails
+  output?: string;
+}
+
+export interface SupervisorResult {
+  ok: boolean;
+  action: SupervisorAction;
+  instancePath: string;
+  results: ProcessResult[];
+}
+
+export interface SupervisedProcess {
+  role: ProcessRole;
+  running: boolean;
+  pid: number | null;
+  lastExit: ProcessExit | null;
+  // Worker only
+  pause: PauseState | null;
+  stopRequested: boolean;
+}
@@ -0,0 +1,63 @@
+// tasks.json types (the work list scripts/worker.sh processes one task at a time)
+
+export const TASK_STATUSES = ['pending', 'in_progress', 'completed'] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+// Time limits from the instance's config.json (maxTaskMinutes, maxRuntimeMinutes)
+export type TimeLimit = 'task' | 'runtime';
+
+// Set by worker.sh when a time limit cuts a task short
+export interface TaskTimeout {
+  limit: TimeLimit;
+  minutes: number;
+  reason: string;
+  at: string;
+}
+
+// Set when a task is marked blocked (by the watchdog); the scheduler passes over it until it is reset
+export interface TaskBlock {
+  reason: string;
+  at: string;
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string;
+  acceptanceCriteria?: string;
+  status: TaskStatus;
+  estimatedIterations: number;
+  dependencies: string[];
+  // 1 = high, 2 = medium (default), 3 = low
+  priority?: number;
+  // Time worker iterations have spent on the task, counted against maxTaskMinutes
+  elapsedSeconds?: number;
+  // A task limit blocks the task until it is reset; a runtime limit is cleared when the worker resumes it
+  timeout?: TaskTimeout | null;
+  blocked?: TaskBlock | null;
+  // Skipped tasks run after every other runnable task; cleared when the worker picks the task up again
+  skippedAt?: string | null;
+  createdAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface TasksFile {
+  projectName?: string;
+  description?: string;
+  tasks: Task[];
+}
+
+// Fields that can be set through the tasks API
+export type TaskFields = Partial<Pick<
+  Task,
+  'title' | 'description' | 'acceptanceCriteria' | 'status' | 'estimatedIterations' | 'dependencies' | 'priority'
+>>;
+
+export interface TaskStats {
+  total: number;
+  pending: number;
+  inProgress: number;
+  completed: number;
+}
@@ -0,0 +1,47 @@
+// Usage ledger types (.state/usage.jsonl per instance, usage.jsonl beside the registry for dashboard calls)
+
+export const USAGE_SOURCES = ['dashboard', 'worker', 'manager'] as const;
+
+export type UsageSource = typeof USAGE_SOURCES[number];
+
+// One line of a ledger
+export interface UsageEntry {
+  at: string;
+  source: UsageSource;
+  // Dashboard feature ("prd-refine"), "iteration N" or "review N"
+  ref: string | null;
+  // Instance path of a dashboard call made for an instance (script entries live in the instance)
+  instance?: string | null;
+  // Task a worker iteration worked on, for the per-task budget
+  taskId?: string | null;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  // As reported by the claude CLI; null for dashboard calls, which are priced from MODEL_PRICING
+  costUsd: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  // Estimated, in US dollars
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  days: number;
+  // First day included (YYYY-MM-DD, server local time)
+  since: string;
+  totals: UsageTotals;
+  today: UsageTotals;
+  bySource: Record<UsageSource, UsageTotals>;
+  // instance null: dashboard calls not made for an instance
+  byInstance: (UsageTotals & { instance: string | null; name: string | null })[];
+  byModel: (UsageTotals & { model: string })[];
+  byDay: (UsageTotals & { day: string })[];
+}
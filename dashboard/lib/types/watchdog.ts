@@ -0,0 +1,42 @@
+// Stuck-worker watchdog types (config.json "watchdog" and .state/watchdog.json)
+
+export const WATCHDOG_POLICIES = ['alert', 'restart', 'skip-task', 'block-task'] as const;
+export type WatchdogPolicy = typeof WATCHDOG_POLICIES[number];
+
+// no-progress: iterations pass without a task completing
+// silent: a running worker writes no logs
+// dead-pid: .state/worker.pid names a process that no longer exists
+export type WatchdogCondition = 'no-progress' | 'silent' | 'dead-pid';
+
+// config.json "watchdog"
+export interface WatchdogConfig {
+  enabled?: boolean;
+  policy?: WatchdogPolicy;
+  maxIterationsWithoutProgress?: number;
+  maxSilentMinutes?: number;
+}
+
+export interface WatchdogAlert {
+  condition: WatchdogCondition;
+  message: string;
+  taskId: string | null;
+  detectedAt: string;
+  // What the policy did when the condition was first detected
+  action: WatchdogPolicy;
+  actionError?: string;
+}
+
+// .state/watchdog.json
+export interface WatchdogState {
+  policy: WatchdogPolicy;
+  // Conditions detected on the last check; an alert is acted on once, when it first appears
+  alerts: WatchdogAlert[];
+  // Alerts as first detected, newest first
+  history: WatchdogAlert[];
+  // Iteration count when a task last completed (or the watchdog last acted)
+  baseline: {
+    iteration: number;
+    lastCompletedAt: string | null;
+  };
+  checkedAt: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * Task Scheduler CLI
+ * Used by scripts/worker.sh to pick its next task. `npm run build:scheduler` bundles it into
+ * scripts/schedule-tasks.mjs at the repo root, plain JavaScript that new instances get along with
+ * the other scripts:
+ *
+ *   node scripts/schedule-tasks.mjs next    <tasks.json>
+ *   node scripts/schedule-tasks.mjs explain <tasks.json>
+ *   node scripts/schedule-tasks.mjs json    <tasks.json>
+ *
+ * next prints the task as a single line of JSON and the reasons on stderr.
+ * Exit codes: 0 task found, 1 all tasks completed, 2 remaining tasks are blocked, 3 usage/read error.
+ */
+
+import { readFileSync } from 'fs';
+import { scheduleTasks } from '../lib/scheduler/task-scheduler.ts';
+
+const [command, file] = process.argv.slice(2);
+
+if (!['next', 'explain', 'json'].includes(command) || !file) {
+  console.error('Usage: schedule-tasks.mjs <next|explain|json> <tasks.json>');
+  process.exit(3);
+}
+
+let tasks;
+try {
+  const data = JSON.parse(readFileSync(file, 'utf-8'));
+  tasks = Array.isArray(data.tasks) ? data.tasks : [];
+} catch (error) {
+  console.error(`Failed to read ${file}: ${error instanceof Error ? error.message : error}`);
+  process.exit(3);
+}
+
+const schedule = scheduleTasks(tasks);
+const exitCode = schedule.next ? 0 : schedule.allCompleted ? 1 : 2;
+
+if (command === 'json') {
+  console.log(JSON.stringify(schedule, null, 2));
+} else if (command === 'next') {
+  if (schedule.next) {
+    console.log(JSON.stringify(schedule.next));
+  }
+  console.error(schedule.reasons.join(' '));
+} else {
+  if (schedule.next) {
+    console.log(`Next: #${schedule.next.id} ${schedule.next.title}`);
+    schedule.reasons.forEach(reason => console.log(`  - ${reason}`));
+  } else {
+    console.log(schedule.allCompleted ? 'All tasks completed.' : 'No runnable task: every remaining task is blocked.');
+  }
+  if (schedule.blocked.length > 0) {
+    console.log('Blocked:');
+    schedule.blocked.forEach(b => console.log(b.waitingOn.length > 0
+      ? `  #${b.id} (${b.reason}) waiting on ${b.waitingOn.map(d => `#${d}`).join(', ')}`
+      : `  #${b.id} (${b.reason})`));
+  }
+  if (schedule.criticalPath.ids.length > 0) {
+    console.log(`Critical path (${schedule.criticalPath.iterations} iterations): ${schedule.criticalPath.ids.map(id => `#${id}`).join(' -> ')}`);
+  }
+}
+
+process.exit(exitCode);
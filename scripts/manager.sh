@@ -25,6 +25,8 @@ STATE_DIR="$PROJECT_ROOT/.state"
 STATUS_FILE="$STATE_DIR/manager_status"
 REVIEW_COUNT_FILE="$STATE_DIR/manager_reviews"
 LAST_REVIEWED_FILE="$STATE_DIR/last_reviewed_iteration"
+# Token usage of every claude run, shared with worker.sh
+USAGE_FILE="$STATE_DIR/usage.jsonl"
 
 # Colors
 RED='\033[0;31m'
@@ -103,12 +105,21 @@ get_current_prd() {
     fi
 }
 
+get_latest_report() {
+    # Latest iteration report, or the worker's raw output for its latest iteration
+    local latest_report=$(ls -t "$PROJECT_ROOT"/output/iteration_*_report.md 2>/dev/null | head -1)
+    if [[ -z "$latest_report" ]]; then
+        latest_report=$(ls -t "$PROJECT_ROOT"/logs/iteration_*_task_*.md 2>/dev/null | head -1)
+    fi
+    echo "$latest_report"
+}
+
 gather_worker_output() {
     # Collect ONLY the most recent iteration report (token-optimized)
     local output=""
 
     # Get ONLY the latest iteration report
-    local latest_report=$(ls -t "$PROJECT_ROOT"/output/iteration_*_report.md 2>/dev/null | head -1)
+    local latest_report=$(get_latest_report)
     if [[ -f "$latest_report" ]]; then
         output+="## Latest Iteration\n"
         output+="$(cat "$latest_report" | head -100)\n"  # Only first 100 lines
@@ -161,12 +172,60 @@ $worker_output
 
 2. If Worker needs redirection, create \`$PROJECT_ROOT/.state/manager_directive.md\`
 
-3. Create APPROVED_${review_count}.md OR NEEDS_WORK_${review_count}.md
+3. Create \`$PROJECT_ROOT/output/reviews/APPROVED_${review_count}.md\` OR \`$PROJECT_ROOT/output/reviews/NEEDS_WORK_${review_count}.md\`
 
 Done. Keep it brief.
 EOF
 }
 
+write_review_meta() {
+    local review_count="$1"
+    local iteration="$2"
+    local report=$(get_latest_report)
+
+    jq -n --argjson review "$review_count" --argjson iteration "$iteration" \
+       --arg report "${report#$PROJECT_ROOT/}" --arg prd "$(basename "$(get_current_prd)" 2>/dev/null)" \
+       '{review: $review, iteration: $iteration, startedAt: (now | strftime("%Y-%m-%dT%H:%M:%SZ")),
+         report: (if $report == "" then null else $report end), prd: (if $prd == "" then null else $prd end)}' \
+       > "$PROJECT_ROOT/output/reviews/review_${review_count}.meta.json"
+}
+
+record_usage() {
+    # Append the tokens and cost from a claude --output-format json result to USAGE_FILE,
+    # one line per model the run used
+    local result_file="$1"
+    local ref="$2"
+
+    jq -c --arg source "manager" --arg ref "$ref" --arg model "$MANAGER_MODEL" '
+        (now | strftime("%Y-%m-%dT%H:%M:%SZ")) as $at |
+        if (.modelUsage // {}) != {} then
+            .modelUsage | to_entries[] |
+            {at: $at, source: $source, ref: $ref, model: .key,
+             inputTokens: (.value.inputTokens // 0), outputTokens: (.value.outputTokens // 0),
+             cacheCreationInputTokens: (.value.cacheCreationInputTokens // 0),
+             cacheReadInputTokens: (.value.cacheReadInputTokens // 0), costUsd: .value.costUSD}
+        else
+            {at: $at, source: $source, ref: $ref, model: $model,
+             inputTokens: (.usage.input_tokens // 0), outputTokens: (.usage.output_tokens // 0),
+             cacheCreationInputTokens: (.usage.cache_creation_input_tokens // 0),
+             cacheReadInputTokens: (.usage.cache_read_input_tokens // 0), costUsd: .total_cost_usd}
+        end' "$result_file" >> "$USAGE_FILE"
+}
+
+save_claude_result() {
+    # Record the usage of a claude --output-format json run, then replace the JSON with the
+    # response text. Output that isn't a JSON result (a crash or a killed run) is left as it is.
+    local output_file="$1"
+    local ref="$2"
+
+    if ! jq -e '.type == "result"' "$output_file" > /dev/null 2>&1; then
+        return 0
+    fi
+
+    record_usage "$output_file" "$ref" || log_warn "Could not record usage for $ref"
+    jq -r '.result // ""' "$output_file" > "$output_file.tmp" && mv "$output_file.tmp" "$output_file"
+}
+
 run_manager_review() {
     local iteration="$1"
     local review_count=$(get_review_count)
@@ -177,6 +236,9 @@ run_manager_review() {
     local prompt_file="$STATE_DIR/manager_prompt.md"
     echo "$prompt" > "$prompt_file"
 
+    # Record what this review judges, for the dashboard's review browser
+    write_review_meta "$review_count" "$iteration" || log_warn "Could not write review_${review_count}.meta.json"
+
     log_info "Invoking Claude ($MANAGER_MODEL) for review..."
 
     local retry_count=0
@@ -185,13 +247,21 @@ run_manager_review() {
 
     while [[ $retry_count -lt $max_retries ]]; do
         local temp_output=$(mktemp)
+        # stderr is kept apart so the output stays a parseable JSON result; it goes to the log
+        local temp_errors=$(mktemp)
 
-        if cat "$prompt_file" | claude -p \
+        local claude_exit_code=0
+        cat "$prompt_file" | claude -p --output-format json \
             --dangerously-skip-permissions \
             --model "$MANAGER_MODEL" \
-            2>&1 | tee "$temp_output" | tee -a "$LOG_FILE"; then
+            > "$temp_output" 2> "$temp_errors" || claude_exit_code=$?
+        cat "$temp_errors" >> "$LOG_FILE"
+        save_claude_result "$temp_output" "review $review_count"
+        tee -a "$LOG_FILE" < "$temp_output"
+
+        if [[ $claude_exit_code -eq 0 ]]; then
             log_success "Review #$review_count completed"
-            rm -f "$temp_output"
+            rm -f "$temp_output" "$temp_errors"
             increment_review_count
             set_last_reviewed "$iteration"
             # Touch file for tracking changes
@@ -199,7 +269,7 @@ run_manager_review() {
             return 0
         else
             # Check if the error is due to rate limiting or credit exhaustion
-            if grep -q -i -E "(rate limit|429|quota|credit|overloaded)" "$temp_output"; then
+            if grep -q -i -E "(rate limit|429|quota|credit|overloaded)" "$temp_output" "$temp_errors"; then
                 ((retry_count++))
                 log_warn "Rate limit or credit exhaustion detected (attempt $retry_count/$max_retries)"
                 log_info "Waiting ${wait_time}s for credits to replenish..."
@@ -218,13 +288,13 @@ run_manager_review() {
                     wait_time=1800
                 fi
 
-                rm -f "$temp_output"
+                rm -f "$temp_output" "$temp_errors"
                 continue
             else
                 # Different error - fail normally
                 log_error "Review #$review_count failed (non-rate-limit error)"
                 cat "$temp_output" | tail -20 | tee -a "$LOG_FILE"
-                rm -f "$temp_output"
+                rm -f "$temp_output" "$temp_errors"
                 return 1
             fi
         fi
@@ -305,9 +375,8 @@ main() {
         if iteration=$(check_ready_for_review); then
             log_info "Worker signaled for review at iteration $iteration"
 
-            local result
-            run_manager_review "$iteration"
-            result=$?
+            local result=0
+            run_manager_review "$iteration" || result=$?
 
             if [[ $result -eq 0 ]]; then
                 # Success - clear the signal
@@ -330,7 +399,7 @@ main() {
 
             # Do one final review
             local last_iteration=$(cat "$STATE_DIR/worker_iteration" 2>/dev/null || echo "0")
-            run_manager_review "$last_iteration"
+            run_manager_review "$last_iteration" || true
 
             break
         fi
@@ -63,6 +63,7 @@ usage() {
     echo "Commands:"
     echo "  start       Start both Worker and Manager Claude"
     echo "  stop        Stop both Worker and Manager Claude"
+    echo "  drain       Stop Worker after its current iteration (Manager follows)"
     echo "  status      Show status of Worker and Manager"
     echo "  worker      Start only Worker Claude"
     echo "  manager     Start only Manager Claude"
@@ -80,6 +81,7 @@ usage() {
     echo "  $0 start                         # Start with defaults"
     echo "  $0 start --no-manager            # Worker only, no manager"
     echo "  $0 start --max-iterations 100    # Run up to 100 iterations"
+    echo "  $0 drain                         # Finish the current iteration, then stop"
     echo "  $0 status                        # Check what's running"
     echo "  $0 logs                          # Watch the logs"
     echo ""
@@ -142,13 +144,25 @@ stop_worker() {
             sleep 2
             kill -9 "$pid" 2>/dev/null || true
         fi
-        rm -f "$WORKER_PID_FILE"
+        rm -f "$WORKER_PID_FILE" "$STATE_DIR/stop_requested" "$STATE_DIR/pause_requested"
         echo -e "${GREEN}Worker stopped${NC}"
     else
         echo -e "${YELLOW}Worker not running${NC}"
     fi
 }
 
+drain_worker() {
+    # worker.sh checks the marker between iterations, so the running task isn't cut off.
+    # The manager sees the worker stop, does its final review and exits.
+    if [[ -f "$WORKER_PID_FILE" ]] && kill -0 "$(cat "$WORKER_PID_FILE")" 2>/dev/null; then
+        date -u '+{"requestedAt": "%Y-%m-%dT%H:%M:%SZ"}' > "$STATE_DIR/stop_requested"
+        echo -e "${YELLOW}Worker will stop after its current iteration${NC}"
+        echo -e "Use '$0 stop' to stop immediately"
+    else
+        echo -e "${YELLOW}Worker not running${NC}"
+    fi
+}
+
 stop_manager() {
     if [[ -f "$MANAGER_PID_FILE" ]]; then
         local pid=$(cat "$MANAGER_PID_FILE")
@@ -349,6 +363,9 @@ main() {
             stop_worker
             stop_manager
             ;;
+        drain)
+            drain_worker
+            ;;
         status)
             show_status
             ;;
@@ -0,0 +1,169 @@
+// Generated from dashboard/scripts/schedule-tasks.mts by npm run build:scheduler. Do not edit.
+
+// scripts/schedule-tasks.mts
+import { readFileSync } from "fs";
+
+// lib/scheduler/task-scheduler.ts
+var DEFAULT_TASK_PRIORITY = 2;
+function priorityOf(task) {
+  return typeof task.priority === "number" ? task.priority : DEFAULT_TASK_PRIORITY;
+}
+function iterationsOf(task) {
+  return typeof task.estimatedIterations === "number" && task.estimatedIterations > 0 ? task.estimatedIterations : 1;
+}
+function dependenciesOf(task) {
+  return Array.isArray(task.dependencies) ? task.dependencies.map(String) : [];
+}
+var PRIORITY_NAMES = { 1: "high", 2: "medium", 3: "low" };
+function scheduleTasks(tasks2) {
+  const byId = new Map(tasks2.map((t) => [String(t.id), t]));
+  const order = new Map(tasks2.map((t, i) => [String(t.id), i]));
+  const isDone = (id) => byId.get(id)?.status === "completed";
+  const incomplete = tasks2.filter((t) => t.status !== "completed");
+  const onCycle = /* @__PURE__ */ new Set();
+  const visiting = /* @__PURE__ */ new Set();
+  const visited = /* @__PURE__ */ new Set();
+  const stack = [];
+  const findCycles = (id) => {
+    if (visited.has(id)) return;
+    if (visiting.has(id)) {
+      stack.slice(stack.indexOf(id)).forEach((c) => onCycle.add(c));
+      return;
+    }
+    const task = byId.get(id);
+    if (!task || task.status === "completed") return;
+    visiting.add(id);
+    stack.push(id);
+    dependenciesOf(task).forEach(findCycles);
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+  };
+  incomplete.forEach((t) => findCycles(String(t.id)));
+  const blocked = [];
+  const blockedIds = /* @__PURE__ */ new Set();
+  for (const task of incomplete) {
+    const id = String(task.id);
+    const dependencies = dependenciesOf(task);
+    const unknown = dependencies.filter((d) => !byId.has(d));
+    const waitingOn = dependencies.filter((d) => !isDone(d));
+    let reason = null;
+    if (task.blocked) reason = "marked-blocked";
+    else if (task.timeout?.limit === "task") reason = "timed-out";
+    else if (unknown.length > 0) reason = "unknown-dependency";
+    else if (onCycle.has(id)) reason = "cycle";
+    else if (waitingOn.length > 0) reason = "dependencies";
+    if (reason) {
+      blocked.push({ id, reason, waitingOn });
+      blockedIds.add(id);
+    }
+  }
+  const dependents = /* @__PURE__ */ new Map();
+  for (const task of incomplete) {
+    for (const dependency of dependenciesOf(task)) {
+      dependents.set(dependency, [...dependents.get(dependency) || [], String(task.id)]);
+    }
+  }
+  const chain = /* @__PURE__ */ new Map();
+  const chainFrom = (id) => {
+    const cached = chain.get(id);
+    if (cached) return cached;
+    chain.set(id, { iterations: 0, ids: [] });
+    let best = { iterations: 0, ids: [] };
+    for (const dependent of dependents.get(id) || []) {
+      if (onCycle.has(dependent)) continue;
+      const candidate = chainFrom(dependent);
+      if (candidate.iterations > best.iterations) best = candidate;
+    }
+    const result = { iterations: iterationsOf(byId.get(id)) + best.iterations, ids: [id, ...best.ids] };
+    chain.set(id, result);
+    return result;
+  };
+  let criticalPath = { ids: [], iterations: 0 };
+  for (const task of incomplete) {
+    const id = String(task.id);
+    if (onCycle.has(id) || dependenciesOf(task).some((d) => byId.has(d) && !isDone(d))) continue;
+    const candidate = chainFrom(id);
+    if (candidate.iterations > criticalPath.iterations) criticalPath = candidate;
+  }
+  const critical = new Set(criticalPath.ids);
+  const runnable = incomplete.filter((t) => !blockedIds.has(String(t.id))).sort((a, b) => {
+    const aId = String(a.id);
+    const bId = String(b.id);
+    return Number(b.status === "in_progress") - Number(a.status === "in_progress") || Number(Boolean(a.skippedAt)) - Number(Boolean(b.skippedAt)) || priorityOf(a) - priorityOf(b) || Number(critical.has(bId)) - Number(critical.has(aId)) || (chain.get(bId)?.iterations ?? 0) - (chain.get(aId)?.iterations ?? 0) || order.get(aId) - order.get(bId);
+  });
+  const next = runnable[0] ?? null;
+  const reasons = [];
+  if (next) {
+    const id = String(next.id);
+    const dependencies = dependenciesOf(next);
+    if (next.status === "in_progress") {
+      reasons.push("Already in progress, so the worker resumes it.");
+    }
+    if (next.skippedAt) {
+      reasons.push("Skipped earlier, but every other runnable task was skipped as well.");
+    }
+    reasons.push(dependencies.length > 0 ? `All dependencies are completed (${dependencies.map((d) => `#${d}`).join(", ")}).` : "Has no dependencies.");
+    reasons.push(`Priority ${PRIORITY_NAMES[priorityOf(next)] ?? priorityOf(next)}.`);
+    if (critical.has(id)) {
+      reasons.push(`On the critical path (${criticalPath.iterations} estimated iterations of chained work remaining).`);
+    }
+    const neededBy = (dependents.get(id) || []).filter((d) => !onCycle.has(d));
+    if (neededBy.length > 0) {
+      reasons.push(`Needed by ${neededBy.map((d) => `#${d}`).join(", ")}.`);
+    }
+    if (runnable.length > 1) {
+      reasons.push(`Picked ahead of ${runnable.slice(1).map((t) => `#${t.id}`).join(", ")}.`);
+    }
+  } else if (incomplete.length > 0) {
+    reasons.push("Every remaining task is blocked.");
+  }
+  return {
+    next,
+    reasons,
+    runnable: runnable.map((t) => String(t.id)),
+    blocked,
+    criticalPath,
+    allCompleted: incomplete.length === 0
+  };
+}
+
+// scripts/schedule-tasks.mts
+var [command, file] = process.argv.slice(2);
+if (!["next", "explain", "json"].includes(command) || !file) {
+  console.error("Usage: schedule-tasks.mjs <next|explain|json> <tasks.json>");
+  process.exit(3);
+}
+var tasks;
+try {
+  const data = JSON.parse(readFileSync(file, "utf-8"));
+  tasks = Array.isArray(data.tasks) ? data.tasks : [];
+} catch (error) {
+  console.error(`Failed to read ${file}: ${error instanceof Error ? error.message : error}`);
+  process.exit(3);
+}
+var schedule = scheduleTasks(tasks);
+var exitCode = schedule.next ? 0 : schedule.allCompleted ? 1 : 2;
+if (command === "json") {
+  console.log(JSON.stringify(schedule, null, 2));
+} else if (command === "next") {
+  if (schedule.next) {
+    console.log(JSON.stringify(schedule.next));
+  }
+  console.error(schedule.reasons.join(" "));
+} else {
+  if (schedule.next) {
+    console.log(`Next: #${schedule.next.id} ${schedule.next.title}`);
+    schedule.reasons.forEach((reason) => console.log(`  - ${reason}`));
+  } else {
+    console.log(schedule.allCompleted ? "All tasks completed." : "No runnable task: every remaining task is blocked.");
+  }
+  if (schedule.blocked.length > 0) {
+    console.log("Blocked:");
+    schedule.blocked.forEach((b) => console.log(b.waitingOn.length > 0 ? `  #${b.id} (${b.reason}) waiting on ${b.waitingOn.map((d) => `#${d}`).join(", ")}` : `  #${b.id} (${b.reason})`));
+  }
+  if (schedule.criticalPath.ids.length > 0) {
+    console.log(`Critical path (${schedule.criticalPath.iterations} iterations): ${schedule.criticalPath.ids.map((id) => `#${id}`).join(" -> ")}`);
+  }
+}
+process.exit(exitCode);
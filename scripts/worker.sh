@@ -12,10 +12,12 @@ set -e
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 INSTANCE_ROOT="$(dirname "$SCRIPT_DIR")"
 
-# Read config to get project path
+# Read config to get project path and time limits
 CONFIG_FILE="$INSTANCE_ROOT/config.json"
 if [[ -f "$CONFIG_FILE" ]] && command -v jq &> /dev/null; then
     PROJECT_PATH=$(jq -r '.projectPath // empty' "$CONFIG_FILE" 2>/dev/null)
+    CONFIG_MAX_RUNTIME=$(jq -r '.maxRuntimeMinutes // empty' "$CONFIG_FILE" 2>/dev/null)
+    CONFIG_MAX_TASK=$(jq -r '.maxTaskMinutes // empty' "$CONFIG_FILE" 2>/dev/null)
 fi
 
 # Default to output/ if no projectPath set (backward compatibility)
@@ -25,6 +27,17 @@ PROJECT_PATH="${PROJECT_PATH:-$INSTANCE_ROOT/output}"
 MAX_ITERATIONS="${MAX_ITERATIONS:-999}"
 WORKER_MODEL="${WORKER_MODEL:-opus}"
 ITERATION_DELAY="${ITERATION_DELAY:-5}"
+PAUSE_POLL_INTERVAL="${PAUSE_POLL_INTERVAL:-2}"
+
+# Time limits in minutes (0 = no limit): wall-clock time for this worker run, and time spent on one task
+MAX_RUNTIME_MINUTES="${MAX_RUNTIME_MINUTES:-${CONFIG_MAX_RUNTIME:-0}}"
+MAX_TASK_MINUTES="${MAX_TASK_MINUTES:-${CONFIG_MAX_TASK:-0}}"
+[[ "$MAX_RUNTIME_MINUTES" =~ ^[0-9]+$ ]] || MAX_RUNTIME_MINUTES=0
+[[ "$MAX_TASK_MINUTES" =~ ^[0-9]+$ ]] || MAX_TASK_MINUTES=0
+RUN_STARTED_AT=$(date +%s)
+
+# coreutils timeout (gtimeout with Homebrew coreutils) caps a claude run at the remaining time
+TIMEOUT_CMD=$(command -v timeout || command -v gtimeout || true)
 LOG_FILE="$INSTANCE_ROOT/logs/worker_$(date +%Y%m%d_%H%M%S).log"
 
 # State files (in instance directory)
@@ -32,6 +45,34 @@ STATE_DIR="$INSTANCE_ROOT/.state"
 ITERATION_FILE="$STATE_DIR/worker_iteration"
 STATUS_FILE="$STATE_DIR/worker_status"
 TASKS_FILE="$INSTANCE_ROOT/prds/tasks.json"
+# Held while tasks.json is rewritten; the dashboard takes the same lock (lib/api/file-lock.ts)
+TASKS_LOCK_FILE="$TASKS_FILE.lock"
+TASKS_LOCK_STALE_SECONDS=30
+TASKS_LOCK_TIMEOUT_SECONDS=10
+NEXT_TASK_REASON_FILE="$STATE_DIR/next_task_reason"
+# Created by the dashboard's pause action, removed by resume
+PAUSE_FILE="$STATE_DIR/pause_requested"
+# Created by the dashboard's drain action or `orchestrator.sh drain`: exit after the current iteration
+STOP_FILE="$STATE_DIR/stop_requested"
+# Last time limit hit during this run, for the dashboard
+TIMEOUT_FILE="$STATE_DIR/worker_timeout.json"
+# Written by Manager Claude or the dashboard; delivered to the next iteration, then kept in DIRECTIVES_DIR
+DIRECTIVE_FILE="$STATE_DIR/manager_directive.md"
+DIRECTIVES_DIR="$STATE_DIR/directives"
+# iteration_N_report.md (read by Manager Claude) and iteration_N_report.meta.json (dashboard timeline)
+REPORTS_DIR="$INSTANCE_ROOT/output"
+# Touched when Claude starts; files newer than it changed during the iteration
+ITERATION_MARKER="$STATE_DIR/iteration_started"
+# Token usage of every claude run (one JSON object per line), read by the dashboard's usage ledger
+USAGE_FILE="$STATE_DIR/usage.jsonl"
+# Start of this run (epoch seconds), for the per-run budget
+RUN_STARTED_FILE="$STATE_DIR/worker_started_at"
+# The budget limit that paused the worker; removed once spending is back under every limit
+BUDGET_FILE="$STATE_DIR/budget_exceeded.json"
+
+# Dependency-aware scheduler (dashboard/lib/scheduler bundled to plain JS by `npm run build:scheduler`),
+# copied into each instance's scripts/ with this file
+SCHEDULER_CLI="${SCHEDULER_CLI:-$SCRIPT_DIR/schedule-tasks.mjs}"
 
 # Colors for output
 RED='\033[0;31m'
@@ -67,6 +108,8 @@ init_state() {
     fi
 
     echo "running" > "$STATUS_FILE"
+    echo "$RUN_STARTED_AT" > "$RUN_STARTED_FILE"
+    rm -f "$STOP_FILE" "$TIMEOUT_FILE"
 
     # Create default tasks.json if it doesn't exist
     if [[ ! -f "$TASKS_FILE" ]]; then
@@ -88,12 +131,43 @@ increment_iteration() {
 }
 
 get_next_task() {
-    # Find first task with status "pending" or "in_progress"
+    # Pick the next runnable task: dependencies completed, then priority and critical path.
+    # Returns 1 when every task is completed, 2 when the remaining tasks are blocked.
     if [[ ! -f "$TASKS_FILE" ]]; then
         return 1
     fi
 
-    local task=$(jq -r '.tasks[] | select(.status == "pending" or .status == "in_progress") | @json' "$TASKS_FILE" 2>/dev/null | head -n 1)
+    rm -f "$NEXT_TASK_REASON_FILE"
+
+    local fallback_reason
+    if [[ ! -f "$SCHEDULER_CLI" ]]; then
+        fallback_reason="Task scheduler not found at $SCHEDULER_CLI"
+    elif ! command -v node &> /dev/null; then
+        fallback_reason="Node is not installed"
+    else
+        local task
+        local status=0
+        task=$(node "$SCHEDULER_CLI" next "$TASKS_FILE" 2>"$NEXT_TASK_REASON_FILE") || status=$?
+
+        case $status in
+            0)
+                echo "$task"
+                return 0
+                ;;
+            1|2)
+                return $status
+                ;;
+        esac
+
+        fallback_reason="Task scheduler failed ($(head -n 1 "$NEXT_TASK_REASON_FILE" 2>/dev/null))"
+        rm -f "$NEXT_TASK_REASON_FILE"
+    fi
+
+    # Dependencies and priorities are ignored from here on
+    log_warn "$fallback_reason; falling back to first pending task" >&2
+
+    # Fallback: first task with status "pending" or "in_progress" that isn't blocked or timed out
+    local task=$(jq -r '.tasks[] | select((.status == "pending" or .status == "in_progress") and .blocked == null and .timeout.limit != "task") | @json' "$TASKS_FILE" 2>/dev/null | head -n 1)
 
     if [[ -n "$task" && "$task" != "null" ]]; then
         echo "$task"
@@ -103,22 +177,102 @@ get_next_task() {
     return 1
 }
 
+# Rewrite tasks.json with a jq filter (arguments as for jq) while holding TASKS_LOCK_FILE.
+# The lock is created exclusively (noclobber); one older than TASKS_LOCK_STALE_SECONDS was left by a crash.
+update_tasks_file() {
+    local waited_from=$(date +%s)
+    until ( set -o noclobber; echo "$$" > "$TASKS_LOCK_FILE" ) 2>/dev/null; do
+        local locked_at=$(date -r "$TASKS_LOCK_FILE" +%s 2>/dev/null || date +%s)
+        if (( $(date +%s) - locked_at > TASKS_LOCK_STALE_SECONDS )); then
+            rm -f "$TASKS_LOCK_FILE"
+            continue
+        fi
+        if (( $(date +%s) - waited_from > TASKS_LOCK_TIMEOUT_SECONDS )); then
+            log_error "Timed out waiting for tasks lock: $TASKS_LOCK_FILE"
+            return 1
+        fi
+        sleep 0.05
+    done
+
+    local status=0
+    { jq "$@" "$TASKS_FILE" > "$TASKS_FILE.tmp" && mv "$TASKS_FILE.tmp" "$TASKS_FILE"; } || status=$?
+    rm -f "$TASKS_LOCK_FILE"
+    return $status
+}
+
 mark_task_in_progress() {
     local task_id="$1"
 
-    jq --arg id "$task_id" \
+    # Resuming a task the runtime limit interrupted clears that timeout, and picking it up ends a skip
+    update_tasks_file --arg id "$task_id" \
        '(.tasks[] | select(.id == $id) | .status) = "in_progress" |
-        (.tasks[] | select(.id == $id) | .startedAt) = (now | strftime("%Y-%m-%dT%H:%M:%SZ"))' \
-       "$TASKS_FILE" > "$TASKS_FILE.tmp" && mv "$TASKS_FILE.tmp" "$TASKS_FILE"
+        (.tasks[] | select(.id == $id) | .startedAt) = (now | strftime("%Y-%m-%dT%H:%M:%SZ")) |
+        del(.tasks[] | select(.id == $id and .timeout.limit == "runtime") | .timeout) |
+        del(.tasks[] | select(.id == $id) | .skippedAt)'
+}
+
+get_task_elapsed() {
+    local task_id="$1"
+    jq -r --arg id "$task_id" '[.tasks[] | select(.id == $id) | .elapsedSeconds // 0][0] // 0' "$TASKS_FILE" 2>/dev/null || echo "0"
+}
+
+add_task_elapsed() {
+    local task_id="$1"
+    local seconds="$2"
+
+    update_tasks_file --arg id "$task_id" --argjson seconds "$seconds" \
+       '(.tasks[] | select(.id == $id) | .elapsedSeconds) |= ((. // 0) + $seconds)'
+}
+
+runtime_seconds_left() {
+    # Empty when there is no runtime limit
+    if [[ $MAX_RUNTIME_MINUTES -gt 0 ]]; then
+        echo $(( MAX_RUNTIME_MINUTES * 60 - ($(date +%s) - RUN_STARTED_AT) ))
+    fi
+}
+
+record_timeout() {
+    # Mark the task (if any) and write TIMEOUT_FILE for the dashboard
+    local limit="$1"
+    local minutes="$2"
+    local task_id="$3"
+    local reason="$4"
+
+    if [[ -n "$task_id" ]]; then
+        update_tasks_file --arg id "$task_id" --arg limit "$limit" --argjson minutes "$minutes" --arg reason "$reason" \
+           '(.tasks[] | select(.id == $id) | .timeout) =
+                {limit: $limit, minutes: $minutes, reason: $reason, at: (now | strftime("%Y-%m-%dT%H:%M:%SZ"))}'
+    fi
+
+    jq -n --arg id "$task_id" --arg limit "$limit" --argjson minutes "$minutes" --arg reason "$reason" \
+       '{limit: $limit, minutes: $minutes, reason: $reason, at: (now | strftime("%Y-%m-%dT%H:%M:%SZ")),
+         taskId: (if $id == "" then null else $id end)}' > "$TIMEOUT_FILE"
+
+    log_error "⏱️  $reason"
+}
+
+handle_time_limit() {
+    # Returns 0 to move on to the next task, 1 to stop the worker
+    local limit="$1"
+    local task_id="$2"
+
+    if [[ "$limit" == "task" ]]; then
+        record_timeout task "$MAX_TASK_MINUTES" "$task_id" \
+            "Task $task_id exceeded the ${MAX_TASK_MINUTES} minute task limit; reset it to retry"
+        return 0
+    fi
+
+    record_timeout runtime "$MAX_RUNTIME_MINUTES" "$task_id" \
+        "Worker reached the ${MAX_RUNTIME_MINUTES} minute runtime limit${task_id:+ during Task $task_id}"
+    return 1
 }
 
 mark_task_completed() {
     local task_id="$1"
 
-    jq --arg id "$task_id" \
+    update_tasks_file --arg id "$task_id" \
        '(.tasks[] | select(.id == $id) | .status) = "completed" |
-        (.tasks[] | select(.id == $id) | .completedAt) = (now | strftime("%Y-%m-%dT%H:%M:%SZ"))' \
-       "$TASKS_FILE" > "$TASKS_FILE.tmp" && mv "$TASKS_FILE.tmp" "$TASKS_FILE"
+        (.tasks[] | select(.id == $id) | .completedAt) = (now | strftime("%Y-%m-%dT%H:%M:%SZ"))'
 
     log_success "✓ Task $task_id completed!"
 }
@@ -160,8 +314,218 @@ load_skills() {
     echo "$skills_content"
 }
 
+deliver_directive() {
+    # Claim the pending directive for this iteration and print its delivered path
+    local iteration="$1"
+    local task_id="$2"
+
+    if [[ ! -f "$DIRECTIVE_FILE" ]]; then
+        return 0
+    fi
+
+    mkdir -p "$DIRECTIVES_DIR"
+    local delivered="$DIRECTIVES_DIR/iteration_${iteration}.md"
+    mv "$DIRECTIVE_FILE" "$delivered"
+
+    jq -n --argjson iteration "$iteration" --arg task "$task_id" \
+       --arg output "logs/iteration_${iteration}_task_${task_id}.md" \
+       '{iteration: $iteration, taskId: $task, deliveredAt: (now | strftime("%Y-%m-%dT%H:%M:%SZ")), output: $output}' \
+       > "$DIRECTIVES_DIR/iteration_${iteration}.json"
+
+    echo "$delivered"
+}
+
+record_usage() {
+    # Append the tokens and cost from a claude --output-format json result to USAGE_FILE,
+    # one line per model the run used, tagged with the task for the per-task budget
+    local result_file="$1"
+    local ref="$2"
+    local task_id="$3"
+
+    jq -c --arg source "worker" --arg ref "$ref" --arg model "$WORKER_MODEL" --arg task "$task_id" '
+        (now | strftime("%Y-%m-%dT%H:%M:%SZ")) as $at |
+        if (.modelUsage // {}) != {} then
+            .modelUsage | to_entries[] |
+            {at: $at, source: $source, ref: $ref, taskId: $task, model: .key,
+             inputTokens: (.value.inputTokens // 0), outputTokens: (.value.outputTokens // 0),
+             cacheCreationInputTokens: (.value.cacheCreationInputTokens // 0),
+             cacheReadInputTokens: (.value.cacheReadInputTokens // 0), costUsd: .value.costUSD}
+        else
+            {at: $at, source: $source, ref: $ref, taskId: $task, model: $model,
+             inputTokens: (.usage.input_tokens // 0), outputTokens: (.usage.output_tokens // 0),
+             cacheCreationInputTokens: (.usage.cache_creation_input_tokens // 0),
+             cacheReadInputTokens: (.usage.cache_read_input_tokens // 0), costUsd: .total_cost_usd}
+        end' "$result_file" >> "$USAGE_FILE"
+}
+
+save_claude_result() {
+    # Record the usage of a claude --output-format json run, then replace the JSON with the
+    # response text. Output that isn't a JSON result (a crash or a killed run) is left as it is.
+    local output_file="$1"
+    local ref="$2"
+    local task_id="$3"
+
+    if ! jq -e '.type == "result"' "$output_file" > /dev/null 2>&1; then
+        return 0
+    fi
+
+    record_usage "$output_file" "$ref" "$task_id" || log_warn "Could not record usage for $ref"
+    jq -r '.result // ""' "$output_file" > "$output_file.tmp" && mv "$output_file.tmp" "$output_file"
+}
+
+get_exceeded_budget() {
+    # Print the first config.json "budget" limit that spending has reached, as JSON (nothing if none).
+    # Limits are read on every check, so a raised limit applies without a restart.
+    # Spending comes from USAGE_FILE: today (local time), since RUN_STARTED_AT, and on the task.
+    # Entries without a reported cost are priced from their tokens like the dashboard's usage ledger
+    # (MODEL_PRICING in dashboard/lib/api/usage-ledger.ts; keep the two tables in step).
+    local task_id="$1"
+
+    if [[ ! -f "$CONFIG_FILE" ]]; then
+        return 0
+    fi
+
+    local usage_file="$USAGE_FILE"
+    [[ -f "$usage_file" ]] || usage_file=/dev/null
+
+    jq -R -s -c --slurpfile config "$CONFIG_FILE" --arg task "$task_id" \
+       --arg today "$(date +%Y-%m-%d)" --argjson run_started "$RUN_STARTED_AT" '
+        def at: (.at // "") | sub("\\.[0-9]+Z$"; "Z") | try fromdate catch 0;
+        def pricing: (.model // "" | ascii_downcase) as $model |
+            first([["opus-4-5", 5, 25], ["opus", 15, 75], ["haiku-4-5", 1, 5], ["haiku", 0.8, 4], ["sonnet", 3, 15]][] |
+                  select(.[0] as $match | $model | contains($match))) // ["sonnet", 3, 15];
+        def cost: if (.costUsd | type) == "number" then .costUsd else
+            pricing as $price |
+            (((.inputTokens // 0) + (.cacheCreationInputTokens // 0) * 1.25 + (.cacheReadInputTokens // 0) * 0.1) * $price[1]
+             + (.outputTokens // 0) * $price[2]) / 1000000 end;
+        def spend: {usd: (map(cost) | add // 0),
+                    tokens: (map((.inputTokens // 0) + (.outputTokens // 0) + (.cacheCreationInputTokens // 0)
+                                 + (.cacheReadInputTokens // 0)) | add // 0)};
+        [split("\n")[] | fromjson? | objects] as $usage |
+        (($config[0].budget | objects) // {}) as $budget |
+        {daily: ($usage | map(select(at > 0 and (at | strflocaltime("%Y-%m-%d")) == $today)) | spend),
+         run: ($usage | map(select(at >= $run_started)) | spend),
+         task: (if $task == "" then {usd: 0, tokens: 0} else $usage | map(select(.taskId == $task)) | spend end)} as $spent |
+        first(
+            ("daily", "run", "task") as $scope | ("usd", "tokens") as $metric |
+            (($budget[$scope] | objects | .[$metric] | numbers) // 0) as $limit |
+            select($limit > 0 and $spent[$scope][$metric] >= $limit) |
+            {scope: $scope, metric: $metric, limit: $limit, spent: $spent[$scope][$metric],
+             taskId: (if $scope == "task" then $task else null end)}
+        ) // empty' "$usage_file"
+}
+
+check_budget() {
+    # Returns 1 after pausing the worker when a budget limit is reached, 0 when within budget
+    local task_id="$1"
+
+    local exceeded
+    exceeded=$(get_exceeded_budget "$task_id") || {
+        log_warn "Could not check the budget; check config.json \"budget\""
+        return 0
+    }
+
+    if [[ -z "$exceeded" ]]; then
+        rm -f "$BUDGET_FILE"
+        return 0
+    fi
+
+    local reason=$(echo "$exceeded" | jq -r '
+        ({daily: "Daily", run: "Per-run", task: "Task \(.taskId)"})[.scope] as $what |
+        if .metric == "usd" then
+            "\($what) budget of $\(.limit) reached ($\(.spent * 100 | round / 100) spent)"
+        else
+            "\($what) budget of \(.limit) tokens reached (\(.spent) used)"
+        end')
+
+    echo "$exceeded" | jq --arg reason "$reason" \
+        '. + {reason: $reason, at: (now | strftime("%Y-%m-%dT%H:%M:%SZ"))}' > "$BUDGET_FILE"
+    # The same marker as the dashboard's pause: wait_while_paused holds until an operator resumes
+    jq -n '{requestedAt: (now | strftime("%Y-%m-%dT%H:%M:%SZ")), reason: "budget"}' > "$PAUSE_FILE"
+
+    log_error "💸 $reason; raise the limit in config.json \"budget\" and resume"
+    return 1
+}
+
+is_project_repo() {
+    # True if the project is its own git repository (not a subdirectory of another one)
+    local toplevel=$(git -C "$PROJECT_PATH" rev-parse --show-toplevel 2>/dev/null)
+    [[ -n "$toplevel" && "$toplevel" == "$(cd "$PROJECT_PATH" && pwd -P)" ]]
+}
+
+get_project_head() {
+    if is_project_repo; then
+        git -C "$PROJECT_PATH" rev-parse HEAD 2>/dev/null || true
+    fi
+}
+
+get_changed_files() {
+    # Project files changed since ITERATION_MARKER, one per line: commits made since $1 plus
+    # uncommitted changes made during the iteration (or modified files if the project has no git)
+    local head_before="$1"
+
+    if ! is_project_repo; then
+        (cd "$PROJECT_PATH" && find . -type f -newer "$ITERATION_MARKER" \
+            -not -path './.git/*' -not -path '*/node_modules/*' 2>/dev/null | sed 's|^\./||' | sort)
+        return 0
+    fi
+
+    {
+        if [[ -n "$head_before" ]]; then
+            git -C "$PROJECT_PATH" diff --name-only "$head_before" HEAD 2>/dev/null || true
+        fi
+        git -C "$PROJECT_PATH" status --porcelain --untracked-files=all 2>/dev/null | cut -c4- | sed 's/^.* -> //' |
+            while IFS= read -r file; do
+                if [[ ! -e "$PROJECT_PATH/$file" || "$PROJECT_PATH/$file" -nt "$ITERATION_MARKER" ]]; then
+                    echo "$file"
+                fi
+            done
+    } | sort -u
+}
+
+write_iteration_report() {
+    # Write iteration_N_report.meta.json, then the report: a summary of it followed by Claude's output
+    local iteration="$1"
+    local task_id="$2"
+    local task_title="$3"
+    local started_at="$4"
+    local outcome="$5"
+    local exit_code="$6"
+    local log_line="$7"
+    local changed_files="$8"
+
+    mkdir -p "$REPORTS_DIR"
+    local report="$REPORTS_DIR/iteration_${iteration}_report.md"
+    local meta="$REPORTS_DIR/iteration_${iteration}_report.meta.json"
+    local output="logs/iteration_${iteration}_task_${task_id}.md"
+
+    jq -n --argjson iteration "$iteration" --arg task "$task_id" --arg title "$task_title" \
+       --argjson started "$started_at" --argjson finished "$(date +%s)" \
+       --arg outcome "$outcome" --argjson exitCode "$exit_code" --arg files "$changed_files" \
+       --arg output "$output" --arg log "logs/$(basename "$LOG_FILE")" --argjson line "$log_line" \
+       '{iteration: $iteration, taskId: $task, taskTitle: $title,
+         startedAt: ($started | todate), finishedAt: ($finished | todate), durationSeconds: ($finished - $started),
+         outcome: $outcome, exitCode: $exitCode, filesChanged: ($files | split("\n") | map(select(length > 0))),
+         output: $output, log: {file: $log, line: $line}}' > "$meta"
+
+    {
+        jq -r '"# Iteration \(.iteration): Task \(.taskId) - \(.taskTitle)",
+               "",
+               "- **Outcome:** \(.outcome)",
+               "- **Started:** \(.startedAt)",
+               "- **Duration:** \(.durationSeconds / 60 | floor)m \(.durationSeconds % 60)s",
+               "- **Files changed:** \(.filesChanged | length)",
+               (.filesChanged[] | "  - `\(.)`"),
+               "",
+               "## Worker Output",
+               ""' "$meta"
+        cat "$INSTANCE_ROOT/$output" 2>/dev/null || true
+    } > "$report"
+}
+
 build_worker_prompt() {
     local task_json="$1"
+    local directive_file="$2"
     local iteration=$(get_iteration)
     local skills=$(load_skills)
 
@@ -207,6 +571,17 @@ $task_acceptance
 
 ## Previous Work Context
 $previous_work
+$(if [[ -n "$directive_file" ]]; then cat <<DIRECTIVE
+
+## Directive
+The following direction was given for this iteration. It takes priority over your usual approach:
+
+$(grep -v '^<!-- directive:' "$directive_file")
+
+Acknowledge it: include a line starting with \`DIRECTIVE ACKNOWLEDGED:\` in your final response,
+saying how you applied it (or why you couldn't).
+DIRECTIVE
+fi)
 
 ## Your Tasks This Iteration
 1. **Read Context**: Check $PROJECT_PATH/ for existing code and PROGRESS.md
@@ -240,13 +615,42 @@ Now begin working on Task $task_id.
 EOF
 }
 
+wait_while_paused() {
+    # Hold between iterations while a pause is requested (a stop request wins)
+    if [[ ! -f "$PAUSE_FILE" || -f "$STOP_FILE" ]]; then
+        return
+    fi
+
+    log_info "⏸️  Paused, waiting for resume..."
+    echo "paused" > "$STATUS_FILE"
+
+    while [[ -f "$PAUSE_FILE" && ! -f "$STOP_FILE" ]]; do
+        sleep "$PAUSE_POLL_INTERVAL"
+    done
+
+    if [[ ! -f "$STOP_FILE" ]]; then
+        log_info "▶️  Resumed"
+    fi
+    echo "running" > "$STATUS_FILE"
+}
+
 run_iteration() {
     local iteration=$(get_iteration)
+    # Where this iteration begins in the worker log, for the report's log slice
+    local log_line=$(( $(wc -l < "$LOG_FILE") + 1 ))
 
     log_info "=== Iteration $iteration ==="
 
     # Get next task
-    local task_json=$(get_next_task)
+    local task_json
+    local next_status=0
+    task_json=$(get_next_task) || next_status=$?
+    if [[ $next_status -eq 2 ]]; then
+        log_error "No runnable task: every remaining task is blocked by dependencies"
+        log_error "Run: node $SCHEDULER_CLI explain $TASKS_FILE"
+        echo "blocked" > "$STATUS_FILE"
+        return 1
+    fi
     if [[ -z "$task_json" ]]; then
         log_success "🎉 All tasks completed!"
         echo "completed" > "$STATUS_FILE"
@@ -257,12 +661,52 @@ run_iteration() {
     local task_title=$(echo "$task_json" | jq -r '.title')
 
     log_info "Working on Task $task_id: $task_title"
+    if [[ -s "$NEXT_TASK_REASON_FILE" ]]; then
+        log_info "Why: $(cat "$NEXT_TASK_REASON_FILE")"
+    fi
+
+    # The task's own budget can only be checked once it is picked
+    if ! check_budget "$task_id"; then
+        return 0
+    fi
 
     # Mark task as in progress
     mark_task_in_progress "$task_id"
 
-    # Build prompt
-    local prompt=$(build_worker_prompt "$task_json")
+    # Cap this run at whichever time limit comes first
+    local limit=""
+    local limit_seconds=""
+    if [[ $MAX_TASK_MINUTES -gt 0 ]]; then
+        limit="task"
+        limit_seconds=$(( MAX_TASK_MINUTES * 60 - $(get_task_elapsed "$task_id") ))
+    fi
+    local runtime_left=$(runtime_seconds_left)
+    if [[ -n "$runtime_left" ]] && [[ -z "$limit_seconds" || $runtime_left -lt $limit_seconds ]]; then
+        limit="runtime"
+        limit_seconds=$runtime_left
+    fi
+    if [[ -n "$limit_seconds" && $limit_seconds -le 0 ]]; then
+        handle_time_limit "$limit" "$task_id"
+        return $?
+    fi
+
+    local limiter=()
+    if [[ -n "$limit_seconds" ]]; then
+        if [[ -n "$TIMEOUT_CMD" ]]; then
+            # --foreground keeps timeout and claude in the worker's process group, so stopping the
+            # worker (the dashboard signals the whole group) stops claude too
+            limiter=("$TIMEOUT_CMD" --foreground --kill-after=30 "$limit_seconds")
+        else
+            log_warn "timeout not found; time limits are only checked between iterations"
+        fi
+    fi
+
+    # Deliver any pending directive, then build the prompt
+    local directive_file=$(deliver_directive "$iteration" "$task_id")
+    if [[ -n "$directive_file" ]]; then
+        log_info "Delivering directive: $directive_file"
+    fi
+    local prompt=$(build_worker_prompt "$task_json" "$directive_file")
 
     # Run Claude
     log_info "Invoking Claude ($WORKER_MODEL)..."
@@ -273,24 +717,51 @@ run_iteration() {
     # Save prompt to file
     echo "$prompt" > "$prompt_file"
 
-    # Run Claude interactively (allows tool use) with prompt from file, bypass permissions
-    cd "$PROJECT_PATH" && echo "$prompt" | claude --model "$WORKER_MODEL" \
+    touch "$ITERATION_MARKER"
+    local head_before=$(get_project_head)
+
+    # Run Claude non-interactively (allows tool use) with prompt from file, bypass permissions.
+    # The JSON result carries the token usage; save_claude_result turns it back into the response text.
+    # stderr goes to the log so the output file stays a parseable JSON result.
+    local iteration_started_at=$(date +%s)
+    local claude_exit_code=0
+    cd "$PROJECT_PATH" && echo "$prompt" | "${limiter[@]}" claude -p --output-format json \
+        --model "$WORKER_MODEL" \
         --dangerously-skip-permissions \
         --add-dir "$PROJECT_PATH" \
         --add-dir "$INSTANCE_ROOT" \
         --add-dir "$STATE_DIR" \
-        > "$output_file" 2>&1
+        > "$output_file" 2>> "$LOG_FILE" || claude_exit_code=$?
+
+    add_task_elapsed "$task_id" $(( $(date +%s) - iteration_started_at ))
+    save_claude_result "$output_file" "iteration $iteration" "$task_id"
+
+    # timeout exits 124, or 137 if it had to SIGKILL
+    local complete_file="$STATE_DIR/TASK_${task_id}_COMPLETE"
+    local outcome="in_progress"
+    if [[ ${#limiter[@]} -gt 0 ]] && [[ $claude_exit_code -eq 124 || $claude_exit_code -eq 137 ]]; then
+        outcome="timed_out"
+    elif [[ $claude_exit_code -ne 0 ]]; then
+        outcome="failed"
+    elif [[ -f "$complete_file" ]]; then
+        outcome="completed"
+    fi
 
-    local claude_exit_code=$?
+    write_iteration_report "$iteration" "$task_id" "$task_title" "$iteration_started_at" "$outcome" \
+        "$claude_exit_code" "$log_line" "$(get_changed_files "$head_before")" \
+        || log_warn "Could not write the report for iteration $iteration"
+
+    if [[ "$outcome" == "timed_out" ]]; then
+        handle_time_limit "$limit" "$task_id"
+        return $?
+    fi
 
-    if [ $claude_exit_code -ne 0 ]; then
+    if [[ "$outcome" == "failed" ]]; then
         log_error "Claude invocation failed with exit code $claude_exit_code"
         return 1
     fi
 
-    # Check if task was completed
-    local complete_file="$STATE_DIR/TASK_${task_id}_COMPLETE"
-    if [[ -f "$complete_file" ]]; then
+    if [[ "$outcome" == "completed" ]]; then
         mark_task_completed "$task_id"
         rm "$complete_file"
     fi
@@ -307,10 +778,36 @@ main() {
     log_info "Model: $WORKER_MODEL"
     log_info "Max Iterations: $MAX_ITERATIONS"
     log_info "Tasks File: $TASKS_FILE"
+    log_info "Scheduler: $SCHEDULER_CLI"
+    if [[ $MAX_RUNTIME_MINUTES -gt 0 ]]; then
+        log_info "Runtime Limit: ${MAX_RUNTIME_MINUTES}m"
+    fi
+    if [[ $MAX_TASK_MINUTES -gt 0 ]]; then
+        log_info "Task Limit: ${MAX_TASK_MINUTES}m"
+    fi
     echo ""
 
     local iteration=0
     while [[ $iteration -lt $MAX_ITERATIONS ]]; do
+        wait_while_paused
+
+        if [[ -f "$STOP_FILE" ]]; then
+            log_info "Stop requested, exiting between iterations"
+            # A drained instance starts unpaused, as after a stop
+            rm -f "$STOP_FILE" "$PAUSE_FILE"
+            break
+        fi
+
+        local runtime_left=$(runtime_seconds_left)
+        if [[ -n "$runtime_left" && $runtime_left -le 0 ]]; then
+            handle_time_limit runtime "" || true
+            break
+        fi
+
+        if ! check_budget ""; then
+            continue
+        fi
+
         if ! run_iteration; then
             break
         fi